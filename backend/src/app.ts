@@ -4,15 +4,37 @@ import accountRoutes from './routes/account';
 import transactionRoutes from './routes/transaction';
 import categoryRoutes from './routes/category';
 import syncRoutes from './routes/sync';
+import budgetRoutes from './routes/budget';
+import tagRoutes from './routes/tag';
+import payeeRoutes from './routes/payee';
+import ruleRoutes from './routes/rule';
+import attachmentRoutes from './routes/attachment';
+import recurringTransactionRoutes from './routes/recurringTransaction';
+import authRoutes from './routes/auth';
+import householdRoutes from './routes/household';
+import exchangeRateRoutes from './routes/exchangeRate';
+import importRoutes from './routes/import';
+import backupRoutes from './routes/backup';
+import reportRoutes from './routes/report';
+import adminRoutes from './routes/admin';
 import { languageMiddleware } from './middleware/language';
+import { authenticate } from './middleware/auth';
 
 const app = express();
 
+// Comma-separated list of allowed origins; no cross-origin requests are allowed when unset
+// (the mobile app sends no Origin header, so only browsers are affected)
+const allowedOrigins = (process.env.CORS_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+
 // CORS middleware
 app.use((req, res, next) => {
-  res.header('Access-Control-Allow-Origin', '*');
+  const origin = req.headers.origin;
+  if (origin && allowedOrigins.includes(origin)) {
+    res.header('Access-Control-Allow-Origin', origin);
+    res.header('Vary', 'Origin');
+  }
   res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, X-Device-Id');
   
   // Handle preflight requests
   if (req.method === 'OPTIONS') {
@@ -23,11 +45,27 @@ app.use((req, res, next) => {
   next();
 });
 
-app.use(express.json());
+// Statement imports and backup restores send the whole file in the body
+app.use(express.json({ limit: '10mb' }));
 app.use(languageMiddleware);
+app.use('/api', authRoutes);
+// Everything below requires an authenticated user
+app.use('/api', authenticate);
+app.use('/api', householdRoutes);
 app.use('/api', accountRoutes);
 app.use('/api', transactionRoutes);
 app.use('/api', categoryRoutes);
+app.use('/api', budgetRoutes);
+app.use('/api', tagRoutes);
+app.use('/api', payeeRoutes);
+app.use('/api', ruleRoutes);
+app.use('/api', attachmentRoutes);
+app.use('/api', recurringTransactionRoutes);
+app.use('/api', exchangeRateRoutes);
+app.use('/api', importRoutes);
+app.use('/api', backupRoutes);
+app.use('/api', reportRoutes);
+app.use('/api', adminRoutes);
 app.use('/api/sync', syncRoutes);
 
 // MongoDB connection
@@ -0,0 +1,198 @@
+const mockSave = jest.fn();
+jest.mock('../../models/attachment', () => {
+  const MockAttachment = function(data: any) {
+    return {
+      ...data,
+      save: mockSave,
+      toObject: () => ({ ...data })
+    };
+  };
+
+  MockAttachment.find = jest.fn();
+  MockAttachment.findOne = jest.fn();
+  MockAttachment.findOneAndDelete = jest.fn();
+  MockAttachment.countDocuments = jest.fn();
+
+  return MockAttachment;
+});
+
+jest.mock('../../models/transaction', () => {
+  const MockTransaction = function() {};
+  MockTransaction.findOne = jest.fn();
+  MockTransaction.updateOne = jest.fn();
+
+  return MockTransaction;
+});
+
+jest.mock('../../utils/dbTransaction', () => ({
+  runInTransaction: jest.fn((fn: any) => fn('session'))
+}));
+
+const mockStorage = { put: jest.fn(), get: jest.fn(), delete: jest.fn() };
+jest.mock('../../utils/attachmentStorage', () => ({
+  getAttachmentStorage: () => mockStorage
+}));
+
+import { Request, Response } from 'express';
+import attachmentController from '../attachment';
+import Attachment from '../../models/attachment';
+import Transaction from '../../models/transaction';
+
+const transactionId = '507f1f77bcf86cd799439031';
+const attachmentId = '507f1f77bcf86cd799439041';
+const householdId = '507f1f77bcf86cd799439099';
+const pdf = Buffer.from('%PDF-1.7 receipt').toString('base64');
+
+describe('Attachment Controller', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+
+  beforeEach(() => {
+    req = {
+      body: {},
+      params: { id: transactionId },
+      query: {},
+      headers: {},
+      lang: 'en',
+      user: { id: 'user123', email: 'jane@example.com', householdId }
+    };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+      attachment: jest.fn().mockReturnThis(),
+      type: jest.fn().mockReturnThis(),
+      send: jest.fn()
+    };
+    jest.clearAllMocks();
+    (Transaction.findOne as jest.Mock).mockResolvedValue({ _id: transactionId });
+  });
+
+  describe('post', () => {
+    it('should store the file and count it on the transaction', async () => {
+      req.body = { filename: 'receipt.pdf', contentType: 'application/pdf', data: pdf };
+      (Attachment.countDocuments as jest.Mock).mockResolvedValue(2);
+      mockSave.mockResolvedValue(undefined);
+
+      await attachmentController.post(req as Request, res as Response);
+
+      const key = mockStorage.put.mock.calls[0][0];
+      expect(key).toMatch(new RegExp(`^${householdId}/${transactionId}/[0-9a-f]{24}$`));
+      expect(mockStorage.put).toHaveBeenCalledWith(key, Buffer.from('%PDF-1.7 receipt'), 'application/pdf');
+      expect(mockSave).toHaveBeenCalledWith({ session: 'session' });
+      expect(Transaction.updateOne).toHaveBeenCalledWith(
+        { _id: transactionId, householdId },
+        expect.objectContaining({ $inc: { attachmentCount: 1, syncVersion: 1 } }),
+        { session: 'session' }
+      );
+      expect(res.status).toHaveBeenCalledWith(201);
+      const { data, message } = (res.json as jest.Mock).mock.calls[0][0];
+      expect(data).toEqual(expect.objectContaining({ filename: 'receipt.pdf', size: 16, transaction: transactionId }));
+      expect(data.key).toBeUndefined();
+      expect(message).toBe('Attachment uploaded successfully');
+    });
+
+    it('should reject files whose content does not match their type', async () => {
+      req.body = { filename: 'receipt.png', contentType: 'image/png', data: pdf };
+
+      await attachmentController.post(req as Request, res as Response);
+
+      expect(mockStorage.put).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'The file content does not match its type' });
+    });
+
+    it('should reject files over 4 MB before storing them', async () => {
+      const file = Buffer.alloc(4 * 1024 * 1024 + 1);
+      Buffer.from('%PDF-1.7').copy(file);
+      req.body = { filename: 'scan.pdf', contentType: 'application/pdf', data: file.toString('base64') };
+
+      await attachmentController.post(req as Request, res as Response);
+
+      expect(mockStorage.put).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(413);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Attachments can be at most 4 MB' });
+    });
+
+    it('should reject unsupported types and transactions that are full', async () => {
+      req.body = { filename: 'page.html', contentType: 'text/html', data: pdf };
+      await attachmentController.post(req as Request, res as Response);
+      expect(res.status).toHaveBeenCalledWith(415);
+
+      req.body = { filename: 'receipt.pdf', contentType: 'application/pdf', data: pdf };
+      (Attachment.countDocuments as jest.Mock).mockResolvedValue(10);
+      await attachmentController.post(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenLastCalledWith(400);
+      expect(res.json).toHaveBeenLastCalledWith({ error: 'A transaction can have at most 10 attachments' });
+      expect(mockStorage.put).not.toHaveBeenCalled();
+    });
+
+    it('should remove the stored file when saving the record fails', async () => {
+      req.body = { filename: 'receipt.pdf', contentType: 'application/pdf', data: pdf };
+      (Attachment.countDocuments as jest.Mock).mockResolvedValue(0);
+      mockStorage.delete.mockResolvedValue(undefined);
+      mockSave.mockRejectedValue(new Error('write conflict'));
+
+      await attachmentController.post(req as Request, res as Response);
+
+      expect(mockStorage.delete).toHaveBeenCalledWith(mockStorage.put.mock.calls[0][0]);
+      expect(res.status).toHaveBeenCalledWith(500);
+    });
+
+    it('should return 404 when the transaction does not exist', async () => {
+      req.body = { filename: 'receipt.pdf', contentType: 'application/pdf', data: pdf };
+      (Transaction.findOne as jest.Mock).mockResolvedValue(null);
+
+      await attachmentController.post(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Transaction not found' });
+    });
+  });
+
+  describe('download', () => {
+    it('should send the stored file with its name and type', async () => {
+      req.params = { id: transactionId, attachmentId };
+      (Attachment.findOne as jest.Mock).mockResolvedValue({
+        filename: 'receipt.pdf', contentType: 'application/pdf', key: 'stored-key'
+      });
+      mockStorage.get.mockResolvedValue(Buffer.from('%PDF-'));
+
+      await attachmentController.download(req as Request, res as Response);
+
+      expect(Attachment.findOne).toHaveBeenCalledWith({ _id: attachmentId, transaction: transactionId, householdId });
+      expect(mockStorage.get).toHaveBeenCalledWith('stored-key');
+      expect(res.attachment).toHaveBeenCalledWith('receipt.pdf');
+      expect(res.type).toHaveBeenCalledWith('application/pdf');
+      expect(res.send).toHaveBeenCalledWith(Buffer.from('%PDF-'));
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete the record, its file and uncount it', async () => {
+      req.params = { id: transactionId, attachmentId };
+      (Attachment.findOneAndDelete as jest.Mock).mockResolvedValue({ _id: attachmentId, key: 'stored-key' });
+
+      await attachmentController.delete(req as Request, res as Response);
+
+      expect(Transaction.updateOne).toHaveBeenCalledWith(
+        { _id: transactionId, householdId },
+        expect.objectContaining({ $inc: { attachmentCount: -1, syncVersion: 1 } }),
+        { session: 'session' }
+      );
+      expect(mockStorage.delete).toHaveBeenCalledWith('stored-key');
+      expect(res.json).toHaveBeenCalledWith({ message: 'Attachment deleted successfully' });
+    });
+
+    it('should return 404 when the attachment does not exist', async () => {
+      req.params = { id: transactionId, attachmentId };
+      (Attachment.findOneAndDelete as jest.Mock).mockResolvedValue(null);
+
+      await attachmentController.delete(req as Request, res as Response);
+
+      expect(Transaction.updateOne).not.toHaveBeenCalled();
+      expect(mockStorage.delete).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(404);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+const mockSave = jest.fn();
+jest.mock('../../models/user', () => {
+  const MockUser = function(data: any) {
+    return {
+      ...data,
+      _id: 'user123',
+      tokenVersion: 0,
+      save: mockSave
+    };
+  };
+
+  MockUser.findOne = jest.fn();
+  MockUser.findById = jest.fn();
+  MockUser.findByIdAndUpdate = jest.fn();
+
+  return MockUser;
+});
+
+jest.mock('../../utils/household', () => ({
+  ensureHousehold: jest.fn(async (user: any) => {
+    user.householdId = user.householdId || 'household123';
+    return user.householdId;
+  })
+}));
+
+import { Request, Response } from 'express';
+import authController from '../auth';
+import User from '../../models/user';
+import { hashPassword, issueTokens } from '../../utils/auth';
+
+describe('Auth Controller', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-access-secret';
+    process.env.JWT_REFRESH_SECRET = 'test-refresh-secret';
+  });
+
+  beforeEach(() => {
+    req = {
+      body: {},
+      params: {},
+      headers: {},
+      lang: 'en'
+    };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    jest.clearAllMocks();
+  });
+
+  describe('register', () => {
+    it('should create a user and return tokens without the password hash', async () => {
+      req.body = { email: 'Jane@Example.com', password: 'secret123', name: 'Jane' };
+      (User.findOne as jest.Mock).mockResolvedValue(null);
+      mockSave.mockResolvedValue(undefined);
+
+      await authController.register(req as Request, res as Response);
+
+      expect(User.findOne).toHaveBeenCalledWith({ email: 'jane@example.com' });
+      expect(res.status).toHaveBeenCalledWith(201);
+      const response = (res.json as jest.Mock).mock.calls[0][0];
+      expect(response.data.user).toEqual({ id: 'user123', email: 'jane@example.com', name: 'Jane', householdId: 'household123' });
+      expect(response.data.accessToken).toEqual(expect.any(String));
+      expect(response.data.refreshToken).toEqual(expect.any(String));
+    });
+
+    it('should return 409 when the email is already registered', async () => {
+      req.body = { email: 'jane@example.com', password: 'secret123' };
+      (User.findOne as jest.Mock).mockResolvedValue({ _id: 'user123' });
+
+      await authController.register(req as Request, res as Response);
+
+      expect(mockSave).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(409);
+    });
+  });
+
+  describe('login', () => {
+    it('should reject a wrong password', async () => {
+      req.body = { email: 'jane@example.com', password: 'wrong-password' };
+      (User.findOne as jest.Mock).mockResolvedValue({
+        _id: 'user123',
+        email: 'jane@example.com',
+        passwordHash: await hashPassword('secret123')
+      });
+
+      await authController.login(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Invalid email or password' });
+    });
+  });
+
+  describe('refresh', () => {
+    it('should reject a refresh token revoked by a newer token version', async () => {
+      const { refreshToken } = issueTokens({ id: 'user123', email: 'jane@example.com', householdId: 'household123', tokenVersion: 0 });
+      req.body = { refreshToken };
+      (User.findById as jest.Mock).mockResolvedValue({ _id: 'user123', email: 'jane@example.com', householdId: 'household123', tokenVersion: 1 });
+
+      await authController.refresh(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+    });
+
+    it('should issue new tokens for a valid refresh token', async () => {
+      const { refreshToken } = issueTokens({ id: 'user123', email: 'jane@example.com', householdId: 'household123', tokenVersion: 2 });
+      req.body = { refreshToken };
+      (User.findById as jest.Mock).mockResolvedValue({ _id: 'user123', email: 'jane@example.com', householdId: 'household123', tokenVersion: 2 });
+
+      await authController.refresh(req as Request, res as Response);
+
+      expect(res.status).not.toHaveBeenCalled();
+      const response = (res.json as jest.Mock).mock.calls[0][0];
+      expect(response.data.accessToken).toEqual(expect.any(String));
+    });
+  });
+});
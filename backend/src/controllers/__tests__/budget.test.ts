@@ -0,0 +1,198 @@
+const mockSave = jest.fn();
+jest.mock('../../models/budget', () => {
+  const MockBudget = function(data: any) {
+    return {
+      ...data,
+      _id: 'budget123',
+      save: mockSave,
+      toObject: () => ({ ...data, _id: 'budget123' })
+    };
+  };
+
+  MockBudget.find = jest.fn();
+  MockBudget.findOne = jest.fn();
+  MockBudget.findByIdAndUpdate = jest.fn();
+  MockBudget.findOneAndUpdate = jest.fn();
+
+  return MockBudget;
+});
+
+jest.mock('../../models/category', () => {
+  const MockCategory = function() {};
+  MockCategory.findOne = jest.fn();
+
+  return {
+    __esModule: true,
+    default: MockCategory,
+    getAllDescendantIds: jest.fn()
+  };
+});
+
+jest.mock('../../models/transaction', () => {
+  const MockTransaction = function() {};
+  MockTransaction.aggregate = jest.fn();
+
+  return MockTransaction;
+});
+
+import { Request, Response } from 'express';
+import budgetController from '../budget';
+import Budget from '../../models/budget';
+import Category, { getAllDescendantIds } from '../../models/category';
+import Transaction from '../../models/transaction';
+
+const categoryId = '507f1f77bcf86cd799439011';
+const childCategoryId = '507f1f77bcf86cd799439012';
+const householdId = '507f1f77bcf86cd799439099';
+
+function mockBudgetDoc(data: any) {
+  return {
+    ...data,
+    _id: data._id || 'budget123',
+    toObject: () => ({ ...data, _id: data._id || 'budget123' })
+  };
+}
+
+describe('Budget Controller', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+
+  beforeEach(() => {
+    req = {
+      body: {},
+      params: {},
+      query: {},
+      headers: {},
+      lang: 'en',
+      user: { id: 'user123', email: 'jane@example.com', householdId }
+    };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    jest.clearAllMocks();
+  });
+
+  describe('post', () => {
+    it('should create a budget for an existing category', async () => {
+      req.body = { category: categoryId, amount: 5000, startDate: '2026-01-01' };
+      (Category.findOne as jest.Mock).mockResolvedValue({ _id: categoryId });
+      mockSave.mockResolvedValue(undefined);
+
+      await budgetController.post(req as Request, res as Response);
+
+      expect(mockSave).toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ id: 'budget123', amount: 5000 }),
+        message: 'Budget created successfully'
+      }));
+    });
+
+    it('should return 404 when the category does not exist', async () => {
+      req.body = { category: categoryId, amount: 5000, startDate: '2026-01-01' };
+      (Category.findOne as jest.Mock).mockResolvedValue(null);
+
+      await budgetController.post(req as Request, res as Response);
+
+      expect(mockSave).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Category not found' });
+    });
+
+    it('should only look up the category inside the caller household', async () => {
+      req.body = { category: categoryId, amount: 5000, startDate: '2026-01-01' };
+      (Category.findOne as jest.Mock).mockResolvedValue({ _id: categoryId });
+      mockSave.mockResolvedValue(undefined);
+
+      await budgetController.post(req as Request, res as Response);
+
+      expect(Category.findOne).toHaveBeenCalledWith({ _id: categoryId, householdId });
+      const response = (res.json as jest.Mock).mock.calls[0][0];
+      expect(response.data.householdId).toBe(householdId);
+    });
+  });
+
+  describe('get', () => {
+    it('should return 404 when budget is not found', async () => {
+      req.params = { id: 'budget123' };
+      (Budget.findOne as jest.Mock).mockResolvedValue(null);
+
+      await budgetController.get(req as Request, res as Response);
+
+      expect(Budget.findOne).toHaveBeenCalledWith({ _id: 'budget123', householdId, isDeleted: { $ne: true } });
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Budget not found' });
+    });
+  });
+
+  describe('progress', () => {
+    it('should report spending against each budget for the month', async () => {
+      req.query = { month: '2026-03' };
+      const budget = mockBudgetDoc({
+        category: categoryId,
+        amount: 1000,
+        period: 'monthly',
+        includeSubcategories: true
+      });
+      (Budget.find as jest.Mock).mockReturnValue({
+        populate: jest.fn().mockResolvedValue([budget])
+      });
+      (getAllDescendantIds as jest.Mock).mockResolvedValue([categoryId, childCategoryId]);
+      (Transaction.aggregate as jest.Mock).mockResolvedValue([{ _id: null, total: 1250, count: 5 }]);
+
+      await budgetController.progress(req as Request, res as Response);
+
+      expect(getAllDescendantIds).toHaveBeenCalledWith(householdId, categoryId);
+      const pipeline = (Transaction.aggregate as jest.Mock).mock.calls[0][0];
+      expect(pipeline[0].$match.transactionDate).toEqual({
+        $gte: new Date(Date.UTC(2026, 2, 1)),
+        $lte: new Date(Date.UTC(2026, 2, 31, 23, 59, 59, 999))
+      });
+      expect(pipeline[0].$match.$or[0].category.$in).toHaveLength(2);
+      expect(pipeline[0].$match.$or[1]['splits.category'].$in).toHaveLength(2);
+      expect(pipeline[0].$match.isDeleted).toEqual({ $ne: true });
+      expect(pipeline[0].$match.householdId.toString()).toBe(householdId);
+
+      const response = (res.json as jest.Mock).mock.calls[0][0];
+      expect(response.month).toBe('2026-03');
+      expect(response.budgets[0]).toEqual(expect.objectContaining({
+        spent: 1250,
+        remaining: -250,
+        percentUsed: 125,
+        transactionCount: 5,
+        overBudget: true
+      }));
+      expect(response.totals).toEqual({ budgeted: 1000, spent: 1250 });
+    });
+
+    it('should only count the budget category when subcategories are excluded', async () => {
+      req.query = { month: '2026-03' };
+      const budget = mockBudgetDoc({
+        category: categoryId,
+        amount: 1000,
+        period: 'yearly',
+        includeSubcategories: false
+      });
+      (Budget.find as jest.Mock).mockReturnValue({
+        populate: jest.fn().mockResolvedValue([budget])
+      });
+      (Transaction.aggregate as jest.Mock).mockResolvedValue([]);
+
+      await budgetController.progress(req as Request, res as Response);
+
+      expect(getAllDescendantIds).not.toHaveBeenCalled();
+      const pipeline = (Transaction.aggregate as jest.Mock).mock.calls[0][0];
+      expect(pipeline[0].$match.transactionDate.$gte).toEqual(new Date(Date.UTC(2026, 0, 1)));
+      expect(pipeline[0].$match.$or[0].category.$in).toHaveLength(1);
+
+      const response = (res.json as jest.Mock).mock.calls[0][0];
+      expect(response.budgets[0]).toEqual(expect.objectContaining({
+        spent: 0,
+        remaining: 1000,
+        percentUsed: 0,
+        overBudget: false
+      }));
+    });
+  });
+});
@@ -9,12 +9,26 @@ jest.mock('../../models/category', () => {
   
   MockCategory.find = jest.fn();
   MockCategory.findById = jest.fn();
+  MockCategory.findOne = jest.fn();
   MockCategory.findByIdAndUpdate = jest.fn();
   MockCategory.findByIdAndDelete = jest.fn();
+  MockCategory.findOneAndUpdate = jest.fn();
   
   return MockCategory;
 });
 
+jest.mock('../../utils/dbTransaction', () => ({
+  runInTransaction: jest.fn((fn: any) => fn('session'))
+}));
+
+jest.mock('../../utils/categories', () => ({
+  ...jest.requireActual('../../utils/categories'),
+  isInSubtree: jest.fn(),
+  moveCategoryContents: jest.fn(),
+  moveCategorySubtree: jest.fn(),
+  moveTargetError: jest.fn()
+}));
+
 jest.mock('../../models/transaction', () => {
   const MockTransaction = function(data: any) {
     return {
@@ -34,13 +48,17 @@ import mongoose from 'mongoose';
 import categoryController from '../category';
 import Category from '../../models/category';
 import Transaction from '../../models/transaction';
+import { isInSubtree, moveCategoryContents, moveCategorySubtree, moveTargetError } from '../../utils/categories';
+
+const householdId = '507f1f77bcf86cd799439099';
+const user = { id: 'user123', email: 'jane@example.com', householdId };
 
 describe('Category Controller', () => {
   let req: Partial<Request>;
   let res: Partial<Response>;
 
   beforeEach(() => {
-    req = {};
+    req = { user };
     res = {
       status: jest.fn().mockReturnThis(),
       json: jest.fn(),
@@ -88,22 +106,22 @@ describe('Category Controller', () => {
       const mockCategory = { _id: '123', name: 'Electronics' };
       req.params = { id: '123' };
       
-      (Category.findById as jest.Mock).mockResolvedValue(mockCategory);
+      (Category.findOne as jest.Mock).mockResolvedValue(mockCategory);
       
       await categoryController.get(req as Request, res as Response);
       
-      expect(Category.findById).toHaveBeenCalledWith('123');
+      expect(Category.findOne).toHaveBeenCalledWith({ _id: '123', householdId });
       expect(res.json).toHaveBeenCalledWith(mockCategory);
     });
 
     it('should return 404 when category is not found', async () => {
       req.params = { id: '123' };
       
-      (Category.findById as jest.Mock).mockResolvedValue(null);
+      (Category.findOne as jest.Mock).mockResolvedValue(null);
       
       await categoryController.get(req as Request, res as Response);
       
-      expect(Category.findById).toHaveBeenCalledWith('123');
+      expect(Category.findOne).toHaveBeenCalledWith({ _id: '123', householdId });
       expect(res.status).toHaveBeenCalledWith(404);
       expect(res.json).toHaveBeenCalledWith({ error: 'Category not found' });
     });
@@ -112,11 +130,11 @@ describe('Category Controller', () => {
       req.params = { id: '123' };
       const errorMessage = 'Server error';
       
-      (Category.findById as jest.Mock).mockRejectedValue(new Error(errorMessage));
+      (Category.findOne as jest.Mock).mockRejectedValue(new Error(errorMessage));
       
       await categoryController.get(req as Request, res as Response);
       
-      expect(Category.findById).toHaveBeenCalledWith('123');
+      expect(Category.findOne).toHaveBeenCalledWith({ _id: '123', householdId });
       expect(res.status).toHaveBeenCalledWith(500);
       expect(res.json).toHaveBeenCalledWith({ error: errorMessage });
     });
@@ -126,7 +144,8 @@ describe('Category Controller', () => {
     beforeEach(() => {
       req = {
         query: {},
-        lang: 'en'
+        lang: 'en',
+        user
       };
       jest.clearAllMocks();
       
@@ -368,63 +387,265 @@ describe('Category Controller', () => {
   });
 
   describe('delete', () => {
-    it('should delete a category and return success message', async () => {
-      const mockCategory = { _id: '123', name: 'Electronics' };
-      req.params = { id: '123' };
+    const categoryId = '507f1f77bcf86cd799439011';
+    const targetId = '507f1f77bcf86cd799439012';
+
+    beforeEach(() => {
+      req.params = { id: categoryId };
+      req.query = {};
+      req.lang = 'en';
+      req.headers = {};
+    });
+
+    it('should soft delete a category and return success message', async () => {
+      const mockCategory = { _id: categoryId, name: 'Electronics', syncVersion: 1 };
       
       (Category.find as jest.Mock).mockResolvedValue([]);
-      (Category.findByIdAndDelete as jest.Mock).mockResolvedValue(mockCategory);
+      (Category.findOne as jest.Mock).mockResolvedValue(mockCategory);
+      (Category.findOneAndUpdate as jest.Mock).mockResolvedValue({ ...mockCategory, isDeleted: true });
       
       await categoryController.delete(req as Request, res as Response);
       
-      expect(Category.find).toHaveBeenCalledWith({ parent: '123' });
-      expect(Category.findByIdAndDelete).toHaveBeenCalledWith('123');
+      expect(Category.find).toHaveBeenCalledWith({ parent: categoryId, householdId, isDeleted: { $ne: true } });
+      expect(Category.findOneAndUpdate).toHaveBeenCalledWith(
+        { householdId, _id: categoryId, isDeleted: { $ne: true } },
+        expect.objectContaining({ isDeleted: true, deletedAt: expect.any(Date), syncVersion: 2 }),
+        { new: true, session: 'session' }
+      );
+      expect(moveCategoryContents).not.toHaveBeenCalled();
       expect(res.json).toHaveBeenCalledWith({ message: 'Category deleted successfully' });
     });
 
     it('should return 404 when category is not found', async () => {
-      req.params = { id: '123' };
-      
       (Category.find as jest.Mock).mockResolvedValue([]);
-      (Category.findByIdAndDelete as jest.Mock).mockResolvedValue(null);
+      (Category.findOne as jest.Mock).mockResolvedValue(null);
       
       await categoryController.delete(req as Request, res as Response);
       
-      expect(Category.findByIdAndDelete).toHaveBeenCalledWith('123');
+      expect(Category.findOne).toHaveBeenCalledWith({ _id: categoryId, householdId, isDeleted: { $ne: true } });
       expect(res.status).toHaveBeenCalledWith(404);
       expect(res.json).toHaveBeenCalledWith({ error: 'Category not found' });
     });
 
     it('should return 400 when trying to delete a category with subcategories', async () => {
-      req.params = { id: '123' };
-      
       (Category.find as jest.Mock).mockResolvedValue([
-        { _id: '456', name: 'Subcategory', parent: '123' }
+        { _id: '456', name: 'Subcategory', parent: categoryId }
       ]);
       
       await categoryController.delete(req as Request, res as Response);
       
-      expect(Category.find).toHaveBeenCalledWith({ parent: '123' });
+      expect(Category.find).toHaveBeenCalledWith({ parent: categoryId, householdId, isDeleted: { $ne: true } });
       expect(res.status).toHaveBeenCalledWith(400);
       expect(res.json).toHaveBeenCalled();
       const jsonArg = (res.json as jest.Mock).mock.calls[0][0];
       expect(jsonArg.error).toContain('Cannot delete category with subcategories');
     });
 
+    it('should move transactions and subcategories to the target before deleting', async () => {
+      req.query = { moveTo: targetId };
+      (Category.findOne as jest.Mock)
+        .mockResolvedValueOnce({ _id: categoryId, name: 'Coffee', type: 'Expense', syncVersion: 3 })
+        .mockResolvedValueOnce({ _id: targetId, name: 'Dining', type: 'Expense' })
+        .mockResolvedValueOnce({ _id: categoryId, syncVersion: 3 });
+      (isInSubtree as jest.Mock).mockResolvedValue(false);
+      (Category.findOneAndUpdate as jest.Mock).mockResolvedValue({});
+      
+      await categoryController.delete(req as Request, res as Response);
+      
+      expect(Category.find).not.toHaveBeenCalled();
+      expect(isInSubtree).toHaveBeenCalledWith(householdId, targetId, categoryId);
+      expect(moveCategoryContents).toHaveBeenCalledWith(householdId, categoryId, targetId, expect.any(String), 'session');
+      expect(Category.findOneAndUpdate).toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalledWith({ message: 'Category deleted successfully' });
+    });
+
+    it('should reject a target of the other type or inside the deleted category', async () => {
+      req.query = { moveTo: targetId };
+      (Category.findOne as jest.Mock)
+        .mockResolvedValueOnce({ _id: categoryId, name: 'Coffee', type: 'Expense' })
+        .mockResolvedValueOnce({ _id: targetId, name: 'Salary', type: 'Income' });
+      
+      await categoryController.delete(req as Request, res as Response);
+      
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Income and expense categories cannot be mixed' });
+
+      (Category.findOne as jest.Mock)
+        .mockResolvedValueOnce({ _id: categoryId, name: 'Coffee', type: 'Expense' })
+        .mockResolvedValueOnce({ _id: targetId, name: 'Espresso', type: 'Expense', parent: categoryId });
+      (isInSubtree as jest.Mock).mockResolvedValue(true);
+      
+      await categoryController.delete(req as Request, res as Response);
+      
+      expect(res.json).toHaveBeenLastCalledWith({ error: 'A category cannot be merged into one of its own subcategories' });
+      expect(moveCategoryContents).not.toHaveBeenCalled();
+    });
+
     it('should return 500 when there is a server error', async () => {
-      req.params = { id: '123' };
       const errorMessage = 'Server error';
       
       (Category.find as jest.Mock).mockRejectedValue(new Error(errorMessage));
       
       await categoryController.delete(req as Request, res as Response);
       
-      expect(Category.find).toHaveBeenCalledWith({ parent: '123' });
+      expect(Category.find).toHaveBeenCalledWith({ parent: categoryId, householdId, isDeleted: { $ne: true } });
       expect(res.status).toHaveBeenCalledWith(500);
       expect(res.json).toHaveBeenCalledWith({ error: errorMessage });
     });
   });
 
+  describe('merge', () => {
+    const categoryId = '507f1f77bcf86cd799439011';
+    const targetId = '507f1f77bcf86cd799439012';
+
+    beforeEach(() => {
+      req.params = { id: categoryId };
+      req.body = { into: targetId };
+      req.lang = 'en';
+      req.headers = {};
+    });
+
+    it('should merge a category into another and return the target', async () => {
+      const target = {
+        _id: targetId,
+        name: 'Dining',
+        type: 'Expense',
+        toObject: () => ({ _id: targetId, name: 'Dining', type: 'Expense', balance: 500 })
+      };
+      (Category.findOne as jest.Mock)
+        .mockResolvedValueOnce({ _id: categoryId, name: 'Coffee', type: 'Expense' })
+        .mockResolvedValueOnce(target)
+        .mockResolvedValueOnce({ _id: categoryId, syncVersion: 1 })
+        .mockResolvedValueOnce(target);
+      (isInSubtree as jest.Mock).mockResolvedValue(false);
+      (moveCategoryContents as jest.Mock).mockResolvedValue({ transactions: 12, subcategories: 1 });
+      (Category.findOneAndUpdate as jest.Mock).mockResolvedValue({});
+
+      await categoryController.merge(req as Request, res as Response);
+
+      expect(moveCategoryContents).toHaveBeenCalledWith(householdId, categoryId, targetId, expect.any(String), 'session');
+      expect(res.json).toHaveBeenCalledWith({
+        data: { id: targetId, name: 'Dining', type: 'Expense', balance: 500 },
+        moved: { transactions: 12, subcategories: 1 },
+        message: 'Categories merged successfully'
+      });
+    });
+
+    it('should not merge a category into itself', async () => {
+      req.body = { into: categoryId };
+      (Category.findOne as jest.Mock).mockResolvedValueOnce({ _id: categoryId, name: 'Coffee', type: 'Expense' });
+
+      await categoryController.merge(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'A category cannot be merged into itself' });
+      expect(moveCategoryContents).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('tree', () => {
+    beforeEach(() => {
+      req.query = { from: '2026-01-01', to: '2026-01-31', type: 'Expense' };
+    });
+
+    it('should return the nested tree with totals from a single aggregation', async () => {
+      const parentId = new mongoose.Types.ObjectId('507f1f77bcf86cd799439011');
+      const childId = new mongoose.Types.ObjectId('507f1f77bcf86cd799439012');
+      const category = (fields: any) => ({ ...fields, toObject: () => fields });
+      const sort = jest.fn().mockResolvedValue([
+        category({ _id: parentId, name: 'Food', parent: null, order: 0 }),
+        category({ _id: childId, name: 'Groceries', parent: parentId, order: 0 })
+      ]);
+      (Category.find as jest.Mock).mockReturnValue({ sort });
+      (Transaction.aggregate as jest.Mock).mockResolvedValue([
+        { _id: parentId, total: 20, count: 1 },
+        { _id: childId, total: 80, count: 2 }
+      ]);
+
+      await categoryController.tree(req as Request, res as Response);
+
+      expect(Category.find).toHaveBeenCalledWith({ type: { $ne: 'Income' }, householdId, isDeleted: { $ne: true } });
+      expect(sort).toHaveBeenCalledWith({ order: 1, name: 1 });
+      expect(Transaction.aggregate).toHaveBeenCalledTimes(1);
+      const match = (Transaction.aggregate as jest.Mock).mock.calls[0][0][0].$match;
+      expect(match.isDeleted).toEqual({ $ne: true });
+      expect(match.transactionDate.$gte).toEqual(new Date('2026-01-01'));
+
+      const tree = (res.json as jest.Mock).mock.calls[0][0];
+      expect(tree).toHaveLength(1);
+      expect(tree[0]).toMatchObject({
+        id: parentId.toString(),
+        name: 'Food',
+        transactions: { direct: { total: 20, count: 1 }, subcategories: { total: 80, count: 2 }, all: { total: 100, count: 3 } }
+      });
+      expect(tree[0].subcategories[0]).toMatchObject({ id: childId.toString(), parent: parentId.toString(), subcategories: [] });
+    });
+  });
+
+  describe('move', () => {
+    const categoryId = '507f1f77bcf86cd799439011';
+    const parentId = '507f1f77bcf86cd799439012';
+
+    beforeEach(() => {
+      req.params = { id: categoryId };
+      req.body = { parent: parentId };
+      req.lang = 'en';
+      req.headers = {};
+    });
+
+    it('should move a category under a new parent', async () => {
+      const category = { _id: categoryId, name: 'Coffee', type: 'Expense', parent: null };
+      (Category.findOne as jest.Mock).mockResolvedValueOnce(category);
+      (moveTargetError as jest.Mock).mockResolvedValue(null);
+      (moveCategorySubtree as jest.Mock).mockResolvedValue({
+        _id: categoryId,
+        toObject: () => ({ _id: categoryId, name: 'Coffee', parent: parentId })
+      });
+
+      await categoryController.move(req as Request, res as Response);
+
+      expect(moveTargetError).toHaveBeenCalledWith(householdId, category, parentId);
+      expect(moveCategorySubtree).toHaveBeenCalledWith(householdId, categoryId, parentId, expect.any(String), 'session');
+      expect(res.json).toHaveBeenCalledWith({
+        data: { id: categoryId, name: 'Coffee', parent: parentId },
+        message: 'Category moved successfully'
+      });
+    });
+
+    it('should move a category to the root', async () => {
+      req.body = { parent: null };
+      (Category.findOne as jest.Mock).mockResolvedValueOnce({ _id: categoryId, name: 'Coffee', type: 'Expense', parent: parentId });
+      (moveTargetError as jest.Mock).mockResolvedValue(null);
+      (moveCategorySubtree as jest.Mock).mockResolvedValue({ _id: categoryId, toObject: () => ({ _id: categoryId }) });
+
+      await categoryController.move(req as Request, res as Response);
+
+      expect(moveCategorySubtree).toHaveBeenCalledWith(householdId, categoryId, null, expect.any(String), 'session');
+    });
+
+    it('should not move a category under one of its own subcategories', async () => {
+      (Category.findOne as jest.Mock).mockResolvedValueOnce({ _id: categoryId, name: 'Food', type: 'Expense', parent: null });
+      (moveTargetError as jest.Mock).mockResolvedValue({ status: 400, key: 'categories.move_into_subtree' });
+
+      await categoryController.move(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'A category cannot be moved under itself or one of its own subcategories' });
+      expect(moveCategorySubtree).not.toHaveBeenCalled();
+    });
+
+    it('should not move an expense category under an income category', async () => {
+      (Category.findOne as jest.Mock).mockResolvedValueOnce({ _id: categoryId, name: 'Coffee', type: 'Expense', parent: null });
+      (moveTargetError as jest.Mock).mockResolvedValue({ status: 400, key: 'categories.type_mismatch' });
+
+      await categoryController.move(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Income and expense categories cannot be mixed' });
+      expect(moveCategorySubtree).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getSubcategories', () => {
     it('should return subcategories for a category', async () => {
       const mockCategory = { _id: '123', name: 'Electronics' };
@@ -434,12 +655,12 @@ describe('Category Controller', () => {
       ];
       req.params = { id: '123' };
       
-      (Category.findById as jest.Mock).mockResolvedValue(mockCategory);
+      (Category.findOne as jest.Mock).mockResolvedValue(mockCategory);
       (Category.find as jest.Mock).mockResolvedValue(mockSubcategories);
       
       await categoryController.getSubcategories(req as Request, res as Response);
       
-      expect(Category.findById).toHaveBeenCalledWith('123');
+      expect(Category.findOne).toHaveBeenCalledWith({ _id: '123', householdId });
       expect(Category.find).toHaveBeenCalled();
       expect(res.json).toHaveBeenCalledWith(mockSubcategories);
     });
@@ -447,11 +668,11 @@ describe('Category Controller', () => {
     it('should return 404 when category is not found', async () => {
       req.params = { id: '123' };
       
-      (Category.findById as jest.Mock).mockResolvedValue(null);
+      (Category.findOne as jest.Mock).mockResolvedValue(null);
       
       await categoryController.getSubcategories(req as Request, res as Response);
       
-      expect(Category.findById).toHaveBeenCalledWith('123');
+      expect(Category.findOne).toHaveBeenCalledWith({ _id: '123', householdId });
       expect(res.status).toHaveBeenCalledWith(404);
       expect(res.json).toHaveBeenCalledWith({ error: 'Category not found' });
     });
@@ -460,11 +681,11 @@ describe('Category Controller', () => {
       req.params = { id: '123' };
       const errorMessage = 'Server error';
       
-      (Category.findById as jest.Mock).mockRejectedValue(new Error(errorMessage));
+      (Category.findOne as jest.Mock).mockRejectedValue(new Error(errorMessage));
       
       await categoryController.getSubcategories(req as Request, res as Response);
       
-      expect(Category.findById).toHaveBeenCalledWith('123');
+      expect(Category.findOne).toHaveBeenCalledWith({ _id: '123', householdId });
       expect(res.status).toHaveBeenCalledWith(500);
       expect(res.json).toHaveBeenCalledWith({ error: errorMessage });
     });
@@ -481,7 +702,7 @@ describe('Category Controller', () => {
       
       await categoryController.getRootCategories(req as Request, res as Response);
       
-      expect(Category.find).toHaveBeenCalledWith({ parent: null });
+      expect(Category.find).toHaveBeenCalledWith({ parent: null, householdId, isDeleted: { $ne: true } });
       expect(res.json).toHaveBeenCalledWith(mockRootCategories);
     });
 
@@ -492,7 +713,7 @@ describe('Category Controller', () => {
       
       await categoryController.getRootCategories(req as Request, res as Response);
       
-      expect(Category.find).toHaveBeenCalledWith({ parent: null });
+      expect(Category.find).toHaveBeenCalledWith({ parent: null, householdId, isDeleted: { $ne: true } });
       expect(res.status).toHaveBeenCalledWith(500);
       expect(res.json).toHaveBeenCalledWith({ error: errorMessage });
     });
@@ -505,7 +726,8 @@ describe('Category Controller', () => {
       req = {
         params: { id: validObjectId },
         query: {},
-        lang: 'en'
+        lang: 'en',
+        user
       };
     });
 
@@ -515,7 +737,7 @@ describe('Category Controller', () => {
         _id: validObjectId, 
         name: 'Electronics' 
       };
-      (Category.findById as jest.Mock).mockResolvedValue(mockCategory);
+      (Category.findOne as jest.Mock).mockResolvedValue(mockCategory);
       
       // Mock finding no subcategories
       (Category.find as jest.Mock).mockResolvedValue([]);
@@ -528,8 +750,8 @@ describe('Category Controller', () => {
       
       await categoryController.getCategoryTransactions(req as Request, res as Response);
       
-      expect(Category.findById).toHaveBeenCalledWith(validObjectId);
-      expect(Category.find).toHaveBeenCalledWith({ parent: validObjectId });
+      expect(Category.findOne).toHaveBeenCalledWith({ _id: validObjectId, householdId });
+      expect(Category.find).toHaveBeenCalledWith({ parent: validObjectId, householdId });
       expect(Transaction.aggregate).toHaveBeenCalledTimes(1);
       
       expect(res.json).toHaveBeenCalledWith({
@@ -560,7 +782,7 @@ describe('Category Controller', () => {
         _id: validObjectId, 
         name: 'Electronics' 
       };
-      (Category.findById as jest.Mock).mockResolvedValue(mockCategory);
+      (Category.findOne as jest.Mock).mockResolvedValue(mockCategory);
       
       // Mock finding subcategories
       const subcategoryId = new mongoose.Types.ObjectId();
@@ -580,8 +802,8 @@ describe('Category Controller', () => {
       
       await categoryController.getCategoryTransactions(req as Request, res as Response);
       
-      expect(Category.findById).toHaveBeenCalledWith(validObjectId);
-      expect(Category.find).toHaveBeenCalledWith({ parent: validObjectId });
+      expect(Category.findOne).toHaveBeenCalledWith({ _id: validObjectId, householdId });
+      expect(Category.find).toHaveBeenCalledWith({ parent: validObjectId, householdId });
       expect(Transaction.aggregate).toHaveBeenCalledTimes(2);
       
       expect(res.json).toHaveBeenCalledWith({
@@ -618,7 +840,7 @@ describe('Category Controller', () => {
         _id: validObjectId, 
         name: 'Electronics' 
       };
-      (Category.findById as jest.Mock).mockResolvedValue(mockCategory);
+      (Category.findOne as jest.Mock).mockResolvedValue(mockCategory);
       
       // Mock finding no subcategories
       (Category.find as jest.Mock).mockResolvedValue([]);
@@ -678,7 +900,7 @@ describe('Category Controller', () => {
         _id: validObjectId, 
         name: 'Electronics' 
       };
-      (Category.findById as jest.Mock).mockResolvedValue(mockCategory);
+      (Category.findOne as jest.Mock).mockResolvedValue(mockCategory);
       
       // Mock finding no subcategories
       (Category.find as jest.Mock).mockResolvedValue([]);
@@ -711,11 +933,11 @@ describe('Category Controller', () => {
     });
 
     it('should return 404 when category is not found', async () => {
-      (Category.findById as jest.Mock).mockResolvedValue(null);
+      (Category.findOne as jest.Mock).mockResolvedValue(null);
       
       await categoryController.getCategoryTransactions(req as Request, res as Response);
       
-      expect(Category.findById).toHaveBeenCalledWith(validObjectId);
+      expect(Category.findOne).toHaveBeenCalledWith({ _id: validObjectId, householdId });
       expect(res.status).toHaveBeenCalledWith(404);
       expect(res.json).toHaveBeenCalledWith({ error: 'Category not found' });
       expect(Transaction.aggregate).not.toHaveBeenCalled();
@@ -723,11 +945,11 @@ describe('Category Controller', () => {
 
     it('should return 500 when there is a server error', async () => {
       const errorMessage = 'Server error';
-      (Category.findById as jest.Mock).mockRejectedValue(new Error(errorMessage));
+      (Category.findOne as jest.Mock).mockRejectedValue(new Error(errorMessage));
       
       await categoryController.getCategoryTransactions(req as Request, res as Response);
       
-      expect(Category.findById).toHaveBeenCalledWith(validObjectId);
+      expect(Category.findOne).toHaveBeenCalledWith({ _id: validObjectId, householdId });
       expect(res.status).toHaveBeenCalledWith(500);
       expect(res.json).toHaveBeenCalledWith({ error: errorMessage });
     });
@@ -0,0 +1,128 @@
+jest.mock('../../models/household', () => {
+  const MockHousehold = function() {};
+  MockHousehold.findById = jest.fn();
+  MockHousehold.findByIdAndUpdate = jest.fn();
+  MockHousehold.findOneAndUpdate = jest.fn();
+
+  return MockHousehold;
+});
+
+jest.mock('../../models/user', () => {
+  const MockUser = function() {};
+  MockUser.findByIdAndUpdate = jest.fn();
+
+  return MockUser;
+});
+
+import { Request, Response } from 'express';
+import householdController from '../household';
+import Household from '../../models/household';
+import User from '../../models/user';
+import { verifyAccessToken } from '../../utils/auth';
+
+const householdId = '507f1f77bcf86cd799439099';
+const otherHouseholdId = '507f1f77bcf86cd799439098';
+
+function mockHouseholdDoc(members: Array<{ user: string; role: string }>) {
+  return { _id: householdId, name: 'Home', members, invitations: [] };
+}
+
+describe('Household Controller', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-access-secret';
+    process.env.JWT_REFRESH_SECRET = 'test-refresh-secret';
+  });
+
+  beforeEach(() => {
+    req = {
+      body: {},
+      params: {},
+      headers: {},
+      lang: 'en',
+      user: { id: 'user123', email: 'jane@example.com', householdId }
+    };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    jest.clearAllMocks();
+  });
+
+  describe('createInvitation', () => {
+    it('should only let the owner invite members', async () => {
+      (Household.findById as jest.Mock).mockResolvedValue(mockHouseholdDoc([
+        { user: 'owner456', role: 'owner' },
+        { user: 'user123', role: 'member' }
+      ]));
+
+      await householdController.createInvitation(req as Request, res as Response);
+
+      expect(Household.findByIdAndUpdate).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Only the household owner can do this' });
+    });
+
+    it('should add an invitation code for the owner', async () => {
+      (Household.findById as jest.Mock).mockResolvedValue(mockHouseholdDoc([{ user: 'user123', role: 'owner' }]));
+
+      await householdController.createInvitation(req as Request, res as Response);
+
+      const update = (Household.findByIdAndUpdate as jest.Mock).mock.calls[0][1];
+      expect(update.$push.invitations.code).toMatch(/^[A-Z2-9]{8}$/);
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ code: update.$push.invitations.code })
+      }));
+    });
+  });
+
+  describe('join', () => {
+    it('should reject an invalid or used invitation code', async () => {
+      req.body = { code: 'abcd2345' };
+      (Household.findById as jest.Mock).mockResolvedValue(mockHouseholdDoc([{ user: 'user123', role: 'owner' }]));
+      (Household.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+      await householdController.join(req as Request, res as Response);
+
+      const filter = (Household.findOneAndUpdate as jest.Mock).mock.calls[0][0];
+      expect(filter.invitations.$elemMatch).toEqual(expect.objectContaining({ code: 'ABCD2345', usedBy: null }));
+      expect(User.findByIdAndUpdate).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+
+    it('should refuse to let an owner leave members behind', async () => {
+      req.body = { code: 'ABCD2345' };
+      (Household.findById as jest.Mock).mockResolvedValue(mockHouseholdDoc([
+        { user: 'user123', role: 'owner' },
+        { user: 'member789', role: 'member' }
+      ]));
+
+      await householdController.join(req as Request, res as Response);
+
+      expect(Household.findOneAndUpdate).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+
+    it('should move the user and issue tokens scoped to the new household', async () => {
+      req.body = { code: 'ABCD2345' };
+      (Household.findById as jest.Mock).mockResolvedValue(mockHouseholdDoc([{ user: 'user123', role: 'owner' }]));
+      (Household.findOneAndUpdate as jest.Mock).mockResolvedValue({ _id: otherHouseholdId });
+      (User.findByIdAndUpdate as jest.Mock).mockResolvedValue({ _id: 'user123', email: 'jane@example.com', tokenVersion: 1 });
+
+      await householdController.join(req as Request, res as Response);
+
+      expect(Household.findByIdAndUpdate).toHaveBeenCalledWith(householdId, { $pull: { members: { user: 'user123' } } });
+      expect(User.findByIdAndUpdate).toHaveBeenCalledWith(
+        'user123',
+        { householdId: otherHouseholdId, $inc: { tokenVersion: 1 } },
+        { new: true }
+      );
+      const response = (res.json as jest.Mock).mock.calls[0][0];
+      expect(response.data.householdId).toBe(otherHouseholdId);
+      expect(verifyAccessToken(response.data.accessToken)).toEqual(expect.objectContaining({ householdId: otherHouseholdId, version: 1 }));
+    });
+  });
+});
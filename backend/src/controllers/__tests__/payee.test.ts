@@ -0,0 +1,170 @@
+const mockSave = jest.fn();
+jest.mock('../../models/payee', () => {
+  const MockPayee = function(data: any) {
+    return {
+      ...data,
+      _id: 'payee123',
+      save: mockSave,
+      toObject: () => ({ ...data, _id: 'payee123' })
+    };
+  };
+
+  MockPayee.find = jest.fn();
+  MockPayee.findOne = jest.fn();
+  MockPayee.findOneAndUpdate = jest.fn();
+
+  return MockPayee;
+});
+
+jest.mock('../../models/transaction', () => {
+  const MockTransaction = function() {};
+  MockTransaction.updateMany = jest.fn();
+
+  return MockTransaction;
+});
+
+jest.mock('../../utils/dbTransaction', () => ({
+  runInTransaction: jest.fn((fn: any) => fn('session'))
+}));
+
+jest.mock('../../utils/household', () => ({
+  ...jest.requireActual('../../utils/household'),
+  verifyHouseholdReferences: jest.fn()
+}));
+
+import { Request, Response } from 'express';
+import payeeController from '../payee';
+import Payee from '../../models/payee';
+import Transaction from '../../models/transaction';
+import { verifyHouseholdReferences } from '../../utils/household';
+
+const payeeId = '507f1f77bcf86cd799439031';
+const categoryId = '507f1f77bcf86cd799439041';
+const householdId = '507f1f77bcf86cd799439099';
+
+// Payee.findOne(...) and Payee.find(...) awaited directly or through .collation() (and .sort())
+function found(result: any) {
+  const query: any = Promise.resolve(result);
+  query.collation = jest.fn().mockReturnValue(query);
+  query.sort = jest.fn().mockResolvedValue(result);
+  return query;
+}
+
+function payeeDoc(id: string, name: string, aliases: string[] = []) {
+  return { _id: id, name, aliases, toObject: () => ({ _id: id, name, aliases }) };
+}
+
+describe('Payee Controller', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+
+  beforeEach(() => {
+    req = {
+      body: {},
+      params: {},
+      query: {},
+      headers: {},
+      lang: 'en',
+      user: { id: 'user123', email: 'jane@example.com', householdId }
+    };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    jest.clearAllMocks();
+    (verifyHouseholdReferences as jest.Mock).mockResolvedValue(true);
+  });
+
+  describe('post', () => {
+    it('should create a payee with aliases and a default category', async () => {
+      req.body = { name: 'Grab', aliases: ['GRAB *RIDE'], defaultCategory: categoryId };
+      (Payee.findOne as jest.Mock).mockReturnValue(found(null));
+      mockSave.mockResolvedValue(undefined);
+
+      await payeeController.post(req as Request, res as Response);
+
+      expect(verifyHouseholdReferences).toHaveBeenCalledWith(householdId, { categories: [categoryId] });
+      expect(mockSave).toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith({
+        data: expect.objectContaining({ id: 'payee123', name: 'Grab', aliases: ['GRAB *RIDE'], householdId }),
+        message: 'Payee created successfully'
+      });
+    });
+
+    it('should reject a default category of another household', async () => {
+      req.body = { name: 'Grab', defaultCategory: categoryId };
+      (verifyHouseholdReferences as jest.Mock).mockResolvedValue(false);
+
+      await payeeController.post(req as Request, res as Response);
+
+      expect(mockSave).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+
+    it('should reject a name another payee already has, ignoring case', async () => {
+      req.body = { name: 'grab' };
+      (Payee.findOne as jest.Mock).mockReturnValue(found({ _id: 'other', name: 'Grab' }));
+
+      await payeeController.post(req as Request, res as Response);
+
+      expect(mockSave).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({ error: 'A payee with this name already exists' });
+    });
+  });
+
+  describe('all', () => {
+    const payees = [
+      payeeDoc('acme', 'ACME Payroll'),
+      payeeDoc('grab', 'Grab', ['GRAB *RIDE']),
+      payeeDoc('grocer', 'Puregold')
+    ];
+
+    it('should list every payee by name without a query', async () => {
+      (Payee.find as jest.Mock).mockReturnValue(found(payees));
+
+      await payeeController.all(req as Request, res as Response);
+
+      expect(Payee.find).toHaveBeenCalledWith({ householdId, isDeleted: { $ne: true } });
+      expect((res.json as jest.Mock).mock.calls[0][0].map((payee: any) => payee.id)).toEqual(['acme', 'grab', 'grocer']);
+    });
+
+    it('should suggest payees for a typed description', async () => {
+      req.query = { q: 'GRAB *RIDE 1234' };
+      (Payee.find as jest.Mock).mockReturnValue(found(payees));
+
+      await payeeController.all(req as Request, res as Response);
+
+      expect(res.json).toHaveBeenCalledWith([{ id: 'grab', name: 'Grab', aliases: ['GRAB *RIDE'] }]);
+    });
+  });
+
+  describe('delete', () => {
+    it('should soft delete the payee and take it off its transactions', async () => {
+      req.params = { id: payeeId };
+      (Payee.findOne as jest.Mock).mockResolvedValue({ _id: payeeId, syncVersion: 1 });
+      (Payee.findOneAndUpdate as jest.Mock).mockResolvedValue({ _id: payeeId, isDeleted: true });
+
+      await payeeController.delete(req as Request, res as Response);
+
+      expect(Transaction.updateMany).toHaveBeenCalledWith(
+        { payee: payeeId, householdId },
+        expect.objectContaining({ $set: expect.objectContaining({ payee: null }), $inc: { syncVersion: 1 } }),
+        { session: 'session' }
+      );
+      expect(res.json).toHaveBeenCalledWith({ message: 'Payee deleted successfully' });
+    });
+
+    it('should return 404 when the payee does not exist', async () => {
+      req.params = { id: payeeId };
+      (Payee.findOne as jest.Mock).mockResolvedValue(null);
+
+      await payeeController.delete(req as Request, res as Response);
+
+      expect(Transaction.updateMany).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Payee not found' });
+    });
+  });
+});
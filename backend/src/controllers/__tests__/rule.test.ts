@@ -0,0 +1,159 @@
+const mockSave = jest.fn();
+jest.mock('../../models/rule', () => {
+  const MockRule = function(data: any) {
+    return {
+      ...data,
+      _id: 'rule123',
+      save: mockSave,
+      toObject: () => ({ ...data, _id: 'rule123' })
+    };
+  };
+
+  MockRule.find = jest.fn();
+  MockRule.findOne = jest.fn();
+  MockRule.findOneAndUpdate = jest.fn();
+
+  return MockRule;
+});
+
+jest.mock('../../models/transaction', () => {
+  const MockTransaction = function() {};
+  MockTransaction.find = jest.fn();
+
+  return MockTransaction;
+});
+
+jest.mock('../../utils/household', () => ({
+  ...jest.requireActual('../../utils/household'),
+  verifyHouseholdReferences: jest.fn()
+}));
+
+jest.mock('../../utils/rules', () => ({
+  ...jest.requireActual('../../utils/rules'),
+  reapplyRules: jest.fn()
+}));
+
+import { Request, Response } from 'express';
+import ruleController from '../rule';
+import Transaction from '../../models/transaction';
+import { verifyHouseholdReferences } from '../../utils/household';
+import { reapplyRules } from '../../utils/rules';
+
+const categoryId = '507f1f77bcf86cd799439041';
+const tagId = '507f1f77bcf86cd799439021';
+const householdId = '507f1f77bcf86cd799439099';
+
+const conditions = { descriptionContains: 'MERALCO' };
+const actions = { category: categoryId, tags: [tagId] };
+
+describe('Rule Controller', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+
+  beforeEach(() => {
+    req = {
+      body: {},
+      params: {},
+      query: {},
+      headers: {},
+      lang: 'en',
+      user: { id: 'user123', email: 'jane@example.com', householdId }
+    };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    jest.clearAllMocks();
+    (verifyHouseholdReferences as jest.Mock).mockResolvedValue(true);
+  });
+
+  describe('post', () => {
+    it('should create a rule in the caller household', async () => {
+      req.body = { name: 'Electricity', conditions, actions };
+      mockSave.mockResolvedValue(undefined);
+
+      await ruleController.post(req as Request, res as Response);
+
+      expect(verifyHouseholdReferences).toHaveBeenCalledWith(householdId, {
+        accounts: [undefined],
+        payees: [undefined],
+        categories: [categoryId],
+        tags: [tagId]
+      });
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith({
+        data: expect.objectContaining({ id: 'rule123', name: 'Electricity', conditions, actions, householdId }),
+        message: 'Rule created successfully'
+      });
+    });
+
+    it('should reject references to another household', async () => {
+      req.body = { name: 'Electricity', conditions, actions };
+      (verifyHouseholdReferences as jest.Mock).mockResolvedValue(false);
+
+      await ruleController.post(req as Request, res as Response);
+
+      expect(mockSave).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('preview', () => {
+    it('should list the latest transactions the rule matches with what it would change', async () => {
+      req.body = { conditions, actions, limit: 2 };
+      const recorded = (id: string, fields: any) => ({ _id: id, toObject: () => ({ _id: id, ...fields }) });
+      const limit = jest.fn().mockResolvedValue([
+        recorded('t1', { description: 'MERALCO 0412', amount: 3100, transactionDate: '2026-04-12', tags: [] }),
+        recorded('t2', { description: 'Groceries', amount: 800, transactionDate: '2026-04-10', tags: [] })
+      ]);
+      const sort = jest.fn().mockReturnValue({ limit });
+      (Transaction.find as jest.Mock).mockReturnValue({ sort });
+
+      await ruleController.preview(req as Request, res as Response);
+
+      expect(Transaction.find).toHaveBeenCalledWith({ householdId, isDeleted: { $ne: true } });
+      expect(sort).toHaveBeenCalledWith({ transactionDate: -1, _id: -1 });
+      expect(limit).toHaveBeenCalledWith(2);
+      expect(res.json).toHaveBeenCalledWith({
+        checked: 2,
+        matches: [{
+          id: 't1',
+          transactionDate: '2026-04-12',
+          description: 'MERALCO 0412',
+          amount: 3100,
+          changes: { category: categoryId, tags: [tagId] }
+        }]
+      });
+    });
+  });
+
+  describe('apply', () => {
+    it('should re-apply the rules to history and report the changes', async () => {
+      req.body = { from: '2026-01-01', dryRun: true };
+      const changed = [{ id: 't1', changes: { category: categoryId } }];
+      (reapplyRules as jest.Mock).mockResolvedValue({ transactions: changed, applied: 0, error: null });
+
+      await ruleController.apply(req as Request, res as Response);
+
+      expect(reapplyRules).toHaveBeenCalledWith(householdId, 'user123', { from: '2026-01-01', to: undefined, dryRun: true });
+      expect(res.json).toHaveBeenCalledWith({
+        data: { dryRun: true, changed: 1, applied: 0, transactions: changed },
+        message: 'Rules would change 1 transactions'
+      });
+    });
+
+    it('should report how far it got when a batch fails', async () => {
+      req.body = {};
+      const changed = [{ id: 't1', changes: { category: categoryId } }];
+      (reapplyRules as jest.Mock).mockResolvedValue({ transactions: changed, applied: 1, error: 'Transaction exceeded time limit' });
+
+      await ruleController.apply(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenCalledWith(500);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Rules were applied to 1 transactions before an error stopped them; apply again to continue: Transaction exceeded time limit',
+        data: { dryRun: false, changed: 1, applied: 1, transactions: changed }
+      });
+    });
+  });
+});
@@ -0,0 +1,150 @@
+const mockSave = jest.fn();
+jest.mock('../../models/tag', () => {
+  const MockTag = function(data: any) {
+    return {
+      ...data,
+      _id: 'tag123',
+      save: mockSave,
+      toObject: () => ({ ...data, _id: 'tag123' })
+    };
+  };
+
+  MockTag.find = jest.fn();
+  MockTag.findOne = jest.fn();
+  MockTag.findOneAndUpdate = jest.fn();
+
+  return MockTag;
+});
+
+jest.mock('../../models/transaction', () => {
+  const MockTransaction = function() {};
+  MockTransaction.updateMany = jest.fn();
+
+  return MockTransaction;
+});
+
+jest.mock('../../utils/dbTransaction', () => ({
+  runInTransaction: jest.fn((fn: any) => fn('session'))
+}));
+
+import { Request, Response } from 'express';
+import tagController from '../tag';
+import Tag from '../../models/tag';
+import Transaction from '../../models/transaction';
+
+const tagId = '507f1f77bcf86cd799439021';
+const householdId = '507f1f77bcf86cd799439099';
+
+// Tag.findOne(...) awaited directly or through .collation()
+function found(tag: any) {
+  const query: any = Promise.resolve(tag);
+  query.collation = jest.fn().mockResolvedValue(tag);
+  return query;
+}
+
+describe('Tag Controller', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+
+  beforeEach(() => {
+    req = {
+      body: {},
+      params: {},
+      query: {},
+      headers: {},
+      lang: 'en',
+      user: { id: 'user123', email: 'jane@example.com', householdId }
+    };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    jest.clearAllMocks();
+  });
+
+  describe('post', () => {
+    it('should create a tag in the caller household', async () => {
+      req.body = { name: 'vacation-2026', color: '#ff9900' };
+      (Tag.findOne as jest.Mock).mockReturnValue(found(null));
+      mockSave.mockResolvedValue(undefined);
+
+      await tagController.post(req as Request, res as Response);
+
+      expect(mockSave).toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith({
+        data: expect.objectContaining({ id: 'tag123', name: 'vacation-2026', householdId }),
+        message: 'Tag created successfully'
+      });
+    });
+
+    it('should reject a name another tag already has, ignoring case', async () => {
+      req.body = { name: 'Reimbursable' };
+      const query = found({ _id: 'other', name: 'reimbursable' });
+      (Tag.findOne as jest.Mock).mockReturnValue(query);
+
+      await tagController.post(req as Request, res as Response);
+
+      expect(Tag.findOne).toHaveBeenCalledWith({ name: 'Reimbursable', householdId, isDeleted: { $ne: true } });
+      expect(query.collation).toHaveBeenCalledWith({ locale: 'en', strength: 2 });
+      expect(mockSave).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({ error: 'A tag with this name already exists' });
+    });
+  });
+
+  describe('update', () => {
+    it('should allow a tag to keep its own name', async () => {
+      req.params = { id: tagId };
+      req.body = { name: 'kids' };
+      (Tag.findOne as jest.Mock)
+        .mockReturnValueOnce(found({ _id: tagId, name: 'Kids', syncVersion: 2 }))
+        .mockReturnValueOnce(found(null));
+      (Tag.findOneAndUpdate as jest.Mock).mockResolvedValue({
+        _id: tagId,
+        toObject: () => ({ _id: tagId, name: 'kids' })
+      });
+
+      await tagController.update(req as Request, res as Response);
+
+      expect(Tag.findOne).toHaveBeenLastCalledWith({ name: 'kids', _id: { $ne: tagId }, householdId, isDeleted: { $ne: true } });
+      expect(Tag.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: tagId, householdId },
+        expect.objectContaining({ name: 'kids', syncVersion: 3 }),
+        { new: true, runValidators: true }
+      );
+      expect(res.json).toHaveBeenCalledWith({
+        data: { id: tagId, name: 'kids' },
+        message: 'Tag updated successfully'
+      });
+    });
+  });
+
+  describe('delete', () => {
+    it('should soft delete the tag and take it off its transactions', async () => {
+      req.params = { id: tagId };
+      (Tag.findOne as jest.Mock).mockResolvedValue({ _id: tagId, syncVersion: 1 });
+      (Tag.findOneAndUpdate as jest.Mock).mockResolvedValue({ _id: tagId, isDeleted: true });
+
+      await tagController.delete(req as Request, res as Response);
+
+      expect(Transaction.updateMany).toHaveBeenCalledWith(
+        { tags: tagId, householdId },
+        expect.objectContaining({ $pull: { tags: tagId }, $inc: { syncVersion: 1 } }),
+        { session: 'session' }
+      );
+      expect(res.json).toHaveBeenCalledWith({ message: 'Tag deleted successfully' });
+    });
+
+    it('should return 404 when the tag does not exist', async () => {
+      req.params = { id: tagId };
+      (Tag.findOne as jest.Mock).mockResolvedValue(null);
+
+      await tagController.delete(req as Request, res as Response);
+
+      expect(Transaction.updateMany).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Tag not found' });
+    });
+  });
+});
@@ -3,6 +3,12 @@ import Account from "../models/account";
 import Transaction from "../models/transaction";
 import mongoose from "mongoose";
 import { translate } from "../localization";
+import { getModifiedBy } from "../utils/auth";
+import { getHouseholdId, scopeToHousehold } from "../utils/household";
+import { DEFAULT_CURRENCY, getBaseCurrency, getRatesToBase, roundAmount, totalInBaseCurrency } from "../utils/currency";
+import { addSoftDeleteFilter, NOT_DELETED_FILTER } from "../utils/softDelete";
+import { ACCOUNT_ENTRIES, accountBalanceAsOf } from "../utils/balances";
+import { buildDateCondition } from "../utils/transactionTotals";
 
 // Helper function to generate a hash for account content comparison
 function generateAccountHash(account: any): string {
@@ -10,6 +16,7 @@ function generateAccountHash(account: any): string {
     name: account.name,
     description: account.description,
     balance: account.balance,
+    currency: account.currency,
     type: account.type,
     icon: account.icon,
     color: account.color,
@@ -48,7 +55,8 @@ export default {
         ...req.body,
         updatedAt: Date.now(),
         syncVersion: 1,
-        lastModifiedBy: req.body.deviceId || req.headers['x-device-id'] || 'system'
+        lastModifiedBy: getModifiedBy(req),
+        householdId: getHouseholdId(req)
       };
       const account = new Account(accountData);
       await account.save();
@@ -63,35 +71,18 @@ export default {
   get: async (req: Request, res: Response): Promise<void> => {
     try {
       const { fromDate, toDate } = req.query;
-      const account = await Account.findById(req.params.id);
+      const account = await Account.findOne(scopeToHousehold(req, { _id: req.params.id }));
       if (!account) {
         res.status(404).json({ error: translate('accounts.not_found', req.lang) });
         return;
       }
 
-      // Create date filter for transactions
-      const dateFilter: any = {};
-      
-      if (fromDate) {
-        dateFilter.$gte = new Date(fromDate as string);
-      }
-      
-      if (toDate) {
-        const toDateObj = new Date(toDate as string);
-        toDateObj.setHours(23, 59, 59, 999);
-        dateFilter.$lte = toDateObj;
-      }
-
-      // Convert ID to ObjectId
+      // Transactions moving money out of or into the account, newest first
       const accountId = new mongoose.Types.ObjectId(req.params.id);
-
-      // Query for transactions
-      const query: any = { account: accountId };
-      if (Object.keys(dateFilter).length > 0) {
-        query.date = dateFilter;
-      }
-
-      const transactions = await Transaction.find(query).sort({ date: -1 });
+      const transactions = await Transaction.find(addSoftDeleteFilter(scopeToHousehold(req, {
+        $or: [{ fromAccount: accountId }, { toAccount: accountId }],
+        ...buildDateCondition(fromDate as string, toDate as string)
+      }))).sort({ transactionDate: -1 });
       
       res.json({
         ...transformAccountForFrontend(account),
@@ -101,72 +92,133 @@ export default {
       res.status(500).json({ error: (err as Error).message });
     }
   },
+  // With withTotals the list comes as { data, totals }, totals being what GET /account/totals reports
   all: async (req: Request, res: Response): Promise<void> => {
     try {
       const { fromDate, toDate } = req.query;
-      
-      // Create date filter for transactions
-      const dateFilter: any = {};
-      
-      if (fromDate) {
-        dateFilter.$gte = new Date(fromDate as string);
-      }
-      
-      if (toDate) {
-        const toDateObj = new Date(toDate as string);
-        toDateObj.setHours(23, 59, 59, 999);
-        dateFilter.$lte = toDateObj;
-      }
+      const householdId = getHouseholdId(req);
       
       // Get all accounts sorted by order (include deleted for sync purposes)
-      const accounts = await Account.find({}).sort({ order: 1 });
+      const accounts = await Account.find(scopeToHousehold(req)).sort({ order: 1 });
+
+      // Balances are also reported in the base currency so they can be totalled
+      const baseCurrency = await getBaseCurrency(householdId, req.query.baseCurrency as string | undefined);
+      const rates = await getRatesToBase(
+        householdId,
+        accounts.map(account => account.currency || DEFAULT_CURRENCY),
+        baseCurrency
+      );
       
-      // Calculate balances for each account
-      const accountsWithBalances = await Promise.all(
-        accounts.map(async (account) => {
-          // Get the account ID as a mongoose ObjectId
-          const accountId = account._id as mongoose.Types.ObjectId;
-          
-          // Query for transactions
-          const query: any = { account: accountId };
-          if (Object.keys(dateFilter).length > 0) {
-            query.date = dateFilter;
+      // Inflow and outflow of every account over the period in one pass
+      const flows = await Transaction.aggregate([
+        {
+          $match: {
+            householdId: new mongoose.Types.ObjectId(householdId),
+            ...buildDateCondition(fromDate as string, toDate as string),
+            ...NOT_DELETED_FILTER
           }
-          
-          const transactions = await Transaction.find(query);
-          
-          // Calculate balance
-          let balance = account.balance || 0;
-          let totalIncoming = 0;
-          let totalOutgoing = 0;
-          
-          transactions.forEach(transaction => {
-            if (transaction.amount > 0) {
-              totalIncoming += transaction.amount;
-            } else {
-              totalOutgoing += Math.abs(transaction.amount);
-            }
-          });
-          
-          return {
-            ...transformAccountForFrontend(account),
-            transactions: {
-              balance,
-              totalIncoming,
-              totalOutgoing
-            }
-          };
-        })
-      );
+        },
+        { $project: { type: 1, entries: ACCOUNT_ENTRIES } },
+        { $unwind: '$entries' },
+        {
+          $group: {
+            _id: '$entries.account',
+            income: { $sum: { $cond: [{ $eq: ['$type', 'income'] }, '$entries.amount', 0] } },
+            expense: { $sum: { $cond: [{ $eq: ['$type', 'expense'] }, { $multiply: ['$entries.amount', -1] }, 0] } },
+            transfersIn: {
+              $sum: { $cond: [{ $and: [{ $eq: ['$type', 'transfer'] }, { $gt: ['$entries.amount', 0] }] }, '$entries.amount', 0] }
+            },
+            transfersOut: {
+              $sum: { $cond: [{ $and: [{ $eq: ['$type', 'transfer'] }, { $lt: ['$entries.amount', 0] }] }, { $multiply: ['$entries.amount', -1] }, 0] }
+            },
+            count: { $sum: 1 }
+          }
+        }
+      ]);
+      const flowsByAccount = new Map<string, any>(flows.map(flow => [flow._id.toString(), flow]));
+      
+      const accountsWithBalances = accounts.map(account => {
+        const flow = flowsByAccount.get((account._id as mongoose.Types.ObjectId).toString());
+        const income = roundAmount(flow?.income || 0);
+        const expense = roundAmount(flow?.expense || 0);
+        const transfersIn = roundAmount(flow?.transfersIn || 0);
+        const transfersOut = roundAmount(flow?.transfersOut || 0);
+        const balance = account.balance || 0;
+        const rate = rates[account.currency || DEFAULT_CURRENCY];
+
+        return {
+          ...transformAccountForFrontend(account),
+          baseCurrency,
+          baseBalance: rate !== undefined ? roundAmount(balance * rate) : null,
+          transactions: {
+            balance,
+            totalIncoming: roundAmount(income + transfersIn),
+            totalOutgoing: roundAmount(expense + transfersOut),
+            income,
+            expense,
+            transfersIn,
+            transfersOut,
+            count: flow?.count || 0
+          }
+        };
+      });
       
+      if (req.query.withTotals === 'true') {
+        const liveAccounts = accounts.filter(account => !account.isDeleted);
+        res.json({ data: accountsWithBalances, totals: totalInBaseCurrency(liveAccounts, baseCurrency, rates) });
+        return;
+      }
       res.json(accountsWithBalances);
     } catch (err) {
       res.status(500).json({ error: (err as Error).message });
     }
   },
+  // Total of the balances counted in totals, in the base currency
+  totals: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const householdId = getHouseholdId(req);
+      const baseCurrency = await getBaseCurrency(householdId, req.query.baseCurrency as string | undefined);
+      const accounts = await Account.find(addSoftDeleteFilter(scopeToHousehold(req)));
+      const rates = await getRatesToBase(
+        householdId,
+        accounts.map(account => account.currency || DEFAULT_CURRENCY),
+        baseCurrency
+      );
+
+      res.json(totalInBaseCurrency(accounts, baseCurrency, rates));
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  // Balance from the transactions dated up to asOf; a plain date means the end of that day
+  balance: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const account = await Account.findOne(scopeToHousehold(req, { _id: req.params.id }));
+      if (!account) {
+        res.status(404).json({ error: translate('accounts.not_found', req.lang) });
+        return;
+      }
+
+      const asOfParam = req.query.asOf as string | undefined;
+      const asOf = !asOfParam
+        ? new Date()
+        : /^\d{4}-\d{2}-\d{2}$/.test(asOfParam)
+          ? new Date(`${asOfParam}T23:59:59.999Z`)
+          : new Date(asOfParam);
+
+      res.json({
+        account: (account._id as any).toString(),
+        asOf: asOf.toISOString(),
+        currency: account.currency || DEFAULT_CURRENCY,
+        balance: roundAmount(await accountBalanceAsOf(getHouseholdId(req), (account._id as any).toString(), asOf))
+      });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
   update: async (req: Request, res: Response): Promise<void> => {
     try {
-      const account = await Account.findById(req.params.id);
+      const account = await Account.findOne(scopeToHousehold(req, { _id: req.params.id }));
       if (!account) {
         res.status(404).json({ error: translate('accounts.not_found', req.lang) });
         return;
@@ -176,10 +228,11 @@ export default {
         ...req.body,
         updatedAt: Date.now(),
         syncVersion: (account.syncVersion || 1) + 1,
-        lastModifiedBy: req.body.deviceId || req.headers['x-device-id'] || 'system'
+        lastModifiedBy: getModifiedBy(req),
+        householdId: getHouseholdId(req)
       };
       
-      const updatedAccount = await Account.findByIdAndUpdate(req.params.id, updateData, {
+      const updatedAccount = await Account.findOneAndUpdate(scopeToHousehold(req, { _id: req.params.id }), updateData, {
         new: true,
       });
       
@@ -190,7 +243,7 @@ export default {
   },
   delete: async (req: Request, res: Response): Promise<void> => {
     try {
-      const account = await Account.findById(req.params.id);
+      const account = await Account.findOne(scopeToHousehold(req, { _id: req.params.id }));
       if (!account) {
         res.status(404).json({ error: translate('accounts.not_found', req.lang) });
         return;
@@ -200,7 +253,7 @@ export default {
       account.isDeleted = true;
       account.updatedAt = Date.now();
       account.syncVersion = (account.syncVersion || 1) + 1;
-      account.lastModifiedBy = req.body?.deviceId || req.headers['x-device-id'] as string || 'system';
+      account.lastModifiedBy = getModifiedBy(req);
       await account.save();
 
       res.json({ message: translate('accounts.deleted_success', req.lang) });
@@ -214,9 +267,9 @@ export default {
       const timestamp = lastSyncTimestamp || 0;
       
       // Get accounts updated since last sync
-      const accounts = await Account.find({
+      const accounts = await Account.find(scopeToHousehold(req, {
         updatedAt: { $gt: timestamp }
-      }).sort({ updatedAt: 1 });
+      })).sort({ updatedAt: 1 });
       
       // If client provided account hashes, filter out accounts that haven't changed
       let filteredAccounts = accounts;
@@ -250,6 +303,7 @@ export default {
           color: account.color,
           includeInTotal: account.includeInTotal,
           creditLimit: account.creditLimit,
+          currency: account.currency,
           order: account.order, // Include order field
           updatedAt: account.updatedAt,
           isDeleted: account.isDeleted,
@@ -281,13 +335,14 @@ export default {
         }
         
         // Check if account exists and get its current hash if available
-        const existingAccount = await Account.findById(accountData.id);
+        const existingAccount = await Account.findOne(scopeToHousehold(req, { _id: accountData.id }));
         
         // If account doesn't exist, create it
         if (!existingAccount) {
           console.log(`Creating new account: ${accountData.name} (${accountData.id})`);
           const newAccount = new Account({
             _id: accountData.id,
+            householdId: getHouseholdId(req),
             name: accountData.name,
             description: accountData.description,
             balance: accountData.balance,
@@ -296,6 +351,7 @@ export default {
             color: accountData.color,
             includeInTotal: accountData.includeInTotal,
             creditLimit: accountData.creditLimit,
+            currency: accountData.currency,
             order: accountData.order, // Include order field
             updatedAt: accountData.updatedAt,
             isDeleted: accountData.isDeleted
@@ -326,6 +382,8 @@ export default {
           existingAccount.color = accountData.color;
           existingAccount.includeInTotal = accountData.includeInTotal;
           existingAccount.creditLimit = accountData.creditLimit;
+          // Clients that predate currencies leave the account's currency as it is
+          existingAccount.currency = accountData.currency ?? existingAccount.currency;
           existingAccount.order = accountData.order; // Include order field
           existingAccount.updatedAt = accountData.updatedAt;
           existingAccount.isDeleted = accountData.isDeleted;
@@ -357,7 +415,7 @@ export default {
   updateOrder: async (req: Request, res: Response): Promise<void> => {
     try {
       const { accounts } = req.body;
-      const deviceId = req.body.deviceId || req.headers['x-device-id'] || 'system';
+      const modifiedBy = getModifiedBy(req);
       
       if (!Array.isArray(accounts)) {
         res.status(400).json({ error: 'Accounts must be an array' });
@@ -370,14 +428,14 @@ export default {
           return Promise.reject(new Error('Each account must have an id and order'));
         }
         
-        const account = await Account.findById(item.id);
+        const account = await Account.findOne(scopeToHousehold(req, { _id: item.id }));
         if (!account) return null;
 
-        return Account.findByIdAndUpdate(item.id, { 
+        return Account.findOneAndUpdate(scopeToHousehold(req, { _id: item.id }), { 
           order: item.order,
           updatedAt: Date.now(),
           syncVersion: (account.syncVersion || 1) + 1,
-          lastModifiedBy: deviceId
+          lastModifiedBy: modifiedBy
         });
       });
       
@@ -0,0 +1,38 @@
+import { Request, Response } from "express";
+import Household from "../models/household";
+import { translate } from "../localization";
+import { getHouseholdId, isHouseholdOwner } from "../utils/household";
+import { recalculateHouseholdBalances } from "../utils/balances";
+
+export default {
+  // Rebuild account balances and category totals from the transactions; a dry run only reports the drift
+  recalculate: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const household = await Household.findById(getHouseholdId(req));
+      if (!household) {
+        res.status(404).json({ error: translate('households.not_found', req.lang) });
+        return;
+      }
+      if (!isHouseholdOwner(household, req.user!.id)) {
+        res.status(403).json({ error: translate('households.owner_required', req.lang) });
+        return;
+      }
+
+      const dryRun = req.body.dryRun === true;
+      const drift = await recalculateHouseholdBalances(getHouseholdId(req), { dryRun });
+      const count = drift.accounts.length + drift.categories.length;
+
+      res.json({
+        dryRun,
+        ...drift,
+        message: translate(
+          count === 0 ? 'admin.no_drift' : dryRun ? 'admin.drift_found' : 'admin.recalculated_success',
+          req.lang,
+          { count: count.toString() }
+        )
+      });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  }
+};
@@ -0,0 +1,175 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Attachment from "../models/attachment";
+import Transaction from "../models/transaction";
+import { translate } from "../localization";
+import { addSoftDeleteFilter } from "../utils/softDelete";
+import { getModifiedBy } from "../utils/auth";
+import { getHouseholdId, scopeToHousehold } from "../utils/household";
+import { runInTransaction } from "../utils/dbTransaction";
+import { getAttachmentStorage } from "../utils/attachmentStorage";
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENTS_PER_TRANSACTION,
+  MAX_ATTACHMENT_BYTES,
+  attachmentKey,
+  detectContentType
+} from "../utils/attachments";
+
+// Helper function to transform attachment object for frontend; the storage key stays on the server
+function transformAttachmentForFrontend(attachment: any): any {
+  const transformed = {
+    ...attachment.toObject(),
+    id: attachment._id.toString(),
+  };
+  delete transformed._id;
+  delete transformed.__v;
+  delete transformed.key;
+  return transformed;
+}
+
+// The live transaction of the caller's household that the route names
+function findTransaction(req: Request) {
+  return Transaction.findOne(addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id })));
+}
+
+// Keep the transaction's attachment count in step; a plain update, so balances are left alone
+function countAttachment(req: Request, change: 1 | -1, session?: mongoose.ClientSession) {
+  return Transaction.updateOne(
+    scopeToHousehold(req, { _id: req.params.id }),
+    {
+      $inc: { attachmentCount: change, syncVersion: 1 },
+      $set: { updatedAt: Date.now(), lastModifiedBy: getModifiedBy(req) }
+    },
+    { session }
+  );
+}
+
+export default {
+  // The file comes base64-encoded; its first bytes must agree with the declared type
+  post: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const transaction = await findTransaction(req);
+      if (!transaction) {
+        res.status(404).json({ error: translate('transactions.not_found', req.lang) });
+        return;
+      }
+
+      const { filename, contentType } = req.body;
+      if (!ALLOWED_ATTACHMENT_TYPES.includes(contentType)) {
+        res.status(415).json({ error: translate('attachments.unsupported_type', req.lang) });
+        return;
+      }
+
+      const data = Buffer.from(req.body.data, 'base64');
+      if (data.length > MAX_ATTACHMENT_BYTES) {
+        res.status(413).json({
+          error: translate('attachments.too_large', req.lang, { count: (MAX_ATTACHMENT_BYTES / (1024 * 1024)).toString() })
+        });
+        return;
+      }
+      if (detectContentType(data) !== contentType) {
+        res.status(400).json({ error: translate('attachments.content_mismatch', req.lang) });
+        return;
+      }
+
+      const existing = await Attachment.countDocuments(scopeToHousehold(req, { transaction: transaction._id }));
+      if (existing >= MAX_ATTACHMENTS_PER_TRANSACTION) {
+        res.status(400).json({
+          error: translate('attachments.limit_reached', req.lang, { count: MAX_ATTACHMENTS_PER_TRANSACTION.toString() })
+        });
+        return;
+      }
+
+      const id = new mongoose.Types.ObjectId();
+      const key = attachmentKey(getHouseholdId(req), req.params.id, id.toString());
+      const attachment = new Attachment({
+        _id: id,
+        householdId: getHouseholdId(req),
+        transaction: transaction._id,
+        filename,
+        contentType,
+        size: data.length,
+        key,
+        lastModifiedBy: getModifiedBy(req)
+      });
+
+      const storage = getAttachmentStorage();
+      await storage.put(key, data, contentType);
+      try {
+        await runInTransaction(async session => {
+          await attachment.save({ session });
+          await countAttachment(req, 1, session);
+        });
+      } catch (err) {
+        // Don't leave a stored file that nothing points at
+        await storage.delete(key).catch(() => undefined);
+        throw err;
+      }
+
+      res.status(201).json({
+        data: transformAttachmentForFrontend(attachment),
+        message: translate('attachments.uploaded_success', req.lang)
+      });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  all: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const transaction = await findTransaction(req);
+      if (!transaction) {
+        res.status(404).json({ error: translate('transactions.not_found', req.lang) });
+        return;
+      }
+
+      const attachments = await Attachment.find(scopeToHousehold(req, { transaction: transaction._id })).sort({ createdAt: 1 });
+      res.json(attachments.map(transformAttachmentForFrontend));
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  download: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const attachment = await Attachment.findOne(
+        scopeToHousehold(req, { _id: req.params.attachmentId, transaction: req.params.id })
+      );
+      if (!attachment) {
+        res.status(404).json({ error: translate('attachments.not_found', req.lang) });
+        return;
+      }
+
+      const data = await getAttachmentStorage().get(attachment.key);
+      res.attachment(attachment.filename);
+      res.type(attachment.contentType);
+      res.send(data);
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  // The record goes first so a storage failure leaves at worst an unreferenced file
+  delete: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const attachment = await runInTransaction(async session => {
+        const deleted = await Attachment.findOneAndDelete(
+          scopeToHousehold(req, { _id: req.params.attachmentId, transaction: req.params.id }),
+          { session }
+        );
+        if (deleted) {
+          await countAttachment(req, -1, session);
+        }
+        return deleted;
+      });
+
+      if (!attachment) {
+        res.status(404).json({ error: translate('attachments.not_found', req.lang) });
+        return;
+      }
+
+      await getAttachmentStorage().delete(attachment.key);
+      res.json({ message: translate('attachments.deleted_success', req.lang) });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  }
+};
@@ -0,0 +1,114 @@
+import { Request, Response } from "express";
+import User from "../models/user";
+import { translate } from "../localization";
+import { hashPassword, issueTokens, verifyPassword, verifyRefreshToken } from "../utils/auth";
+import { ensureHousehold } from "../utils/household";
+
+// Helper function to transform user object for frontend (never exposes the password hash)
+function transformUserForFrontend(user: any): any {
+  return {
+    id: user._id.toString(),
+    email: user.email,
+    name: user.name,
+    householdId: user.householdId ? user.householdId.toString() : null
+  };
+}
+
+// Users without a household (e.g. removed from one) get a personal household before tokens are issued
+async function tokensForUser(user: any) {
+  const householdId = await ensureHousehold(user);
+  return issueTokens({ id: user._id.toString(), email: user.email, householdId, tokenVersion: user.tokenVersion || 0 });
+}
+
+export default {
+  register: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const email = req.body.email.toLowerCase().trim();
+      const existing = await User.findOne({ email });
+      if (existing) {
+        res.status(409).json({ error: translate('auth.email_taken', req.lang) });
+        return;
+      }
+
+      const user = new User({
+        email,
+        name: req.body.name,
+        passwordHash: await hashPassword(req.body.password),
+        lastLoginAt: new Date()
+      });
+      await user.save();
+      const tokens = await tokensForUser(user);
+
+      res.status(201).json({
+        data: { user: transformUserForFrontend(user), ...tokens },
+        message: translate('auth.registered_success', req.lang)
+      });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  },
+  login: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = await User.findOne({ email: req.body.email.toLowerCase().trim() });
+      if (!user || !(await verifyPassword(req.body.password, user.passwordHash))) {
+        res.status(401).json({ error: translate('auth.invalid_credentials', req.lang) });
+        return;
+      }
+
+      user.lastLoginAt = new Date();
+      await user.save();
+      const tokens = await tokensForUser(user);
+
+      res.json({
+        data: { user: transformUserForFrontend(user), ...tokens },
+        message: translate('auth.login_success', req.lang)
+      });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  refresh: async (req: Request, res: Response): Promise<void> => {
+    let payload;
+    try {
+      payload = verifyRefreshToken(req.body.refreshToken);
+    } catch (err) {
+      res.status(401).json({ error: translate('auth.invalid_token', req.lang), code: 'invalid_token' });
+      return;
+    }
+
+    try {
+      const user = await User.findById(payload.sub);
+      // A bumped token version means the refresh token was revoked (e.g. by logout)
+      if (!user || (user.tokenVersion || 0) !== payload.version) {
+        res.status(401).json({ error: translate('auth.invalid_token', req.lang), code: 'invalid_token' });
+        return;
+      }
+
+      const tokens = await tokensForUser(user);
+      res.json({ data: { user: transformUserForFrontend(user), ...tokens } });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  me: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = await User.findById(req.user!.id);
+      if (!user) {
+        res.status(404).json({ error: translate('auth.user_not_found', req.lang) });
+        return;
+      }
+      res.json(transformUserForFrontend(user));
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  // Revoke every refresh token issued to the user
+  logout: async (req: Request, res: Response): Promise<void> => {
+    try {
+      await User.findByIdAndUpdate(req.user!.id, { $inc: { tokenVersion: 1 } });
+      res.json({ message: translate('auth.logout_success', req.lang) });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  }
+};
@@ -0,0 +1,52 @@
+import { Request, Response } from "express";
+import { translate } from "../localization";
+import { getModifiedBy } from "../utils/auth";
+import { getHouseholdId } from "../utils/household";
+import { BackupEntity, backupToCsv, createBackup, isHouseholdEmpty, restoreBackup } from "../utils/backup";
+import { buildTransactionFilter, TransactionFilterParams } from "../utils/transactionFilters";
+
+export default {
+  // Versioned JSON archive of the household, or one of its entities as CSV
+  exportData: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { format, entity, includeDeleted } = req.query;
+      // A transaction CSV holds only the transactions the filters match
+      const transactionFilter = format === 'csv' && entity === 'transactions'
+        ? await buildTransactionFilter(getHouseholdId(req), req.query as TransactionFilterParams)
+        : undefined;
+      const archive = await createBackup(getHouseholdId(req), { includeDeleted: includeDeleted === 'true', transactionFilter });
+      const date = archive.exportedAt!.slice(0, 10);
+
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${entity}-${date}.csv"`);
+        // The byte order mark makes spreadsheet apps read the file as UTF-8
+        res.send('\uFEFF' + backupToCsv(archive, entity as BackupEntity));
+        return;
+      }
+
+      res.setHeader('Content-Disposition', `attachment; filename="backup-${date}.json"`);
+      res.json(archive);
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  // Restore an archive into the caller's household, which must be empty
+  restore: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const householdId = getHouseholdId(req);
+      if (!(await isHouseholdEmpty(householdId))) {
+        res.status(409).json({ error: translate('backups.household_not_empty', req.lang) });
+        return;
+      }
+
+      const restored = await restoreBackup(householdId, req.body, getModifiedBy(req));
+      res.status(201).json({
+        data: restored,
+        message: translate('backups.restored_success', req.lang, { count: restored.transactions.toString() })
+      });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  }
+};
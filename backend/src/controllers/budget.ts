@@ -0,0 +1,225 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Budget from "../models/budget";
+import Category, { getAllDescendantIds } from "../models/category";
+import { translate } from "../localization";
+import { NOT_DELETED_FILTER, addSoftDeleteFilter, performSoftDelete } from "../utils/softDelete";
+import { sumCategoryTransactions } from "../utils/transactionTotals";
+import { getModifiedBy } from "../utils/auth";
+import { getHouseholdId, scopeToHousehold } from "../utils/household";
+
+// Helper function to transform budget object for frontend
+function transformBudgetForFrontend(budget: any): any {
+  const transformed = {
+    ...budget.toObject(),
+    id: budget._id.toString(),
+  };
+
+  // Handle populated category - convert _id to id
+  if (transformed.category && typeof transformed.category === 'object' && transformed.category._id) {
+    transformed.category = {
+      ...transformed.category,
+      id: transformed.category._id.toString()
+    };
+    delete transformed.category._id;
+    delete transformed.category.__v;
+  }
+
+  delete transformed._id;
+  delete transformed.__v;
+  return transformed;
+}
+
+// Helper to get the UTC start and end of the budget period containing a date
+function getPeriodRange(period: 'monthly' | 'yearly', date: Date): { periodStart: Date; periodEnd: Date } {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  if (period === 'yearly') {
+    return {
+      periodStart: new Date(Date.UTC(year, 0, 1)),
+      periodEnd: new Date(Date.UTC(year, 11, 31, 23, 59, 59, 999))
+    };
+  }
+
+  return {
+    periodStart: new Date(Date.UTC(year, month, 1)),
+    periodEnd: new Date(Date.UTC(year, month + 1, 0, 23, 59, 59, 999))
+  };
+}
+
+// Helper to parse a YYYY-MM month query value, defaulting to the current month
+function parseMonth(month?: string): Date {
+  if (!month) {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1, 1));
+}
+
+export default {
+  post: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const category = await Category.findOne(scopeToHousehold(req, { _id: req.body.category }));
+      if (!category) {
+        res.status(404).json({ error: translate('categories.not_found', req.lang) });
+        return;
+      }
+
+      const budgetData = {
+        ...req.body,
+        updatedAt: Date.now(),
+        syncVersion: 1,
+        lastModifiedBy: getModifiedBy(req),
+        householdId: getHouseholdId(req)
+      };
+      const budget = new Budget(budgetData);
+      await budget.save();
+      res.status(201).json({
+        data: transformBudgetForFrontend(budget),
+        message: translate('budgets.created_success', req.lang)
+      });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  },
+  all: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { category } = req.query;
+
+      const filter: any = {};
+      if (category) {
+        filter.category = category;
+      }
+
+      const budgets = await Budget.find(addSoftDeleteFilter(scopeToHousehold(req, filter))).sort({ startDate: 1 });
+      res.json(budgets.map(transformBudgetForFrontend));
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  get: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const budget = await Budget.findOne(addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id })));
+      if (!budget) {
+        res.status(404).json({ error: translate('budgets.not_found', req.lang) });
+        return;
+      }
+      res.json(transformBudgetForFrontend(budget));
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  update: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const budget = await Budget.findOne(addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id })));
+      if (!budget) {
+        res.status(404).json({ error: translate('budgets.not_found', req.lang) });
+        return;
+      }
+
+      if (req.body.category) {
+        const category = await Category.findOne(scopeToHousehold(req, { _id: req.body.category }));
+        if (!category) {
+          res.status(404).json({ error: translate('categories.not_found', req.lang) });
+          return;
+        }
+      }
+
+      const updateData = {
+        ...req.body,
+        updatedAt: Date.now(),
+        syncVersion: (budget.syncVersion || 1) + 1,
+        lastModifiedBy: getModifiedBy(req),
+        householdId: getHouseholdId(req)
+      };
+
+      const updatedBudget = await Budget.findOneAndUpdate(scopeToHousehold(req, { _id: req.params.id }), updateData, {
+        new: true,
+        runValidators: true
+      });
+
+      res.json({
+        data: transformBudgetForFrontend(updatedBudget),
+        message: translate('budgets.updated_success', req.lang)
+      });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  },
+  delete: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const modifiedBy = getModifiedBy(req);
+      const budget = await performSoftDelete(Budget, req.params.id, modifiedBy, scopeToHousehold(req));
+
+      if (!budget) {
+        res.status(404).json({ error: translate('budgets.not_found', req.lang) });
+        return;
+      }
+
+      res.json({ message: translate('budgets.deleted_success', req.lang) });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  // Budget vs actual for every budget active in the requested month
+  progress: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { month, category } = req.query;
+      const monthStart = parseMonth(month as string | undefined);
+      const { periodEnd: monthEnd } = getPeriodRange('monthly', monthStart);
+
+      const filter: any = {
+        startDate: { $lte: monthEnd },
+        $or: [{ endDate: null }, { endDate: { $gte: monthStart } }]
+      };
+      if (category) {
+        filter.category = category;
+      }
+
+      const budgets = await Budget.find(addSoftDeleteFilter(scopeToHousehold(req, filter))).populate("category");
+
+      const progress = await Promise.all(
+        budgets.map(async (budget) => {
+          const budgetCategory = budget.category as any;
+          const categoryId = (budgetCategory?._id || budget.category).toString();
+          const { periodStart, periodEnd } = getPeriodRange(budget.period, monthStart);
+
+          // Spending over the category, or its whole subtree when requested
+          const categoryIds = budget.includeSubcategories
+            ? await getAllDescendantIds(getHouseholdId(req), categoryId)
+            : [categoryId];
+
+          const { total: spent, count } = await sumCategoryTransactions(categoryIds, {
+            ...NOT_DELETED_FILTER,
+            householdId: new mongoose.Types.ObjectId(getHouseholdId(req)),
+            transactionDate: { $gte: periodStart, $lte: periodEnd }
+          });
+
+          return {
+            budget: transformBudgetForFrontend(budget),
+            periodStart,
+            periodEnd,
+            spent,
+            remaining: budget.amount - spent,
+            percentUsed: budget.amount > 0 ? Math.round((spent / budget.amount) * 10000) / 100 : 0,
+            transactionCount: count,
+            overBudget: spent > budget.amount
+          };
+        })
+      );
+
+      res.json({
+        month: `${monthStart.getUTCFullYear()}-${String(monthStart.getUTCMonth() + 1).padStart(2, '0')}`,
+        budgets: progress,
+        totals: {
+          budgeted: progress.reduce((sum, item) => sum + item.budget.amount, 0),
+          spent: progress.reduce((sum, item) => sum + item.spent, 0)
+        }
+      });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  }
+};
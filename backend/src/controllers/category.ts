@@ -1,8 +1,13 @@
 import { Request, Response } from "express";
 import Category from "../models/category";
-import Transaction from "../models/transaction";
 import mongoose from "mongoose";
 import { translate } from "../localization";
+import { buildDateCondition, sumCategoryTransactions, sumTransactionsByCategory } from "../utils/transactionTotals";
+import { getModifiedBy } from "../utils/auth";
+import { getHouseholdId, scopeToHousehold, verifyHouseholdReferences } from "../utils/household";
+import { addSoftDeleteFilter, NOT_DELETED_FILTER, performSoftDelete } from "../utils/softDelete";
+import { runInTransaction } from "../utils/dbTransaction";
+import { buildCategoryTree, isInSubtree, moveCategoryContents, moveCategorySubtree, moveTargetError } from "../utils/categories";
 
 // Define interfaces for proper typing
 interface ICategory {
@@ -43,14 +48,43 @@ function generateCategoryHash(category: any): string {
   return hash.toString(16);
 }
 
+// Why a category can't take over the contents of another one, or null when it can
+async function mergeTargetError(req: Request, source: any, targetId: string): Promise<{ status: number; key: string } | null> {
+  const sourceId = source._id.toString();
+  if (targetId === sourceId) {
+    return { status: 400, key: 'categories.merge_into_self' };
+  }
+  const target = await Category.findOne(addSoftDeleteFilter(scopeToHousehold(req, { _id: targetId })));
+  if (!target) {
+    return { status: 404, key: 'categories.not_found' };
+  }
+  if ((target.type || 'Expense') !== (source.type || 'Expense')) {
+    return { status: 400, key: 'categories.type_mismatch' };
+  }
+  if (await isInSubtree(getHouseholdId(req), targetId, sourceId)) {
+    return { status: 400, key: 'categories.merge_into_subcategory' };
+  }
+  return null;
+}
+
+function currentParentId(category: any): string | null {
+  return category.parent ? category.parent.toString() : null;
+}
+
 export default {
   post: async (req: Request, res: Response): Promise<void> => {
     try {
+      if (!(await verifyHouseholdReferences(getHouseholdId(req), { categories: [req.body.parent] }))) {
+        res.status(404).json({ error: translate('categories.not_found', req.lang) });
+        return;
+      }
+
       const categoryData = {
         ...req.body,
         updatedAt: Date.now(),
         syncVersion: 1,
-        lastModifiedBy: req.body.deviceId || req.headers['x-device-id'] || 'system'
+        lastModifiedBy: getModifiedBy(req),
+        householdId: getHouseholdId(req)
       };
       const category = new Category(categoryData);
       await category.save();
@@ -64,7 +98,7 @@ export default {
   },
   get: async (req: Request, res: Response): Promise<void> => {
     try {
-      const category = await Category.findById(req.params.id);
+      const category = await Category.findOne(scopeToHousehold(req, { _id: req.params.id }));
       if (!category) {
         res.status(404).json({ error: translate('categories.not_found', req.lang) });
         return;
@@ -77,79 +111,32 @@ export default {
   all: async (req: Request, res: Response): Promise<void> => {
     try {
       const { fromDate, toDate } = req.query;
-      const categories = await Category.find();
-      
-      // Create date filter for transactions
-      const dateFilter: any = {};
-      
-      if (fromDate) {
-        dateFilter.$gte = new Date(fromDate as string);
-      }
+      const categories = await Category.find(addSoftDeleteFilter(scopeToHousehold(req)));
       
-      if (toDate) {
-        const toDateObj = new Date(toDate as string);
-        toDateObj.setHours(23, 59, 59, 999);
-        dateFilter.$lte = toDateObj;
-      }
+      // Create match conditions for the aggregations
+      const matchCondition = {
+        householdId: new mongoose.Types.ObjectId(getHouseholdId(req)),
+        ...buildDateCondition(fromDate as string, toDate as string)
+      };
       
       // Get transaction data for all categories
       const categoriesWithTransactions = await Promise.all(
         categories.map(async (category) => {
-          const categoryId = new mongoose.Types.ObjectId(category._id as unknown as string);
-          
-          // Get all transactions in this category
-          const transactionSum = await Transaction.aggregate([
-            { 
-              $match: { 
-                category: categoryId,
-                ...(Object.keys(dateFilter).length > 0 ? { transactionDate: dateFilter } : {})
-              } 
-            },
-            { $group: { 
-                _id: null, 
-                total: { $sum: "$amount" },
-                count: { $sum: 1 }
-              } 
-            }
-          ]);
+          // Get all transactions in this category (split lines count towards their own category)
+          const directTotals = await sumCategoryTransactions([category._id as unknown as string], matchCondition);
           
           // Get all subcategories to include them in the totals
-          const subcategories = await Category.find({ parent: category._id }) as ICategory[];
+          const subcategories = await Category.find(addSoftDeleteFilter(scopeToHousehold(req, { parent: category._id }))) as ICategory[];
           
           // If there are subcategories, get their transactions too
-          let subcategoryTotals = { total: 0, count: 0 };
-          
-          if (subcategories.length > 0) {
-            const subcategoryIds = subcategories.map(subcat => 
-              new mongoose.Types.ObjectId(subcat._id.toString())
-            );
-            
-            const subcategorySum = await Transaction.aggregate([
-              { 
-                $match: { 
-                  category: { $in: subcategoryIds },
-                  ...(Object.keys(dateFilter).length > 0 ? { transactionDate: dateFilter } : {})
-                } 
-              },
-              { $group: { 
-                  _id: null, 
-                  total: { $sum: "$amount" },
-                  count: { $sum: 1 }
-                } 
-              }
-            ]);
-            
-            if (subcategorySum.length > 0) {
-              subcategoryTotals = {
-                total: subcategorySum[0].total,
-                count: subcategorySum[0].count
-              };
-            }
-          }
+          const subcategoryTotals = await sumCategoryTransactions(
+            subcategories.map(subcat => subcat._id.toString()),
+            matchCondition
+          );
           
           // Calculate the totals
-          const directTotal = transactionSum.length > 0 ? transactionSum[0].total : 0;
-          const directCount = transactionSum.length > 0 ? transactionSum[0].count : 0;
+          const directTotal = directTotals.total;
+          const directCount = directTotals.count;
           
           return {
             ...transformCategoryForFrontend(category),
@@ -177,23 +164,75 @@ export default {
       res.status(500).json({ error: (err as Error).message });
     }
   },
+  // The whole category tree with direct and rolled-up totals over an optional date range
+  tree: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { from, to, type } = req.query;
+      // Categories saved before types existed count as expenses
+      const typeFilter = type === 'Income' ? { type: 'Income' } : type === 'Expense' ? { type: { $ne: 'Income' } } : {};
+      const [categories, direct] = await Promise.all([
+        Category.find(addSoftDeleteFilter(scopeToHousehold(req, typeFilter))).sort({ order: 1, name: 1 }),
+        sumTransactionsByCategory({
+          householdId: new mongoose.Types.ObjectId(getHouseholdId(req)),
+          ...buildDateCondition(from as string, to as string),
+          ...NOT_DELETED_FILTER
+        })
+      ]);
+
+      const tree = buildCategoryTree(
+        categories.map(category => {
+          const plain = transformCategoryForFrontend(category);
+          return { ...plain, parent: plain.parent ? plain.parent.toString() : null };
+        }),
+        direct
+      );
+      res.json(tree);
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
   update: async (req: Request, res: Response): Promise<void> => {
     try {
-      const category = await Category.findById(req.params.id);
+      const category = await Category.findOne(scopeToHousehold(req, { _id: req.params.id }));
       if (!category) {
         res.status(404).json({ error: translate('categories.not_found', req.lang) });
         return;
       }
 
+      if (!(await verifyHouseholdReferences(getHouseholdId(req), { categories: [req.body.parent] }))) {
+        res.status(404).json({ error: translate('categories.not_found', req.lang) });
+        return;
+      }
+
+      // A new parent (or a new type under the same parent) must keep the tree consistent
+      const parentChanged = 'parent' in req.body && (req.body.parent || null) !== currentParentId(category);
+      const parentId = 'parent' in req.body ? req.body.parent || null : currentParentId(category);
+      if (parentChanged || (req.body.type && req.body.type !== category.type)) {
+        const moveError = await moveTargetError(getHouseholdId(req), category, parentId, req.body.type || category.type);
+        if (moveError) {
+          res.status(moveError.status).json({ error: translate(moveError.key, req.lang) });
+          return;
+        }
+      }
+
+      const { parent, ...fields } = req.body;
+      const modifiedBy = getModifiedBy(req);
       const updateData = {
-        ...req.body,
+        ...fields,
         updatedAt: Date.now(),
         syncVersion: (category.syncVersion || 1) + 1,
-        lastModifiedBy: req.body.deviceId || req.headers['x-device-id'] || 'system'
+        lastModifiedBy: modifiedBy,
+        householdId: getHouseholdId(req)
       };
       
-      const updatedCategory = await Category.findByIdAndUpdate(req.params.id, updateData, {
-        new: true,
+      const updatedCategory = await runInTransaction(async session => {
+        if (parentChanged) {
+          await moveCategorySubtree(getHouseholdId(req), req.params.id, parentId, modifiedBy, session);
+        }
+        return Category.findOneAndUpdate(scopeToHousehold(req, { _id: req.params.id }), updateData, {
+          new: true,
+          session
+        });
       });
       
       res.json(transformCategoryForFrontend(updatedCategory));
@@ -201,51 +240,124 @@ export default {
       res.status(400).json({ error: (err as Error).message });
     }
   },
+  // Soft delete; with moveTo its transactions and subcategories move to that category first
   delete: async (req: Request, res: Response): Promise<void> => {
     try {
-      const subcategories = await Category.find({ parent: req.params.id });
-      if (subcategories.length > 0) {
-        res.status(400).json({ 
-          error: translate('categories.cannot_delete_with_subcategories', req.lang)
-        });
-        return;
+      const moveTo = req.query.moveTo as string | undefined;
+      if (!moveTo) {
+        const subcategories = await Category.find(addSoftDeleteFilter(scopeToHousehold(req, { parent: req.params.id })));
+        if (subcategories.length > 0) {
+          res.status(400).json({ 
+            error: translate('categories.cannot_delete_with_subcategories', req.lang)
+          });
+          return;
+        }
       }
 
-      const category = await Category.findById(req.params.id);
+      const category = await Category.findOne(addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id })));
       if (!category) {
         res.status(404).json({ error: translate('categories.not_found', req.lang) });
         return;
       }
 
-      // Soft delete (mark as deleted but keep in database for sync purposes)
-      category.updatedAt = Date.now();
-      category.syncVersion = (category.syncVersion || 1) + 1;
-      category.lastModifiedBy = req.body?.deviceId || req.headers['x-device-id'] as string || 'system';
-      // Note: Category model doesn't have isDeleted field yet, but Transaction does
-      await category.save();
+      const modifiedBy = getModifiedBy(req);
+      if (moveTo) {
+        const targetError = await mergeTargetError(req, category, moveTo);
+        if (targetError) {
+          res.status(targetError.status).json({ error: translate(targetError.key, req.lang) });
+          return;
+        }
+      }
+
+      // Kept in the database (marked deleted) for sync purposes
+      await runInTransaction(async session => {
+        if (moveTo) {
+          await moveCategoryContents(getHouseholdId(req), req.params.id, moveTo, modifiedBy, session);
+        }
+        await performSoftDelete(Category, req.params.id, modifiedBy, scopeToHousehold(req), session);
+      });
 
       res.json({ message: translate('categories.deleted_success', req.lang) });
     } catch (err) {
       res.status(500).json({ error: (err as Error).message });
     }
   },
+  // Merge a category into another one: everything filed under it moves over and it is deleted
+  merge: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const category = await Category.findOne(addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id })));
+      if (!category) {
+        res.status(404).json({ error: translate('categories.not_found', req.lang) });
+        return;
+      }
+
+      const targetError = await mergeTargetError(req, category, req.body.into);
+      if (targetError) {
+        res.status(targetError.status).json({ error: translate(targetError.key, req.lang) });
+        return;
+      }
+
+      const modifiedBy = getModifiedBy(req);
+      const moved = await runInTransaction(async session => {
+        const result = await moveCategoryContents(getHouseholdId(req), req.params.id, req.body.into, modifiedBy, session);
+        await performSoftDelete(Category, req.params.id, modifiedBy, scopeToHousehold(req), session);
+        return result;
+      });
+
+      const target = await Category.findOne(scopeToHousehold(req, { _id: req.body.into }));
+      res.json({
+        data: transformCategoryForFrontend(target),
+        moved,
+        message: translate('categories.merged_success', req.lang)
+      });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  // Move a category and its subcategories under another parent (or to the root), carrying their totals along
+  move: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const category = await Category.findOne(addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id })));
+      if (!category) {
+        res.status(404).json({ error: translate('categories.not_found', req.lang) });
+        return;
+      }
+
+      const parentId = req.body.parent || null;
+      const moveError = await moveTargetError(getHouseholdId(req), category, parentId);
+      if (moveError) {
+        res.status(moveError.status).json({ error: translate(moveError.key, req.lang) });
+        return;
+      }
+
+      const moved = await runInTransaction(session =>
+        moveCategorySubtree(getHouseholdId(req), req.params.id, parentId, getModifiedBy(req), session)
+      );
+      res.json({
+        data: transformCategoryForFrontend(moved),
+        message: translate('categories.moved_success', req.lang)
+      });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
   getSubcategories: async (req: Request, res: Response): Promise<void> => {
     try {
-      const category = await Category.findById(req.params.id);
+      const category = await Category.findOne(scopeToHousehold(req, { _id: req.params.id }));
       if (!category) {
         res.status(404).json({ error: translate('categories.not_found', req.lang) });
         return;
       }
       
-      const subcategories = await Category.find({ parent: category._id });
+      const subcategories = await Category.find(addSoftDeleteFilter(scopeToHousehold(req, { parent: category._id })));
       res.json(subcategories.map(sub => transformCategoryForFrontend(sub)));
     } catch (err) {
       res.status(500).json({ error: (err as Error).message });
     }
   },
-  getRootCategories: async (_req: Request, res: Response): Promise<void> => {
+  getRootCategories: async (req: Request, res: Response): Promise<void> => {
     try {
-      const rootCategories = await Category.find({ parent: null });
+      const rootCategories = await Category.find(addSoftDeleteFilter(scopeToHousehold(req, { parent: null })));
       res.json(rootCategories.map(cat => transformCategoryForFrontend(cat)));
     } catch (err) {
       res.status(500).json({ error: (err as Error).message });
@@ -257,83 +369,33 @@ export default {
       const categoryId = req.params.id;
       
       // First verify the category exists
-      const category = await Category.findById(categoryId);
+      const category = await Category.findOne(scopeToHousehold(req, { _id: categoryId }));
       if (!category) {
         res.status(404).json({ error: translate('categories.not_found', req.lang) });
         return;
       }
 
-      // Create date filter if needed
-      const dateFilter: any = {};
-      
-      if (fromDate) {
-        dateFilter.$gte = new Date(fromDate as string);
-      }
-      
-      if (toDate) {
-        const toDateObj = new Date(toDate as string);
-        toDateObj.setHours(23, 59, 59, 999);
-        dateFilter.$lte = toDateObj;
-      }
-
       // Create match conditions for the aggregation
-      const dateCondition = Object.keys(dateFilter).length > 0 
-        ? { transactionDate: dateFilter } 
-        : {};
+      const matchCondition = {
+        ...buildDateCondition(fromDate as string, toDate as string),
+        householdId: new mongoose.Types.ObjectId(getHouseholdId(req))
+      };
 
       // Get all transactions in this category with optional date filtering
-      const transactionSum = await Transaction.aggregate([
-        { 
-          $match: { 
-            category: new mongoose.Types.ObjectId(categoryId),
-            ...dateCondition
-          } 
-        },
-        { $group: { 
-            _id: null, 
-            total: { $sum: "$amount" },
-            count: { $sum: 1 }
-          } 
-        }
-      ]);
+      const directTotals = await sumCategoryTransactions([categoryId], matchCondition);
 
       // Get all subcategories to include them in the totals
-      const subcategories = await Category.find({ parent: categoryId }) as ICategory[];
+      const subcategories = await Category.find(scopeToHousehold(req, { parent: categoryId })) as ICategory[];
       
       // If there are subcategories, get their transactions too
-      let subcategoryTotals = { total: 0, count: 0 };
-      
-      if (subcategories.length > 0) {
-        const subcategoryIds = subcategories.map(subcat => 
-          new mongoose.Types.ObjectId(subcat._id.toString())
-        );
-        
-        const subcategorySum = await Transaction.aggregate([
-          { 
-            $match: { 
-              category: { $in: subcategoryIds },
-              ...dateCondition
-            } 
-          },
-          { $group: { 
-              _id: null, 
-              total: { $sum: "$amount" },
-              count: { $sum: 1 }
-            } 
-          }
-        ]);
-        
-        if (subcategorySum.length > 0) {
-          subcategoryTotals = {
-            total: subcategorySum[0].total,
-            count: subcategorySum[0].count
-          };
-        }
-      }
+      const subcategoryTotals = await sumCategoryTransactions(
+        subcategories.map(subcat => subcat._id.toString()),
+        matchCondition
+      );
 
       // Calculate the totals
-      const directTotal = transactionSum.length > 0 ? transactionSum[0].total : 0;
-      const directCount = transactionSum.length > 0 ? transactionSum[0].count : 0;
+      const directTotal = directTotals.total;
+      const directCount = directTotals.count;
       
       res.json({
         category: transformCategoryForFrontend(category),
@@ -365,10 +427,32 @@ export default {
         res.status(400).json({ error: 'Categories must be an array' });
         return;
       }
-      await Promise.all(categories.map(async (item: any) => {
-        if (!item.id || typeof item.order !== 'number') throw new Error('Each category must have id and order');
-        await Category.findByIdAndUpdate(item.id, { order: item.order, parent: item.parent || null, updatedAt: Date.now() });
-      }));
+      const parents = categories.map((item: any) => item.parent);
+      if (!(await verifyHouseholdReferences(getHouseholdId(req), { categories: parents }))) {
+        res.status(404).json({ error: translate('categories.not_found', req.lang) });
+        return;
+      }
+      const modifiedBy = getModifiedBy(req);
+      // One by one, so each move is checked against the tree left by the previous ones
+      await runInTransaction(async session => {
+        for (const item of categories) {
+          if (!item.id || typeof item.order !== 'number') throw new Error('Each category must have id and order');
+          const category = await Category.findOne(scopeToHousehold(req, { _id: item.id }), null, { session });
+          if (!category) continue;
+
+          const parentId = item.parent || null;
+          if (parentId !== currentParentId(category)) {
+            const moveError = await moveTargetError(getHouseholdId(req), category, parentId, category.type, session);
+            if (moveError) throw new Error(translate(moveError.key, req.lang));
+            await moveCategorySubtree(getHouseholdId(req), item.id, parentId, modifiedBy, session);
+          }
+          await Category.findOneAndUpdate(
+            scopeToHousehold(req, { _id: item.id }),
+            { order: item.order, updatedAt: Date.now() },
+            { session }
+          );
+        }
+      });
       res.json({ success: true, message: translate('categories.order_updated', req.lang) });
     } catch (err) {
       res.status(400).json({ error: (err as Error).message });
@@ -379,7 +463,7 @@ export default {
   syncPull: async (req: Request, res: Response): Promise<void> => {
     try {
       const { lastSyncTimestamp = 0, categoryHashes } = req.body;
-      const changed = await Category.find({ updatedAt: { $gt: lastSyncTimestamp } }).sort({ updatedAt: 1 });
+      const changed = await Category.find(scopeToHousehold(req, { updatedAt: { $gt: lastSyncTimestamp } })).sort({ updatedAt: 1 });
       const filtered = Array.isArray(changed)
         ? changed.filter(cat => {
             const id = (cat as any)._id.toString();
@@ -411,16 +495,27 @@ export default {
       const accepted: string[] = [];
       for (const data of categories) {
         const id = data.id;
-        const existing = await Category.findById(id);
+        const existing = await Category.findOne(scopeToHousehold(req, { _id: id }));
         if (!existing) {
-          await new Category({ _id: id, ...data }).save();
+          await new Category({ _id: id, ...data, householdId: getHouseholdId(req) }).save();
           accepted.push(id);
         } else {
           const serverHash = generateCategoryHash(existing);
           if (data.updatedAt > (existing as any).updatedAt || data.hash !== serverHash) {
-            Object.assign(existing, data);
+            const previousParent = currentParentId(existing);
+            const parentId = data.parent || null;
+            if (parentId !== previousParent && await moveTargetError(getHouseholdId(req), existing, parentId, data.type)) {
+              // Left out of accepted: the next pull restores the server's tree
+              continue;
+            }
+            Object.assign(existing, data, { householdId: getHouseholdId(req) });
             (existing as any).updatedAt = data.updatedAt;
-            await existing.save();
+            await runInTransaction(async session => {
+              if (parentId !== previousParent) {
+                await moveCategorySubtree(getHouseholdId(req), id, parentId, getModifiedBy(req), session);
+              }
+              await existing.save({ session });
+            });
             accepted.push(id);
           }
         }
@@ -0,0 +1,125 @@
+import { Request, Response } from "express";
+import ExchangeRate from "../models/exchangeRate";
+import { translate } from "../localization";
+import { addSoftDeleteFilter, performSoftDelete } from "../utils/softDelete";
+import { getModifiedBy } from "../utils/auth";
+import { getHouseholdId, scopeToHousehold } from "../utils/household";
+import { findExchangeRate, roundAmount } from "../utils/currency";
+
+// Helper function to transform exchange rate object for frontend
+function transformExchangeRateForFrontend(exchangeRate: any): any {
+  const transformed = {
+    ...exchangeRate.toObject(),
+    id: exchangeRate._id.toString(),
+  };
+  delete transformed._id;
+  delete transformed.__v;
+  return transformed;
+}
+
+// Rates are stored per pair and day, so re-entering a rate for the same day replaces it
+async function upsertRate(req: Request, rate: any, source: 'manual' | 'import') {
+  const parsed = new Date(rate.date);
+  const date = new Date(Date.UTC(parsed.getUTCFullYear(), parsed.getUTCMonth(), parsed.getUTCDate()));
+  const filter = addSoftDeleteFilter(scopeToHousehold(req, {
+    fromCurrency: rate.fromCurrency.toUpperCase(),
+    toCurrency: rate.toCurrency.toUpperCase(),
+    date
+  }));
+
+  return ExchangeRate.findOneAndUpdate(
+    filter,
+    {
+      $set: {
+        rate: rate.rate,
+        source,
+        updatedAt: Date.now(),
+        lastModifiedBy: getModifiedBy(req)
+      },
+      $inc: { syncVersion: 1 }
+    },
+    { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+  );
+}
+
+export default {
+  post: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const exchangeRate = await upsertRate(req, req.body, 'manual');
+
+      res.status(201).json({
+        data: transformExchangeRateForFrontend(exchangeRate),
+        message: translate('exchangeRates.created_success', req.lang)
+      });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  },
+  // Bulk import of rates (e.g. from a rate feed or spreadsheet)
+  import: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const imported = [];
+      for (const rate of req.body.rates) {
+        imported.push(await upsertRate(req, rate, 'import'));
+      }
+
+      res.status(201).json({
+        data: imported.map(transformExchangeRateForFrontend),
+        message: translate('exchangeRates.imported_success', req.lang)
+      });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  },
+  all: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { fromCurrency, toCurrency } = req.query;
+      const filter: any = {};
+      if (fromCurrency) filter.fromCurrency = (fromCurrency as string).toUpperCase();
+      if (toCurrency) filter.toCurrency = (toCurrency as string).toUpperCase();
+
+      const rates = await ExchangeRate.find(addSoftDeleteFilter(scopeToHousehold(req, filter))).sort({ date: -1 });
+      res.json(rates.map(transformExchangeRateForFrontend));
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  // Convert an amount with the rate effective on a date
+  convert: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const fromCurrency = (req.query.fromCurrency as string).toUpperCase();
+      const toCurrency = (req.query.toCurrency as string).toUpperCase();
+      const amount = Number(req.query.amount);
+      const date = req.query.date ? new Date(req.query.date as string) : new Date();
+
+      const rate = await findExchangeRate(getHouseholdId(req), fromCurrency, toCurrency, date);
+      if (rate === null) {
+        res.status(404).json({ error: translate('exchangeRates.not_found', req.lang) });
+        return;
+      }
+
+      res.json({
+        fromCurrency,
+        toCurrency,
+        rate,
+        amount,
+        convertedAmount: roundAmount(amount * rate)
+      });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  delete: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const exchangeRate = await performSoftDelete(ExchangeRate, req.params.id, getModifiedBy(req), scopeToHousehold(req));
+      if (!exchangeRate) {
+        res.status(404).json({ error: translate('exchangeRates.not_found', req.lang) });
+        return;
+      }
+
+      res.json({ message: translate('exchangeRates.deleted_success', req.lang) });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  }
+};
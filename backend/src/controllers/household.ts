@@ -0,0 +1,191 @@
+import { Request, Response } from "express";
+import Household from "../models/household";
+import User from "../models/user";
+import { translate } from "../localization";
+import { issueTokens } from "../utils/auth";
+import { generateInviteCode, getHouseholdId, isHouseholdOwner } from "../utils/household";
+
+// Invitation codes stay valid for a week
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Helper function to transform household object for frontend
+function transformHouseholdForFrontend(household: any, isOwner: boolean): any {
+  const now = new Date();
+  return {
+    id: household._id.toString(),
+    name: household.name,
+    baseCurrency: household.baseCurrency,
+    members: household.members.map((member: any) => ({
+      id: (member.user?._id || member.user).toString(),
+      email: member.user?.email,
+      name: member.user?.name,
+      role: member.role,
+      joinedAt: member.joinedAt
+    })),
+    // Only the owner sees the pending invitation codes
+    invitations: isOwner
+      ? household.invitations
+          .filter((invitation: any) => !invitation.usedBy && invitation.expiresAt > now)
+          .map((invitation: any) => ({ code: invitation.code, expiresAt: invitation.expiresAt }))
+      : []
+  };
+}
+
+export default {
+  get: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const household = await Household.findById(getHouseholdId(req)).populate('members.user', 'email name');
+      if (!household) {
+        res.status(404).json({ error: translate('households.not_found', req.lang) });
+        return;
+      }
+      res.json(transformHouseholdForFrontend(household, isHouseholdOwner(household, req.user!.id)));
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  update: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const household = await Household.findById(getHouseholdId(req));
+      if (!household) {
+        res.status(404).json({ error: translate('households.not_found', req.lang) });
+        return;
+      }
+      if (!isHouseholdOwner(household, req.user!.id)) {
+        res.status(403).json({ error: translate('households.owner_required', req.lang) });
+        return;
+      }
+
+      if (req.body.name !== undefined) household.name = req.body.name;
+      if (req.body.baseCurrency !== undefined) household.baseCurrency = req.body.baseCurrency.toUpperCase();
+      await household.save();
+      await household.populate('members.user', 'email name');
+
+      res.json({
+        data: transformHouseholdForFrontend(household, true),
+        message: translate('households.updated_success', req.lang)
+      });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  },
+  // Create an invitation code a second member can use to join
+  createInvitation: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const household = await Household.findById(getHouseholdId(req));
+      if (!household) {
+        res.status(404).json({ error: translate('households.not_found', req.lang) });
+        return;
+      }
+      if (!isHouseholdOwner(household, req.user!.id)) {
+        res.status(403).json({ error: translate('households.owner_required', req.lang) });
+        return;
+      }
+
+      const invitation = {
+        code: generateInviteCode(),
+        createdBy: req.user!.id,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS)
+      };
+      await Household.findByIdAndUpdate(household._id, { $push: { invitations: invitation } });
+
+      res.status(201).json({
+        data: { code: invitation.code, expiresAt: invitation.expiresAt },
+        message: translate('households.invitation_created', req.lang)
+      });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  // Join another household with an invitation code; returns tokens scoped to the new household
+  join: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user!.id;
+      const code = req.body.code.trim().toUpperCase();
+      const currentHouseholdId = getHouseholdId(req);
+      const now = new Date();
+
+      // An owner can't walk away from a household other members still use
+      const currentHousehold = await Household.findById(currentHouseholdId);
+      if (currentHousehold && isHouseholdOwner(currentHousehold, userId) && currentHousehold.members.length > 1) {
+        res.status(400).json({ error: translate('households.owner_cannot_leave', req.lang) });
+        return;
+      }
+
+      // Claim the invitation atomically so a code can only be used once
+      const household = await Household.findOneAndUpdate(
+        {
+          _id: { $ne: currentHouseholdId },
+          invitations: { $elemMatch: { code, usedBy: null, expiresAt: { $gt: now } } }
+        },
+        {
+          $set: { 'invitations.$.usedBy': userId, 'invitations.$.usedAt': now },
+          $push: { members: { user: userId, role: 'member', joinedAt: now } }
+        },
+        { new: true }
+      );
+      if (!household) {
+        res.status(400).json({ error: translate('households.invalid_invitation', req.lang) });
+        return;
+      }
+
+      await Household.findByIdAndUpdate(currentHouseholdId, { $pull: { members: { user: userId } } });
+      // Tokens scoped to the household left behind stop working
+      const user = await User.findByIdAndUpdate(
+        userId,
+        { householdId: household._id, $inc: { tokenVersion: 1 } },
+        { new: true }
+      );
+      if (!user) {
+        res.status(404).json({ error: translate('auth.user_not_found', req.lang) });
+        return;
+      }
+
+      const tokens = issueTokens({
+        id: userId,
+        email: user.email,
+        householdId: (household._id as any).toString(),
+        tokenVersion: user.tokenVersion || 0
+      });
+
+      res.json({
+        data: { householdId: (household._id as any).toString(), ...tokens },
+        message: translate('households.joined_success', req.lang)
+      });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  // Remove a member; they get a fresh personal household on their next login or token refresh
+  removeMember: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const householdId = getHouseholdId(req);
+      const household = await Household.findById(householdId);
+      if (!household) {
+        res.status(404).json({ error: translate('households.not_found', req.lang) });
+        return;
+      }
+      if (!isHouseholdOwner(household, req.user!.id) || req.params.userId === req.user!.id) {
+        res.status(403).json({ error: translate('households.owner_required', req.lang) });
+        return;
+      }
+
+      const updated = await Household.findOneAndUpdate(
+        { _id: householdId, 'members.user': req.params.userId },
+        { $pull: { members: { user: req.params.userId } } },
+        { new: true }
+      );
+      if (!updated) {
+        res.status(404).json({ error: translate('households.member_not_found', req.lang) });
+        return;
+      }
+
+      // Revoke the removed member's tokens, access tokens included
+      await User.findByIdAndUpdate(req.params.userId, { householdId: null, $inc: { tokenVersion: 1 } });
+
+      res.json({ message: translate('households.member_removed', req.lang) });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  }
+};
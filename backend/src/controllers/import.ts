@@ -0,0 +1,230 @@
+import { Request, Response } from "express";
+import Account from "../models/account";
+import ImportMapping from "../models/importMapping";
+import { translate } from "../localization";
+import { getModifiedBy } from "../utils/auth";
+import { getHouseholdId, scopeToHousehold, verifyHouseholdReferences } from "../utils/household";
+import { CsvMapping, detectDelimiter, mapCsvRows, parseCsv } from "../utils/csv";
+import { isOfx, parseOfx, statementAccountKey } from "../utils/ofx";
+import { isQif, parseQif } from "../utils/qif";
+import { NOT_DELETED_FILTER } from "../utils/softDelete";
+import { autoCategorizeRows, flagDuplicates, flagImported, insertStatementRows, matchCategoryNames } from "../utils/statementImport";
+
+// Rows returned by the preview step
+const PREVIEW_ROWS = 10;
+
+// Helper function to transform a saved mapping for frontend
+function transformMappingForFrontend(mapping: any): any {
+  const transformed = {
+    ...mapping.toObject(),
+    id: mapping._id.toString(),
+  };
+  delete transformed._id;
+  delete transformed.__v;
+  delete transformed.householdId;
+  return transformed;
+}
+
+// Helper function to transform an account for frontend
+function transformAccountForFrontend(account: any): any {
+  const transformed = {
+    ...account.toObject(),
+    id: account._id.toString(),
+  };
+  delete transformed._id;
+  delete transformed.__v;
+  return transformed;
+}
+
+export default {
+  // Step 1 (no mapping): detect the columns and preview the file, with the account's saved mapping
+  // Step 2 (mapping): read the rows with the mapping, flag duplicates and insert the rest into the account
+  csv: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { file, account, dryRun, importDuplicates } = req.body;
+      const householdId = getHouseholdId(req);
+
+      if (account && !(await verifyHouseholdReferences(householdId, { accounts: [account] }))) {
+        res.status(400).json({ error: translate('households.invalid_reference', req.lang) });
+        return;
+      }
+
+      const delimiter = req.body.mapping?.delimiter || detectDelimiter(file);
+      const rows = parseCsv(file, delimiter);
+      if (rows.length === 0) {
+        res.status(400).json({ error: translate('imports.empty_file', req.lang) });
+        return;
+      }
+
+      if (!req.body.mapping) {
+        const savedMapping = account
+          ? await ImportMapping.findOne(scopeToHousehold(req, { account }))
+          : null;
+        res.json({
+          delimiter,
+          columns: rows[0].map((name, index) => ({ index, name })),
+          preview: rows.slice(0, PREVIEW_ROWS),
+          rowCount: rows.length,
+          savedMapping: savedMapping ? transformMappingForFrontend(savedMapping) : null
+        });
+        return;
+      }
+
+      const mapping: CsvMapping = { hasHeader: true, ...req.body.mapping, delimiter };
+      const { rows: mapped, errors } = mapCsvRows(rows, mapping);
+      const categories = await matchCategoryNames(householdId, mapped);
+      const statementRows = await autoCategorizeRows(
+        householdId,
+        account,
+        mapped.map((row, index) => ({ ...row, category: categories[index] }))
+      );
+      const duplicates = await flagDuplicates(householdId, account, statementRows);
+
+      const results = statementRows.map((row, index) => ({ ...row, duplicate: duplicates[index] }));
+      const toImport = dryRun ? [] : results.filter(row => importDuplicates || !row.duplicate);
+
+      if (!dryRun) {
+        await insertStatementRows(householdId, account, toImport, getModifiedBy(req));
+        // Remember the mapping so the next statement for this account needs no setup
+        await ImportMapping.findOneAndUpdate(
+          scopeToHousehold(req, { account }),
+          { ...mapping, updatedAt: Date.now(), lastModifiedBy: getModifiedBy(req) },
+          { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+        );
+      }
+
+      res.status(dryRun ? 200 : 201).json({
+        data: {
+          rows: results.map(row => ({ ...row, imported: toImport.includes(row) })),
+          errors,
+          imported: toImport.length,
+          duplicates: results.filter(row => row.duplicate).length
+        },
+        message: dryRun
+          ? translate('imports.preview_ready', req.lang)
+          : translate('imports.imported_success', req.lang, { count: toImport.length.toString() })
+      });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  },
+  // Import an OFX/QFX or QIF statement into the account it was exported from
+  // The account is the one given, else the one holding the statement's account number; without either
+  // nothing is imported and the response suggests an account, created when createAccount is set
+  statement: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { file, account, createAccount, dryRun, importDuplicates } = req.body;
+      const householdId = getHouseholdId(req);
+
+      const format = req.body.format || (isOfx(file) ? 'ofx' : isQif(file) ? 'qif' : null);
+      if (!format) {
+        res.status(400).json({ error: translate('imports.unknown_format', req.lang) });
+        return;
+      }
+
+      const statement = format === 'ofx' ? parseOfx(file) : parseQif(file, req.body.dateFormat);
+      if (statement.rows.length === 0 && statement.errors.length === 0) {
+        res.status(400).json({ error: translate('imports.empty_file', req.lang) });
+        return;
+      }
+
+      const externalAccountId = statement.account ? statementAccountKey(statement.account) : undefined;
+      let target = account
+        ? await Account.findOne(scopeToHousehold(req, { _id: account, ...NOT_DELETED_FILTER }))
+        : externalAccountId
+          ? await Account.findOne(scopeToHousehold(req, { externalAccountId, ...NOT_DELETED_FILTER }))
+          : null;
+      if (account && !target) {
+        res.status(400).json({ error: translate('households.invalid_reference', req.lang) });
+        return;
+      }
+
+      const suggestedAccount = {
+        name: req.body.accountName || [
+          statement.account?.institution || statement.account?.bankId,
+          statement.account ? `••${statement.account.accountId.slice(-4)}` : undefined
+        ].filter(Boolean).join(' ') || translate('imports.imported_account', req.lang),
+        type: statement.accountType,
+        currency: statement.account?.currency,
+        externalAccountId
+      };
+
+      let accountCreated = false;
+      if (!target && createAccount && !dryRun) {
+        target = new Account({
+          ...suggestedAccount,
+          updatedAt: Date.now(),
+          syncVersion: 1,
+          lastModifiedBy: getModifiedBy(req),
+          householdId
+        });
+        await target.save();
+        accountCreated = true;
+      }
+
+      if (!target) {
+        res.json({
+          data: {
+            format,
+            account: null,
+            suggestedAccount,
+            rows: statement.rows,
+            errors: statement.errors,
+            imported: 0,
+            duplicates: 0
+          },
+          message: translate('imports.account_required', req.lang)
+        });
+        return;
+      }
+
+      // Remember the statement's account number so the next statement finds the account by itself
+      if (externalAccountId && !target.externalAccountId && !dryRun) {
+        target.externalAccountId = externalAccountId;
+        target.updatedAt = Date.now();
+        target.syncVersion = (target.syncVersion || 1) + 1;
+        target.lastModifiedBy = getModifiedBy(req);
+        await target.save();
+      }
+
+      const accountId = (target._id as any).toString();
+      const categories = await matchCategoryNames(householdId, statement.rows);
+      const statementRows = await autoCategorizeRows(
+        householdId,
+        accountId,
+        statement.rows.map((row, index) => ({ ...row, category: categories[index] }))
+      );
+
+      // Lines whose bank reference was imported before are never imported again;
+      // the rest are checked against the account like CSV rows
+      const alreadyImported = await flagImported(householdId, accountId, statementRows);
+      const duplicates = await flagDuplicates(householdId, accountId, statementRows.filter((_, index) => !alreadyImported[index]));
+      let next = 0;
+      const results = statementRows.map((row, index) => alreadyImported[index]
+        ? { ...row, alreadyImported: true, duplicate: true }
+        : { ...row, alreadyImported: false, duplicate: duplicates[next++] });
+      const toImport = dryRun ? [] : results.filter(row => !row.alreadyImported && (importDuplicates || !row.duplicate));
+
+      if (!dryRun) {
+        await insertStatementRows(householdId, accountId, toImport, getModifiedBy(req));
+      }
+
+      res.status(dryRun ? 200 : 201).json({
+        data: {
+          format,
+          account: transformAccountForFrontend(target),
+          accountCreated,
+          rows: results.map(row => ({ ...row, imported: toImport.includes(row) })),
+          errors: statement.errors,
+          imported: toImport.length,
+          duplicates: results.filter(row => row.duplicate).length
+        },
+        message: dryRun
+          ? translate('imports.preview_ready', req.lang)
+          : translate('imports.imported_success', req.lang, { count: toImport.length.toString() })
+      });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  }
+};
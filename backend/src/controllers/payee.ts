@@ -0,0 +1,152 @@
+import { Request, Response } from "express";
+import Payee from "../models/payee";
+import Transaction from "../models/transaction";
+import { translate } from "../localization";
+import { addSoftDeleteFilter, performSoftDelete } from "../utils/softDelete";
+import { getModifiedBy } from "../utils/auth";
+import { getHouseholdId, scopeToHousehold, verifyHouseholdReferences } from "../utils/household";
+import { runInTransaction } from "../utils/dbTransaction";
+import { suggestPayees } from "../utils/payees";
+
+// Payee names compare without regard to case, like the unique index
+const NAME_COLLATION = { locale: 'en', strength: 2 };
+
+// Autocomplete lists this many payees at most
+const PAYEE_SUGGESTIONS = 10;
+
+// Helper function to transform payee object for frontend
+function transformPayeeForFrontend(payee: any): any {
+  const transformed = {
+    ...payee.toObject(),
+    id: payee._id.toString(),
+  };
+  delete transformed._id;
+  delete transformed.__v;
+  return transformed;
+}
+
+// Whether another live payee of the household already has the name
+async function nameTaken(req: Request, name: string, exceptId?: string): Promise<boolean> {
+  const filter: any = { name: name.trim() };
+  if (exceptId) {
+    filter._id = { $ne: exceptId };
+  }
+  const existing = await Payee.findOne(addSoftDeleteFilter(scopeToHousehold(req, filter))).collation(NAME_COLLATION);
+  return !!existing;
+}
+
+export default {
+  post: async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!(await verifyHouseholdReferences(getHouseholdId(req), { categories: [req.body.defaultCategory] }))) {
+        res.status(400).json({ error: translate('households.invalid_reference', req.lang) });
+        return;
+      }
+      if (await nameTaken(req, req.body.name)) {
+        res.status(409).json({ error: translate('payees.name_taken', req.lang) });
+        return;
+      }
+
+      const payee = new Payee({
+        ...req.body,
+        updatedAt: Date.now(),
+        syncVersion: 1,
+        lastModifiedBy: getModifiedBy(req),
+        householdId: getHouseholdId(req)
+      });
+      await payee.save();
+      res.status(201).json({
+        data: transformPayeeForFrontend(payee),
+        message: translate('payees.created_success', req.lang)
+      });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  },
+  // All payees by name, or with ?q= the best suggestions for a typed description
+  all: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const payees = await Payee.find(addSoftDeleteFilter(scopeToHousehold(req))).collation(NAME_COLLATION).sort({ name: 1 });
+      const q = req.query.q as string | undefined;
+      const listed = q ? suggestPayees(q, payees, PAYEE_SUGGESTIONS) : payees;
+      res.json(listed.map(transformPayeeForFrontend));
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  get: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const payee = await Payee.findOne(addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id })));
+      if (!payee) {
+        res.status(404).json({ error: translate('payees.not_found', req.lang) });
+        return;
+      }
+      res.json(transformPayeeForFrontend(payee));
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  update: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const payee = await Payee.findOne(addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id })));
+      if (!payee) {
+        res.status(404).json({ error: translate('payees.not_found', req.lang) });
+        return;
+      }
+
+      if (!(await verifyHouseholdReferences(getHouseholdId(req), { categories: [req.body.defaultCategory] }))) {
+        res.status(400).json({ error: translate('households.invalid_reference', req.lang) });
+        return;
+      }
+      if (req.body.name && await nameTaken(req, req.body.name, req.params.id)) {
+        res.status(409).json({ error: translate('payees.name_taken', req.lang) });
+        return;
+      }
+
+      const updatedPayee = await Payee.findOneAndUpdate(
+        scopeToHousehold(req, { _id: req.params.id }),
+        {
+          ...req.body,
+          updatedAt: Date.now(),
+          syncVersion: (payee.syncVersion || 1) + 1,
+          lastModifiedBy: getModifiedBy(req),
+          householdId: getHouseholdId(req)
+        },
+        { new: true, runValidators: true }
+      );
+
+      res.json({
+        data: transformPayeeForFrontend(updatedPayee),
+        message: translate('payees.updated_success', req.lang)
+      });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  },
+  // Soft delete; the payee is also taken off its transactions, which sync as changed
+  delete: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const modifiedBy = getModifiedBy(req);
+      const payee = await runInTransaction(async session => {
+        const deleted = await performSoftDelete(Payee, req.params.id, modifiedBy, scopeToHousehold(req), session);
+        if (deleted) {
+          await Transaction.updateMany(
+            scopeToHousehold(req, { payee: deleted._id }),
+            { $set: { payee: null, updatedAt: Date.now(), lastModifiedBy: modifiedBy }, $inc: { syncVersion: 1 } },
+            { session }
+          );
+        }
+        return deleted;
+      });
+
+      if (!payee) {
+        res.status(404).json({ error: translate('payees.not_found', req.lang) });
+        return;
+      }
+
+      res.json({ message: translate('payees.deleted_success', req.lang) });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  }
+};
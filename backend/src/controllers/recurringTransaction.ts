@@ -0,0 +1,329 @@
+import { Request, Response } from "express";
+import RecurringTransaction, { IRecurrenceException, IRecurringTransaction } from "../models/recurringTransaction";
+import Transaction from "../models/transaction";
+import { translate } from "../localization";
+import { addSoftDeleteFilter, performSoftDelete } from "../utils/softDelete";
+import {
+  buildOccurrenceTransaction,
+  findException,
+  findOccurrence,
+  getOccurrences,
+  materializeDueRecurringTransactions,
+  materializeRecurringTransaction
+} from "../utils/recurrence";
+import { getModifiedBy } from "../utils/auth";
+import { getHouseholdId, scopeToHousehold, verifyHouseholdReferences } from "../utils/household";
+import { runInTransaction } from "../utils/dbTransaction";
+import { resolveTransferAmount } from "../utils/currency";
+
+const SCHEDULE_FIELDS = ['frequency', 'interval', 'startDate', 'endDate'];
+const OVERRIDE_FIELDS = ['amount', 'toAmount', 'description', 'notes', 'category', 'fromAccount', 'toAccount'];
+
+// Helper function to transform recurring transaction object for frontend
+function transformRecurringForFrontend(recurring: any): any {
+  const transformed = {
+    ...recurring.toObject(),
+    id: recurring._id.toString(),
+  };
+  delete transformed._id;
+  delete transformed.__v;
+  return transformed;
+}
+
+export default {
+  post: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { fromAccount, toAccount, category } = req.body;
+      if (!(await verifyHouseholdReferences(getHouseholdId(req), { accounts: [fromAccount, toAccount], categories: [category] }))) {
+        res.status(400).json({ error: translate('households.invalid_reference', req.lang) });
+        return;
+      }
+
+      // Occurrences convert at the rate of their own date, so only the schedule's convertibility is checked here
+      const { resolved } = await resolveTransferAmount(getHouseholdId(req), { ...req.body, transactionDate: req.body.startDate });
+      if (!resolved) {
+        res.status(400).json({ error: translate('transactions.destination_amount_required', req.lang) });
+        return;
+      }
+
+      const recurringData = {
+        ...req.body,
+        updatedAt: Date.now(),
+        syncVersion: 1,
+        lastModifiedBy: getModifiedBy(req),
+        householdId: getHouseholdId(req)
+      };
+      const recurring = new RecurringTransaction(recurringData);
+      const [firstOccurrence] = getOccurrences(recurring, new Date(recurring.startDate), 1);
+      recurring.nextRunDate = firstOccurrence || null;
+      await recurring.save();
+
+      // Occurrences already due (e.g. a schedule starting today) are created right away
+      await materializeRecurringTransaction(recurring);
+      const saved = await RecurringTransaction.findById(recurring._id);
+
+      res.status(201).json({
+        data: transformRecurringForFrontend(saved || recurring),
+        message: translate('recurring.created_success', req.lang)
+      });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  },
+  all: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const schedules = await RecurringTransaction.find(addSoftDeleteFilter(scopeToHousehold(req))).sort({ nextRunDate: 1 });
+      res.json(schedules.map(transformRecurringForFrontend));
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  get: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const recurring = await RecurringTransaction.findOne(addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id })));
+      if (!recurring) {
+        res.status(404).json({ error: translate('recurring.not_found', req.lang) });
+        return;
+      }
+      res.json(transformRecurringForFrontend(recurring));
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  update: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const recurring = await RecurringTransaction.findOne(addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id })));
+      if (!recurring) {
+        res.status(404).json({ error: translate('recurring.not_found', req.lang) });
+        return;
+      }
+
+      const { fromAccount, toAccount, category } = req.body;
+      if (!(await verifyHouseholdReferences(getHouseholdId(req), { accounts: [fromAccount, toAccount], categories: [category] }))) {
+        res.status(400).json({ error: translate('households.invalid_reference', req.lang) });
+        return;
+      }
+
+      const updateData: any = {
+        ...req.body,
+        updatedAt: Date.now(),
+        syncVersion: (recurring.syncVersion || 1) + 1,
+        lastModifiedBy: getModifiedBy(req),
+        householdId: getHouseholdId(req)
+      };
+      // A new source amount invalidates the stored destination amount unless one is given
+      if ('amount' in req.body && !('toAmount' in req.body)) {
+        updateData.toAmount = null;
+      }
+
+      const { resolved } = await resolveTransferAmount(getHouseholdId(req), {
+        ...recurring.toObject(),
+        ...updateData,
+        transactionDate: recurring.nextRunDate || updateData.startDate || recurring.startDate
+      });
+      if (!resolved) {
+        res.status(400).json({ error: translate('transactions.destination_amount_required', req.lang) });
+        return;
+      }
+
+      // A schedule change moves the next run to the first occurrence not yet materialized
+      if (SCHEDULE_FIELDS.some(field => field in req.body)) {
+        const rule = {
+          frequency: req.body.frequency || recurring.frequency,
+          interval: req.body.interval || recurring.interval,
+          startDate: new Date(req.body.startDate || recurring.startDate),
+          endDate: 'endDate' in req.body ? req.body.endDate : recurring.endDate
+        };
+        const from = recurring.lastRunDate
+          ? new Date(Math.max(recurring.lastRunDate.getTime() + 1, rule.startDate.getTime()))
+          : rule.startDate;
+        const [nextRunDate] = getOccurrences(rule, from, 1);
+        updateData.nextRunDate = nextRunDate || null;
+      }
+
+      const updated = await RecurringTransaction.findOneAndUpdate(scopeToHousehold(req, { _id: req.params.id }), updateData, {
+        new: true,
+        runValidators: true
+      });
+
+      res.json({
+        data: transformRecurringForFrontend(updated),
+        message: translate('recurring.updated_success', req.lang)
+      });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  },
+  delete: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const modifiedBy = getModifiedBy(req);
+      const recurring = await performSoftDelete(RecurringTransaction, req.params.id, modifiedBy, scopeToHousehold(req));
+
+      if (!recurring) {
+        res.status(404).json({ error: translate('recurring.not_found', req.lang) });
+        return;
+      }
+
+      res.json({ message: translate('recurring.deleted_success', req.lang) });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  // Preview the next N occurrences with exceptions applied
+  preview: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const count = parseInt((req.query.count as string) || '5', 10);
+      const recurring = await RecurringTransaction.findOne(addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id })));
+      if (!recurring) {
+        res.status(404).json({ error: translate('recurring.not_found', req.lang) });
+        return;
+      }
+
+      const occurrences = recurring.nextRunDate
+        ? getOccurrences(recurring, new Date(recurring.nextRunDate), count)
+        : [];
+
+      res.json({
+        occurrences: occurrences.map(date => {
+          const { recurringTransaction, recurrenceDate, updatedAt, syncVersion, lastModifiedBy, ...transaction } =
+            buildOccurrenceTransaction(recurring, date);
+          return {
+            date,
+            skipped: findException(recurring, date)?.action === 'skip',
+            transaction
+          };
+        })
+      });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  // Skip a single occurrence, removing it if it was already materialized
+  skipOccurrence: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const modifiedBy = getModifiedBy(req);
+      const recurring = await RecurringTransaction.findOne(addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id })));
+      if (!recurring) {
+        res.status(404).json({ error: translate('recurring.not_found', req.lang) });
+        return;
+      }
+
+      const occurrence = findOccurrence(recurring, new Date(req.body.date));
+      if (!occurrence) {
+        res.status(400).json({ error: translate('recurring.invalid_occurrence', req.lang) });
+        return;
+      }
+
+      const materialized = await Transaction.findOne(
+        addSoftDeleteFilter(scopeToHousehold(req, { recurringTransaction: recurring._id, recurrenceDate: occurrence }))
+      );
+      if (materialized) {
+        await runInTransaction(session =>
+          performSoftDelete(Transaction, (materialized as any)._id.toString(), modifiedBy, scopeToHousehold(req), session)
+        );
+      }
+
+      const existingException = findException(recurring, occurrence);
+      const exceptions = recurring.exceptions.filter(exception => exception !== existingException);
+      const updated = await RecurringTransaction.findOneAndUpdate(scopeToHousehold(req, { _id: req.params.id }), {
+        exceptions: [...exceptions, { date: occurrence, action: 'skip' }],
+        updatedAt: Date.now(),
+        syncVersion: (recurring.syncVersion || 1) + 1,
+        lastModifiedBy: modifiedBy
+      }, { new: true });
+
+      res.json({
+        data: transformRecurringForFrontend(updated),
+        message: translate('recurring.occurrence_skipped', req.lang)
+      });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  },
+  // Edit a single occurrence, updating it too if it was already materialized
+  updateOccurrence: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const modifiedBy = getModifiedBy(req);
+      const recurring = await RecurringTransaction.findOne(addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id })));
+      if (!recurring) {
+        res.status(404).json({ error: translate('recurring.not_found', req.lang) });
+        return;
+      }
+
+      const occurrence = findOccurrence(recurring, new Date(req.body.date));
+      if (!occurrence) {
+        res.status(400).json({ error: translate('recurring.invalid_occurrence', req.lang) });
+        return;
+      }
+
+      const overrides: any = {};
+      OVERRIDE_FIELDS.forEach(field => {
+        if (req.body[field] !== undefined) overrides[field] = req.body[field];
+      });
+
+      if (!(await verifyHouseholdReferences(getHouseholdId(req), {
+        accounts: [overrides.fromAccount, overrides.toAccount],
+        categories: [overrides.category]
+      }))) {
+        res.status(400).json({ error: translate('households.invalid_reference', req.lang) });
+        return;
+      }
+
+      const existingException = findException(recurring, occurrence);
+      const exceptions = recurring.exceptions.filter(exception => exception !== existingException);
+      const exception: IRecurrenceException = { date: occurrence, action: 'modify', overrides };
+
+      // Resolve the destination amount of the occurrence as it will be materialized
+      const { toAmount, resolved } = await resolveTransferAmount(
+        getHouseholdId(req),
+        buildOccurrenceTransaction({ ...recurring.toObject(), exceptions: [...exceptions, exception] } as IRecurringTransaction, occurrence)
+      );
+      if (!resolved) {
+        res.status(400).json({ error: translate('transactions.destination_amount_required', req.lang) });
+        return;
+      }
+
+      const materialized = await Transaction.findOne(
+        addSoftDeleteFilter(scopeToHousehold(req, { recurringTransaction: recurring._id, recurrenceDate: occurrence }))
+      );
+      if (materialized) {
+        // findOneAndUpdate so the transaction hooks move the balances
+        await runInTransaction(session => Transaction.findOneAndUpdate(
+          addSoftDeleteFilter(scopeToHousehold(req, { _id: (materialized as any)._id })),
+          {
+            ...overrides,
+            toAmount,
+            updatedAt: Date.now(),
+            syncVersion: (materialized.syncVersion || 1) + 1,
+            lastModifiedBy: modifiedBy
+          },
+          { new: true, session }
+        ));
+      }
+
+      const updated = await RecurringTransaction.findOneAndUpdate(scopeToHousehold(req, { _id: req.params.id }), {
+        exceptions: [...exceptions, exception],
+        updatedAt: Date.now(),
+        syncVersion: (recurring.syncVersion || 1) + 1,
+        lastModifiedBy: modifiedBy
+      }, { new: true });
+
+      res.json({
+        data: transformRecurringForFrontend(updated),
+        message: translate('recurring.occurrence_updated', req.lang)
+      });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  },
+  // Create transactions for every schedule that has occurrences due
+  materialize: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const asOf = req.body?.asOf ? new Date(req.body.asOf) : new Date();
+      const result = await materializeDueRecurringTransactions(asOf, getHouseholdId(req));
+      res.json(result);
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  }
+};
@@ -0,0 +1,269 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Transaction from "../models/transaction";
+import Account from "../models/account";
+import Tag from "../models/tag";
+import Payee from "../models/payee";
+import { getHouseholdId, scopeToHousehold } from "../utils/household";
+import { addSoftDeleteFilter, NOT_DELETED_FILTER } from "../utils/softDelete";
+import { ACCOUNT_ENTRIES } from "../utils/balances";
+import { buildTransactionFilter, TransactionFilterParams } from "../utils/transactionFilters";
+import { DEFAULT_CURRENCY, getBaseCurrency, getRatesToBase } from "../utils/currency";
+import {
+  GroupTotals,
+  netWorthSeries,
+  PERIOD_FORMATS,
+  periodStart,
+  ReportPeriod,
+  summarizeGroups,
+  summarizePeriods
+} from "../utils/reports";
+
+// Net worth history covers the last year unless a range is given
+const DEFAULT_NET_WORTH_DAYS = 365;
+
+// The shared transaction filter for a report; the report's from/to stand in for the filter's fromDate/toDate,
+// so a range can't be given twice
+async function reportFilter(req: Request): Promise<any> {
+  const { fromDate, toDate, ...params } = req.query as TransactionFilterParams;
+  return buildTransactionFilter(getHouseholdId(req), {
+    ...params,
+    fromDate: req.query.from as string | undefined,
+    toDate: req.query.to as string | undefined
+  });
+}
+
+// A report's own conditions on top of the filter, in $and so they narrow it instead of replacing its conditions
+function narrowFilter(filter: any, ...conditions: any[]): any {
+  return { ...filter, $and: [...(filter.$and || []), ...conditions] };
+}
+
+// Income and expense per tag or payee a transaction references, for the requested range, filters and currency
+// Only the given (live) IDs are kept
+async function totalsPerReference(
+  req: Request,
+  field: 'tags' | 'payee',
+  keep: Set<string>
+): Promise<{ from: string | null; to: string | null; baseCurrency: string; totals: GroupTotals[]; missingRates: string[] }> {
+  const householdId = getHouseholdId(req);
+  const from = req.query.from as string | undefined;
+  const to = req.query.to as string | undefined;
+  const baseCurrency = await getBaseCurrency(householdId, req.query.baseCurrency as string | undefined);
+
+  const filter = await reportFilter(req);
+
+  const [groups, accounts] = await Promise.all([
+    Transaction.aggregate([
+      {
+        $match: narrowFilter(
+          filter,
+          { type: { $in: ['income', 'expense'] } },
+          field === 'tags' ? { 'tags.0': { $exists: true } } : { payee: { $ne: null } }
+        )
+      },
+      ...(field === 'tags' ? [{ $unwind: '$tags' }] : []),
+      {
+        $group: {
+          _id: { key: `$${field}`, type: '$type', account: '$fromAccount' },
+          total: { $sum: '$amount' },
+          count: { $sum: 1 }
+        }
+      }
+    ]),
+    Account.find({ householdId })
+  ]);
+
+  // Amounts are in their account's currency
+  const currencies = new Map(accounts.map(account => [(account._id as any).toString(), account.currency || DEFAULT_CURRENCY]));
+  const rates = await getRatesToBase(householdId, Array.from(new Set(currencies.values())), baseCurrency);
+
+  const summary = summarizeGroups(
+    groups
+      .filter(group => keep.has(group._id.key.toString()))
+      .map(group => ({
+        key: group._id.key.toString(),
+        type: group._id.type,
+        currency: currencies.get(group._id.account?.toString()),
+        total: group.total,
+        count: group.count
+      })),
+    rates
+  );
+
+  return { from: from || null, to: to || null, baseCurrency, totals: summary.totals, missingRates: summary.missingRates };
+}
+
+export default {
+  // Income, expense, net and savings rate per period, in the household's base currency, over the
+  // transactions the filters match. Transfers move money between accounts, so they count as neither income nor expense
+  summary: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const householdId = getHouseholdId(req);
+      const period = (req.query.period as ReportPeriod) || 'month';
+      const from = req.query.from as string | undefined;
+      const to = req.query.to as string | undefined;
+      const baseCurrency = await getBaseCurrency(householdId, req.query.baseCurrency as string | undefined);
+
+      const filter = await reportFilter(req);
+
+      const groups = await Transaction.aggregate([
+        { $match: narrowFilter(filter, { type: { $in: ['income', 'expense'] } }) },
+        {
+          $group: {
+            _id: {
+              period: { $dateToString: { format: PERIOD_FORMATS[period], date: '$transactionDate' } },
+              type: '$type',
+              account: '$fromAccount'
+            },
+            total: { $sum: '$amount' },
+            count: { $sum: 1 }
+          }
+        }
+      ]);
+
+      // Amounts are in their account's currency
+      const accounts = await Account.find({ householdId });
+      const currencies = new Map(accounts.map(account => [(account._id as any).toString(), account.currency || DEFAULT_CURRENCY]));
+      const rates = await getRatesToBase(householdId, Array.from(new Set(currencies.values())), baseCurrency);
+
+      const summary = summarizePeriods(
+        groups.map(group => ({
+          period: group._id.period,
+          type: group._id.type,
+          currency: currencies.get(group._id.account?.toString()),
+          total: group.total,
+          count: group.count
+        })),
+        rates,
+        period,
+        from && to ? { from: new Date(from), to: new Date(to) } : undefined
+      );
+
+      res.json({ period, from: from || null, to: to || null, baseCurrency, ...summary });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  // Assets, liabilities and net worth at the end of each interval, rebuilt from transaction history
+  // Credit accounts are liabilities; accounts excluded from totals are left out. Balances are valued
+  // at current exchange rates
+  netWorth: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const householdId = getHouseholdId(req);
+      const interval = (req.query.interval as ReportPeriod) || 'month';
+      const to = req.query.to ? new Date(req.query.to as string) : new Date();
+      const from = req.query.from
+        ? new Date(req.query.from as string)
+        : new Date(to.getTime() - DEFAULT_NET_WORTH_DAYS * 86400000);
+      const baseCurrency = await getBaseCurrency(householdId, req.query.baseCurrency as string | undefined);
+
+      const accounts = (await Account.find(addSoftDeleteFilter(scopeToHousehold(req))))
+        .filter(account => account.includeInTotal !== false);
+      const currencyRates = await getRatesToBase(
+        householdId,
+        accounts.map(account => account.currency || DEFAULT_CURRENCY),
+        baseCurrency
+      );
+      const counted = accounts.filter(account => currencyRates[account.currency || DEFAULT_CURRENCY] !== undefined);
+      const missingRates = Array.from(new Set(accounts
+        .map(account => account.currency || DEFAULT_CURRENCY)
+        .filter(currency => currencyRates[currency] === undefined)));
+
+      // Only changes after the first point are needed to walk back from today's balances
+      const changes = await Transaction.aggregate([
+        {
+          $match: {
+            householdId: new mongoose.Types.ObjectId(householdId),
+            transactionDate: { $gte: periodStart(from, interval) },
+            ...NOT_DELETED_FILTER
+          }
+        },
+        { $project: { transactionDate: 1, entries: ACCOUNT_ENTRIES } },
+        { $unwind: '$entries' },
+        {
+          $group: {
+            _id: {
+              account: '$entries.account',
+              day: { $dateToString: { format: PERIOD_FORMATS.day, date: '$transactionDate' } }
+            },
+            amount: { $sum: '$entries.amount' }
+          }
+        }
+      ]);
+
+      const rates: Record<string, number> = {};
+      counted.forEach(account => {
+        rates[(account._id as any).toString()] = currencyRates[account.currency || DEFAULT_CURRENCY];
+      });
+
+      const series = netWorthSeries(
+        counted.map(account => ({
+          id: (account._id as any).toString(),
+          balance: account.balance || 0,
+          liability: account.type === 'credit'
+        })),
+        changes.map(change => ({ account: change._id.account?.toString(), day: change._id.day, amount: change.amount })),
+        rates,
+        interval,
+        { from, to }
+      );
+
+      res.json({
+        interval,
+        from: from.toISOString().slice(0, 10),
+        to: to.toISOString().slice(0, 10),
+        baseCurrency,
+        accounts: counted.map(account => ({
+          id: (account._id as any).toString(),
+          name: account.name,
+          currency: account.currency || DEFAULT_CURRENCY,
+          kind: account.type === 'credit' ? 'liability' : 'asset'
+        })),
+        series,
+        missingRates
+      });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  // Income and expense per tag over an optional date range, in the household's base currency
+  // A transaction with several tags counts towards each of them, so tags don't add up to a total
+  tags: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const tags = await Tag.find(addSoftDeleteFilter(scopeToHousehold(req)));
+      const tagsById = new Map(tags.map(tag => [(tag._id as any).toString(), tag]));
+      const { totals, ...report } = await totalsPerReference(req, 'tags', new Set(tagsById.keys()));
+
+      res.json({
+        ...report,
+        tags: totals.map(({ key, ...amounts }) => ({
+          id: key,
+          name: tagsById.get(key)!.name,
+          color: tagsById.get(key)!.color,
+          ...amounts
+        }))
+      });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  // Income and expense per payee over an optional date range, in the household's base currency
+  payees: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const payees = await Payee.find(addSoftDeleteFilter(scopeToHousehold(req)));
+      const payeesById = new Map(payees.map(payee => [(payee._id as any).toString(), payee]));
+      const { totals, ...report } = await totalsPerReference(req, 'payee', new Set(payeesById.keys()));
+
+      res.json({
+        ...report,
+        payees: totals.map(({ key, ...amounts }) => ({
+          id: key,
+          name: payeesById.get(key)!.name,
+          ...amounts
+        }))
+      });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  }
+};
\ No newline at end of file
@@ -0,0 +1,180 @@
+import { Request, Response } from "express";
+import Rule from "../models/rule";
+import Transaction from "../models/transaction";
+import { translate } from "../localization";
+import { addSoftDeleteFilter, performSoftDelete } from "../utils/softDelete";
+import { getModifiedBy } from "../utils/auth";
+import { getHouseholdId, scopeToHousehold, verifyHouseholdReferences } from "../utils/household";
+import { applyRules, automatedChanges, reapplyRules } from "../utils/rules";
+
+// A preview checks this many of the latest transactions unless told otherwise
+const PREVIEW_TRANSACTIONS = 50;
+
+// Helper function to transform rule object for frontend
+function transformRuleForFrontend(rule: any): any {
+  const transformed = {
+    ...rule.toObject(),
+    id: rule._id.toString(),
+  };
+  delete transformed._id;
+  delete transformed.__v;
+  return transformed;
+}
+
+// Accounts, payees, categories and tags a rule points at, which must belong to the caller's household
+function referencesOf(body: any) {
+  return {
+    accounts: [body.conditions?.account],
+    payees: [body.conditions?.payee],
+    categories: [body.actions?.category],
+    tags: body.actions?.tags
+  };
+}
+
+export default {
+  post: async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!(await verifyHouseholdReferences(getHouseholdId(req), referencesOf(req.body)))) {
+        res.status(400).json({ error: translate('households.invalid_reference', req.lang) });
+        return;
+      }
+
+      const rule = new Rule({
+        ...req.body,
+        updatedAt: Date.now(),
+        syncVersion: 1,
+        lastModifiedBy: getModifiedBy(req),
+        householdId: getHouseholdId(req)
+      });
+      await rule.save();
+      res.status(201).json({
+        data: transformRuleForFrontend(rule),
+        message: translate('rules.created_success', req.lang)
+      });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  },
+  // In the order they run
+  all: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const rules = await Rule.find(addSoftDeleteFilter(scopeToHousehold(req))).sort({ priority: 1, createdAt: 1 });
+      res.json(rules.map(transformRuleForFrontend));
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  get: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const rule = await Rule.findOne(addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id })));
+      if (!rule) {
+        res.status(404).json({ error: translate('rules.not_found', req.lang) });
+        return;
+      }
+      res.json(transformRuleForFrontend(rule));
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  update: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const rule = await Rule.findOne(addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id })));
+      if (!rule) {
+        res.status(404).json({ error: translate('rules.not_found', req.lang) });
+        return;
+      }
+
+      if (!(await verifyHouseholdReferences(getHouseholdId(req), referencesOf(req.body)))) {
+        res.status(400).json({ error: translate('households.invalid_reference', req.lang) });
+        return;
+      }
+
+      const updatedRule = await Rule.findOneAndUpdate(
+        scopeToHousehold(req, { _id: req.params.id }),
+        {
+          ...req.body,
+          updatedAt: Date.now(),
+          syncVersion: (rule.syncVersion || 1) + 1,
+          lastModifiedBy: getModifiedBy(req),
+          householdId: getHouseholdId(req)
+        },
+        { new: true, runValidators: true }
+      );
+
+      res.json({
+        data: transformRuleForFrontend(updatedRule),
+        message: translate('rules.updated_success', req.lang)
+      });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  },
+  delete: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const rule = await performSoftDelete(Rule, req.params.id, getModifiedBy(req), scopeToHousehold(req));
+      if (!rule) {
+        res.status(404).json({ error: translate('rules.not_found', req.lang) });
+        return;
+      }
+
+      res.json({ message: translate('rules.deleted_success', req.lang) });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  // Which of the latest transactions a rule matches and what it would change on each; nothing is written
+  preview: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { conditions, actions, limit } = req.body;
+      const transactions = await Transaction.find(addSoftDeleteFilter(scopeToHousehold(req)))
+        .sort({ transactionDate: -1, _id: -1 })
+        .limit(limit || PREVIEW_TRANSACTIONS);
+
+      const matches = transactions
+        .map(transaction => {
+          const before = transaction.toObject();
+          const { data, matched } = applyRules([{ conditions, actions }], before);
+          return {
+            matched: matched.length > 0,
+            id: (transaction._id as any).toString(),
+            transactionDate: before.transactionDate,
+            description: before.description,
+            amount: before.amount,
+            changes: automatedChanges(before, data)
+          };
+        })
+        .filter(result => result.matched)
+        .map(({ matched, ...result }) => result);
+
+      res.json({ checked: transactions.length, matches });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  // Re-apply payee matching and the enabled rules to recorded transactions, optionally within a date range
+  apply: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { from, to, dryRun } = req.body;
+      const { transactions, applied, error } = await reapplyRules(getHouseholdId(req), getModifiedBy(req), { from, to, dryRun });
+      const data = { dryRun: !!dryRun, changed: transactions.length, applied, transactions };
+
+      // Batches before the failed one stay applied; applying again continues from there
+      if (error) {
+        res.status(500).json({
+          error: `${translate('rules.applied_partially', req.lang, { count: applied.toString() })}: ${error}`,
+          data
+        });
+        return;
+      }
+
+      res.json({
+        data,
+        message: dryRun
+          ? translate('rules.apply_preview', req.lang, { count: transactions.length.toString() })
+          : translate('rules.applied_success', req.lang, { count: applied.toString() })
+      });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  }
+};
@@ -2,7 +2,19 @@ import { Request, Response } from "express";
 import Account from "../models/account";
 import Category from "../models/category";
 import Transaction from "../models/transaction";
+import Budget from "../models/budget";
+import Tag from "../models/tag";
+import Payee from "../models/payee";
 import { translate } from "../localization";
+import { getModifiedBy } from "../utils/auth";
+import { getHouseholdId, scopeToHousehold, verifyHouseholdReferences } from "../utils/household";
+import { resolveTransferAmount } from "../utils/currency";
+import { categoriesOf, normalizeSplits, splitsMatchTotal } from "../utils/transactionSplits";
+import { runInTransaction } from "../utils/dbTransaction";
+import { addSoftDeleteFilter } from "../utils/softDelete";
+import { moveCategorySubtree, moveTargetError } from "../utils/categories";
+import { autoCategorize } from "../utils/rules";
+import { withoutAttachmentCount } from "../utils/attachments";
 
 // Helper function to transform document for frontend
 function transformForFrontend(doc: any): any {
@@ -14,6 +26,70 @@ function transformForFrontend(doc: any): any {
   return transformed;
 }
 
+// Accounts, categories, tags and payees a pushed record points at, which must belong to the caller's household
+function referencesOf(
+  resource: string,
+  data: any
+): { accounts?: string[]; categories?: string[]; tags?: string[]; payees?: string[] } {
+  switch (resource) {
+    case 'transaction':
+      return {
+        accounts: [data.fromAccount, data.toAccount],
+        categories: categoriesOf(data),
+        tags: data.tags,
+        payees: [data.payee]
+      };
+    case 'budget':
+      return { categories: [data.category] };
+    case 'category':
+      return { categories: [data.parent] };
+    case 'payee':
+      return { categories: [data.defaultCategory] };
+    default:
+      return {};
+  }
+}
+
+// Transactions need split lines that add up, and a destination amount for transfers between currencies;
+// new ones get their payee and whatever the household's rules set
+async function prepareTransaction(req: Request, resource: string, data: any, isNew = false): Promise<any> {
+  if (resource !== 'transaction') {
+    return data;
+  }
+  // Only the attachment endpoints change the attachment count
+  data = withoutAttachmentCount(data);
+  if (isNew) {
+    data = await autoCategorize(getHouseholdId(req), data);
+  }
+  if (!splitsMatchTotal(data.splits, data.amount)) {
+    throw new Error(translate('transactions.split_total_mismatch', req.lang));
+  }
+  const { toAmount, resolved } = await resolveTransferAmount(getHouseholdId(req), data);
+  if (!resolved) {
+    throw new Error(translate('transactions.destination_amount_required', req.lang));
+  }
+  return { ...data, ...normalizeSplits(data), toAmount };
+}
+
+// New parent of a pushed category update, or undefined when it stays where it is; a move that would
+// break the tree (a cycle, a missing parent or mixed types) is rejected as the category endpoints do
+async function categoryMove(req: Request, resource: string, existing: any, data: any): Promise<string | null | undefined> {
+  if (resource !== 'category') {
+    return undefined;
+  }
+  const previousParent = existing.parent ? existing.parent.toString() : null;
+  const parentId = 'parent' in data ? data.parent || null : previousParent;
+  const typeChanged = !!data.type && data.type !== existing.type;
+  if (parentId === previousParent && !typeChanged) {
+    return undefined;
+  }
+  const moveError = await moveTargetError(getHouseholdId(req), existing, parentId, data.type || existing.type);
+  if (moveError) {
+    throw new Error(translate(moveError.key, req.lang));
+  }
+  return parentId === previousParent ? undefined : parentId;
+}
+
 export default {
   // GET /api/sync/changes - Get all changes since last sync
   getChanges: async (req: Request, res: Response): Promise<void> => {
@@ -33,16 +109,25 @@ export default {
       console.log(`🔄 Sync request from device ${deviceId} since ${new Date(timestamp).toISOString()}`);
 
       // Query for all records updated since last sync
-      const [accounts, categories, transactions] = await Promise.all([
-        Account.find({ 
+      const [accounts, categories, transactions, budgets, tags, payees] = await Promise.all([
+        Account.find(scopeToHousehold(req, { 
+          updatedAt: { $gt: timestamp } 
+        })).lean(),
+        Category.find(scopeToHousehold(req, { 
+          updatedAt: { $gt: timestamp } 
+        })).lean(),
+        Transaction.find(scopeToHousehold(req, { 
+          updatedAt: { $gt: timestamp } 
+        })).lean(),
+        Budget.find(scopeToHousehold(req, { 
           updatedAt: { $gt: timestamp } 
-        }).lean(),
-        Category.find({ 
+        })).lean(),
+        Tag.find(scopeToHousehold(req, { 
           updatedAt: { $gt: timestamp } 
-        }).lean(),
-        Transaction.find({ 
+        })).lean(),
+        Payee.find(scopeToHousehold(req, { 
           updatedAt: { $gt: timestamp } 
-        }).lean()
+        })).lean()
       ]);
 
       // Transform all documents
@@ -50,11 +135,14 @@ export default {
         accounts: accounts.map(transformForFrontend),
         categories: categories.map(transformForFrontend),
         transactions: transactions.map(transformForFrontend),
+        budgets: budgets.map(transformForFrontend),
+        tags: tags.map(transformForFrontend),
+        payees: payees.map(transformForFrontend),
         currentTimestamp,
         syncedAt: new Date().toISOString()
       };
 
-      console.log(`✅ Sync response: ${accounts.length} accounts, ${categories.length} categories, ${transactions.length} transactions`);
+      console.log(`✅ Sync response: ${accounts.length} accounts, ${categories.length} categories, ${transactions.length} transactions, ${budgets.length} budgets, ${tags.length} tags, ${payees.length} payees`);
 
       res.json(responseData);
     } catch (err) {
@@ -84,7 +172,10 @@ export default {
         serverData: {
           accounts: [] as any[],
           categories: [] as any[],
-          transactions: [] as any[]
+          transactions: [] as any[],
+          budgets: [] as any[],
+          tags: [] as any[],
+          payees: [] as any[]
         }
       };
 
@@ -96,7 +187,7 @@ export default {
           console.log(`  Processing ${type} ${resource}: ${data.id || data.name}`);
 
           let Model: any;
-          let resourceType: 'accounts' | 'categories' | 'transactions';
+          let resourceType: 'accounts' | 'categories' | 'transactions' | 'budgets' | 'tags' | 'payees';
           
           switch (resource) {
             case 'account':
@@ -111,6 +202,18 @@ export default {
               Model = Transaction;
               resourceType = 'transactions';
               break;
+            case 'budget':
+              Model = Budget;
+              resourceType = 'budgets';
+              break;
+            case 'tag':
+              Model = Tag;
+              resourceType = 'tags';
+              break;
+            case 'payee':
+              Model = Payee;
+              resourceType = 'payees';
+              break;
             default:
               throw new Error(`Unknown resource type: ${resource}`);
           }
@@ -119,7 +222,7 @@ export default {
           if (type === 'CREATE') {
             // For create operations, check if record already exists (might have been synced)
             const existingId = data.id && data.id.length === 24 ? data.id : null;
-            let existing = existingId ? await Model.findById(existingId) : null;
+            let existing = existingId ? await Model.findOne(scopeToHousehold(req, { _id: existingId })) : null;
 
             if (existing) {
               // Record already exists, treat as conflict
@@ -130,19 +233,22 @@ export default {
                 serverRecord: transformForFrontend(existing)
               });
               results.serverData[resourceType].push(transformForFrontend(existing));
+            } else if (!(await verifyHouseholdReferences(getHouseholdId(req), referencesOf(resource, data)))) {
+              throw new Error(translate('households.invalid_reference', req.lang));
             } else {
               // Create new record
-              const createData = { ...data };
+              const createData = await prepareTransaction(req, resource, data, true);
               if (existingId) {
                 createData._id = existingId;
               }
               delete createData.id;
               createData.updatedAt = Date.now();
               createData.syncVersion = 1;
-              createData.lastModifiedBy = deviceId || 'unknown';
+              createData.lastModifiedBy = getModifiedBy(req);
+              createData.householdId = getHouseholdId(req);
 
               const newRecord = new Model(createData);
-              await newRecord.save();
+              await runInTransaction(session => newRecord.save({ session }));
               
               console.log(`  ✅ Created ${resource}: ${newRecord._id}`);
               results.accepted.push({ operationId, id: newRecord._id.toString() });
@@ -151,7 +257,7 @@ export default {
           } else if (type === 'UPDATE') {
             // For updates, check for conflicts
             const recordId = data.id;
-            const existing = await Model.findById(recordId);
+            const existing = await Model.findOne(scopeToHousehold(req, { _id: recordId }));
 
             if (!existing) {
               console.log(`  ⚠️  Conflict: ${resource} ${recordId} not found`);
@@ -171,20 +277,33 @@ export default {
                 localTimestamp
               });
               results.serverData[resourceType].push(transformForFrontend(existing));
+            } else if (!(await verifyHouseholdReferences(getHouseholdId(req), referencesOf(resource, data)))) {
+              throw new Error(translate('households.invalid_reference', req.lang));
             } else {
               // Apply update
-              const updateData = { ...data };
+              const updateData = await prepareTransaction(req, resource, data);
+              const newParent = await categoryMove(req, resource, existing, data);
               delete updateData.id;
               delete updateData._id;
+              delete updateData.householdId;
+              if (resource === 'category') {
+                // A category's parent only changes through the move, which carries the subtree's totals along
+                delete updateData.parent;
+              }
               updateData.updatedAt = Date.now();
               updateData.syncVersion = (existing.syncVersion || 1) + 1;
-              updateData.lastModifiedBy = deviceId || 'unknown';
+              updateData.lastModifiedBy = getModifiedBy(req);
 
-              const updated = await Model.findByIdAndUpdate(
-                recordId,
-                updateData,
-                { new: true, runValidators: true }
-              );
+              const updated = await runInTransaction(async session => {
+                if (newParent !== undefined) {
+                  await moveCategorySubtree(getHouseholdId(req), recordId, newParent, getModifiedBy(req), session);
+                }
+                return Model.findOneAndUpdate(
+                  scopeToHousehold(req, { _id: recordId }),
+                  updateData,
+                  { new: true, runValidators: true, session }
+                );
+              });
 
               console.log(`  ✅ Updated ${resource}: ${recordId}`);
               results.accepted.push({ operationId, id: recordId });
@@ -193,7 +312,7 @@ export default {
           } else if (type === 'DELETE') {
             // For deletes, check for conflicts
             const recordId = data.id;
-            const existing = await Model.findById(recordId);
+            const existing = await Model.findOne(scopeToHousehold(req, { _id: recordId }));
 
             if (!existing) {
               console.log(`  ℹ️  ${resource} ${recordId} already deleted or not found`);
@@ -209,19 +328,25 @@ export default {
                 localTimestamp
               });
               results.serverData[resourceType].push(transformForFrontend(existing));
+            } else if (
+              resource === 'category' &&
+              await Category.exists(addSoftDeleteFilter(scopeToHousehold(req, { parent: recordId })))
+            ) {
+              // Sync carries no category to take over the subcategories, so the delete waits until they are gone
+              throw new Error(translate('categories.cannot_delete_with_subcategories', req.lang));
             } else {
               // Perform soft delete
-              const updated = await Model.findByIdAndUpdate(
-                recordId,
+              const updated = await runInTransaction(session => Model.findOneAndUpdate(
+                scopeToHousehold(req, { _id: recordId }),
                 { 
                   isDeleted: true, 
                   deletedAt: new Date(),
                   updatedAt: Date.now(),
                   syncVersion: (existing.syncVersion || 1) + 1,
-                  lastModifiedBy: deviceId || 'unknown'
+                  lastModifiedBy: getModifiedBy(req)
                 },
-                { new: true }
-              );
+                { new: true, session }
+              ));
 
               console.log(`  ✅ Deleted ${resource}: ${recordId}`);
               results.accepted.push({ operationId, id: recordId });
@@ -253,10 +378,13 @@ export default {
   // GET /api/sync/status - Get sync status and server info
   getStatus: async (req: Request, res: Response): Promise<void> => {
     try {
-      const [accountCount, categoryCount, transactionCount] = await Promise.all([
-        Account.countDocuments({ isDeleted: { $ne: true } }),
-        Category.countDocuments(),
-        Transaction.countDocuments({ isDeleted: { $ne: true } })
+      const [accountCount, categoryCount, transactionCount, budgetCount, tagCount, payeeCount] = await Promise.all([
+        Account.countDocuments(scopeToHousehold(req, { isDeleted: { $ne: true } })),
+        Category.countDocuments(scopeToHousehold(req)),
+        Transaction.countDocuments(scopeToHousehold(req, { isDeleted: { $ne: true } })),
+        Budget.countDocuments(scopeToHousehold(req, { isDeleted: { $ne: true } })),
+        Tag.countDocuments(scopeToHousehold(req, { isDeleted: { $ne: true } })),
+        Payee.countDocuments(scopeToHousehold(req, { isDeleted: { $ne: true } }))
       ]);
 
       res.json({
@@ -265,7 +393,10 @@ export default {
         counts: {
           accounts: accountCount,
           categories: categoryCount,
-          transactions: transactionCount
+          transactions: transactionCount,
+          budgets: budgetCount,
+          tags: tagCount,
+          payees: payeeCount
         }
       });
     } catch (err) {
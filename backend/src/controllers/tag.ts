@@ -0,0 +1,137 @@
+import { Request, Response } from "express";
+import Tag from "../models/tag";
+import Transaction from "../models/transaction";
+import { translate } from "../localization";
+import { addSoftDeleteFilter, performSoftDelete } from "../utils/softDelete";
+import { getModifiedBy } from "../utils/auth";
+import { getHouseholdId, scopeToHousehold } from "../utils/household";
+import { runInTransaction } from "../utils/dbTransaction";
+
+// Tag names compare without regard to case, like the unique index
+const NAME_COLLATION = { locale: 'en', strength: 2 };
+
+// Helper function to transform tag object for frontend
+function transformTagForFrontend(tag: any): any {
+  const transformed = {
+    ...tag.toObject(),
+    id: tag._id.toString(),
+  };
+  delete transformed._id;
+  delete transformed.__v;
+  return transformed;
+}
+
+// Whether another live tag of the household already has the name
+async function nameTaken(req: Request, name: string, exceptId?: string): Promise<boolean> {
+  const filter: any = { name: name.trim() };
+  if (exceptId) {
+    filter._id = { $ne: exceptId };
+  }
+  const existing = await Tag.findOne(addSoftDeleteFilter(scopeToHousehold(req, filter))).collation(NAME_COLLATION);
+  return !!existing;
+}
+
+export default {
+  post: async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (await nameTaken(req, req.body.name)) {
+        res.status(409).json({ error: translate('tags.name_taken', req.lang) });
+        return;
+      }
+
+      const tag = new Tag({
+        ...req.body,
+        updatedAt: Date.now(),
+        syncVersion: 1,
+        lastModifiedBy: getModifiedBy(req),
+        householdId: getHouseholdId(req)
+      });
+      await tag.save();
+      res.status(201).json({
+        data: transformTagForFrontend(tag),
+        message: translate('tags.created_success', req.lang)
+      });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  },
+  all: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const tags = await Tag.find(addSoftDeleteFilter(scopeToHousehold(req))).collation(NAME_COLLATION).sort({ name: 1 });
+      res.json(tags.map(transformTagForFrontend));
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  get: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const tag = await Tag.findOne(addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id })));
+      if (!tag) {
+        res.status(404).json({ error: translate('tags.not_found', req.lang) });
+        return;
+      }
+      res.json(transformTagForFrontend(tag));
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  update: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const tag = await Tag.findOne(addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id })));
+      if (!tag) {
+        res.status(404).json({ error: translate('tags.not_found', req.lang) });
+        return;
+      }
+
+      if (req.body.name && await nameTaken(req, req.body.name, req.params.id)) {
+        res.status(409).json({ error: translate('tags.name_taken', req.lang) });
+        return;
+      }
+
+      const updatedTag = await Tag.findOneAndUpdate(
+        scopeToHousehold(req, { _id: req.params.id }),
+        {
+          ...req.body,
+          updatedAt: Date.now(),
+          syncVersion: (tag.syncVersion || 1) + 1,
+          lastModifiedBy: getModifiedBy(req),
+          householdId: getHouseholdId(req)
+        },
+        { new: true, runValidators: true }
+      );
+
+      res.json({
+        data: transformTagForFrontend(updatedTag),
+        message: translate('tags.updated_success', req.lang)
+      });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+    }
+  },
+  // Soft delete; the tag is also taken off its transactions, which sync as changed
+  delete: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const modifiedBy = getModifiedBy(req);
+      const tag = await runInTransaction(async session => {
+        const deleted = await performSoftDelete(Tag, req.params.id, modifiedBy, scopeToHousehold(req), session);
+        if (deleted) {
+          await Transaction.updateMany(
+            scopeToHousehold(req, { tags: deleted._id }),
+            { $pull: { tags: deleted._id }, $set: { updatedAt: Date.now(), lastModifiedBy: modifiedBy }, $inc: { syncVersion: 1 } },
+            { session }
+          );
+        }
+        return deleted;
+      });
+
+      if (!tag) {
+        res.status(404).json({ error: translate('tags.not_found', req.lang) });
+        return;
+      }
+
+      res.json({ message: translate('tags.deleted_success', req.lang) });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  }
+};
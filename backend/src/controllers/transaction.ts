@@ -1,8 +1,20 @@
 import { Request, Response } from "express";
 import Transaction from "../models/transaction";
+import Category from "../models/category";
 import { translate } from "../localization";
 import mongoose from "mongoose";
 import { addSoftDeleteFilter, performSoftDelete, NOT_DELETED_FILTER } from "../utils/softDelete";
+import { getModifiedBy } from "../utils/auth";
+import { getHouseholdId, scopeToHousehold, verifyHouseholdReferences } from "../utils/household";
+import { resolveTransferAmount, roundAmount } from "../utils/currency";
+import { accountBalanceAsOf, accountEffect } from "../utils/balances";
+import { categoriesOf, normalizeSplits, splitsMatchTotal } from "../utils/transactionSplits";
+import { runInTransaction } from "../utils/dbTransaction";
+import { autoCategorize } from "../utils/rules";
+import { withoutAttachmentCount } from "../utils/attachments";
+import { DEFAULT_PAGE_SIZE, afterCursor, decodeCursor, encodeCursor } from "../utils/pagination";
+import { buildTransactionFilter, TransactionFilterParams } from "../utils/transactionFilters";
+import { PastCategorization, rankCategories } from "../utils/categorySuggestions";
 
 // Helper function to transform transaction object for frontend
 function transformTransactionForFrontend(transaction: any): any {
@@ -51,7 +63,15 @@ function generateTransactionHash(tx: any): string {
     fromAccount: tx.fromAccount?.toString(),
     toAccount: tx.toAccount?.toString() || null,
     category: tx.category?.toString() || null,
+    splits: (tx.splits || []).map((split: any) => ({
+      category: split.category?.toString(),
+      amount: split.amount,
+      notes: split.notes || ''
+    })),
+    tags: (tx.tags || []).map((tag: any) => tag.toString()).sort(),
+    payee: tx.payee?.toString() || null,
     amount: tx.amount,
+    toAmount: tx.toAmount ?? null,
     description: tx.description || '',
     notes: tx.notes || '',
     type: tx.type || null,
@@ -67,17 +87,68 @@ function generateTransactionHash(tx: any): string {
   return hash.toString(16);
 }
 
+// Category suggestions look at this many of the latest categorized transactions, and list this many
+const SUGGESTION_HISTORY = 2000;
+const CATEGORY_SUGGESTIONS = 3;
+
+// Fields that decide the destination amount of a transfer
+const TRANSFER_FIELDS = ['type', 'fromAccount', 'toAccount', 'amount', 'toAmount', 'transactionDate'];
+
+// Running balance of an account after each of its rows, in transactionDate order. It follows the
+// account's whole ledger, so rows hidden by other filters or on other pages still count; deleted rows have none
+async function runningBalances(req: Request, accountId: string, dateRange?: any): Promise<Map<string, number>> {
+  const [ledger, opening] = await Promise.all([
+    Transaction.find(addSoftDeleteFilter(scopeToHousehold(req, {
+      $or: [{ fromAccount: accountId }, { toAccount: accountId }],
+      ...(dateRange ? { transactionDate: dateRange } : {})
+    }))).sort({ transactionDate: 1, _id: 1 }),
+    dateRange?.$gte
+      ? accountBalanceAsOf(getHouseholdId(req), accountId, new Date(dateRange.$gte.getTime() - 1))
+      : Promise.resolve(0)
+  ]);
+
+  const balances = new Map<string, number>();
+  let balance = opening;
+  ledger.forEach(row => {
+    balance += accountEffect(row, accountId);
+    balances.set((row._id as any).toString(), roundAmount(balance));
+  });
+  return balances;
+}
+
 export default {
   post: async (req: Request, res: Response): Promise<void> => {
     try {
+      const { fromAccount, toAccount } = req.body;
+      if (!(await verifyHouseholdReferences(getHouseholdId(req), {
+        accounts: [fromAccount, toAccount],
+        categories: categoriesOf(req.body),
+        tags: req.body.tags,
+        payees: [req.body.payee]
+      }))) {
+        res.status(400).json({ error: translate('households.invalid_reference', req.lang) });
+        return;
+      }
+
+      const { toAmount, resolved } = await resolveTransferAmount(getHouseholdId(req), req.body);
+      if (!resolved) {
+        res.status(400).json({ error: translate('transactions.destination_amount_required', req.lang) });
+        return;
+      }
+
+      // Payee from the description, then rules, then the payee's default category fill in what is left out
+      const body = await autoCategorize(getHouseholdId(req), withoutAttachmentCount(req.body));
       const transactionData = {
-        ...req.body,
+        ...body,
+        ...normalizeSplits(body),
+        toAmount,
         updatedAt: Date.now(),
         syncVersion: 1,
-        lastModifiedBy: req.body.deviceId || req.headers['x-device-id'] || 'system'
+        lastModifiedBy: getModifiedBy(req),
+        householdId: getHouseholdId(req)
       };
       const transaction = new Transaction(transactionData);
-      await transaction.save();
+      await runInTransaction(session => transaction.save({ session }));
       
       res.status(201).json({
         data: transformTransactionForFrontend(transaction),
@@ -89,64 +160,89 @@ export default {
   },
   all: async (req: Request, res: Response): Promise<void> => {
     try {
-      const { fromAccount, toAccount, fromDate, toDate, category } = req.query;
-      
-      let filter: any = {};
-      
-      if (fromAccount) {
-        filter.fromAccount = fromAccount;
+      const { account, runningBalance, limit, cursor, sort } = req.query;
+
+      // Pages are what the list shows, so they leave deleted transactions out unless asked and default to
+      // newest first; the unpaged list keeps them for sync
+      const paged = limit !== undefined || cursor !== undefined;
+      const filter = await buildTransactionFilter(getHouseholdId(req), req.query as TransactionFilterParams, {
+        includeDeleted: !paged
+      });
+      const order = sort === 'desc' || (paged && sort !== 'asc') ? -1 : 1;
+      const pageSize = Number(limit) || DEFAULT_PAGE_SIZE;
+      const position = cursor ? decodeCursor(cursor as string) : null;
+
+      let query = Transaction.find(position ? { ...filter, $and: [...(filter.$and || []), afterCursor(position, order)] } : filter);
+      // _id breaks ties between transactions on the same date
+      if (paged || sort || runningBalance === 'true') {
+        query = query.sort({ transactionDate: order, _id: order });
       }
-      
-      if (toAccount) {
-        filter.toAccount = toAccount;
+      if (paged) {
+        query = query.limit(pageSize + 1);
       }
 
-      if (category) {
-        filter.category = category;
-      }
+      const [rows, total, balances] = await Promise.all([
+        query
+          .populate("fromAccount")
+          .populate("toAccount")
+          .populate("category"),
+        paged ? Transaction.countDocuments(filter) : Promise.resolve(0),
+        runningBalance === 'true' ? runningBalances(req, account as string, filter.transactionDate) : Promise.resolve(null)
+      ]);
 
-      // Don't filter deleted transactions - frontend handles filtering for sync purposes
-      // filter = addSoftDeleteFilter(filter);
-      
-      if (fromDate || toDate) {
-        filter.transactionDate = {};
-        
-        if (fromDate) {
-          const fromDateStr = fromDate as string;
-          let fromDateObj: Date;
-          
-          if (fromDateStr.includes(' ')) {
-            // Handle datetime strings - parse as ISO string directly
-            fromDateObj = new Date(fromDateStr);
-          } else {
-            // Handle date-only strings - parse as ISO string directly
-            fromDateObj = new Date(fromDateStr);
-          }
-          
-          filter.transactionDate.$gte = fromDateObj;
-        }
-        
-        if (toDate) {
-          const toDateStr = toDate as string;
-          let toDateObj: Date;
-          
-          if (toDateStr.includes(' ')) {
-            // Handle datetime strings - parse as ISO string directly
-            toDateObj = new Date(toDateStr);
-          } else {
-            // Handle date-only strings - parse as ISO string directly
-            toDateObj = new Date(toDateStr);
-          }
-          
-          filter.transactionDate.$lte = toDateObj;
-        }
+      const transactions = paged ? rows.slice(0, pageSize) : rows;
+      const data = transactions.map(row => balances
+        ? { ...transformTransactionForFrontend(row), runningBalance: balances.get((row._id as any).toString()) ?? null }
+        : transformTransactionForFrontend(row));
+
+      if (!paged) {
+        res.json(data);
+        return;
       }
-      
-      const transactions = await Transaction.find(filter)
-        .populate("fromAccount")
-        .populate("toAccount")
-        .populate("category");
-      res.json(transactions.map(transformTransactionForFrontend));
+      res.json({
+        data,
+        total,
+        nextCursor: rows.length > pageSize ? encodeCursor(transactions[transactions.length - 1] as any) : null
+      });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  },
+  // Categories that similar past transactions were filed under, best first, with a confidence from 0 to 1
+  // Past transactions are compared by description and notes; the same account and a close amount count more
+  suggestCategory: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { description, amount, account, type } = req.query as Record<string, string | undefined>;
+      const [history, categories] = await Promise.all([
+        Transaction.find(addSoftDeleteFilter(scopeToHousehold(req, {
+          type: type || { $ne: 'transfer' },
+          $or: [{ category: { $ne: null } }, { 'splits.0': { $exists: true } }]
+        })))
+          .sort({ transactionDate: -1 })
+          .limit(SUGGESTION_HISTORY),
+        Category.find(addSoftDeleteFilter(scopeToHousehold(req)))
+      ]);
+
+      // Split transactions count once per line, for the line's category and amount
+      const past: PastCategorization[] = history.flatMap(transaction => {
+        const text = [transaction.description, transaction.notes].filter(Boolean).join(' ');
+        const accounts = [transaction.fromAccount, transaction.toAccount].filter(Boolean).map(id => id!.toString());
+        const lines = transaction.splits?.length
+          ? transaction.splits
+          : [{ category: transaction.category!, amount: transaction.amount }];
+        return lines.map(line => ({ text, category: line.category.toString(), amount: line.amount, accounts }));
+      });
+
+      const categoriesById = new Map(categories.map(category => [(category._id as any).toString(), category]));
+      const suggestions = rankCategories(past, { text: description!, amount: amount ? parseFloat(amount) : undefined, account }, Infinity)
+        .filter(suggestion => categoriesById.has(suggestion.category))
+        .slice(0, CATEGORY_SUGGESTIONS)
+        .map(({ category, ...score }) => {
+          const { name, type, icon, color } = categoriesById.get(category)!;
+          return { category: { id: category, name, type, icon, color }, ...score };
+        });
+
+      res.json({ suggestions });
     } catch (err) {
       res.status(500).json({ error: (err as Error).message });
     }
@@ -154,7 +250,7 @@ export default {
   get: async (req: Request, res: Response): Promise<void> => {
     try {
       const transaction = await Transaction.findOne(
-        addSoftDeleteFilter({ _id: req.params.id })
+        addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id }))
       )
         .populate("fromAccount")
         .populate("toAccount")
@@ -174,7 +270,7 @@ export default {
   update: async (req: Request, res: Response): Promise<void> => {
     try {
       const existingTransaction = await Transaction.findOne(
-        addSoftDeleteFilter({ _id: req.params.id })
+        addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id }))
       );
 
       if (!existingTransaction) {
@@ -184,21 +280,62 @@ export default {
         return;
       }
 
-      const updateData = {
-        ...req.body,
+      const { fromAccount, toAccount } = req.body;
+      if (!(await verifyHouseholdReferences(getHouseholdId(req), {
+        accounts: [fromAccount, toAccount],
+        categories: categoriesOf(req.body),
+        tags: req.body.tags,
+        payees: [req.body.payee]
+      }))) {
+        res.status(400).json({ error: translate('households.invalid_reference', req.lang) });
+        return;
+      }
+
+      // New split lines replace the category and a new category replaces the split lines;
+      // either way the resulting lines must still add up to the amount
+      const splitFields = 'splits' in req.body || 'category' in req.body ? normalizeSplits(req.body) : {};
+      const resulting = { ...existingTransaction.toObject(), ...req.body, ...splitFields };
+      if (!splitsMatchTotal(resulting.splits, resulting.amount)) {
+        res.status(400).json({ error: translate('transactions.split_total_mismatch', req.lang) });
+        return;
+      }
+      if (resulting.splits?.length && resulting.type === 'transfer') {
+        res.status(400).json({ error: translate('transactions.transfer_split', req.lang) });
+        return;
+      }
+
+      const updateData: any = {
+        ...withoutAttachmentCount(req.body),
+        ...splitFields,
         updatedAt: Date.now(),
         syncVersion: (existingTransaction.syncVersion || 1) + 1,
-        lastModifiedBy: req.body.deviceId || req.headers['x-device-id'] || 'system'
+        lastModifiedBy: getModifiedBy(req),
+        householdId: getHouseholdId(req)
       };
+
+      // Re-resolve the destination amount against the resulting transfer
+      if (TRANSFER_FIELDS.some(field => field in req.body)) {
+        const { toAmount, resolved } = await resolveTransferAmount(getHouseholdId(req), {
+          ...existingTransaction.toObject(),
+          // A new source amount invalidates the stored destination amount unless one is given
+          ...('amount' in req.body ? { toAmount: null } : {}),
+          ...req.body
+        });
+        if (!resolved) {
+          res.status(400).json({ error: translate('transactions.destination_amount_required', req.lang) });
+          return;
+        }
+        updateData.toAmount = toAmount;
+      }
       
-      const transaction = await Transaction.findOneAndUpdate(
-        addSoftDeleteFilter({ _id: req.params.id }),
+      const transaction = await runInTransaction(session => Transaction.findOneAndUpdate(
+        addSoftDeleteFilter(scopeToHousehold(req, { _id: req.params.id })),
         updateData,
-        { new: true }
+        { new: true, session }
       )
         .populate("fromAccount")
         .populate("toAccount")
-        .populate("category");
+        .populate("category"));
       
       res.json({
         data: transformTransactionForFrontend(transaction),
@@ -210,8 +347,10 @@ export default {
   },
   delete: async (req: Request, res: Response): Promise<void> => {
     try {
-      const deviceId = req.body?.deviceId || req.headers['x-device-id'] as string || 'system';
-      const transaction = await performSoftDelete(Transaction, req.params.id, deviceId);
+      const modifiedBy = getModifiedBy(req);
+      const transaction = await runInTransaction(session =>
+        performSoftDelete(Transaction, req.params.id, modifiedBy, scopeToHousehold(req), session)
+      );
       
       if (!transaction) {
         res.status(404).json({ 
@@ -253,6 +392,7 @@ export default {
         Transaction.aggregate([
           { 
             $match: { 
+              householdId: new mongoose.Types.ObjectId(getHouseholdId(req)),
               toAccount: new mongoose.Types.ObjectId(accountId),
               isDeleted: { $ne: true }, // Filter out soft-deleted transactions
               ...dateCondition
@@ -263,6 +403,7 @@ export default {
         Transaction.aggregate([
           { 
             $match: { 
+              householdId: new mongoose.Types.ObjectId(getHouseholdId(req)),
               fromAccount: new mongoose.Types.ObjectId(accountId),
               isDeleted: { $ne: true }, // Filter out soft-deleted transactions
               ...dateCondition
@@ -294,7 +435,7 @@ export default {
     try {
       const { lastSyncTimestamp = 0, transactionHashes } = req.body;
       const since = new Date(lastSyncTimestamp);
-      const changed = await Transaction.find({ updatedAt: { $gt: since } }).sort({ updatedAt: 1 });
+      const changed = await Transaction.find(scopeToHousehold(req, { updatedAt: { $gt: since } })).sort({ updatedAt: 1 });
       const filtered = Array.isArray(changed)
         ? changed.filter(tx => {
             const id = (tx as any)._id.toString();
@@ -324,19 +465,40 @@ export default {
       const { transactions } = req.body;
       const timestamp = Date.now();
       const accepted: string[] = [];
-      for (const data of transactions) {
+      for (const pushed of transactions) {
+        const data = withoutAttachmentCount(pushed);
         const id = data.id;
-        let existing = await Transaction.findById(id);
+        // Skip transactions that point at another household's accounts, categories or tags
+        if (!(await verifyHouseholdReferences(getHouseholdId(req), {
+          accounts: [data.fromAccount, data.toAccount],
+          categories: categoriesOf(data),
+          tags: data.tags,
+          payees: [data.payee]
+        }))) {
+          continue;
+        }
+
+        const { toAmount, resolved } = await resolveTransferAmount(getHouseholdId(req), data);
+        if (!resolved) {
+          continue;
+        }
+
+        let existing = await Transaction.findOne(scopeToHousehold(req, { _id: id }));
+        // Skip ids already taken by another household's transaction instead of failing the rest of the batch
+        if (!existing && (await Transaction.exists({ _id: id }))) {
+          continue;
+        }
         if (!existing) {
-          const created = new Transaction({ _id: id, ...data });
-          await created.save();
+          const categorized = await autoCategorize(getHouseholdId(req), data);
+          const created = new Transaction({ _id: id, ...categorized, ...normalizeSplits(categorized), toAmount, householdId: getHouseholdId(req) });
+          await runInTransaction(session => created.save({ session }));
           accepted.push(id);
         } else {
           const serverHash = generateTransactionHash(existing);
           if (data.updatedAt > (existing as any).updatedAt || data.hash !== serverHash) {
-            Object.assign(existing, data);
+            Object.assign(existing, data, normalizeSplits(data), { toAmount, householdId: getHouseholdId(req) });
             (existing as any).updatedAt = data.updatedAt;
-            await existing.save();
+            await runInTransaction(session => existing!.save({ session }));
             accepted.push(id);
           }
         }
@@ -3,5 +3,14 @@ dotenv.config();
 
 import serverless from 'serverless-http';
 import app from './app';
+import { materializeDueRecurringTransactions } from './utils/recurrence';
 
-export const handler = serverless(app);
+// Attachment downloads are binary and must reach API Gateway base64-encoded
+export const handler = serverless(app, { binary: ['image/*', 'application/pdf'] });
+
+// Scheduled job: create the transactions of recurring schedules that are due
+export const materializeRecurring = async () => {
+  const result = await materializeDueRecurringTransactions();
+  console.log(`Materialized ${result.created} recurring transactions from ${result.schedules} schedules`);
+  return result;
+};
@@ -10,7 +10,37 @@ const translations: TranslationMap = {
     "Invalid account ID": "Invalid account ID format",
     "Invalid from date format": "From date has an invalid format",
     "Invalid to date format": "To date has an invalid format",
-    "At least one field must be provided": "You must update at least one field"
+    "At least one field must be provided": "You must update at least one field",
+    "Invalid category ID": "Invalid category ID format",
+    "Amount must be positive": "Amount must be a positive number",
+    "End date must not be before start date": "End date must not be before the start date",
+    "Invalid month format": "Month must be in YYYY-MM format",
+    "Interval must be at least 1": "Interval must be at least 1",
+    "Count must be between 1 and 99": "Count must be between 1 and 99",
+    "Invalid email address": "Invalid email address",
+    "Password must be at least 8 characters": "Password must be at least 8 characters",
+    "Password is required": "Password is required",
+    "Refresh token is required": "Refresh token is required",
+    "Invitation code is required": "Invitation code is required",
+    "Invalid currency code": "Please provide a three-letter currency code",
+    "Rate must be positive": "Exchange rate must be greater than zero",
+    "Currencies must be different": "Choose two different currencies",
+    "At least one rate is required": "Provide at least one exchange rate",
+    "Invalid amount": "Please provide a valid amount",
+    "Split amounts must add up to the transaction amount": "Split amounts must add up to the transaction amount",
+    "Transfers cannot be split": "Transfers cannot be split across categories",
+    "File is required": "Please upload a file",
+    "Account is required": "Please choose an account",
+    "Invalid column": "Invalid column",
+    "Amount column is required": "Choose the amount column (or the debit and credit columns)",
+    "Account name is required": "Enter a name for the new account",
+    "Invalid ID": "Invalid ID",
+    "Unsupported backup version": "This backup was made by a newer version of the app",
+    "Unknown reference": "Refers to something that is not in the backup",
+    "Duplicate ID": "The same ID appears twice in the backup",
+    "Category cannot be its own ancestor": "A category cannot be inside itself",
+    "Entity is required for CSV exports": "Choose what to export as CSV",
+    "Running balance needs an account filter": "Choose an account to show running balances"
   },
   validations: {
     required: "{{field}} is required",
@@ -21,7 +51,10 @@ const translations: TranslationMap = {
     created_success: "Transaction created successfully",
     updated_success: "Transaction updated successfully",
     deleted_success: "Transaction deleted successfully",
-    not_found: "Transaction not found"
+    not_found: "Transaction not found",
+    destination_amount_required: "Enter the amount received or add an exchange rate for these currencies",
+    split_total_mismatch: "Split amounts must add up to the transaction amount",
+    transfer_split: "Transfers cannot be split across categories"
   },
   accounts: {
     created_success: "Account created successfully",
@@ -34,7 +67,106 @@ const translations: TranslationMap = {
     updated_success: "Category updated successfully",
     deleted_success: "Category deleted successfully",
     not_found: "Category not found",
-    cannot_delete_with_subcategories: "Cannot delete category with subcategories. Delete subcategories first or reassign them."
+    cannot_delete_with_subcategories: "Cannot delete category with subcategories. Delete subcategories first or reassign them.",
+    merged_success: "Categories merged successfully",
+    merge_into_self: "A category cannot be merged into itself",
+    merge_into_subcategory: "A category cannot be merged into one of its own subcategories",
+    type_mismatch: "Income and expense categories cannot be mixed",
+    moved_success: "Category moved successfully",
+    move_into_subtree: "A category cannot be moved under itself or one of its own subcategories"
+  },
+  budgets: {
+    created_success: "Budget created successfully",
+    updated_success: "Budget updated successfully",
+    deleted_success: "Budget deleted successfully",
+    not_found: "Budget not found"
+  },
+  recurring: {
+    created_success: "Recurring transaction created successfully",
+    updated_success: "Recurring transaction updated successfully",
+    deleted_success: "Recurring transaction deleted successfully",
+    not_found: "Recurring transaction not found",
+    invalid_occurrence: "The schedule has no occurrence on that date",
+    occurrence_skipped: "Occurrence skipped successfully",
+    occurrence_updated: "Occurrence updated successfully"
+  },
+  auth: {
+    registered_success: "Account registered successfully",
+    login_success: "Logged in successfully",
+    logout_success: "Logged out successfully",
+    email_taken: "An account with this email already exists",
+    invalid_credentials: "Invalid email or password",
+    unauthorized: "Authentication required",
+    token_expired: "Access token has expired",
+    invalid_token: "Invalid or revoked token",
+    user_not_found: "User not found"
+  },
+  households: {
+    not_found: "Household not found",
+    owner_required: "Only the household owner can do this",
+    updated_success: "Household updated successfully",
+    invitation_created: "Invitation created successfully",
+    joined_success: "Joined household successfully",
+    invalid_invitation: "Invitation code is invalid or expired",
+    owner_cannot_leave: "Remove the other members before leaving a household you own",
+    member_not_found: "Member not found",
+    member_removed: "Member removed successfully",
+    invalid_reference: "Referenced account or category not found"
+  },
+  exchangeRates: {
+    created_success: "Exchange rate saved successfully",
+    imported_success: "Exchange rates imported successfully",
+    deleted_success: "Exchange rate deleted successfully",
+    not_found: "Exchange rate not found"
+  },
+  imports: {
+    empty_file: "The file has no rows to import",
+    preview_ready: "Review the rows before importing",
+    imported_success: "{{count}} transactions imported",
+    unknown_format: "Unrecognised statement file. Upload an OFX, QFX or QIF file",
+    account_required: "Choose the account to import into, or create a new one",
+    imported_account: "Imported account"
+  },
+  backups: {
+    household_not_empty: "Backups can only be restored into an empty household",
+    restored_success: "Backup restored with {{count}} transactions"
+  },
+  admin: {
+    recalculated_success: "Corrected {{count}} drifted balances",
+    drift_found: "{{count}} balances drifted from their transactions",
+    no_drift: "All balances match their transactions"
+  },
+  tags: {
+    created_success: "Tag created successfully",
+    updated_success: "Tag updated successfully",
+    deleted_success: "Tag deleted successfully",
+    not_found: "Tag not found",
+    name_taken: "A tag with this name already exists"
+  },
+  payees: {
+    created_success: "Payee created successfully",
+    updated_success: "Payee updated successfully",
+    deleted_success: "Payee deleted successfully",
+    not_found: "Payee not found",
+    name_taken: "A payee with this name already exists"
+  },
+  rules: {
+    created_success: "Rule created successfully",
+    updated_success: "Rule updated successfully",
+    deleted_success: "Rule deleted successfully",
+    not_found: "Rule not found",
+    apply_preview: "Rules would change {{count}} transactions",
+    applied_success: "Rules applied to {{count}} transactions",
+    applied_partially: "Rules were applied to {{count}} transactions before an error stopped them; apply again to continue"
+  },
+  attachments: {
+    uploaded_success: "Attachment uploaded successfully",
+    deleted_success: "Attachment deleted successfully",
+    not_found: "Attachment not found",
+    too_large: "Attachments can be at most {{count}} MB",
+    unsupported_type: "Only JPEG, PNG, WebP, HEIC images and PDF files can be attached",
+    content_mismatch: "The file content does not match its type",
+    limit_reached: "A transaction can have at most {{count}} attachments"
   }
 };
 
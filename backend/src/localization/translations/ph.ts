@@ -10,7 +10,37 @@ const translations: TranslationMap = {
     "Invalid account ID": "Di-wastong format ng account ID",
     "Invalid from date format": "Di-wastong format ang from date",
     "Invalid to date format": "Di-wastong format ang to date",
-    "At least one field must be provided": "Dapat kang mag-update ng kahit isang field"
+    "At least one field must be provided": "Dapat kang mag-update ng kahit isang field",
+    "Invalid category ID": "Di-wastong format ng category ID",
+    "Amount must be positive": "Ang halaga ay dapat positibong numero",
+    "End date must not be before start date": "Ang end date ay hindi dapat mas maaga sa start date",
+    "Invalid month format": "Ang buwan ay dapat nasa format na YYYY-MM",
+    "Interval must be at least 1": "Ang interval ay dapat hindi bababa sa 1",
+    "Count must be between 1 and 99": "Ang bilang ay dapat nasa pagitan ng 1 at 99",
+    "Invalid email address": "Hindi wastong email address",
+    "Password must be at least 8 characters": "Ang password ay dapat hindi bababa sa 8 character",
+    "Password is required": "Kailangan ang password",
+    "Refresh token is required": "Kailangan ang refresh token",
+    "Invitation code is required": "Kailangan ang invitation code",
+    "Invalid currency code": "Maglagay ng tatlong-letrang currency code",
+    "Rate must be positive": "Ang exchange rate ay dapat mas malaki sa zero",
+    "Currencies must be different": "Pumili ng dalawang magkaibang currency",
+    "At least one rate is required": "Maglagay ng kahit isang exchange rate",
+    "Invalid amount": "Maglagay ng wastong halaga",
+    "Split amounts must add up to the transaction amount": "Ang kabuuan ng mga hati ay dapat katumbas ng halaga ng transaksyon",
+    "Transfers cannot be split": "Hindi maaaring hatiin ang transfer sa mga kategorya",
+    "File is required": "Mag-upload ng file",
+    "Account is required": "Pumili ng account",
+    "Invalid column": "Hindi wastong column",
+    "Amount column is required": "Piliin ang column ng halaga (o ang mga column ng debit at credit)",
+    "Account name is required": "Maglagay ng pangalan para sa bagong account",
+    "Invalid ID": "Hindi wastong ID",
+    "Unsupported backup version": "Ang backup na ito ay gawa ng mas bagong bersyon ng app",
+    "Unknown reference": "Tumutukoy sa bagay na wala sa backup",
+    "Duplicate ID": "Dalawang beses lumabas ang parehong ID sa backup",
+    "Category cannot be its own ancestor": "Hindi maaaring nasa loob ng sarili nito ang isang kategorya",
+    "Entity is required for CSV exports": "Piliin kung ano ang ie-export bilang CSV",
+    "Running balance needs an account filter": "Pumili ng account para makita ang running balance"
   },
   validations: {
     required: "Kinakailangan ang {{field}}",
@@ -21,7 +51,10 @@ const translations: TranslationMap = {
     created_success: "Matagumpay na nalikha ang transaksyon",
     updated_success: "Matagumpay na na-update ang transaksyon",
     deleted_success: "Matagumpay na natanggal ang transaksyon",
-    not_found: "Hindi natagpuan ang transaksyon"
+    not_found: "Hindi natagpuan ang transaksyon",
+    destination_amount_required: "Ilagay ang natanggap na halaga o magdagdag ng exchange rate para sa mga currency na ito",
+    split_total_mismatch: "Ang kabuuan ng mga hati ay dapat katumbas ng halaga ng transaksyon",
+    transfer_split: "Hindi maaaring hatiin ang transfer sa mga kategorya"
   },
   accounts: {
     created_success: "Matagumpay na nalikha ang account",
@@ -33,7 +66,106 @@ const translations: TranslationMap = {
     created_success: "Matagumpay na nalikha ang kategorya",
     updated_success: "Matagumpay na na-update ang kategorya",
     deleted_success: "Matagumpay na natanggal ang kategorya",
-    not_found: "Hindi natagpuan ang kategorya"
+    not_found: "Hindi natagpuan ang kategorya",
+    merged_success: "Matagumpay na napagsama ang mga kategorya",
+    merge_into_self: "Hindi maaaring isama ang kategorya sa sarili nito",
+    merge_into_subcategory: "Hindi maaaring isama ang kategorya sa sarili nitong subcategory",
+    type_mismatch: "Hindi maaaring paghaluin ang mga kategorya ng kita at gastos",
+    moved_success: "Matagumpay na nailipat ang kategorya",
+    move_into_subtree: "Hindi maaaring ilipat ang kategorya sa ilalim ng sarili nito o ng sarili nitong subcategory"
+  },
+  budgets: {
+    created_success: "Matagumpay na nalikha ang budget",
+    updated_success: "Matagumpay na na-update ang budget",
+    deleted_success: "Matagumpay na natanggal ang budget",
+    not_found: "Hindi natagpuan ang budget"
+  },
+  recurring: {
+    created_success: "Matagumpay na nalikha ang paulit-ulit na transaksyon",
+    updated_success: "Matagumpay na na-update ang paulit-ulit na transaksyon",
+    deleted_success: "Matagumpay na natanggal ang paulit-ulit na transaksyon",
+    not_found: "Hindi natagpuan ang paulit-ulit na transaksyon",
+    invalid_occurrence: "Walang nakatakdang transaksyon sa petsang iyon",
+    occurrence_skipped: "Matagumpay na nilaktawan ang transaksyon",
+    occurrence_updated: "Matagumpay na na-update ang transaksyon"
+  },
+  auth: {
+    registered_success: "Matagumpay na nairehistro ang account",
+    login_success: "Matagumpay na naka-login",
+    logout_success: "Matagumpay na naka-logout",
+    email_taken: "May account na gumagamit ng email na ito",
+    invalid_credentials: "Maling email o password",
+    unauthorized: "Kailangan ng pag-login",
+    token_expired: "Nag-expire na ang access token",
+    invalid_token: "Hindi wasto o binawi na ang token",
+    user_not_found: "Hindi natagpuan ang user"
+  },
+  households: {
+    not_found: "Hindi nahanap ang household",
+    owner_required: "Ang may-ari lamang ng household ang makakagawa nito",
+    updated_success: "Matagumpay na na-update ang household",
+    invitation_created: "Matagumpay na nagawa ang imbitasyon",
+    joined_success: "Matagumpay na sumali sa household",
+    invalid_invitation: "Hindi wasto o expired na ang invitation code",
+    owner_cannot_leave: "Alisin muna ang ibang miyembro bago umalis sa household na pagmamay-ari mo",
+    member_not_found: "Hindi nahanap ang miyembro",
+    member_removed: "Matagumpay na naalis ang miyembro",
+    invalid_reference: "Hindi nahanap ang tinukoy na account o kategorya"
+  },
+  exchangeRates: {
+    created_success: "Matagumpay na nai-save ang exchange rate",
+    imported_success: "Matagumpay na na-import ang mga exchange rate",
+    deleted_success: "Matagumpay na natanggal ang exchange rate",
+    not_found: "Hindi nahanap ang exchange rate"
+  },
+  imports: {
+    empty_file: "Walang laman na rows ang file para i-import",
+    preview_ready: "Suriin ang mga row bago mag-import",
+    imported_success: "{{count}} transaksyon ang na-import",
+    unknown_format: "Hindi makilala ang statement file. Mag-upload ng OFX, QFX o QIF file",
+    account_required: "Piliin ang account na paglalagyan ng import, o gumawa ng bago",
+    imported_account: "Na-import na account"
+  },
+  backups: {
+    household_not_empty: "Maibabalik lang ang backup sa isang walang lamang household",
+    restored_success: "Naibalik ang backup na may {{count}} na transaksyon"
+  },
+  admin: {
+    recalculated_success: "Naitama ang {{count}} balanse na lumihis",
+    drift_found: "{{count}} balanse ang hindi tugma sa mga transaksyon",
+    no_drift: "Tugma ang lahat ng balanse sa mga transaksyon"
+  },
+  tags: {
+    created_success: "Matagumpay na nalikha ang tag",
+    updated_success: "Matagumpay na na-update ang tag",
+    deleted_success: "Matagumpay na natanggal ang tag",
+    not_found: "Hindi nahanap ang tag",
+    name_taken: "May tag na may ganitong pangalan"
+  },
+  payees: {
+    created_success: "Matagumpay na nalikha ang payee",
+    updated_success: "Matagumpay na na-update ang payee",
+    deleted_success: "Matagumpay na natanggal ang payee",
+    not_found: "Hindi nahanap ang payee",
+    name_taken: "May payee na may ganitong pangalan"
+  },
+  rules: {
+    created_success: "Matagumpay na nalikha ang patakaran",
+    updated_success: "Matagumpay na na-update ang patakaran",
+    deleted_success: "Matagumpay na natanggal ang patakaran",
+    not_found: "Hindi nahanap ang patakaran",
+    apply_preview: "{{count}} transaksyon ang mababago ng mga patakaran",
+    applied_success: "Nailapat ang mga patakaran sa {{count}} transaksyon",
+    applied_partially: "Nailapat ang mga patakaran sa {{count}} transaksyon bago huminto dahil sa error; ilapat muli upang magpatuloy"
+  },
+  attachments: {
+    uploaded_success: "Matagumpay na na-upload ang attachment",
+    deleted_success: "Matagumpay na natanggal ang attachment",
+    not_found: "Hindi nahanap ang attachment",
+    too_large: "Hanggang {{count}} MB lamang ang bawat attachment",
+    unsupported_type: "Mga larawang JPEG, PNG, WebP, HEIC at PDF file lamang ang maaaring i-attach",
+    content_mismatch: "Hindi tugma ang laman ng file sa uri nito",
+    limit_reached: "Hanggang {{count}} attachment lamang ang maaari sa isang transaksyon"
   }
 };
 
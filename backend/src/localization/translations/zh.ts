@@ -10,7 +10,37 @@ const translations: TranslationMap = {
     "Invalid account ID": "账户ID格式无效",
     "Invalid from date format": "开始日期格式无效",
     "Invalid to date format": "结束日期格式无效",
-    "At least one field must be provided": "您必须更新至少一个字段"
+    "At least one field must be provided": "您必须更新至少一个字段",
+    "Invalid category ID": "类别ID格式无效",
+    "Amount must be positive": "金额必须为正数",
+    "End date must not be before start date": "结束日期不能早于开始日期",
+    "Invalid month format": "月份格式必须为YYYY-MM",
+    "Interval must be at least 1": "间隔必须至少为1",
+    "Count must be between 1 and 99": "数量必须在1到99之间",
+    "Invalid email address": "无效的电子邮件地址",
+    "Password must be at least 8 characters": "密码至少需要8个字符",
+    "Password is required": "需要提供密码",
+    "Refresh token is required": "需要提供刷新令牌",
+    "Invitation code is required": "邀请码为必填项",
+    "Invalid currency code": "请提供三个字母的货币代码",
+    "Rate must be positive": "汇率必须大于零",
+    "Currencies must be different": "请选择两种不同的货币",
+    "At least one rate is required": "请至少提供一个汇率",
+    "Invalid amount": "请提供有效的金额",
+    "Split amounts must add up to the transaction amount": "拆分金额之和必须等于交易金额",
+    "Transfers cannot be split": "转账不能拆分到多个分类",
+    "File is required": "请上传文件",
+    "Account is required": "请选择账户",
+    "Invalid column": "无效的列",
+    "Amount column is required": "请选择金额列（或借方和贷方列）",
+    "Account name is required": "请输入新账户的名称",
+    "Invalid ID": "无效的 ID",
+    "Unsupported backup version": "此备份由更新版本的应用创建",
+    "Unknown reference": "引用了备份中不存在的内容",
+    "Duplicate ID": "备份中有重复的 ID",
+    "Category cannot be its own ancestor": "类别不能位于自身之内",
+    "Entity is required for CSV exports": "请选择要导出为 CSV 的内容",
+    "Running balance needs an account filter": "请选择账户以显示累计余额"
   },
   validations: {
     required: "{{field}}是必需的",
@@ -21,7 +51,10 @@ const translations: TranslationMap = {
     created_success: "交易创建成功",
     updated_success: "交易更新成功",
     deleted_success: "交易删除成功",
-    not_found: "未找到交易"
+    not_found: "未找到交易",
+    destination_amount_required: "请输入到账金额，或为这些货币添加汇率",
+    split_total_mismatch: "拆分金额之和必须等于交易金额",
+    transfer_split: "转账不能拆分到多个分类"
   },
   accounts: {
     created_success: "账户创建成功",
@@ -33,7 +66,106 @@ const translations: TranslationMap = {
     created_success: "类别创建成功",
     updated_success: "类别更新成功",
     deleted_success: "类别删除成功",
-    not_found: "未找到类别"
+    not_found: "未找到类别",
+    merged_success: "类别合并成功",
+    merge_into_self: "类别不能合并到自身",
+    merge_into_subcategory: "类别不能合并到其子类别中",
+    type_mismatch: "收入类别和支出类别不能混合",
+    moved_success: "类别移动成功",
+    move_into_subtree: "类别不能移动到自身或其子类别之下"
+  },
+  budgets: {
+    created_success: "预算创建成功",
+    updated_success: "预算更新成功",
+    deleted_success: "预算删除成功",
+    not_found: "未找到预算"
+  },
+  recurring: {
+    created_success: "定期交易创建成功",
+    updated_success: "定期交易更新成功",
+    deleted_success: "定期交易删除成功",
+    not_found: "未找到定期交易",
+    invalid_occurrence: "该日期没有计划的交易",
+    occurrence_skipped: "已跳过该次交易",
+    occurrence_updated: "该次交易更新成功"
+  },
+  auth: {
+    registered_success: "账户注册成功",
+    login_success: "登录成功",
+    logout_success: "已退出登录",
+    email_taken: "该电子邮件已被注册",
+    invalid_credentials: "电子邮件或密码错误",
+    unauthorized: "需要身份验证",
+    token_expired: "访问令牌已过期",
+    invalid_token: "令牌无效或已被撤销",
+    user_not_found: "未找到用户"
+  },
+  households: {
+    not_found: "未找到家庭",
+    owner_required: "只有家庭所有者可以执行此操作",
+    updated_success: "家庭更新成功",
+    invitation_created: "邀请创建成功",
+    joined_success: "成功加入家庭",
+    invalid_invitation: "邀请码无效或已过期",
+    owner_cannot_leave: "离开您拥有的家庭前，请先移除其他成员",
+    member_not_found: "未找到成员",
+    member_removed: "成员已成功移除",
+    invalid_reference: "未找到引用的账户或类别"
+  },
+  exchangeRates: {
+    created_success: "汇率保存成功",
+    imported_success: "汇率导入成功",
+    deleted_success: "汇率删除成功",
+    not_found: "未找到汇率"
+  },
+  imports: {
+    empty_file: "文件中没有可导入的行",
+    preview_ready: "导入前请检查这些行",
+    imported_success: "已导入 {{count}} 笔交易",
+    unknown_format: "无法识别的对账单文件。请上传 OFX、QFX 或 QIF 文件",
+    account_required: "请选择要导入的账户，或创建新账户",
+    imported_account: "导入的账户"
+  },
+  backups: {
+    household_not_empty: "只能将备份恢复到空的家庭中",
+    restored_success: "已恢复备份，共 {{count}} 笔交易"
+  },
+  admin: {
+    recalculated_success: "已更正 {{count}} 个偏差余额",
+    drift_found: "{{count}} 个余额与交易记录不符",
+    no_drift: "所有余额均与交易记录一致"
+  },
+  tags: {
+    created_success: "标签创建成功",
+    updated_success: "标签更新成功",
+    deleted_success: "标签删除成功",
+    not_found: "未找到标签",
+    name_taken: "已存在同名标签"
+  },
+  payees: {
+    created_success: "收款方创建成功",
+    updated_success: "收款方更新成功",
+    deleted_success: "收款方删除成功",
+    not_found: "未找到收款方",
+    name_taken: "已存在同名收款方"
+  },
+  rules: {
+    created_success: "规则创建成功",
+    updated_success: "规则更新成功",
+    deleted_success: "规则删除成功",
+    not_found: "未找到规则",
+    apply_preview: "规则将更改 {{count}} 笔交易",
+    applied_success: "规则已应用于 {{count}} 笔交易",
+    applied_partially: "规则已应用于 {{count}} 笔交易后因错误停止；再次应用即可继续"
+  },
+  attachments: {
+    uploaded_success: "附件上传成功",
+    deleted_success: "附件删除成功",
+    not_found: "未找到附件",
+    too_large: "附件最大为 {{count}} MB",
+    unsupported_type: "只能附加 JPEG、PNG、WebP、HEIC 图片和 PDF 文件",
+    content_mismatch: "文件内容与其类型不符",
+    limit_reached: "每笔交易最多只能有 {{count}} 个附件"
   }
 };
 
@@ -0,0 +1,89 @@
+jest.mock('../../models/user', () => ({
+  findById: jest.fn()
+}));
+
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { authenticate } from '../auth';
+import User from '../../models/user';
+import { issueTokens } from '../../utils/auth';
+
+// User.findById(...).lean() resolving to the stored user
+const storedUser = (user: any) => ({ lean: jest.fn().mockResolvedValue(user) });
+
+describe('Auth Middleware', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let nextFunction: NextFunction;
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-access-secret';
+    process.env.JWT_REFRESH_SECRET = 'test-refresh-secret';
+  });
+
+  beforeEach(() => {
+    mockRequest = { headers: {}, lang: 'en' };
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn()
+    };
+    nextFunction = jest.fn();
+    (User.findById as jest.Mock).mockReturnValue(storedUser({ _id: 'user123', tokenVersion: 0 }));
+  });
+
+  it('should reject requests without a bearer token', async () => {
+    await authenticate(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(401);
+    expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Authentication required', code: 'unauthorized' });
+    expect(nextFunction).not.toHaveBeenCalled();
+  });
+
+  it('should attach the user for a valid access token', async () => {
+    const { accessToken } = issueTokens({ id: 'user123', email: 'jane@example.com', householdId: 'household123', tokenVersion: 0 });
+    mockRequest.headers = { authorization: `Bearer ${accessToken}` };
+
+    await authenticate(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(User.findById).toHaveBeenCalledWith('user123', { tokenVersion: 1 });
+    expect(mockRequest.user).toEqual({ id: 'user123', email: 'jane@example.com', householdId: 'household123' });
+    expect(nextFunction).toHaveBeenCalled();
+  });
+
+  it('should reject access tokens issued before the token version was bumped', async () => {
+    const { accessToken } = issueTokens({ id: 'user123', email: 'jane@example.com', householdId: 'household123', tokenVersion: 0 });
+    mockRequest.headers = { authorization: `Bearer ${accessToken}` };
+    (User.findById as jest.Mock).mockReturnValue(storedUser({ _id: 'user123', tokenVersion: 1 }));
+
+    await authenticate(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(401);
+    expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Invalid or revoked token', code: 'invalid_token' });
+    expect(mockRequest.user).toBeUndefined();
+    expect(nextFunction).not.toHaveBeenCalled();
+  });
+
+  it('should flag expired access tokens so the client can refresh', async () => {
+    const expired = jwt.sign(
+      { sub: 'user123', email: 'jane@example.com', type: 'access', exp: Math.floor(Date.now() / 1000) - 60 },
+      'test-access-secret'
+    );
+    mockRequest.headers = { authorization: `Bearer ${expired}` };
+
+    await authenticate(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(401);
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'token_expired' }));
+    expect(nextFunction).not.toHaveBeenCalled();
+  });
+
+  it('should reject refresh tokens used as access tokens', async () => {
+    const { refreshToken } = issueTokens({ id: 'user123', email: 'jane@example.com', householdId: 'household123', tokenVersion: 0 });
+    mockRequest.headers = { authorization: `Bearer ${refreshToken}` };
+
+    await authenticate(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(401);
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'invalid_token' }));
+  });
+});
@@ -0,0 +1,64 @@
+import { Request, Response, NextFunction } from "express";
+import jwt from "jsonwebtoken";
+import { translate } from "../localization";
+import User from "../models/user";
+import { AccessTokenPayload, verifyAccessToken } from "../utils/auth";
+
+// Extend Express Request interface
+declare global {
+  namespace Express {
+    interface Request {
+      user?: {
+        id: string;
+        email: string;
+        householdId: string;
+      };
+    }
+  }
+}
+
+/**
+ * Middleware that requires a valid access token in the Authorization header
+ * and attaches the authenticated user to the request object
+ * Tokens issued before the user's token version was last bumped (logout, leaving or being removed
+ * from a household) are rejected, so the household they name stops working right away
+ */
+export const authenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice(7) : null;
+
+  if (!token) {
+    res.status(401).json({ error: translate('auth.unauthorized', req.lang), code: 'unauthorized' });
+    return;
+  }
+
+  let payload: AccessTokenPayload;
+  try {
+    payload = verifyAccessToken(token);
+  } catch (err) {
+    if (err instanceof jwt.TokenExpiredError) {
+      res.status(401).json({ error: translate('auth.token_expired', req.lang), code: 'token_expired' });
+      return;
+    }
+    res.status(401).json({ error: translate('auth.invalid_token', req.lang), code: 'invalid_token' });
+    return;
+  }
+
+  try {
+    const user = await User.findById(payload.sub, { tokenVersion: 1 }).lean();
+    if (!user || (user.tokenVersion || 0) !== (payload.version || 0)) {
+      res.status(401).json({ error: translate('auth.invalid_token', req.lang), code: 'invalid_token' });
+      return;
+    }
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+    return;
+  }
+
+  req.user = { id: payload.sub, email: payload.email, householdId: payload.householdId };
+  next();
+};
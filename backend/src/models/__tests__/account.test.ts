@@ -4,6 +4,7 @@ import { MongoMemoryServer } from 'mongodb-memory-server';
 import Account from '../account';
 
 interface IAccountDocument extends mongoose.Document {
+  householdId: mongoose.Types.ObjectId;
   name: string;
   description: string;
   balance?: number;
@@ -19,6 +20,7 @@ interface IAccountDocument extends mongoose.Document {
 
 describe('Account Model', () => {
   let mongoServer: MongoMemoryServer;
+  const householdId = new mongoose.Types.ObjectId();
 
   beforeAll(async () => {
     mongoServer = await MongoMemoryServer.create();
@@ -37,6 +39,7 @@ describe('Account Model', () => {
 
   it('should create and save an account successfully', async () => {
     const accountData = {
+      householdId,
       name: 'Test Account',
       description: 'Test Description'
     };
@@ -67,6 +70,7 @@ describe('Account Model', () => {
 
   it('should find an account by id', async () => {
     const account = new Account({
+      householdId,
       name: 'Test Account',
       description: 'Test Description'
     });
@@ -81,6 +85,7 @@ describe('Account Model', () => {
 
   it('should update an account', async () => {
     const account = new Account({
+      householdId,
       name: 'Test Account',
       description: 'Test Description'
     });
@@ -99,6 +104,7 @@ describe('Account Model', () => {
 
   it('should delete an account', async () => {
     const account = new Account({
+      householdId,
       name: 'Test Account',
       description: 'Test Description'
     });
@@ -112,6 +118,7 @@ describe('Account Model', () => {
 
   it('should create an account with sync fields', async () => {
     const accountData = {
+      householdId,
       name: 'Sync Test Account',
       description: 'Test Description',
       balance: 1000,
@@ -142,6 +149,7 @@ describe('Account Model', () => {
 
   it('should soft delete an account', async () => {
     const account = new Account({
+      householdId,
       name: 'Test Account',
       description: 'Test Description'
     });
@@ -16,6 +16,7 @@ jest.mock('../category', () => {
 
 describe('Category Model', () => {
   let mongoServer: MongoMemoryServer;
+  const householdId = new mongoose.Types.ObjectId();
   
   beforeAll(async () => {
     mongoServer = await MongoMemoryServer.create();
@@ -34,6 +35,7 @@ describe('Category Model', () => {
 
   it('should create a new category', () => {
     const categoryData = {
+      householdId,
       name: 'Electronics',
       description: 'Electronic devices and gadgets',
       image: 'electronics.jpg'
@@ -12,6 +12,7 @@ interface ITransactionDocument extends mongoose.Document {
 
 describe('Transaction Model', () => {
   let mongoServer: MongoMemoryServer;
+  const householdId = new mongoose.Types.ObjectId();
 
   // Setup in-memory MongoDB server before tests
   beforeAll(async () => {
@@ -38,6 +39,7 @@ describe('Transaction Model', () => {
     
     // Setup test data
     const transactionData = {
+      householdId,
       transactionDate: new Date(),
       fromAccount: fromAccountId,
       toAccount: toAccountId,
@@ -61,6 +63,7 @@ describe('Transaction Model', () => {
   it('should fail to save a transaction without required fields', async () => {
     // Create a transaction missing required fields
     const transaction = new Transaction({
+      householdId,
       transactionDate: new Date()
       // Missing fromAccount, toAccount, and amount fields which are required
     });
@@ -86,6 +89,7 @@ describe('Transaction Model', () => {
     
     // Setup test data with invalid amount (non-numeric)
     const transaction = new Transaction({
+      householdId,
       transactionDate: new Date(),
       fromAccount: fromAccountId,
       toAccount: toAccountId,
@@ -112,6 +116,7 @@ describe('Transaction Model', () => {
     
     // Create multiple transactions for the same fromAccount
     const transaction1 = new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-01'),
       fromAccount: fromAccountId,
       toAccount: toAccountId,
@@ -119,6 +124,7 @@ describe('Transaction Model', () => {
     });
     
     const transaction2 = new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-02'),
       fromAccount: fromAccountId,
       toAccount: toAccountId,
@@ -132,6 +138,7 @@ describe('Transaction Model', () => {
     // Create a transaction for a different fromAccount to ensure filtering works
     const otherFromAccountId = new mongoose.Types.ObjectId();
     const transaction3 = new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-03'),
       fromAccount: otherFromAccountId,
       toAccount: toAccountId,
@@ -159,6 +166,7 @@ describe('Transaction Model', () => {
     
     // Create multiple transactions for the same toAccount
     const transaction1 = new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-01'),
       fromAccount: fromAccountId,
       toAccount: toAccountId,
@@ -166,6 +174,7 @@ describe('Transaction Model', () => {
     });
     
     const transaction2 = new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-02'),
       fromAccount: fromAccountId,
       toAccount: toAccountId,
@@ -179,6 +188,7 @@ describe('Transaction Model', () => {
     // Create a transaction for a different toAccount to ensure filtering works
     const otherToAccountId = new mongoose.Types.ObjectId();
     const transaction3 = new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-03'),
       fromAccount: fromAccountId,
       toAccount: otherToAccountId,
@@ -206,6 +216,7 @@ describe('Transaction Model', () => {
     
     // Create transactions with different dates
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-01T10:00:00Z'),
       fromAccount: fromAccountId,
       toAccount: toAccountId,
@@ -213,6 +224,7 @@ describe('Transaction Model', () => {
     }).save();
     
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-15T14:30:00Z'),
       fromAccount: fromAccountId,
       toAccount: toAccountId,
@@ -220,6 +232,7 @@ describe('Transaction Model', () => {
     }).save();
     
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-31T23:00:00Z'),
       fromAccount: fromAccountId,
       toAccount: toAccountId,
@@ -227,6 +240,7 @@ describe('Transaction Model', () => {
     }).save();
     
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-02-15T12:00:00Z'),
       fromAccount: fromAccountId,
       toAccount: toAccountId,
@@ -263,6 +277,7 @@ describe('Transaction Model', () => {
     
     // Create transactions at different times on the same day
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-15T08:00:00Z'), // 8 AM
       fromAccount: fromAccountId,
       toAccount: toAccountId,
@@ -270,6 +285,7 @@ describe('Transaction Model', () => {
     }).save();
     
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-15T12:30:00Z'), // 12:30 PM
       fromAccount: fromAccountId,
       toAccount: toAccountId,
@@ -277,6 +293,7 @@ describe('Transaction Model', () => {
     }).save();
     
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-15T17:45:00Z'), // 5:45 PM
       fromAccount: fromAccountId,
       toAccount: toAccountId,
@@ -314,6 +331,7 @@ describe('Transaction Model', () => {
     
     // Add transactions for fromAccount1
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-05T10:00:00Z'),
       fromAccount: fromAccount1,
       toAccount: toAccountId,
@@ -321,6 +339,7 @@ describe('Transaction Model', () => {
     }).save();
     
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-20T14:00:00Z'),
       fromAccount: fromAccount1,
       toAccount: toAccountId,
@@ -328,6 +347,7 @@ describe('Transaction Model', () => {
     }).save();
     
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-02-05T09:00:00Z'),
       fromAccount: fromAccount1,
       toAccount: toAccountId,
@@ -336,6 +356,7 @@ describe('Transaction Model', () => {
     
     // Add transactions for fromAccount2
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-10T11:00:00Z'),
       fromAccount: fromAccount2,
       toAccount: toAccountId,
@@ -343,6 +364,7 @@ describe('Transaction Model', () => {
     }).save();
     
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-25T16:00:00Z'),
       fromAccount: fromAccount2,
       toAccount: toAccountId,
@@ -389,6 +411,7 @@ describe('Transaction Model', () => {
     
     // Add transactions for toAccount1
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-05T10:00:00Z'),
       fromAccount: fromAccountId,
       toAccount: toAccount1,
@@ -396,6 +419,7 @@ describe('Transaction Model', () => {
     }).save();
     
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-20T14:00:00Z'),
       fromAccount: fromAccountId,
       toAccount: toAccount1,
@@ -404,6 +428,7 @@ describe('Transaction Model', () => {
     
     // Add transactions for toAccount2
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-10T11:00:00Z'),
       fromAccount: fromAccountId,
       toAccount: toAccount2,
@@ -434,6 +459,7 @@ describe('Transaction Model', () => {
     
     // Add several transactions with different amounts
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-05'),
       fromAccount: fromAccountId,
       toAccount: toAccountId,
@@ -441,6 +467,7 @@ describe('Transaction Model', () => {
     }).save();
     
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-10'),
       fromAccount: fromAccountId,
       toAccount: toAccountId,
@@ -448,6 +475,7 @@ describe('Transaction Model', () => {
     }).save();
     
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-15'),
       fromAccount: fromAccountId,
       toAccount: toAccountId,
@@ -473,6 +501,7 @@ describe('Transaction Model', () => {
     
     // Add transactions for different accounts
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-05'),
       fromAccount: fromAccount1,
       toAccount: toAccount1,
@@ -480,6 +509,7 @@ describe('Transaction Model', () => {
     }).save();
     
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-10'),
       fromAccount: fromAccount1,
       toAccount: toAccount2,
@@ -487,6 +517,7 @@ describe('Transaction Model', () => {
     }).save();
     
     await new Transaction({
+      householdId,
       transactionDate: new Date('2023-01-15'),
       fromAccount: fromAccount2,
       toAccount: toAccount1,
@@ -0,0 +1,94 @@
+import mongoose from 'mongoose';
+import { MongoMemoryReplSet } from 'mongodb-memory-server';
+import Account from '../account';
+import Category from '../category';
+import Transaction from '../transaction';
+import { runInTransaction } from '../../utils/dbTransaction';
+import { performSoftDelete } from '../../utils/softDelete';
+
+// Balance maintenance runs in MongoDB transactions, which need a replica set
+describe('Transaction balance maintenance', () => {
+  let replSet: MongoMemoryReplSet;
+  const householdId = new mongoose.Types.ObjectId();
+  let accountId: string;
+  let categoryId: string;
+
+  beforeAll(async () => {
+    replSet = await MongoMemoryReplSet.create({ replSet: { count: 1, storageEngine: 'wiredTiger' } });
+    await mongoose.connect(replSet.getUri());
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await replSet.stop();
+  });
+
+  beforeEach(async () => {
+    const account = await Account.create({ householdId, name: 'Wallet', balance: 1000 });
+    const category = await Category.create({ householdId, name: 'Food', type: 'Expense' });
+    accountId = (account._id as any).toString();
+    categoryId = (category._id as any).toString();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await Promise.all([Transaction.deleteMany({}), Account.deleteMany({}), Category.deleteMany({})]);
+  });
+
+  const newExpense = (amount: number) => new Transaction({
+    householdId,
+    transactionDate: new Date(),
+    fromAccount: accountId,
+    category: categoryId,
+    amount,
+    type: 'expense'
+  });
+
+  it('should apply a new transaction to its account and category', async () => {
+    const transaction = newExpense(150);
+    await runInTransaction(session => transaction.save({ session }));
+
+    expect((await Account.findById(accountId))!.balance).toBe(850);
+    const category = await Category.findById(categoryId);
+    expect(category!.directBalance).toBe(150);
+    expect(category!.transactionCount).toBe(1);
+  });
+
+  it('should not keep the transaction when its balance update fails', async () => {
+    jest.spyOn(Account, 'findByIdAndUpdate').mockImplementationOnce(() => {
+      throw new Error('Balance update failed');
+    });
+
+    await expect(runInTransaction(session => newExpense(150).save({ session }))).rejects.toThrow('Balance update failed');
+
+    expect(await Transaction.countDocuments({})).toBe(0);
+    expect((await Account.findById(accountId))!.balance).toBe(1000);
+  });
+
+  it('should remove a transaction only once when it is deleted concurrently', async () => {
+    const transaction = newExpense(200);
+    await runInTransaction(session => transaction.save({ session }));
+    const id = (transaction._id as any).toString();
+
+    await Promise.all([
+      runInTransaction(session => performSoftDelete(Transaction, id, 'device-a', {}, session)),
+      runInTransaction(session => performSoftDelete(Transaction, id, 'device-b', {}, session))
+    ]);
+
+    expect((await Account.findById(accountId))!.balance).toBe(1000);
+    expect((await Category.findById(categoryId))!.transactionCount).toBe(0);
+  });
+
+  it('should end concurrent edits of a transaction with the balance of the last one', async () => {
+    const transaction = newExpense(100);
+    await runInTransaction(session => transaction.save({ session }));
+
+    await Promise.all([50, 70].map(amount =>
+      runInTransaction(session => Transaction.findOneAndUpdate({ _id: transaction._id }, { amount }, { new: true, session }))
+    ));
+
+    const stored = await Transaction.findById(transaction._id);
+    expect((await Account.findById(accountId))!.balance).toBe(1000 - stored!.amount);
+    expect((await Category.findById(categoryId))!.directBalance).toBe(stored!.amount);
+  });
+});
@@ -1,15 +1,18 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
 interface IAccount extends Document {
+    householdId: mongoose.Types.ObjectId;
     name: string;
     description?: string;
     balance?: number;
+    currency?: string; // ISO 4217 code the balance is kept in
     type?: string;
     icon?: string;
     color?: string;
     includeInTotal?: boolean;
     creditLimit?: number;
     order?: number;
+    externalAccountId?: string; // Account number the bank uses in OFX statements
     updatedAt: number;
     isDeleted?: boolean;
     syncVersion?: number;
@@ -17,21 +20,29 @@ interface IAccount extends Document {
 }
 
 const accountSchema: Schema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
     name: { type: String, required: true },
     description: { type: String, default: '' },
     balance: { type: Number, default: 0 },
+    currency: { type: String, default: 'PHP', uppercase: true, trim: true, match: /^[A-Z]{3}$/ },
     type: { type: String, enum: ['debit', 'credit', 'wallet'], default: 'debit' },
     icon: { type: String, default: 'bank' },
     color: { type: String, default: '#007AFF' },
     includeInTotal: { type: Boolean, default: true },
     creditLimit: { type: Number },
     order: { type: Number, default: 0 },
+    externalAccountId: { type: String, trim: true },
     updatedAt: { type: Number, default: Date.now },
     isDeleted: { type: Boolean, default: false },
     syncVersion: { type: Number, default: 1 },
     lastModifiedBy: { type: String, default: 'system' }
 }, { timestamps: true });
 
+// Household scoping and sync lookups
+accountSchema.index({ householdId: 1, updatedAt: 1 });
+accountSchema.index({ householdId: 1, order: 1 });
+accountSchema.index({ householdId: 1, externalAccountId: 1 }, { sparse: true });
+
 const Account = mongoose.model<IAccount>('Account', accountSchema);
 
 export default Account;
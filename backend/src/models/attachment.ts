@@ -0,0 +1,28 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// File (receipt photo, invoice PDF) attached to a transaction; the content lives in attachment storage under key
+interface IAttachment extends Document {
+    householdId: mongoose.Types.ObjectId;
+    transaction: mongoose.Types.ObjectId;
+    filename: string;
+    contentType: string;
+    size: number;
+    key: string;
+    lastModifiedBy?: string;
+}
+
+const attachmentSchema: Schema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
+    transaction: { type: mongoose.Schema.Types.ObjectId, ref: 'Transaction', required: true },
+    filename: { type: String, required: true, trim: true },
+    contentType: { type: String, required: true },
+    size: { type: Number, required: true },
+    key: { type: String, required: true },
+    lastModifiedBy: { type: String, default: 'system' }
+}, { timestamps: true });
+
+attachmentSchema.index({ householdId: 1, transaction: 1, createdAt: 1 });
+
+const Attachment = mongoose.model<IAttachment>('Attachment', attachmentSchema);
+
+export default Attachment;
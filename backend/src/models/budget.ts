@@ -0,0 +1,41 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface IBudget extends Document {
+    householdId: mongoose.Types.ObjectId;
+    category: mongoose.Types.ObjectId;
+    includeSubcategories: boolean; // Count spending in the whole category subtree
+    amount: number;
+    period: 'monthly' | 'yearly';
+    startDate: Date; // First day of the first period this budget applies to
+    endDate?: Date | null; // Last day the budget applies to (open-ended when null)
+    notes?: string;
+    updatedAt: number;
+    isDeleted?: boolean;
+    deletedAt?: Date;
+    syncVersion?: number;
+    lastModifiedBy?: string;
+}
+
+const budgetSchema: Schema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
+    category: { type: mongoose.Schema.Types.ObjectId, ref: 'Category', required: true },
+    includeSubcategories: { type: Boolean, default: true },
+    amount: { type: Number, required: true, min: 0 },
+    period: { type: String, enum: ['monthly', 'yearly'], default: 'monthly' },
+    startDate: { type: Date, required: true },
+    endDate: { type: Date, default: null },
+    notes: { type: String, default: '' },
+    updatedAt: { type: Number, default: Date.now },
+    isDeleted: { type: Boolean, default: false, index: true },
+    deletedAt: { type: Date, required: false },
+    syncVersion: { type: Number, default: 1 },
+    lastModifiedBy: { type: String, default: 'system' }
+}, { timestamps: true });
+
+budgetSchema.index({ category: 1, isDeleted: 1, startDate: 1 });
+budgetSchema.index({ updatedAt: 1 });
+budgetSchema.index({ householdId: 1, updatedAt: 1 });
+
+const Budget = mongoose.model<IBudget>('Budget', budgetSchema);
+
+export default Budget;
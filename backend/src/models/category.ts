@@ -4,6 +4,7 @@ import mongoose, { Document, Schema } from 'mongoose';
 let Transaction: any;
 
 interface ICategory extends Document {
+    householdId: mongoose.Types.ObjectId;
     name: string;
     description: string;
     icon: string;
@@ -15,12 +16,15 @@ interface ICategory extends Document {
     directBalance: number; // Amount from direct transactions (excluding subcategories)
     transactionCount: number; // Number of transactions in this category
     directTransactionCount: number; // Number of direct transactions (excluding subcategories)
+    isDeleted?: boolean;
+    deletedAt?: Date;
     updatedAt?: number;
     syncVersion?: number;
     lastModifiedBy?: string;
 }
 
 const categorySchema: Schema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
     name: { type: String, required: true },
     description: { type: String, required: false },
     icon: { type: String, required: false },
@@ -32,11 +36,17 @@ const categorySchema: Schema = new mongoose.Schema({
     directBalance: { type: Number, default: 0 }, // Direct transactions only
     transactionCount: { type: Number, default: 0 }, // Total transaction count including subcategories
     directTransactionCount: { type: Number, default: 0 }, // Direct transaction count only
+    isDeleted: { type: Boolean, default: false },
+    deletedAt: { type: Date, required: false },
     updatedAt: { type: Number, default: Date.now },
     syncVersion: { type: Number, default: 1 },
     lastModifiedBy: { type: String, default: 'system' }
 }, { timestamps: true });
 
+// Household scoping and sync lookups
+categorySchema.index({ householdId: 1, updatedAt: 1 });
+categorySchema.index({ householdId: 1, parent: 1 });
+
 // Virtual for getting subcategories
 categorySchema.virtual('subcategories', {
     ref: 'Category',
@@ -46,16 +56,17 @@ categorySchema.virtual('subcategories', {
 
 // Method to get all subcategories (direct children)
 categorySchema.methods.getSubcategories = async function() {
-    return await mongoose.model('Category').find({ parent: this._id });
+    return await mongoose.model('Category').find({ parent: this._id, householdId: this.householdId });
 };
 
-// Static method to get root categories (categories without parents)
-categorySchema.statics.getRootCategories = async function() {
-    return await this.find({ parent: null });
+// Static method to get a household's root categories (categories without parents)
+categorySchema.statics.getRootCategories = async function(householdId: string) {
+    return await this.find({ parent: null, householdId });
 };
 
 // Helper function to get all descendant category IDs (including self)
-async function getAllDescendantIds(categoryId: string): Promise<string[]> {
+// Only the household's live categories are walked, so deleted branches and other households' trees stay out
+async function getAllDescendantIds(householdId: string, categoryId: string): Promise<string[]> {
     try {
         if (!Transaction) {
             Transaction = mongoose.model('Transaction');
@@ -66,7 +77,7 @@ async function getAllDescendantIds(categoryId: string): Promise<string[]> {
         
         while (queue.length > 0) {
             const currentId = queue.shift()!;
-            const children = await Category.find({ parent: currentId });
+            const children = await Category.find({ parent: currentId, householdId, isDeleted: { $ne: true } });
             
             for (const child of children) {
                 const childId = (child as any)._id.toString();
@@ -151,8 +162,11 @@ async function updateCategoryBalanceFull(categoryId: string) {
             Transaction = mongoose.model('Transaction');
         }
         
+        const category = await Category.findById(categoryId);
+        if (!category) return;
+
         // Get all descendant category IDs
-        const descendantIds = await getAllDescendantIds(categoryId);
+        const descendantIds = await getAllDescendantIds(category.householdId.toString(), categoryId);
         const descendantObjectIds = descendantIds.map(id => new mongoose.Types.ObjectId(id));
         
         // Calculate direct transactions for this category only
@@ -212,4 +226,5 @@ async function updateCategoryBalanceFull(categoryId: string) {
 
 const Category = mongoose.model<ICategory>('Category', categorySchema);
 
-export default Category; 
\ No newline at end of file
+export default Category;
+export { getAllDescendantIds };
@@ -0,0 +1,38 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface IExchangeRate extends Document {
+    householdId: mongoose.Types.ObjectId;
+    fromCurrency: string;
+    toCurrency: string;
+    rate: number; // 1 fromCurrency = rate toCurrency
+    date: Date; // Day the rate takes effect
+    source: 'manual' | 'import';
+    updatedAt: number;
+    isDeleted?: boolean;
+    deletedAt?: Date;
+    syncVersion?: number;
+    lastModifiedBy?: string;
+}
+
+const exchangeRateSchema: Schema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
+    fromCurrency: { type: String, required: true, uppercase: true, trim: true, match: /^[A-Z]{3}$/ },
+    toCurrency: { type: String, required: true, uppercase: true, trim: true, match: /^[A-Z]{3}$/ },
+    rate: { type: Number, required: true, min: 0 },
+    date: { type: Date, required: true },
+    source: { type: String, enum: ['manual', 'import'], default: 'manual' },
+    updatedAt: { type: Number, default: Date.now },
+    isDeleted: { type: Boolean, default: false },
+    deletedAt: { type: Date, required: false },
+    syncVersion: { type: Number, default: 1 },
+    lastModifiedBy: { type: String, default: 'system' }
+}, { timestamps: true });
+
+// Rate lookups take the latest rate for a pair on or before a date
+exchangeRateSchema.index({ householdId: 1, fromCurrency: 1, toCurrency: 1, date: -1 });
+exchangeRateSchema.index({ householdId: 1, updatedAt: 1 });
+
+const ExchangeRate = mongoose.model<IExchangeRate>('ExchangeRate', exchangeRateSchema);
+
+export default ExchangeRate;
+export type { IExchangeRate };
@@ -0,0 +1,52 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface IHouseholdMember {
+    user: mongoose.Types.ObjectId;
+    role: 'owner' | 'member';
+    joinedAt: Date;
+}
+
+interface IHouseholdInvitation {
+    code: string;
+    createdBy: mongoose.Types.ObjectId;
+    expiresAt: Date;
+    usedBy?: mongoose.Types.ObjectId | null;
+    usedAt?: Date | null;
+}
+
+interface IHousehold extends Document {
+    name: string;
+    baseCurrency: string; // Currency totals across accounts are reported in
+    members: IHouseholdMember[];
+    invitations: IHouseholdInvitation[];
+}
+
+const householdMemberSchema = new mongoose.Schema({
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    role: { type: String, enum: ['owner', 'member'], default: 'member' },
+    joinedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+const householdInvitationSchema = new mongoose.Schema({
+    code: { type: String, required: true },
+    createdBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    expiresAt: { type: Date, required: true },
+    usedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+    usedAt: { type: Date, default: null }
+}, { _id: false });
+
+const householdSchema: Schema = new mongoose.Schema({
+    name: { type: String, required: true, trim: true },
+    baseCurrency: { type: String, default: 'PHP', uppercase: true, trim: true, match: /^[A-Z]{3}$/ },
+    members: { type: [householdMemberSchema], default: [] },
+    invitations: { type: [householdInvitationSchema], default: [] }
+}, { timestamps: true });
+
+// Joining looks up the household by invitation code
+householdSchema.index({ 'invitations.code': 1 });
+householdSchema.index({ 'members.user': 1 });
+
+const Household = mongoose.model<IHousehold>('Household', householdSchema);
+
+export default Household;
+export type { IHousehold, IHouseholdMember, IHouseholdInvitation };
@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import type { AmountConvention, DateFormat } from '../utils/csv';
+
+// Column mapping last used to import a CSV statement into an account
+interface IImportMapping extends Document {
+    householdId: mongoose.Types.ObjectId;
+    account: mongoose.Types.ObjectId;
+    hasHeader: boolean;
+    delimiter?: string;
+    dateColumn: number;
+    dateFormat: DateFormat;
+    descriptionColumn: number;
+    amountConvention: AmountConvention;
+    amountColumn?: number;
+    debitColumn?: number;
+    creditColumn?: number;
+    decimalSeparator: '.' | ',';
+    categoryColumn?: number;
+    notesColumn?: number;
+    updatedAt: number;
+    lastModifiedBy?: string;
+}
+
+const importMappingSchema: Schema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
+    account: { type: mongoose.Schema.Types.ObjectId, ref: 'Account', required: true },
+    hasHeader: { type: Boolean, default: true },
+    delimiter: { type: String, required: false },
+    dateColumn: { type: Number, required: true, min: 0 },
+    dateFormat: {
+        type: String,
+        enum: ['YYYY-MM-DD', 'YYYY/MM/DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'DD.MM.YYYY', 'DD-MM-YYYY'],
+        required: true
+    },
+    descriptionColumn: { type: Number, required: true, min: 0 },
+    amountConvention: { type: String, enum: ['signed', 'inverted', 'split'], required: true },
+    amountColumn: { type: Number, required: false, min: 0 },
+    debitColumn: { type: Number, required: false, min: 0 },
+    creditColumn: { type: Number, required: false, min: 0 },
+    decimalSeparator: { type: String, enum: ['.', ','], default: '.' },
+    categoryColumn: { type: Number, required: false, min: 0 },
+    notesColumn: { type: Number, required: false, min: 0 },
+    updatedAt: { type: Number, default: Date.now },
+    lastModifiedBy: { type: String, default: 'system' }
+}, { timestamps: true });
+
+// One saved mapping per account
+importMappingSchema.index({ householdId: 1, account: 1 }, { unique: true });
+
+const ImportMapping = mongoose.model<IImportMapping>('ImportMapping', importMappingSchema);
+
+export default ImportMapping;
+export type { IImportMapping };
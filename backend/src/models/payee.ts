@@ -0,0 +1,38 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Merchant or person money goes to or comes from; aliases are the other names it shows up under
+// in statements and typed descriptions ("GRAB *RIDE 1234" and "Grab ride" are both Grab)
+interface IPayee extends Document {
+    householdId: mongoose.Types.ObjectId;
+    name: string;
+    aliases: string[];
+    defaultCategory?: mongoose.Types.ObjectId | null; // Filed under this category when none is given
+    updatedAt: number;
+    isDeleted?: boolean;
+    deletedAt?: Date;
+    syncVersion?: number;
+    lastModifiedBy?: string;
+}
+
+const payeeSchema: Schema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
+    name: { type: String, required: true, trim: true },
+    aliases: { type: [String], default: [] },
+    defaultCategory: { type: mongoose.Schema.Types.ObjectId, ref: 'Category', default: null },
+    updatedAt: { type: Number, default: Date.now },
+    isDeleted: { type: Boolean, default: false, index: true },
+    deletedAt: { type: Date, required: false },
+    syncVersion: { type: Number, default: 1 },
+    lastModifiedBy: { type: String, default: 'system' }
+}, { timestamps: true });
+
+// Payee names are unique within a household, ignoring case; deleted payees free their name
+payeeSchema.index(
+    { householdId: 1, name: 1 },
+    { unique: true, collation: { locale: 'en', strength: 2 }, partialFilterExpression: { isDeleted: false } }
+);
+payeeSchema.index({ householdId: 1, updatedAt: 1 });
+
+const Payee = mongoose.model<IPayee>('Payee', payeeSchema);
+
+export default Payee;
@@ -0,0 +1,92 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+interface IRecurrenceException {
+    date: Date; // The occurrence date this exception applies to
+    action: 'skip' | 'modify';
+    overrides?: {
+        amount?: number;
+        toAmount?: number;
+        description?: string;
+        notes?: string;
+        category?: mongoose.Types.ObjectId;
+        fromAccount?: mongoose.Types.ObjectId;
+        toAccount?: mongoose.Types.ObjectId;
+    };
+}
+
+interface IRecurringTransaction extends Document {
+    householdId: mongoose.Types.ObjectId;
+    // Template for the materialized transactions
+    fromAccount: mongoose.Types.ObjectId;
+    toAccount?: mongoose.Types.ObjectId;
+    category?: mongoose.Types.ObjectId;
+    amount: number;
+    toAmount?: number | null; // Destination amount of a transfer between currencies
+    description?: string;
+    notes?: string;
+    type?: 'income' | 'expense' | 'transfer';
+    // RRULE-style schedule (FREQ, INTERVAL, DTSTART, UNTIL)
+    frequency: RecurrenceFrequency;
+    interval: number;
+    startDate: Date;
+    endDate?: Date | null;
+    nextRunDate?: Date | null; // Next occurrence not yet materialized (null when finished)
+    lastRunDate?: Date | null;
+    isActive: boolean;
+    exceptions: IRecurrenceException[];
+    updatedAt: number;
+    isDeleted?: boolean;
+    deletedAt?: Date;
+    syncVersion?: number;
+    lastModifiedBy?: string;
+}
+
+const recurrenceExceptionSchema = new mongoose.Schema({
+    date: { type: Date, required: true },
+    action: { type: String, enum: ['skip', 'modify'], required: true },
+    overrides: {
+        amount: { type: Number },
+        toAmount: { type: Number },
+        description: { type: String },
+        notes: { type: String },
+        category: { type: mongoose.Schema.Types.ObjectId, ref: 'Category' },
+        fromAccount: { type: mongoose.Schema.Types.ObjectId, ref: 'Account' },
+        toAccount: { type: mongoose.Schema.Types.ObjectId, ref: 'Account' }
+    }
+}, { _id: false });
+
+const recurringTransactionSchema: Schema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
+    fromAccount: { type: mongoose.Schema.Types.ObjectId, ref: 'Account', required: true },
+    toAccount: { type: mongoose.Schema.Types.ObjectId, ref: 'Account', required: false },
+    category: { type: mongoose.Schema.Types.ObjectId, ref: 'Category', required: false },
+    amount: { type: Number, required: true, min: 0 },
+    toAmount: { type: Number, default: null, min: 0 },
+    description: { type: String, required: false },
+    notes: { type: String, required: false },
+    type: { type: String, enum: ['income', 'expense', 'transfer'], required: false },
+    frequency: { type: String, enum: ['daily', 'weekly', 'monthly', 'yearly'], required: true },
+    interval: { type: Number, default: 1, min: 1 },
+    startDate: { type: Date, required: true },
+    endDate: { type: Date, default: null },
+    nextRunDate: { type: Date, default: null },
+    lastRunDate: { type: Date, default: null },
+    isActive: { type: Boolean, default: true },
+    exceptions: { type: [recurrenceExceptionSchema], default: [] },
+    updatedAt: { type: Number, default: Date.now },
+    isDeleted: { type: Boolean, default: false, index: true },
+    deletedAt: { type: Date, required: false },
+    syncVersion: { type: Number, default: 1 },
+    lastModifiedBy: { type: String, default: 'system' }
+}, { timestamps: true });
+
+// The materializer looks up active schedules that are due
+recurringTransactionSchema.index({ isActive: 1, isDeleted: 1, nextRunDate: 1 });
+recurringTransactionSchema.index({ householdId: 1, updatedAt: 1 });
+
+const RecurringTransaction = mongoose.model<IRecurringTransaction>('RecurringTransaction', recurringTransactionSchema);
+
+export default RecurringTransaction;
+export type { IRecurringTransaction, IRecurrenceException, RecurrenceFrequency };
@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Auto-categorization rule: transactions meeting every condition get the actions applied
+// Rules run in priority order (lowest first); the first rule to set a field wins
+interface IRule extends Document {
+    householdId: mongoose.Types.ObjectId;
+    name: string;
+    priority: number;
+    enabled: boolean;
+    conditions: {
+        descriptionContains?: string | null; // Case-insensitive, also against the normalized description
+        amountMin?: number | null;
+        amountMax?: number | null;
+        account?: mongoose.Types.ObjectId | null; // Either side of the transaction
+        payee?: mongoose.Types.ObjectId | null;
+    };
+    actions: {
+        category?: mongoose.Types.ObjectId | null;
+        tags: mongoose.Types.ObjectId[];
+        type?: 'income' | 'expense' | null;
+        notes?: string | null;
+    };
+    updatedAt: number;
+    isDeleted?: boolean;
+    deletedAt?: Date;
+    syncVersion?: number;
+    lastModifiedBy?: string;
+}
+
+const ruleSchema: Schema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
+    name: { type: String, required: true, trim: true },
+    priority: { type: Number, default: 0 },
+    enabled: { type: Boolean, default: true },
+    conditions: {
+        descriptionContains: { type: String, default: null },
+        amountMin: { type: Number, default: null },
+        amountMax: { type: Number, default: null },
+        account: { type: mongoose.Schema.Types.ObjectId, ref: 'Account', default: null },
+        payee: { type: mongoose.Schema.Types.ObjectId, ref: 'Payee', default: null }
+    },
+    actions: {
+        category: { type: mongoose.Schema.Types.ObjectId, ref: 'Category', default: null },
+        tags: { type: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Tag' }], default: [] },
+        type: { type: String, enum: ['income', 'expense', null], default: null },
+        notes: { type: String, default: null }
+    },
+    updatedAt: { type: Number, default: Date.now },
+    isDeleted: { type: Boolean, default: false, index: true },
+    deletedAt: { type: Date, required: false },
+    syncVersion: { type: Number, default: 1 },
+    lastModifiedBy: { type: String, default: 'system' }
+}, { timestamps: true });
+
+ruleSchema.index({ householdId: 1, priority: 1 });
+
+const Rule = mongoose.model<IRule>('Rule', ruleSchema);
+
+export default Rule;
@@ -0,0 +1,35 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Cross-cutting label on transactions ("vacation-2026", "reimbursable"), independent of categories
+interface ITag extends Document {
+    householdId: mongoose.Types.ObjectId;
+    name: string;
+    color?: string;
+    updatedAt: number;
+    isDeleted?: boolean;
+    deletedAt?: Date;
+    syncVersion?: number;
+    lastModifiedBy?: string;
+}
+
+const tagSchema: Schema = new mongoose.Schema({
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', required: true },
+    name: { type: String, required: true, trim: true },
+    color: { type: String, required: false },
+    updatedAt: { type: Number, default: Date.now },
+    isDeleted: { type: Boolean, default: false, index: true },
+    deletedAt: { type: Date, required: false },
+    syncVersion: { type: Number, default: 1 },
+    lastModifiedBy: { type: String, default: 'system' }
+}, { timestamps: true });
+
+// Tag names are unique within a household, ignoring case; deleted tags free their name
+tagSchema.index(
+    { householdId: 1, name: 1 },
+    { unique: true, collation: { locale: 'en', strength: 2 }, partialFilterExpression: { isDeleted: false } }
+);
+tagSchema.index({ householdId: 1, updatedAt: 1 });
+
+const Tag = mongoose.model<ITag>('Tag', tagSchema);
+
+export default Tag;
@@ -1,16 +1,33 @@
-import mongoose, { Document, Schema, Query, Model } from "mongoose";
+import mongoose, { ClientSession, Document, Schema, Query, Model } from "mongoose";
 import Account from "./account";
 import Category from "./category";
+import { splitsMatchTotal } from "../utils/transactionSplits";
+import { recalculateHouseholdBalances } from "../utils/balances";
+
+interface ITransactionSplit {
+    category: string;
+    amount: number;
+    notes?: string;
+}
 
 interface ITransaction extends Document {
+    householdId: mongoose.Types.ObjectId;
     transactionDate: Date;
     fromAccount: string;
     toAccount?: string;
     category?: string;
+    splits?: ITransactionSplit[]; // Lines crediting parts of the amount to their own categories
+    tags?: string[];
+    payee?: string | null;
     amount: number;
+    toAmount?: number | null; // Amount credited to toAccount when it holds another currency
     description?: string;
     notes?: string;
     type?: 'income' | 'expense' | 'transfer',
+    recurringTransaction?: string;
+    recurrenceDate?: Date;
+    externalId?: string; // Bank reference (OFX FITID, cheque number) of an imported statement line
+    attachmentCount?: number;
     isDeleted?: boolean;
     deletedAt?: Date;
     updatedAt?: number;
@@ -27,7 +44,30 @@ interface ITransactionModel extends Model<ITransaction> {
     findNotDeleted(filter?: any): ITransactionQuery;
 }
 
+// One line of a split transaction
+const transactionSplitSchema = new mongoose.Schema({
+    category: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Category',
+        required: true
+    },
+    amount: {
+        type: Number,
+        required: true,
+        min: 0
+    },
+    notes: {
+        type: String,
+        required: false
+    }
+}, { _id: false });
+
 const transactionSchema: Schema = new mongoose.Schema({
+    householdId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Household',
+        required: true
+    },
     transactionDate: {
         type: Date,
         required: true
@@ -47,14 +87,35 @@ const transactionSchema: Schema = new mongoose.Schema({
         ref: 'Category',
         required: false
     },
+    // When present, the split lines replace category and must add up to amount
+    splits: {
+        type: [transactionSplitSchema],
+        default: undefined
+    },
     amount: {
         type: Number,
         required: true
     },
+    // Destination amount of a transfer between accounts with different currencies
+    toAmount: {
+        type: Number,
+        required: false,
+        default: null
+    },
     description: {
         type: String,
         required: false
     },
+    tags: {
+        type: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Tag' }],
+        default: []
+    },
+    payee: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Payee',
+        required: false,
+        default: null
+    },
     notes: {
         type: String,
         required: false
@@ -64,6 +125,26 @@ const transactionSchema: Schema = new mongoose.Schema({
         enum: ['income', 'expense', 'transfer'],
         required: false
     },
+    // Set when the transaction was materialized from a recurring schedule
+    recurringTransaction: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'RecurringTransaction',
+        required: false
+    },
+    recurrenceDate: {
+        type: Date,
+        required: false
+    },
+    // Set when the transaction was imported from a statement that identifies its lines
+    externalId: {
+        type: String,
+        required: false
+    },
+    // Number of attached files, kept by the attachment endpoints so lists can show it without a lookup
+    attachmentCount: {
+        type: Number,
+        default: 0
+    },
     isDeleted: {
         type: Boolean,
         default: false,
@@ -96,7 +177,25 @@ transactionSchema.index({ category: 1 });
 transactionSchema.index({ fromAccount: 1, isDeleted: 1, transactionDate: 1 });
 transactionSchema.index({ toAccount: 1, isDeleted: 1, transactionDate: 1 });
 transactionSchema.index({ category: 1, isDeleted: 1, transactionDate: 1 });
+transactionSchema.index({ 'splits.category': 1, isDeleted: 1, transactionDate: 1 });
 transactionSchema.index({ isDeleted: 1, transactionDate: 1 });
+transactionSchema.index({ recurringTransaction: 1, recurrenceDate: 1 });
+transactionSchema.index({ householdId: 1, fromAccount: 1, externalId: 1 }, { sparse: true });
+// Household scoping and sync lookups
+transactionSchema.index({ householdId: 1, updatedAt: 1 });
+transactionSchema.index({ householdId: 1, isDeleted: 1, transactionDate: 1 });
+transactionSchema.index({ householdId: 1, tags: 1, transactionDate: 1 });
+transactionSchema.index({ householdId: 1, payee: 1, transactionDate: 1 });
+// Free-text search over what people type and what statements say
+transactionSchema.index({ description: 'text', notes: 'text' });
+
+// Split lines must add up to the transaction amount
+transactionSchema.pre('validate', function(next) {
+    if (!splitsMatchTotal(this.splits as ITransactionSplit[], this.amount as number)) {
+        this.invalidate('splits', 'Split amounts must add up to the transaction amount');
+    }
+    next();
+});
 
 // Add instance method for soft delete
 transactionSchema.methods.softDelete = function() {
@@ -111,275 +210,174 @@ transactionSchema.statics.findNotDeleted = function(filter = {}) {
     return this.find({ ...filter, isDeleted: { $ne: true } });
 };
 
+// Balance helpers take the session of the write they belong to, so the transaction write and its
+// balance effects commit or abort together. Errors are left to the hooks.
+
 // Helper function to calculate account balance incrementally
-async function updateAccountBalanceIncremental(accountId: string, amountDelta: number, operation: 'add' | 'subtract') {
+async function updateAccountBalanceIncremental(accountId: string, amountDelta: number, operation: 'add' | 'subtract', session?: ClientSession | null) {
     if (!accountId || amountDelta === 0) return;
     
-    try {
-        const updateAmount = operation === 'add' ? amountDelta : -amountDelta;
-        
-        await Account.findByIdAndUpdate(
-            accountId,
-            { 
-                $inc: { balance: updateAmount },
-                updatedAt: Date.now()
-            },
-            { new: true }
-        );
-    } catch (error) {
-        console.error('Error updating account balance incrementally:', error);
-        // Fallback to full recalculation if incremental update fails
-        await updateAccountBalanceFull(accountId);
-    }
+    const updateAmount = operation === 'add' ? amountDelta : -amountDelta;
+    
+    await Account.findByIdAndUpdate(
+        accountId,
+        { 
+            $inc: { balance: updateAmount },
+            updatedAt: Date.now()
+        },
+        { new: true, session }
+    );
 }
 
 // Helper function to update category balance incrementally
-async function updateCategoryBalanceIncremental(categoryId: string, amountDelta: number, operation: 'add' | 'subtract') {
+async function updateCategoryBalanceIncremental(categoryId: string, amountDelta: number, operation: 'add' | 'subtract', session?: ClientSession | null) {
     if (!categoryId) return;
     
-    try {
-        const updateAmount = operation === 'add' ? amountDelta : -amountDelta;
-        const updateCount = operation === 'add' ? 1 : -1;
-        
-        // Update direct balance and count for the category
-        await Category.findByIdAndUpdate(
-            categoryId,
-            { 
-                $inc: { 
-                    directBalance: updateAmount,
-                    directTransactionCount: updateCount,
-                    balance: updateAmount, // Also update total balance
-                    transactionCount: updateCount // Also update total count
-                },
-                updatedAt: Date.now()
+    const updateAmount = operation === 'add' ? amountDelta : -amountDelta;
+    const updateCount = operation === 'add' ? 1 : -1;
+    
+    // Update direct balance and count for the category
+    const category = await Category.findByIdAndUpdate(
+        categoryId,
+        { 
+            $inc: { 
+                directBalance: updateAmount,
+                directTransactionCount: updateCount,
+                balance: updateAmount, // Also update total balance
+                transactionCount: updateCount // Also update total count
             },
-            { new: true }
-        );
-        
-        // Update parent categories' total balance and count (but not direct)
-        const category = await Category.findById(categoryId);
-        if (category && category.parent) {
-            await updateParentCategoryBalances(category.parent.toString(), updateAmount, updateCount);
-        }
-    } catch (error) {
-        console.error('Error updating category balance incrementally:', error);
-        // Note: We could add fallback to full recalculation here if needed
+            updatedAt: Date.now()
+        },
+        { new: true, session }
+    );
+    
+    // Update parent categories' total balance and count (but not direct)
+    if (category && category.parent) {
+        await updateParentCategoryBalances(category.parent.toString(), updateAmount, updateCount, session);
     }
 }
 
 // Helper function to update parent category balances recursively
-async function updateParentCategoryBalances(parentId: string, amountDelta: number, countDelta: number) {
-    try {
-        await Category.findByIdAndUpdate(
-            parentId,
-            { 
-                $inc: { 
-                    balance: amountDelta, // Update total balance (includes subcategories)
-                    transactionCount: countDelta // Update total count (includes subcategories)
-                },
-                updatedAt: Date.now()
+async function updateParentCategoryBalances(parentId: string, amountDelta: number, countDelta: number, session?: ClientSession | null) {
+    const parentCategory = await Category.findByIdAndUpdate(
+        parentId,
+        { 
+            $inc: { 
+                balance: amountDelta, // Update total balance (includes subcategories)
+                transactionCount: countDelta // Update total count (includes subcategories)
             },
-            { new: true }
-        );
-        
-        // Continue up the hierarchy
-        const parentCategory = await Category.findById(parentId);
-        if (parentCategory && parentCategory.parent) {
-            await updateParentCategoryBalances(parentCategory.parent.toString(), amountDelta, countDelta);
-        }
-    } catch (error) {
-        console.error('Error updating parent category balances:', error);
-    }
-}
-async function updateAccountBalanceFull(accountId: string) {
-    if (!accountId) return;
+            updatedAt: Date.now()
+        },
+        { new: true, session }
+    );
     
-    try {
-        // Single aggregation query that calculates the balance in one go
-        const balanceResult = await Transaction.aggregate([
-            {
-                $match: {
-                    $or: [
-                        { fromAccount: new mongoose.Types.ObjectId(accountId) },
-                        { toAccount: new mongoose.Types.ObjectId(accountId) }
-                    ],
-                    isDeleted: { $ne: true }
-                }
-            },
-            {
-                $group: {
-                    _id: null,
-                    total: {
-                        $sum: {
-                            $cond: [
-                                {
-                                    $and: [
-                                        { $eq: ['$fromAccount', new mongoose.Types.ObjectId(accountId)] },
-                                        { $eq: ['$type', 'income'] }
-                                    ]
-                                },
-                                '$amount', // Add income from this account
-                                {
-                                    $cond: [
-                                        {
-                                            $and: [
-                                                { $eq: ['$fromAccount', new mongoose.Types.ObjectId(accountId)] },
-                                                { $in: ['$type', ['expense', 'transfer']] }
-                                            ]
-                                        },
-                                        { $multiply: ['$amount', -1] }, // Subtract expenses and transfers out
-                                        {
-                                            $cond: [
-                                                {
-                                                    $and: [
-                                                        { $eq: ['$toAccount', new mongoose.Types.ObjectId(accountId)] },
-                                                        { $eq: ['$type', 'transfer'] }
-                                                    ]
-                                                },
-                                                '$amount', // Add transfers in
-                                                0
-                                            ]
-                                        }
-                                    ]
-                                }
-                            ]
-                        }
-                    }
-                }
-            }
-        ]);
-
-        const balance = balanceResult[0]?.total || 0;
-
-        await Account.findByIdAndUpdate(
-            accountId,
-            { 
-                balance: balance,
-                updatedAt: Date.now()
-            },
-            { new: true }
-        );
-    } catch (error) {
-        console.error('Error updating account balance:', error);
+    // Continue up the hierarchy
+    if (parentCategory && parentCategory.parent) {
+        await updateParentCategoryBalances(parentCategory.parent.toString(), amountDelta, countDelta, session);
     }
 }
-
 // Helper function to apply transaction effects to account balances
-async function applyTransactionToBalance(transaction: ITransaction, operation: 'add' | 'remove') {
-    const { fromAccount, toAccount, category, amount, type } = transaction;
+async function applyTransactionToBalance(transaction: ITransaction, operation: 'add' | 'remove', session?: ClientSession | null) {
+    const { fromAccount, toAccount, category, splits, amount, toAmount, type } = transaction;
     
     // Update account balances
     if (type === 'income') {
         // Income adds to fromAccount
-        await updateAccountBalanceIncremental(fromAccount.toString(), amount, operation === 'add' ? 'add' : 'subtract');
+        await updateAccountBalanceIncremental(fromAccount.toString(), amount, operation === 'add' ? 'add' : 'subtract', session);
     } else if (type === 'expense') {
         // Expense subtracts from fromAccount
-        await updateAccountBalanceIncremental(fromAccount.toString(), amount, operation === 'add' ? 'subtract' : 'add');
+        await updateAccountBalanceIncremental(fromAccount.toString(), amount, operation === 'add' ? 'subtract' : 'add', session);
     } else if (type === 'transfer' && toAccount) {
-        // Transfer: subtract from fromAccount, add to toAccount
-        await Promise.all([
-            updateAccountBalanceIncremental(fromAccount.toString(), amount, operation === 'add' ? 'subtract' : 'add'),
-            updateAccountBalanceIncremental(toAccount.toString(), amount, operation === 'add' ? 'add' : 'subtract')
-        ]);
+        // Transfer: subtract from fromAccount, add to toAccount (in its own currency when they differ)
+        // One after the other: operations in a MongoDB transaction must not run in parallel
+        const creditedAmount = toAmount ?? amount;
+        await updateAccountBalanceIncremental(fromAccount.toString(), amount, operation === 'add' ? 'subtract' : 'add', session);
+        await updateAccountBalanceIncremental(toAccount.toString(), creditedAmount, operation === 'add' ? 'add' : 'subtract', session);
     }
     
-    // Update category balance if transaction has a category
-    if (category) {
-        await updateCategoryBalanceIncremental(category.toString(), amount, operation === 'add' ? 'add' : 'subtract');
+    // Update category balances: each split line credits its own category
+    if (splits && splits.length > 0) {
+        for (const split of splits) {
+            await updateCategoryBalanceIncremental(split.category.toString(), split.amount, operation === 'add' ? 'add' : 'subtract', session);
+        }
+    } else if (category) {
+        await updateCategoryBalanceIncremental(category.toString(), amount, operation === 'add' ? 'add' : 'subtract', session);
     }
 }
 
+// Move balances from the previous state of a transaction to its new one (either may be missing or deleted)
+async function moveTransactionBalances(previous: ITransaction | null, current: ITransaction | null, session?: ClientSession | null) {
+    if (previous && !previous.isDeleted) {
+        await applyTransactionToBalance(previous, 'remove', session);
+    }
+    if (current && !current.isDeleted) {
+        await applyTransactionToBalance(current, 'add', session);
+    }
+}
+
+// Inside a MongoDB transaction a balance error must abort the write; without one the account and
+// category balances of the affected households are rebuilt from their transactions instead
+async function handleBalanceError(error: unknown, session: ClientSession | null | undefined, transactions: Array<ITransaction | null>) {
+    if (session) throw error;
+
+    console.error('Error updating balances for a transaction write:', error);
+    const households = new Set<string>();
+    transactions.forEach(transaction => {
+        if (transaction?.householdId) households.add(transaction.householdId.toString());
+    });
+
+    try {
+        await Promise.all(Array.from(households).map(householdId => recalculateHouseholdBalances(householdId)));
+    } catch (recalculationError) {
+        console.error('Error recalculating household balances:', recalculationError);
+    }
+}
+
+// Capture the stored state of the transaction before it is saved; read in the same session so a
+// concurrent edit of the same transaction ends in a write conflict instead of a double apply
+transactionSchema.pre('save', async function(next) {
+    (this as any)._wasNew = this.isNew;
+    if (!this.isNew) {
+        const stored = await (this.constructor as ITransactionModel).findById(this._id).session(this.$session());
+        (this as any)._previousTransaction = stored ? stored.toObject() : null;
+    }
+    next();
+});
+
 // Post hook for save (create and update)
 transactionSchema.post('save', async function(doc) {
+    const session = doc.$session();
+    const previous = (doc as any)._wasNew ? null : (doc as any)._previousTransaction;
+    if (!(doc as any)._wasNew && !previous) return;
+
     try {
-        // Check if this is a new document or if relevant fields changed
-        const isNew = doc.isNew;
-        const wasDeleted = (doc as any)._accountsToUpdate; // From pre-save hook
-        
-        if (isNew && !doc.isDeleted) {
-            // New transaction - add its effects
-            await applyTransactionToBalance(doc as unknown as ITransaction, 'add');
-        } else if (wasDeleted && doc.isDeleted) {
-            // Soft delete - remove its effects
-            const accountsToUpdate = (doc as any)._accountsToUpdate;
-            const transactionForBalance = {
-                fromAccount: accountsToUpdate.fromAccount,
-                toAccount: accountsToUpdate.toAccount,
-                amount: doc.amount,
-                type: doc.type
-            } as ITransaction;
-            await applyTransactionToBalance(transactionForBalance, 'remove');
-        }
+        await moveTransactionBalances(previous, doc as unknown as ITransaction, session);
     } catch (error) {
-        console.error('Error in transaction post-save hook:', error);
-        // Fallback to full recalculation for affected accounts and categories
-        if (doc.fromAccount) await updateAccountBalanceFull(doc.fromAccount.toString());
-        if (doc.toAccount) await updateAccountBalanceFull(doc.toAccount.toString());
-        if (doc.category) {
-            // Note: We would need to implement updateCategoryBalanceFull in category model
-            console.log('Category balance recalculation needed for:', doc.category.toString());
-        }
+        await handleBalanceError(error, session, [previous, doc as unknown as ITransaction]);
     }
 });
 
 // For updates, we need to handle them differently since we need the old values
 transactionSchema.pre('findOneAndUpdate', async function(next) {
-    try {
-        // Store the original transaction for comparison
-        const docToUpdate = await this.model.findOne(this.getQuery());
-        if (docToUpdate) {
-            (this as any)._originalTransaction = docToUpdate.toObject();
-        }
-    } catch (error) {
-        console.error('Error in pre-update hook:', error);
+    // Store the original transaction for comparison
+    const docToUpdate = await this.model.findOne(this.getQuery()).session(this.getOptions().session || null);
+    if (docToUpdate) {
+        (this as any)._originalTransaction = docToUpdate.toObject();
     }
     next();
 });
 
 // Post hook for findOneAndUpdate
 transactionSchema.post('findOneAndUpdate', async function(doc) {
-    if (!doc) return;
+    const originalTransaction = (this as any)._originalTransaction;
+    if (!doc || !originalTransaction) return;
     
+    const session = this.getOptions().session;
     try {
-        const originalTransaction = (this as any)._originalTransaction;
-        
-        if (originalTransaction && !originalTransaction.isDeleted && !doc.isDeleted) {
-            // Transaction was updated (not deleted) - remove old effects and add new ones
-            await Promise.all([
-                applyTransactionToBalance(originalTransaction, 'remove'),
-                applyTransactionToBalance(doc as unknown as ITransaction, 'add')
-            ]);
-        } else if (originalTransaction && !originalTransaction.isDeleted && doc.isDeleted) {
-            // Transaction was soft deleted - remove its effects
-            await applyTransactionToBalance(originalTransaction, 'remove');
-        } else if (originalTransaction && originalTransaction.isDeleted && !doc.isDeleted) {
-            // Transaction was undeleted - add its effects back
-            await applyTransactionToBalance(doc as unknown as ITransaction, 'add');
-        }
+        // Remove the old effects and add the new ones; deleting or restoring only does one of them
+        await moveTransactionBalances(originalTransaction, doc as unknown as ITransaction, session);
     } catch (error) {
-        console.error('Error in transaction post-update hook:', error);
-        // Fallback to full recalculation for all potentially affected accounts
-        const accountsToRecalculate = new Set();
-        const categoriesToRecalculate = new Set();
-        
-        if (doc.fromAccount) accountsToRecalculate.add(doc.fromAccount.toString());
-        if (doc.toAccount) accountsToRecalculate.add(doc.toAccount.toString());
-        if (doc.category) categoriesToRecalculate.add(doc.category.toString());
-        
-        const originalTransaction = (this as any)._originalTransaction;
-        if (originalTransaction) {
-            if (originalTransaction.fromAccount) accountsToRecalculate.add(originalTransaction.fromAccount.toString());
-            if (originalTransaction.toAccount) accountsToRecalculate.add(originalTransaction.toAccount.toString());
-            if (originalTransaction.category) categoriesToRecalculate.add(originalTransaction.category.toString());
-        }
-        
-        await Promise.all([
-            ...Array.from(accountsToRecalculate).map(accountId => updateAccountBalanceFull(accountId as string)),
-            // Note: Category full recalculation would be implemented here
-            ...Array.from(categoriesToRecalculate).map(categoryId => 
-                console.log('Category balance recalculation needed for:', categoryId)
-            )
-        ]);
+        await handleBalanceError(error, session, [originalTransaction, doc as unknown as ITransaction]);
     }
 });
 
@@ -387,33 +385,17 @@ transactionSchema.post('findOneAndUpdate', async function(doc) {
 transactionSchema.post(['findOneAndDelete', 'deleteOne'], async function(doc) {
     if (!doc || doc.isDeleted) return; // Don't process if already soft deleted
     
+    const session = (this as any).getOptions?.().session;
     try {
         // Hard delete - remove transaction effects
-        await applyTransactionToBalance(doc as unknown as ITransaction, 'remove');
+        await applyTransactionToBalance(doc as unknown as ITransaction, 'remove', session);
     } catch (error) {
-        console.error('Error in transaction post-delete hook:', error);
-        // Fallback to full recalculation
-        if (doc.fromAccount) await updateAccountBalanceFull(doc.fromAccount.toString());
-        if (doc.toAccount) await updateAccountBalanceFull(doc.toAccount.toString());
-        if (doc.category) {
-            console.log('Category balance recalculation needed for:', doc.category.toString());
-        }
+        await handleBalanceError(error, session, [doc as unknown as ITransaction]);
     }
 });
 
-// Pre hook for soft delete to capture the document before it's marked as deleted
-transactionSchema.pre('save', async function(next) {
-    // If this is a soft delete operation (isDeleted is being set to true)
-    if (this.isModified('isDeleted') && this.isDeleted) {
-        // Store the account IDs for the post hook
-        (this as any)._accountsToUpdate = {
-            fromAccount: this.fromAccount,
-            toAccount: this.toAccount
-        };
-    }
-    next();
-});
-
 const Transaction = mongoose.model<ITransaction, ITransactionModel>('Transaction', transactionSchema);
 
-export default Transaction
\ No newline at end of file
+export default Transaction
+export { updateParentCategoryBalances };
+export type { ITransaction, ITransactionSplit };
\ No newline at end of file
@@ -0,0 +1,24 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface IUser extends Document {
+    email: string;
+    name?: string;
+    passwordHash: string;
+    householdId?: mongoose.Types.ObjectId | null; // Household whose data the user works on
+    tokenVersion: number; // Incremented to revoke every refresh token issued so far
+    lastLoginAt?: Date;
+}
+
+const userSchema: Schema = new mongoose.Schema({
+    email: { type: String, required: true, unique: true, lowercase: true, trim: true },
+    name: { type: String, required: false, trim: true },
+    passwordHash: { type: String, required: true },
+    householdId: { type: mongoose.Schema.Types.ObjectId, ref: 'Household', default: null },
+    tokenVersion: { type: Number, default: 0 },
+    lastLoginAt: { type: Date, required: false }
+}, { timestamps: true });
+
+const User = mongoose.model<IUser>('User', userSchema);
+
+export default User;
+export type { IUser };
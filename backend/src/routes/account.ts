@@ -6,8 +6,11 @@ import { accountSchema } from "../validation/schemas";
 const router = express.Router();
 
 router.post("/account", validate(accountSchema.create, 'body'), account.post);
-router.get("/account", account.all);
+router.get("/account", validate(accountSchema.query, 'query'), account.all);
+// Balances totalled in the base currency
+router.get("/account/totals", validate(accountSchema.query, 'query'), account.totals);
 router.get("/account/:id", account.get);
+router.get("/account/:id/balance", validate(accountSchema.balanceQuery, 'query'), account.balance);
 router.put("/account/:id", validate(accountSchema.update, 'body'), account.update);
 router.delete("/account/:id", account.delete);
 router.post("/account/order", validate(accountSchema.updateOrder, 'body'), account.updateOrder);
@@ -0,0 +1,10 @@
+import express from "express";
+import adminController from "../controllers/admin";
+import { validate } from "../middleware/validate";
+import { adminSchema } from "../validation/schemas";
+
+const router = express.Router();
+
+router.post("/admin/recalculate", validate(adminSchema.recalculate, 'body'), adminController.recalculate);
+
+export default router;
@@ -0,0 +1,13 @@
+import express from "express";
+import attachment from "../controllers/attachment";
+import { validate } from "../middleware/validate";
+import { attachmentSchema } from "../validation/schemas";
+
+const router = express.Router();
+
+router.post("/transaction/:id/attachments", validate(attachmentSchema.create, 'body'), attachment.post);
+router.get("/transaction/:id/attachments", attachment.all);
+router.get("/transaction/:id/attachments/:attachmentId", attachment.download);
+router.delete("/transaction/:id/attachments/:attachmentId", attachment.delete);
+
+export default router;
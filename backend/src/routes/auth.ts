@@ -0,0 +1,15 @@
+import express from "express";
+import auth from "../controllers/auth";
+import { validate } from "../middleware/validate";
+import { authenticate } from "../middleware/auth";
+import { authSchema } from "../validation/schemas";
+
+const router = express.Router();
+
+router.post("/auth/register", validate(authSchema.register, 'body'), auth.register);
+router.post("/auth/login", validate(authSchema.login, 'body'), auth.login);
+router.post("/auth/refresh", validate(authSchema.refresh, 'body'), auth.refresh);
+router.get("/auth/me", authenticate, auth.me);
+router.post("/auth/logout", authenticate, auth.logout);
+
+export default router;
@@ -0,0 +1,11 @@
+import express from "express";
+import backupController from "../controllers/backup";
+import { validate } from "../middleware/validate";
+import { backupSchema } from "../validation/schemas";
+
+const router = express.Router();
+
+router.get("/export", validate(backupSchema.query, 'query'), backupController.exportData);
+router.post("/import/backup", validate(backupSchema.restore, 'body'), backupController.restore);
+
+export default router;
@@ -0,0 +1,16 @@
+import express from "express";
+import budget from "../controllers/budget";
+import { validate } from "../middleware/validate";
+import { budgetSchema } from "../validation/schemas";
+
+const router = express.Router();
+
+router.post("/budget", validate(budgetSchema.create, 'body'), budget.post);
+router.get("/budget", validate(budgetSchema.query, 'query'), budget.all);
+// Budget vs actual for a month
+router.get("/budget/progress", validate(budgetSchema.query, 'query'), budget.progress);
+router.get("/budget/:id", budget.get);
+router.put("/budget/:id", validate(budgetSchema.update, 'body'), budget.update);
+router.delete("/budget/:id", budget.delete);
+
+export default router;
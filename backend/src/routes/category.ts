@@ -8,11 +8,14 @@ const router = express.Router();
 router.post("/category", validate(categorySchema.create, 'body'), category.post);
 router.get("/category", category.all);
 router.get("/category/root", category.getRootCategories);
+router.get("/category/tree", validate(categorySchema.treeQuery, 'query'), category.tree);
 router.get("/category/:id", category.get);
 router.get("/category/:id/subcategories", category.getSubcategories);
 router.get("/category/:id/transactions", category.getCategoryTransactions);
 router.put("/category/:id", validate(categorySchema.update, 'body'), category.update);
-router.delete("/category/:id", category.delete);
+router.delete("/category/:id", validate(categorySchema.deleteQuery, 'query'), category.delete);
+router.post("/category/:id/merge", validate(categorySchema.merge, 'body'), category.merge);
+router.post("/category/:id/move", validate(categorySchema.move, 'body'), category.move);
 // Update order of categories
 router.post("/category/order", validate(categorySchema.update, 'body'), category.updateOrder);
 // Sync endpoints for offline clients
@@ -0,0 +1,14 @@
+import express from "express";
+import exchangeRate from "../controllers/exchangeRate";
+import { validate } from "../middleware/validate";
+import { exchangeRateSchema } from "../validation/schemas";
+
+const router = express.Router();
+
+router.post("/exchange-rate", validate(exchangeRateSchema.create, 'body'), exchangeRate.post);
+router.post("/exchange-rate/import", validate(exchangeRateSchema.import, 'body'), exchangeRate.import);
+router.get("/exchange-rate", validate(exchangeRateSchema.query, 'query'), exchangeRate.all);
+router.get("/exchange-rate/convert", validate(exchangeRateSchema.convert, 'query'), exchangeRate.convert);
+router.delete("/exchange-rate/:id", exchangeRate.delete);
+
+export default router;
@@ -0,0 +1,14 @@
+import express from "express";
+import household from "../controllers/household";
+import { validate } from "../middleware/validate";
+import { householdSchema } from "../validation/schemas";
+
+const router = express.Router();
+
+router.get("/household", household.get);
+router.put("/household", validate(householdSchema.update, 'body'), household.update);
+router.post("/household/invitations", household.createInvitation);
+router.post("/household/join", validate(householdSchema.join, 'body'), household.join);
+router.delete("/household/members/:userId", household.removeMember);
+
+export default router;
@@ -0,0 +1,11 @@
+import express from "express";
+import importController from "../controllers/import";
+import { validate } from "../middleware/validate";
+import { importSchema } from "../validation/schemas";
+
+const router = express.Router();
+
+router.post("/import/csv", validate(importSchema.csv, 'body'), importController.csv);
+router.post("/import/statement", validate(importSchema.statement, 'body'), importController.statement);
+
+export default router;
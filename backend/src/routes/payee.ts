@@ -0,0 +1,14 @@
+import express from "express";
+import payee from "../controllers/payee";
+import { validate } from "../middleware/validate";
+import { payeeSchema } from "../validation/schemas";
+
+const router = express.Router();
+
+router.post("/payee", validate(payeeSchema.create, 'body'), payee.post);
+router.get("/payee", validate(payeeSchema.query, 'query'), payee.all);
+router.get("/payee/:id", payee.get);
+router.put("/payee/:id", validate(payeeSchema.update, 'body'), payee.update);
+router.delete("/payee/:id", payee.delete);
+
+export default router;
@@ -0,0 +1,19 @@
+import express from "express";
+import recurring from "../controllers/recurringTransaction";
+import { validate } from "../middleware/validate";
+import { recurringTransactionSchema } from "../validation/schemas";
+
+const router = express.Router();
+
+router.post("/recurring", validate(recurringTransactionSchema.create, 'body'), recurring.post);
+router.get("/recurring", recurring.all);
+// Create transactions for every schedule that is due
+router.post("/recurring/materialize", validate(recurringTransactionSchema.materialize, 'body'), recurring.materialize);
+router.get("/recurring/:id", recurring.get);
+router.put("/recurring/:id", validate(recurringTransactionSchema.update, 'body'), recurring.update);
+router.delete("/recurring/:id", recurring.delete);
+router.get("/recurring/:id/preview", validate(recurringTransactionSchema.preview, 'query'), recurring.preview);
+router.post("/recurring/:id/skip", validate(recurringTransactionSchema.skip, 'body'), recurring.skipOccurrence);
+router.put("/recurring/:id/occurrence", validate(recurringTransactionSchema.occurrence, 'body'), recurring.updateOccurrence);
+
+export default router;
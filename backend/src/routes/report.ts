@@ -0,0 +1,13 @@
+import express from "express";
+import reportController from "../controllers/report";
+import { validate } from "../middleware/validate";
+import { reportSchema } from "../validation/schemas";
+
+const router = express.Router();
+
+router.get("/reports/summary", validate(reportSchema.summary, 'query'), reportController.summary);
+router.get("/reports/net-worth", validate(reportSchema.netWorth, 'query'), reportController.netWorth);
+router.get("/reports/tags", validate(reportSchema.tags, 'query'), reportController.tags);
+router.get("/reports/payees", validate(reportSchema.payees, 'query'), reportController.payees);
+
+export default router;
@@ -0,0 +1,16 @@
+import express from "express";
+import rule from "../controllers/rule";
+import { validate } from "../middleware/validate";
+import { ruleSchema } from "../validation/schemas";
+
+const router = express.Router();
+
+router.post("/rule", validate(ruleSchema.create, 'body'), rule.post);
+router.get("/rule", rule.all);
+router.post("/rule/preview", validate(ruleSchema.preview, 'body'), rule.preview);
+router.post("/rule/apply", validate(ruleSchema.apply, 'body'), rule.apply);
+router.get("/rule/:id", rule.get);
+router.put("/rule/:id", validate(ruleSchema.update, 'body'), rule.update);
+router.delete("/rule/:id", rule.delete);
+
+export default router;
@@ -0,0 +1,14 @@
+import express from "express";
+import tag from "../controllers/tag";
+import { validate } from "../middleware/validate";
+import { tagSchema } from "../validation/schemas";
+
+const router = express.Router();
+
+router.post("/tag", validate(tagSchema.create, 'body'), tag.post);
+router.get("/tag", tag.all);
+router.get("/tag/:id", tag.get);
+router.put("/tag/:id", validate(tagSchema.update, 'body'), tag.update);
+router.delete("/tag/:id", tag.delete);
+
+export default router;
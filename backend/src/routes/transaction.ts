@@ -7,6 +7,7 @@ const router = express.Router();
 
 router.post('/transaction', validate(transactionSchema.create, 'body'), transaction.post);
 router.get('/transaction', validate(transactionSchema.query, 'query'), transaction.all);
+router.get('/transaction/suggest-category', validate(transactionSchema.suggestCategory, 'query'), transaction.suggestCategory);
 router.get('/transaction/:id', transaction.get);
 router.put('/transaction/:id', validate(transactionSchema.update, 'body'), transaction.update);
 router.delete('/transaction/:id', transaction.delete);
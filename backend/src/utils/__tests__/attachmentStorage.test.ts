@@ -0,0 +1,82 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { createLocalStorage, createS3Storage } from '../attachmentStorage';
+
+describe('attachment storage', () => {
+  describe('local driver', () => {
+    let root: string;
+
+    beforeEach(async () => {
+      root = await fs.mkdtemp(path.join(os.tmpdir(), 'attachments-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('should store, read back and delete files by key', async () => {
+      const storage = createLocalStorage(root);
+      const data = Buffer.from('%PDF-1.7 receipt');
+
+      await storage.put('household/tx/file', data, 'application/pdf');
+      expect(await storage.get('household/tx/file')).toEqual(data);
+
+      await storage.delete('household/tx/file');
+      await expect(storage.get('household/tx/file')).rejects.toThrow();
+      // Deleting again is not an error
+      await expect(storage.delete('household/tx/file')).resolves.toBeUndefined();
+    });
+
+    it('should refuse keys that point outside its root', async () => {
+      const storage = createLocalStorage(root);
+
+      await expect(storage.put('../escaped', Buffer.from('x'), 'image/png')).rejects.toThrow('Invalid attachment key');
+      await expect(storage.get('/etc/passwd')).rejects.toThrow('Invalid attachment key');
+    });
+  });
+
+  describe('S3 driver', () => {
+    const config = {
+      bucket: 'receipts',
+      region: 'ap-southeast-1',
+      accessKeyId: 'AKIDEXAMPLE',
+      secretAccessKey: 'secret',
+      sessionToken: 'token'
+    };
+
+    it('should sign requests to path-style object URLs', async () => {
+      const request = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+      const storage = createS3Storage(config, request as any);
+
+      await storage.put('household/tx/file', Buffer.from('data'), 'image/png');
+
+      const [url, init] = request.mock.calls[0];
+      expect(url.toString()).toBe('https://s3.ap-southeast-1.amazonaws.com/receipts/household/tx/file');
+      expect(init.method).toBe('PUT');
+      expect(init.headers).toEqual(expect.objectContaining({
+        'content-type': 'image/png',
+        'x-amz-security-token': 'token',
+        // SHA-256 of the body "data"
+        'x-amz-content-sha256': '3a6eb0790f39ac87c94f3856b2dd2c5d110e6811602261a9a923d3bb23adc8b7'
+      }));
+      expect(init.headers.authorization).toMatch(
+        /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/ap-southeast-1\/s3\/aws4_request, SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date;x-amz-security-token, Signature=[0-9a-f]{64}$/
+      );
+    });
+
+    it('should read objects from a custom endpoint and ignore missing ones on delete', async () => {
+      const request = jest.fn()
+        .mockResolvedValueOnce({ ok: true, status: 200, arrayBuffer: async () => new TextEncoder().encode('pdf').buffer })
+        .mockResolvedValueOnce({ ok: false, status: 404 })
+        .mockResolvedValueOnce({ ok: false, status: 403 });
+      const storage = createS3Storage({ ...config, endpoint: 'http://localhost:9000/' }, request as any);
+
+      expect((await storage.get('a/b c')).toString()).toBe('pdf');
+      expect(request.mock.calls[0][0].toString()).toBe('http://localhost:9000/receipts/a/b%20c');
+
+      await expect(storage.delete('a/missing')).resolves.toBeUndefined();
+      await expect(storage.get('a/forbidden')).rejects.toThrow('failed with status 403');
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { attachmentKey, detectContentType, withoutAttachmentCount } from '../attachments';
+
+describe('attachment utils', () => {
+  describe('detectContentType', () => {
+    it('should recognize the allowed types from their first bytes', () => {
+      expect(detectContentType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+      expect(detectContentType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]))).toBe('image/png');
+      expect(detectContentType(Buffer.from('%PDF-1.7\n'))).toBe('application/pdf');
+      expect(detectContentType(Buffer.from('RIFF\x10\x00\x00\x00WEBPVP8 ', 'latin1'))).toBe('image/webp');
+      expect(detectContentType(Buffer.from('\x00\x00\x00\x18ftypheic', 'latin1'))).toBe('image/heic');
+    });
+
+    it('should reject anything else', () => {
+      expect(detectContentType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeNull();
+      expect(detectContentType(Buffer.from('\x00\x00\x00\x18ftypmp42', 'latin1'))).toBeNull();
+      expect(detectContentType(Buffer.alloc(0))).toBeNull();
+    });
+  });
+
+  it('should group storage keys by household and transaction', () => {
+    expect(attachmentKey('h1', 't1', 'a1')).toBe('h1/t1/a1');
+  });
+
+  it('should drop the attachment count from client data', () => {
+    expect(withoutAttachmentCount({ amount: 10, attachmentCount: 99 })).toEqual({ amount: 10 });
+  });
+});
@@ -0,0 +1,211 @@
+const model = () => ({ find: jest.fn(), insertMany: jest.fn(), deleteMany: jest.fn() });
+jest.mock('../../models/account', () => model());
+jest.mock('../../models/category', () => model());
+jest.mock('../../models/tag', () => model());
+jest.mock('../../models/payee', () => model());
+jest.mock('../../models/transaction', () => model());
+jest.mock('../../models/budget', () => model());
+jest.mock('../../models/exchangeRate', () => model());
+jest.mock('../../models/recurringTransaction', () => model());
+jest.mock('../../models/rule', () => model());
+jest.mock('../../models/household', () => ({ findById: jest.fn(), updateOne: jest.fn() }));
+jest.mock('../balances', () => ({ recalculateHouseholdBalances: jest.fn() }));
+
+import Account from '../../models/account';
+import Budget from '../../models/budget';
+import Category from '../../models/category';
+import ExchangeRate from '../../models/exchangeRate';
+import Household from '../../models/household';
+import Payee from '../../models/payee';
+import RecurringTransaction from '../../models/recurringTransaction';
+import Rule from '../../models/rule';
+import Tag from '../../models/tag';
+import Transaction from '../../models/transaction';
+import { BackupArchive, backupToCsv, createBackup, restoreBackup } from '../backup';
+
+const archive: BackupArchive = {
+  version: 1,
+  accounts: [
+    { id: 'a1', name: 'Wallet', type: 'wallet', currency: 'PHP', balance: 850 },
+    { id: 'a2', name: 'Savings', type: 'debit', currency: 'PHP', balance: 0 }
+  ],
+  categories: [
+    { id: 'c1', name: 'Food', parent: null },
+    { id: 'c2', name: 'Groceries', parent: 'c1' },
+    { id: 'c3', name: 'Household', parent: null },
+    { id: 'c4', name: 'Dining out', parent: 'c1', isDeleted: true }
+  ],
+  tags: [
+    { id: 'g1', name: 'vacation-2026', color: '#ff0000' },
+    { id: 'g2', name: 'reimbursable' }
+  ],
+  payees: [{ id: 'p1', name: 'SM Supermarket', aliases: ['SM MARKETS', 'SM SUPERMKT'], defaultCategory: 'c2' }],
+  transactions: [
+    {
+      id: 't1',
+      transactionDate: '2026-01-05T00:00:00.000Z',
+      fromAccount: 'a1',
+      splits: [{ category: 'c2', amount: 100 }, { category: 'c3', amount: 50 }],
+      tags: ['g1', 'g2'],
+      payee: 'p1',
+      amount: 150,
+      type: 'expense',
+      description: 'Supermarket'
+    },
+    {
+      id: 't2',
+      transactionDate: '2026-01-06T00:00:00.000Z',
+      fromAccount: 'a1',
+      toAccount: 'a2',
+      amount: 1000,
+      type: 'transfer'
+    }
+  ],
+  budgets: [{ id: 'b1', category: 'c1', amount: 5000, period: 'monthly', startDate: '2026-01-01T00:00:00.000Z' }]
+};
+
+describe('backup utils', () => {
+  describe('backupToCsv', () => {
+    it('should write transactions with account names and category paths', () => {
+      const lines = backupToCsv(archive, 'transactions').trim().split('\r\n');
+
+      expect(lines[0]).toBe('ID,Date,Type,Amount,Account,To account,To amount,Category,Tags,Payee,Description,Notes,Reference,Deleted');
+      expect(lines[1]).toBe('t1,2026-01-05,expense,150,Wallet,,,Food > Groceries: 100.00; Household: 50.00,"vacation-2026, reimbursable",SM Supermarket,Supermarket,,,');
+      expect(lines[2]).toBe('t2,2026-01-06,transfer,1000,Wallet,Savings,,,,,,,,');
+    });
+
+    it('should write the category tree and budgets', () => {
+      const categories = backupToCsv(archive, 'categories').split('\r\n');
+
+      expect(categories[0]).toBe('ID,Name,Type,Parent ID,Path,Description,Deleted');
+      expect(categories[2]).toBe('c2,Groceries,,c1,Food > Groceries,,');
+      expect(categories[4]).toBe('c4,Dining out,,c1,Food > Dining out,,true');
+      expect(backupToCsv(archive, 'budgets').split('\r\n')[1]).toBe('b1,Food,5000,monthly,2026-01-01,,,,');
+      expect(backupToCsv(archive, 'tags').split('\r\n')[1]).toBe('g1,vacation-2026,#ff0000,');
+      expect(backupToCsv(archive, 'payees').split('\r\n')[1]).toBe('p1,SM Supermarket,"SM MARKETS, SM SUPERMKT",Food > Groceries,');
+    });
+  });
+
+  describe('round trip', () => {
+    const householdId = '507f1f77bcf86cd799439099';
+    // Model.find(...).sort(...).lean() resolving to the stored documents
+    const stored = (documents: any[]) => ({ sort: () => ({ lean: () => Promise.resolve(documents) }) });
+    const inserted = (model: any) => (model.insertMany as jest.Mock).mock.calls[0][0];
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (Household.findById as jest.Mock).mockReturnValue({ lean: () => Promise.resolve({ name: 'Home', baseCurrency: 'USD' }) });
+      (Account.find as jest.Mock).mockReturnValue(stored([{ _id: 'a1', name: 'Wallet', currency: 'PHP', balance: 850 }]));
+      (Category.find as jest.Mock).mockReturnValue(stored([{ _id: 'c1', name: 'Food', parent: null, isDeleted: true }]));
+      (Tag.find as jest.Mock).mockReturnValue(stored([
+        { _id: 'g1', name: 'vacation-2026', color: '#ff0000' },
+        { _id: 'g2', name: 'old-trip', isDeleted: true }
+      ]));
+      (Payee.find as jest.Mock).mockReturnValue(stored([
+        { _id: 'p1', name: 'SM Supermarket', aliases: ['SM MARKETS'], defaultCategory: 'c1', isDeleted: false }
+      ]));
+      (Transaction.find as jest.Mock).mockReturnValue(stored([{
+        _id: 't1',
+        transactionDate: new Date('2026-01-05T00:00:00.000Z'),
+        fromAccount: 'a1',
+        category: 'c1',
+        tags: ['g1', 'g2'],
+        payee: 'p1',
+        amount: 150,
+        type: 'expense',
+        recurringTransaction: 'r1',
+        recurrenceDate: new Date('2026-01-05T00:00:00.000Z')
+      }]));
+      (Budget.find as jest.Mock).mockReturnValue(stored([]));
+      (ExchangeRate.find as jest.Mock).mockReturnValue(stored([
+        { _id: 'x1', fromCurrency: 'USD', toCurrency: 'PHP', rate: 56.1, date: new Date('2026-01-01T00:00:00.000Z'), source: 'manual' }
+      ]));
+      (RecurringTransaction.find as jest.Mock).mockReturnValue(stored([{
+        _id: 'r1',
+        fromAccount: 'a1',
+        category: 'c1',
+        amount: 150,
+        type: 'expense',
+        frequency: 'monthly',
+        interval: 1,
+        startDate: new Date('2026-01-05T00:00:00.000Z'),
+        nextRunDate: new Date('2026-02-05T00:00:00.000Z'),
+        lastRunDate: new Date('2026-01-05T00:00:00.000Z'),
+        isActive: true,
+        exceptions: [{ date: new Date('2026-03-05T00:00:00.000Z'), action: 'modify', overrides: { amount: 200, fromAccount: 'a1' } }]
+      }]));
+      (Rule.find as jest.Mock).mockReturnValue(stored([{
+        _id: 'u1',
+        name: 'Supermarket',
+        priority: 0,
+        enabled: true,
+        conditions: { descriptionContains: 'SM', payee: 'p1' },
+        actions: { category: 'c1', tags: ['g1'] }
+      }]));
+    });
+
+    it('should restore categories, tags, payees and their transactions as they were exported', async () => {
+      const exported = await createBackup(householdId);
+      expect(exported.tags).toEqual([
+        { id: 'g1', name: 'vacation-2026', color: '#ff0000', isDeleted: false },
+        { id: 'g2', name: 'old-trip', color: undefined, isDeleted: true }
+      ]);
+
+      const restored = await restoreBackup(householdId, JSON.parse(JSON.stringify(exported)), 'user123');
+
+      expect(restored).toEqual({
+        accounts: 1, categories: 1, tags: 2, payees: 1, transactions: 1, budgets: 0, exchangeRates: 1, recurringTransactions: 1, rules: 1
+      });
+      expect(inserted(Category)[0]).toMatchObject({ name: 'Food', isDeleted: true });
+      const tags = inserted(Tag);
+      expect(tags.map((tag: any) => [tag.name, tag.isDeleted])).toEqual([['vacation-2026', false], ['old-trip', true]]);
+      const [payee] = inserted(Payee);
+      expect(payee).toMatchObject({ name: 'SM Supermarket', aliases: ['SM MARKETS'], isDeleted: false });
+      expect(payee.defaultCategory).toEqual(inserted(Category)[0]._id);
+      const [transaction] = inserted(Transaction);
+      // New IDs, with the references following them
+      expect(transaction.tags).toEqual([tags[0]._id, tags[1]._id]);
+      expect(transaction.tags[0].toString()).not.toBe('g1');
+      expect(transaction.category).toEqual(inserted(Category)[0]._id);
+      expect(transaction.payee).toEqual(payee._id);
+    });
+
+    it('should restore exchange rates, recurring schedules and rules, and the base currency', async () => {
+      const exported = await createBackup(householdId);
+
+      await restoreBackup(householdId, JSON.parse(JSON.stringify(exported)), 'user123');
+
+      const [account] = inserted(Account);
+      const [category] = inserted(Category);
+      const [schedule] = inserted(RecurringTransaction);
+      expect(schedule).toMatchObject({
+        fromAccount: account._id,
+        category: category._id,
+        nextRunDate: new Date('2026-02-05T00:00:00.000Z'),
+        lastRunDate: new Date('2026-01-05T00:00:00.000Z')
+      });
+      expect(schedule.exceptions[0].overrides).toMatchObject({ amount: 200, fromAccount: account._id });
+      expect(inserted(Transaction)[0]).toMatchObject({
+        recurringTransaction: schedule._id,
+        recurrenceDate: new Date('2026-01-05T00:00:00.000Z')
+      });
+      expect(inserted(ExchangeRate)[0]).toMatchObject({ fromCurrency: 'USD', toCurrency: 'PHP', rate: 56.1 });
+      const [rule] = inserted(Rule);
+      expect(rule.conditions).toMatchObject({ descriptionContains: 'SM', payee: inserted(Payee)[0]._id });
+      expect(rule.actions).toMatchObject({ category: category._id, tags: [inserted(Tag)[0]._id] });
+      expect(Household.updateOne).toHaveBeenCalledWith({ _id: householdId }, { baseCurrency: 'USD' });
+    });
+
+    it('should empty every restored collection again when the restore fails', async () => {
+      const exported = await createBackup(householdId);
+      (Rule.insertMany as jest.Mock).mockRejectedValueOnce(new Error('write failed'));
+
+      await expect(restoreBackup(householdId, JSON.parse(JSON.stringify(exported)), 'user123')).rejects.toThrow('write failed');
+
+      [Account, Category, Tag, Payee, Transaction, Budget, ExchangeRate, RecurringTransaction, Rule].forEach(model => {
+        expect(model.deleteMany).toHaveBeenCalledWith({ householdId });
+      });
+      expect(Household.updateOne).not.toHaveBeenCalled();
+    });
+  });
+});
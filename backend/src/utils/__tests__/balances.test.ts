@@ -0,0 +1,122 @@
+jest.mock('../../models/account', () => {
+  const MockAccount = function() {};
+  MockAccount.find = jest.fn();
+  MockAccount.bulkWrite = jest.fn();
+
+  return MockAccount;
+});
+
+jest.mock('../../models/category', () => {
+  const MockCategory = function() {};
+  MockCategory.find = jest.fn();
+  MockCategory.bulkWrite = jest.fn();
+
+  return MockCategory;
+});
+
+jest.mock('../../models/transaction', () => {
+  const MockTransaction = function() {};
+  MockTransaction.aggregate = jest.fn();
+
+  return MockTransaction;
+});
+
+import Account from '../../models/account';
+import Category from '../../models/category';
+import Transaction from '../../models/transaction';
+import { accountEffect, recalculateHouseholdBalances, rollUpCategoryTotals } from '../balances';
+
+const householdId = '507f1f77bcf86cd799439099';
+
+describe('balance utils', () => {
+  describe('accountEffect', () => {
+    it('should apply income, expenses and both sides of transfers', () => {
+      expect(accountEffect({ fromAccount: 'a', type: 'income', amount: 100 }, 'a')).toBe(100);
+      expect(accountEffect({ fromAccount: 'a', type: 'expense', amount: 40 }, 'a')).toBe(-40);
+      expect(accountEffect({ fromAccount: 'a', toAccount: 'b', type: 'transfer', amount: 50, toAmount: 2800 }, 'a')).toBe(-50);
+      expect(accountEffect({ fromAccount: 'a', toAccount: 'b', type: 'transfer', amount: 50, toAmount: 2800 }, 'b')).toBe(2800);
+      expect(accountEffect({ fromAccount: 'a', toAccount: 'b', type: 'transfer', amount: 50, toAmount: null }, 'b')).toBe(50);
+      expect(accountEffect({ fromAccount: 'a', type: 'expense', amount: 40 }, 'b')).toBe(0);
+    });
+  });
+
+  describe('rollUpCategoryTotals', () => {
+    it('should add subcategory totals to every ancestor', () => {
+      const totals = rollUpCategoryTotals(
+        [
+          { id: 'food', parent: null },
+          { id: 'groceries', parent: 'food' },
+          { id: 'produce', parent: 'groceries' },
+          { id: 'salary' }
+        ],
+        new Map([
+          ['food', { balance: 100, count: 1 }],
+          ['groceries', { balance: 250, count: 2 }],
+          ['produce', { balance: 50, count: 1 }]
+        ])
+      );
+
+      expect(totals.get('food')).toEqual({ directBalance: 100, directTransactionCount: 1, balance: 400, transactionCount: 4 });
+      expect(totals.get('groceries')).toEqual({ directBalance: 250, directTransactionCount: 2, balance: 300, transactionCount: 3 });
+      expect(totals.get('salary')).toEqual({ directBalance: 0, directTransactionCount: 0, balance: 0, transactionCount: 0 });
+    });
+
+    it('should not loop on a broken tree', () => {
+      const totals = rollUpCategoryTotals(
+        [{ id: 'a', parent: 'b' }, { id: 'b', parent: 'a' }],
+        new Map([['a', { balance: 10, count: 1 }]])
+      );
+
+      expect(totals.get('a')?.directBalance).toBe(10);
+      expect(totals.size).toBe(2);
+    });
+  });
+
+  describe('recalculateHouseholdBalances', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (Transaction.aggregate as jest.Mock)
+        .mockResolvedValueOnce([{ _id: 'wallet', balance: 850.1 }])
+        .mockResolvedValueOnce([{ _id: 'groceries', balance: 150, count: 2 }]);
+      (Account.find as jest.Mock).mockResolvedValue([
+        { _id: 'wallet', name: 'Wallet', balance: 900 },
+        { _id: 'savings', name: 'Savings', balance: 0 }
+      ]);
+      (Category.find as jest.Mock).mockResolvedValue([
+        { _id: 'food', name: 'Food', parent: null, directBalance: 0, directTransactionCount: 0, balance: 150, transactionCount: 2 },
+        { _id: 'groceries', name: 'Groceries', parent: 'food', directBalance: 100, directTransactionCount: 1, balance: 100, transactionCount: 1 }
+      ]);
+    });
+
+    it('should report drifted accounts and categories with the difference', async () => {
+      const drift = await recalculateHouseholdBalances(householdId, { dryRun: true });
+
+      expect(drift.accounts).toEqual([{ id: 'wallet', name: 'Wallet', stored: 900, expected: 850.1, difference: -49.9 }]);
+      expect(drift.categories).toEqual([{
+        id: 'groceries',
+        name: 'Groceries',
+        stored: { directBalance: 100, directTransactionCount: 1, balance: 100, transactionCount: 1 },
+        expected: { directBalance: 150, directTransactionCount: 2, balance: 150, transactionCount: 2 },
+        difference: { directBalance: 50, directTransactionCount: 1, balance: 50, transactionCount: 1 }
+      }]);
+      expect(Account.bulkWrite).not.toHaveBeenCalled();
+      expect(Category.bulkWrite).not.toHaveBeenCalled();
+    });
+
+    it('should write the expected values of drifted documents only', async () => {
+      await recalculateHouseholdBalances(householdId);
+
+      expect(Account.bulkWrite).toHaveBeenCalledWith([
+        { updateOne: { filter: { _id: 'wallet' }, update: { balance: 850.1, updatedAt: expect.any(Number) } } }
+      ]);
+      expect(Category.bulkWrite).toHaveBeenCalledWith([
+        {
+          updateOne: {
+            filter: { _id: 'groceries' },
+            update: { directBalance: 150, directTransactionCount: 2, balance: 150, transactionCount: 2, updatedAt: expect.any(Number) }
+          }
+        }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+jest.mock('../../models/category', () => {
+  const MockCategory = function() {};
+  MockCategory.findOne = jest.fn();
+  MockCategory.findOneAndUpdate = jest.fn();
+
+  return MockCategory;
+});
+
+jest.mock('../../models/transaction', () => {
+  const MockTransaction = function() {};
+
+  return { __esModule: true, default: MockTransaction, updateParentCategoryBalances: jest.fn() };
+});
+
+jest.mock('../../models/budget', () => function() {});
+jest.mock('../../models/recurringTransaction', () => function() {});
+
+import Category from '../../models/category';
+import { updateParentCategoryBalances } from '../../models/transaction';
+import { buildCategoryTree, isInSubtree, moveCategorySubtree, moveTargetError } from '../categories';
+
+const householdId = '507f1f77bcf86cd799439099';
+const session = 'session' as any;
+
+// Category.findOne(...) as awaited directly and through .session()
+const found = (category: any) => {
+  const query: any = Promise.resolve(category);
+  query.session = jest.fn().mockResolvedValue(category);
+  return query;
+};
+
+describe('category utils', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('buildCategoryTree', () => {
+    const categories = [
+      { id: 'food', name: 'Food', parent: null, order: 1 },
+      { id: 'dining', name: 'Dining', parent: 'food', order: 2 },
+      { id: 'groceries', name: 'Groceries', parent: 'food', order: 1 },
+      { id: 'coffee', name: 'Coffee', parent: 'dining', order: 0 },
+      { id: 'rent', name: 'Rent', parent: null, order: 0 }
+    ];
+    const direct = new Map([
+      ['food', { total: 10, count: 1 }],
+      ['groceries', { total: 120.1, count: 3 }],
+      ['coffee', { total: 30.2, count: 4 }]
+    ]);
+
+    it('should nest categories in order with direct and rolled-up totals', () => {
+      const tree = buildCategoryTree(categories, direct);
+
+      expect(tree.map(node => node.id)).toEqual(['rent', 'food']);
+      const food = tree[1];
+      expect(food.subcategories.map(node => node.id)).toEqual(['groceries', 'dining']);
+      expect(food.transactions).toEqual({
+        direct: { total: 10, count: 1 },
+        subcategories: { total: 150.3, count: 7 },
+        all: { total: 160.3, count: 8 }
+      });
+      const dining = food.subcategories[1];
+      expect(dining.transactions.direct).toEqual({ total: 0, count: 0 });
+      expect(dining.transactions.all).toEqual({ total: 30.2, count: 4 });
+      expect(dining.subcategories[0]).toMatchObject({ id: 'coffee', name: 'Coffee', subcategories: [] });
+      expect(tree[0].transactions.all).toEqual({ total: 0, count: 0 });
+    });
+
+    it('should make categories whose parent is missing roots', () => {
+      const tree = buildCategoryTree(categories.filter(category => category.id !== 'food'), direct);
+
+      expect(tree.map(node => node.id)).toEqual(['rent', 'groceries', 'dining']);
+      expect(tree[1].parent).toBeNull();
+    });
+  });
+
+  describe('isInSubtree', () => {
+    it('should walk up the parents until it reaches the ancestor', async () => {
+      (Category.findOne as jest.Mock)
+        .mockReturnValueOnce(found({ parent: 'b' }))
+        .mockReturnValueOnce(found({ parent: 'a' }));
+
+      expect(await isInSubtree(householdId, 'c', 'a')).toBe(true);
+      expect(Category.findOne).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop at the root or on a cycle', async () => {
+      (Category.findOne as jest.Mock)
+        .mockReturnValueOnce(found({ parent: 'b' }))
+        .mockReturnValueOnce(found({ parent: null }));
+      expect(await isInSubtree(householdId, 'c', 'a')).toBe(false);
+
+      (Category.findOne as jest.Mock)
+        .mockReturnValueOnce(found({ parent: 'b' }))
+        .mockReturnValueOnce(found({ parent: 'c' }));
+      expect(await isInSubtree(householdId, 'c', 'a')).toBe(false);
+    });
+  });
+
+  describe('moveTargetError', () => {
+    const category = { _id: 'c', type: 'Expense', parent: null };
+
+    it('should allow moving to the root or under a parent of the same type', async () => {
+      expect(await moveTargetError(householdId, category, null)).toBeNull();
+      expect(Category.findOne).not.toHaveBeenCalled();
+
+      (Category.findOne as jest.Mock)
+        .mockReturnValueOnce(found({ parent: null }))
+        .mockReturnValueOnce(found({ _id: 'p', type: 'Expense' }));
+      expect(await moveTargetError(householdId, category, 'p')).toBeNull();
+      expect(Category.findOne).toHaveBeenLastCalledWith(
+        { _id: 'p', householdId, isDeleted: { $ne: true } },
+        null,
+        { session: undefined }
+      );
+    });
+
+    it('should reject a parent inside the subtree, a missing parent and mixed types', async () => {
+      (Category.findOne as jest.Mock).mockReturnValueOnce(found({ parent: 'c' }));
+      expect(await moveTargetError(householdId, category, 'p')).toEqual({ status: 400, key: 'categories.move_into_subtree' });
+
+      (Category.findOne as jest.Mock)
+        .mockReturnValueOnce(found({ parent: null }))
+        .mockReturnValueOnce(found(null));
+      expect(await moveTargetError(householdId, category, 'p')).toEqual({ status: 404, key: 'categories.not_found' });
+
+      (Category.findOne as jest.Mock)
+        .mockReturnValueOnce(found({ parent: null }))
+        .mockReturnValueOnce(found({ _id: 'p', type: 'Expense' }));
+      expect(await moveTargetError(householdId, category, 'p', 'Income')).toEqual({ status: 400, key: 'categories.type_mismatch' });
+    });
+  });
+
+  describe('moveCategorySubtree', () => {
+    it('should move the rolled-up totals from the old ancestors to the new ones', async () => {
+      (Category.findOne as jest.Mock).mockReturnValue(found({ _id: 'c', parent: 'old', balance: 250, transactionCount: 5 }));
+      (Category.findOneAndUpdate as jest.Mock).mockResolvedValue({ _id: 'c', parent: 'new' });
+
+      const moved = await moveCategorySubtree(householdId, 'c', 'new', 'user123', session);
+
+      expect(updateParentCategoryBalances).toHaveBeenCalledWith('old', -250, -5, session);
+      expect(updateParentCategoryBalances).toHaveBeenCalledWith('new', 250, 5, session);
+      expect(Category.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: 'c', householdId },
+        { $set: { parent: 'new', updatedAt: expect.any(Number), lastModifiedBy: 'user123' }, $inc: { syncVersion: 1 } },
+        { new: true, session }
+      );
+      expect(moved).toEqual({ _id: 'c', parent: 'new' });
+    });
+
+    it('should only give up the totals when moving to the root', async () => {
+      (Category.findOne as jest.Mock).mockReturnValue(found({ _id: 'c', parent: 'old', balance: 80, transactionCount: 2 }));
+      (Category.findOneAndUpdate as jest.Mock).mockResolvedValue({ _id: 'c', parent: null });
+
+      await moveCategorySubtree(householdId, 'c', null, 'user123', session);
+
+      expect(updateParentCategoryBalances).toHaveBeenCalledTimes(1);
+      expect(updateParentCategoryBalances).toHaveBeenCalledWith('old', -80, -2, session);
+    });
+
+    it('should leave a category that stays under the same parent alone', async () => {
+      const category = { _id: 'c', parent: 'old', balance: 80, transactionCount: 2 };
+      (Category.findOne as jest.Mock).mockReturnValue(found(category));
+
+      expect(await moveCategorySubtree(householdId, 'c', 'old', 'user123', session)).toBe(category);
+      expect(updateParentCategoryBalances).not.toHaveBeenCalled();
+      expect(Category.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { rankCategories, textSimilarity } from '../categorySuggestions';
+
+const past = (text: string, category: string, amount: number, account = 'wallet') => ({ text, category, amount, accounts: [account] });
+
+describe('category suggestion utils', () => {
+  describe('textSimilarity', () => {
+    it('should compare normalized descriptions', () => {
+      expect(textSimilarity('GRAB *RIDE 1234', 'Grab ride')).toBe(1);
+      expect(textSimilarity('Jollibee Katipunan', 'JOLLIBEE SM NORTH')).toBeGreaterThan(0.3);
+      expect(textSimilarity('Meralco', 'Maynilad')).toBeLessThan(0.3);
+      expect(textSimilarity('1234', 'Grab')).toBe(0);
+    });
+
+    it('should catch words written together or cut short', () => {
+      expect(textSimilarity('GrabFood', 'Grab food')).toBeGreaterThan(0.5);
+      expect(textSimilarity('Puregold', 'Puregold Jr')).toBeGreaterThan(0.6);
+    });
+  });
+
+  describe('rankCategories', () => {
+    const history = [
+      past('Grab ride to office', 'transport', 180),
+      past('GRAB *RIDE 5512', 'transport', 220),
+      past('Grab ride', 'travel', 1500, 'card'),
+      past('Meralco bill', 'utilities', 3200),
+      past('Groceries at Puregold', 'groceries', 2400)
+    ];
+
+    it('should rank categories by how often similar transactions were filed there', () => {
+      const suggestions = rankCategories(history, { text: 'GRAB *RIDE 9981' }, 5);
+
+      expect(suggestions.map(suggestion => suggestion.category)).toEqual(['transport', 'travel']);
+      expect(suggestions[0].matches).toBe(2);
+      expect(suggestions[0].confidence).toBeGreaterThan(suggestions[1].confidence);
+      expect(suggestions[1].confidence).toBeGreaterThan(0);
+    });
+
+    it('should favour the same account and a close amount', () => {
+      const suggestions = rankCategories(
+        [past('Grab ride', 'transport', 200), past('Grab ride', 'travel', 1500, 'card')],
+        { text: 'Grab ride', amount: 1400, account: 'card' },
+        5
+      );
+
+      expect(suggestions[0].category).toBe('travel');
+    });
+
+    it('should suggest nothing without similar transactions', () => {
+      expect(rankCategories(history, { text: 'Netflix' }, 5)).toEqual([]);
+      expect(rankCategories([], { text: 'Grab' }, 5)).toEqual([]);
+    });
+  });
+});
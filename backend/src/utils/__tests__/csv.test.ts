@@ -0,0 +1,116 @@
+import { detectDelimiter, mapCsvRows, parseAmount, parseCsv, parseDate, toCsv } from '../csv';
+
+describe('csv utils', () => {
+  describe('parseCsv', () => {
+    it('should split rows and handle quoted cells', () => {
+      const text = 'Date,Description,Amount\r\n2026-01-05,"Grocery, Inc.",-1250.50\r\n\r\n2026-01-06,"Say ""hi""",100\n';
+
+      expect(parseCsv(text)).toEqual([
+        ['Date', 'Description', 'Amount'],
+        ['2026-01-05', 'Grocery, Inc.', '-1250.50'],
+        ['2026-01-06', 'Say "hi"', '100']
+      ]);
+    });
+
+    it('should detect semicolon and tab delimiters', () => {
+      expect(detectDelimiter('Datum;Omschrijving;Bedrag\n')).toBe(';');
+      expect(detectDelimiter('Date\tDescription\tAmount\n')).toBe('\t');
+    });
+  });
+
+  describe('parseDate', () => {
+    it('should read the configured format as a UTC date', () => {
+      expect(parseDate('2026-03-07', 'YYYY-MM-DD')).toEqual(new Date(Date.UTC(2026, 2, 7)));
+      expect(parseDate('03/07/2026', 'MM/DD/YYYY')).toEqual(new Date(Date.UTC(2026, 2, 7)));
+      expect(parseDate('07.03.26', 'DD.MM.YYYY')).toEqual(new Date(Date.UTC(2026, 2, 7)));
+      expect(parseDate('2026-03-07 14:30', 'YYYY-MM-DD')).toEqual(new Date(Date.UTC(2026, 2, 7)));
+    });
+
+    it('should reject dates that do not fit the format', () => {
+      expect(parseDate('13/31/2026', 'MM/DD/YYYY')).toBeNull();
+      expect(parseDate('yesterday', 'YYYY-MM-DD')).toBeNull();
+    });
+  });
+
+  describe('parseAmount', () => {
+    it('should read statement amount notations', () => {
+      expect(parseAmount('₱1,234.50')).toBe(1234.5);
+      expect(parseAmount('(250.00)')).toBe(-250);
+      expect(parseAmount('99.90-')).toBe(-99.9);
+      expect(parseAmount('1.234,50', ',')).toBe(1234.5);
+      expect(parseAmount('')).toBeNull();
+      expect(parseAmount('n/a')).toBeNull();
+    });
+  });
+
+  describe('mapCsvRows', () => {
+    const rows = [
+      ['Date', 'Description', 'Debit', 'Credit', 'Category'],
+      ['2026-01-05', 'Supermarket', '1,250.50', '', 'Groceries'],
+      ['2026-01-06', 'Salary', '', '50,000.00', ''],
+      ['not a date', 'Broken', '10', '', ''],
+      ['2026-01-07', 'Empty', '', '', '']
+    ];
+
+    it('should map split debit and credit columns to expenses and income', () => {
+      const result = mapCsvRows(rows, {
+        hasHeader: true,
+        dateColumn: 0,
+        dateFormat: 'YYYY-MM-DD',
+        descriptionColumn: 1,
+        amountConvention: 'split',
+        debitColumn: 2,
+        creditColumn: 3,
+        categoryColumn: 4
+      });
+
+      expect(result.rows).toEqual([
+        {
+          row: 2,
+          transactionDate: new Date(Date.UTC(2026, 0, 5)),
+          amount: 1250.5,
+          type: 'expense',
+          description: 'Supermarket',
+          categoryName: 'Groceries',
+          notes: undefined
+        },
+        {
+          row: 3,
+          transactionDate: new Date(Date.UTC(2026, 0, 6)),
+          amount: 50000,
+          type: 'income',
+          description: 'Salary',
+          categoryName: undefined,
+          notes: undefined
+        }
+      ]);
+      expect(result.errors).toEqual([
+        { row: 4, error: 'Invalid date "not a date"' },
+        { row: 5, error: 'Missing or zero amount' }
+      ]);
+    });
+
+    it('should treat positive amounts as expenses for inverted statements', () => {
+      const result = mapCsvRows([['05/01/2026', 'Card payment', '450.00']], {
+        hasHeader: false,
+        dateColumn: 0,
+        dateFormat: 'DD/MM/YYYY',
+        descriptionColumn: 1,
+        amountConvention: 'inverted',
+        amountColumn: 2
+      });
+
+      expect(result.rows[0]).toEqual(expect.objectContaining({ row: 1, amount: 450, type: 'expense' }));
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should quote cells when needed and defuse formulas', () => {
+      expect(toCsv([
+        ['Name', 'Amount', 'Note'],
+        ['Grocery, Inc.', -12.5, 'Say "hi"'],
+        ['=SUM(A1)', null, true]
+      ])).toBe('Name,Amount,Note\r\n"Grocery, Inc.",-12.5,"Say ""hi"""\r\n\'=SUM(A1),,true\r\n');
+    });
+  });
+});
@@ -0,0 +1,142 @@
+jest.mock('../../models/exchangeRate', () => {
+  const MockExchangeRate = function() {};
+  MockExchangeRate.findOne = jest.fn();
+
+  return MockExchangeRate;
+});
+
+jest.mock('../../models/account', () => {
+  const MockAccount = function() {};
+  MockAccount.find = jest.fn();
+
+  return MockAccount;
+});
+
+jest.mock('../../models/household', () => {
+  const MockHousehold = function() {};
+  MockHousehold.findById = jest.fn();
+
+  return MockHousehold;
+});
+
+import ExchangeRate from '../../models/exchangeRate';
+import Account from '../../models/account';
+import {
+  findExchangeRate,
+  resolveTransferAmount,
+  totalInBaseCurrency
+} from '../currency';
+
+const householdId = '507f1f77bcf86cd799439099';
+const phpAccountId = '507f1f77bcf86cd799439011';
+const usdAccountId = '507f1f77bcf86cd799439012';
+
+// Stub the rate store with a list of { fromCurrency, toCurrency, rate, date } quotes
+function mockRates(rates: Array<{ fromCurrency: string; toCurrency: string; rate: number; date: Date }>) {
+  (ExchangeRate.findOne as jest.Mock).mockImplementation((filter: any) => ({
+    sort: jest.fn().mockResolvedValue(
+      rates
+        .filter(rate => rate.fromCurrency === filter.fromCurrency && rate.toCurrency === filter.toCurrency)
+        .filter(rate => rate.date <= filter.date.$lte)
+        .sort((a, b) => b.date.getTime() - a.date.getTime())[0] || null
+    )
+  }));
+}
+
+describe('currency utils', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findExchangeRate', () => {
+    it('should return 1 for the same currency without a lookup', async () => {
+      expect(await findExchangeRate(householdId, 'PHP', 'PHP')).toBe(1);
+      expect(ExchangeRate.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should use the latest rate on or before the date', async () => {
+      mockRates([
+        { fromCurrency: 'USD', toCurrency: 'PHP', rate: 55, date: new Date('2026-01-01') },
+        { fromCurrency: 'USD', toCurrency: 'PHP', rate: 57, date: new Date('2026-03-01') }
+      ]);
+
+      expect(await findExchangeRate(householdId, 'USD', 'PHP', new Date('2026-02-15'))).toBe(55);
+      expect(await findExchangeRate(householdId, 'USD', 'PHP', new Date('2026-03-15'))).toBe(57);
+    });
+
+    it('should invert a rate quoted in the other direction', async () => {
+      mockRates([{ fromCurrency: 'PHP', toCurrency: 'USD', rate: 0.02, date: new Date('2026-01-01') }]);
+
+      expect(await findExchangeRate(householdId, 'USD', 'PHP', new Date('2026-02-01'))).toBeCloseTo(50);
+    });
+
+    it('should return null when no rate is known', async () => {
+      mockRates([]);
+
+      expect(await findExchangeRate(householdId, 'CNY', 'PHP')).toBeNull();
+    });
+  });
+
+  describe('totalInBaseCurrency', () => {
+    it('should convert balances and skip accounts excluded from totals', () => {
+      const totals = totalInBaseCurrency([
+        { balance: 1000, currency: 'PHP' },
+        { balance: 100, currency: 'USD' },
+        { balance: 500, currency: 'USD', includeInTotal: false },
+        { balance: 200, currency: 'CNY' }
+      ], 'PHP', { PHP: 1, USD: 56.5 });
+
+      expect(totals).toEqual({
+        baseCurrency: 'PHP',
+        total: 6650,
+        rates: { PHP: 1, USD: 56.5 },
+        missingRates: ['CNY']
+      });
+    });
+  });
+
+  describe('resolveTransferAmount', () => {
+    const transfer = {
+      type: 'transfer',
+      fromAccount: usdAccountId,
+      toAccount: phpAccountId,
+      amount: 100,
+      transactionDate: '2026-02-01'
+    };
+
+    beforeEach(() => {
+      (Account.find as jest.Mock).mockResolvedValue([
+        { _id: phpAccountId, currency: 'PHP' },
+        { _id: usdAccountId, currency: 'USD' }
+      ]);
+    });
+
+    it('should not need a destination amount within one currency', async () => {
+      (Account.find as jest.Mock).mockResolvedValue([
+        { _id: phpAccountId, currency: 'PHP' },
+        { _id: usdAccountId, currency: 'PHP' }
+      ]);
+
+      expect(await resolveTransferAmount(householdId, { ...transfer, toAmount: 42 }))
+        .toEqual({ toAmount: null, resolved: true });
+    });
+
+    it('should keep the destination amount entered for a cross-currency transfer', async () => {
+      expect(await resolveTransferAmount(householdId, { ...transfer, toAmount: 5600 }))
+        .toEqual({ toAmount: 5600, resolved: true });
+      expect(ExchangeRate.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should convert with the rate on the transaction date when no destination amount is given', async () => {
+      mockRates([{ fromCurrency: 'USD', toCurrency: 'PHP', rate: 56.123, date: new Date('2026-01-15') }]);
+
+      expect(await resolveTransferAmount(householdId, transfer)).toEqual({ toAmount: 5612.3, resolved: true });
+    });
+
+    it('should report an unresolved transfer when no rate is known', async () => {
+      mockRates([]);
+
+      expect(await resolveTransferAmount(householdId, transfer)).toEqual({ toAmount: null, resolved: false });
+    });
+  });
+});
@@ -0,0 +1,90 @@
+jest.mock('../../models/household', () => function() {});
+
+jest.mock('../../models/account', () => {
+  const MockAccount = function() {};
+  MockAccount.countDocuments = jest.fn();
+
+  return MockAccount;
+});
+
+jest.mock('../../models/category', () => {
+  const MockCategory = function() {};
+  MockCategory.countDocuments = jest.fn();
+
+  return MockCategory;
+});
+
+jest.mock('../../models/tag', () => {
+  const MockTag = function() {};
+  MockTag.countDocuments = jest.fn();
+
+  return MockTag;
+});
+
+jest.mock('../../models/payee', () => {
+  const MockPayee = function() {};
+  MockPayee.countDocuments = jest.fn();
+
+  return MockPayee;
+});
+
+import Account from '../../models/account';
+import Category from '../../models/category';
+import Tag from '../../models/tag';
+import Payee from '../../models/payee';
+import { verifyHouseholdReferences } from '../household';
+
+const householdId = '507f1f77bcf86cd799439099';
+const accountId = '507f1f77bcf86cd799439011';
+const categoryId = '507f1f77bcf86cd799439041';
+const deletedCategoryId = '507f1f77bcf86cd799439042';
+const tagId = '507f1f77bcf86cd799439051';
+const payeeId = '507f1f77bcf86cd799439031';
+
+// countDocuments over a household's documents, honoring the soft delete filter
+const countOf = (documents: Array<{ _id: string; isDeleted?: boolean }>) => jest.fn(async (filter: any) =>
+  documents.filter(document =>
+    filter._id.$in.includes(document._id) && !(filter.isDeleted?.$ne === true && document.isDeleted)
+  ).length
+);
+
+describe('household utils', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (Account as any).countDocuments = countOf([{ _id: accountId }]);
+    (Category as any).countDocuments = countOf([{ _id: categoryId }, { _id: deletedCategoryId, isDeleted: true }]);
+    (Tag as any).countDocuments = countOf([{ _id: tagId }]);
+    (Payee as any).countDocuments = countOf([{ _id: payeeId }]);
+  });
+
+  describe('verifyHouseholdReferences', () => {
+    it('should accept references to live documents of the household', async () => {
+      const valid = await verifyHouseholdReferences(householdId, {
+        accounts: [accountId, null],
+        categories: [categoryId],
+        tags: [tagId],
+        payees: [payeeId]
+      });
+
+      expect(valid).toBe(true);
+      expect(Category.countDocuments).toHaveBeenCalledWith({
+        _id: { $in: [categoryId] },
+        householdId,
+        isDeleted: { $ne: true }
+      });
+    });
+
+    it('should reject a reference to a deleted category', async () => {
+      const valid = await verifyHouseholdReferences(householdId, { accounts: [accountId], categories: [deletedCategoryId] });
+
+      expect(valid).toBe(false);
+    });
+
+    it('should reject malformed ids without querying', async () => {
+      const valid = await verifyHouseholdReferences(householdId, { tags: ['not-an-id'] });
+
+      expect(valid).toBe(false);
+      expect(Tag.countDocuments).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { isOfx, parseOfx, parseOfxDate, statementAccountKey } from '../ofx';
+
+const sgmlStatement = [
+  'OFXHEADER:100',
+  'DATA:OFXSGML',
+  'VERSION:102',
+  '',
+  '<OFX>',
+  '<SIGNONMSGSRSV1><SONRS><FI><ORG>Metro Bank<FID>1001</FI></SONRS></SIGNONMSGSRSV1>',
+  '<BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+  '<CURDEF>php',
+  '<BANKACCTFROM>',
+  '<BANKID>010',
+  '<ACCTID>000123456789',
+  '<ACCTTYPE>CHECKING',
+  '</BANKACCTFROM>',
+  '<BANKTRANLIST>',
+  '<STMTTRN>',
+  '<TRNTYPE>DEBIT',
+  '<DTPOSTED>20260105120000.000[+8:PHT]',
+  '<TRNAMT>-1250.50',
+  '<FITID>2026010501',
+  '<NAME>Grocer &amp; Co',
+  '<MEMO>Card purchase',
+  '</STMTTRN>',
+  '<STMTTRN>',
+  '<TRNTYPE>CHECK',
+  '<DTPOSTED>20260106',
+  '<TRNAMT>-500.00',
+  '<CHECKNUM>1042',
+  '<NAME>Landlord',
+  '</STMTTRN>',
+  '<STMTTRN>',
+  '<TRNTYPE>CREDIT',
+  '<DTPOSTED>20260231',
+  '<TRNAMT>10.00',
+  '</STMTTRN>',
+  '</BANKTRANLIST>',
+  '</STMTRS></STMTTRNRS></BANKMSGSRSV1>',
+  '</OFX>'
+].join('\r\n');
+
+const xmlCardStatement = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX>
+  <CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+    <CURDEF>USD</CURDEF>
+    <CCACCTFROM><ACCTID>4111000011112222</ACCTID></CCACCTFROM>
+    <BANKTRANLIST>
+      <STMTTRN>
+        <TRNTYPE>CREDIT</TRNTYPE>
+        <DTPOSTED>20260110</DTPOSTED>
+        <TRNAMT>25.00</TRNAMT>
+        <FITID>R-77</FITID>
+        <NAME>Refund</NAME>
+      </STMTTRN>
+    </BANKTRANLIST>
+  </CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>`;
+
+describe('ofx utils', () => {
+  describe('parseOfx', () => {
+    it('should read an SGML bank statement with its account and references', () => {
+      const statement = parseOfx(sgmlStatement);
+
+      expect(statement.account).toEqual({
+        institution: 'Metro Bank',
+        bankId: '010',
+        accountId: '000123456789',
+        currency: 'PHP'
+      });
+      expect(statement.accountType).toBe('debit');
+      expect(statement.rows).toEqual([
+        {
+          row: 1,
+          transactionDate: new Date(Date.UTC(2026, 0, 5)),
+          amount: 1250.5,
+          type: 'expense',
+          description: 'Grocer & Co',
+          notes: 'Card purchase',
+          externalId: '2026010501'
+        },
+        {
+          row: 2,
+          transactionDate: new Date(Date.UTC(2026, 0, 6)),
+          amount: 500,
+          type: 'expense',
+          description: 'Landlord',
+          notes: undefined,
+          externalId: '1042'
+        }
+      ]);
+      expect(statement.errors).toEqual([{ row: 3, error: 'Invalid date "20260231"' }]);
+    });
+
+    it('should read an XML credit card statement', () => {
+      const statement = parseOfx(xmlCardStatement);
+
+      expect(statement.account).toEqual(expect.objectContaining({ accountId: '4111000011112222', currency: 'USD' }));
+      expect(statement.accountType).toBe('credit');
+      expect(statement.rows[0]).toEqual(expect.objectContaining({ amount: 25, type: 'income', externalId: 'R-77' }));
+    });
+  });
+
+  it('should detect OFX files and key accounts by bank and number', () => {
+    expect(isOfx(sgmlStatement)).toBe(true);
+    expect(isOfx(xmlCardStatement)).toBe(true);
+    expect(isOfx('Date,Amount\n')).toBe(false);
+    expect(statementAccountKey({ bankId: '010', accountId: '123' })).toBe('010:123');
+    expect(statementAccountKey({ accountId: '123' })).toBe('123');
+  });
+
+  it('should ignore the time and zone of posted dates', () => {
+    expect(parseOfxDate('20261231235959.000[-5:EST]')).toEqual(new Date(Date.UTC(2026, 11, 31)));
+    expect(parseOfxDate('2026')).toBeNull();
+  });
+});
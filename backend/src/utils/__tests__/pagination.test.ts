@@ -0,0 +1,31 @@
+import mongoose from 'mongoose';
+import { afterCursor, decodeCursor, encodeCursor } from '../pagination';
+
+const id = '507f1f77bcf86cd799439031';
+
+describe('pagination utils', () => {
+  it('should round-trip the row a page ended on', () => {
+    const cursor = encodeCursor({ transactionDate: new Date('2026-03-01T08:30:00Z'), _id: new mongoose.Types.ObjectId(id) });
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor)).toEqual({ transactionDate: new Date('2026-03-01T08:30:00Z'), id });
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(decodeCursor('not a cursor')).toBeNull();
+    expect(decodeCursor(Buffer.from(JSON.stringify(['yesterday', id])).toString('base64url'))).toBeNull();
+    expect(decodeCursor(Buffer.from(JSON.stringify(['2026-03-01T00:00:00.000Z', 'abc'])).toString('base64url'))).toBeNull();
+  });
+
+  it('should continue past the cursor in either order, breaking date ties by ID', () => {
+    const position = { transactionDate: new Date('2026-03-01T00:00:00Z'), id };
+
+    expect(afterCursor(position, -1)).toEqual({
+      $or: [
+        { transactionDate: { $lt: position.transactionDate } },
+        { transactionDate: position.transactionDate, _id: { $lt: new mongoose.Types.ObjectId(id) } }
+      ]
+    });
+    expect(afterCursor(position, 1).$or[1]._id).toEqual({ $gt: new mongoose.Types.ObjectId(id) });
+  });
+});
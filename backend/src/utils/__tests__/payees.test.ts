@@ -0,0 +1,110 @@
+jest.mock('../../models/payee', () => {
+  const MockPayee = function() {};
+  MockPayee.find = jest.fn();
+
+  return MockPayee;
+});
+
+import Payee from '../../models/payee';
+import { assignPayeeFrom, defaultCategoryFor, loadPayees, matchPayee, normalizePayeeText, suggestPayees } from '../payees';
+
+const householdId = '507f1f77bcf86cd799439099';
+
+const grab = { _id: 'grab', name: 'Grab', aliases: ['GRAB *RIDE', 'Grab Food'], defaultCategory: { _id: 'transport', type: 'Expense' } };
+const grabFood = { _id: 'grabfood', name: 'GrabFood', aliases: ['grab food'], defaultCategory: null };
+const payroll = { _id: 'acme', name: 'ACME Corp Payroll', aliases: [], defaultCategory: { _id: 'salary', type: 'Income' } };
+const payees = [grab, grabFood, payroll];
+
+// Payee.find(...).sort(...).populate(...)
+function listed(result: any[]) {
+  const populate = jest.fn().mockResolvedValue(result);
+  return { sort: jest.fn().mockReturnValue({ populate }) };
+}
+
+describe('payee utils', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('normalizePayeeText', () => {
+    it('should drop punctuation, reference numbers and banking noise', () => {
+      expect(normalizePayeeText('GRAB *RIDE 1234')).toBe('grab ride');
+      expect(normalizePayeeText('  Grab   ride ')).toBe('grab ride');
+      expect(normalizePayeeText('POS PURCHASE Jollibee #0042 REF8812X')).toBe('jollibee');
+      expect(normalizePayeeText('www.lazada.com.ph')).toBe('lazada ph');
+      expect(normalizePayeeText('')).toBe('');
+    });
+  });
+
+  describe('matchPayee', () => {
+    it('should match names and aliases as whole words', () => {
+      expect(matchPayee('GRAB *RIDE 1234', payees)).toBe(grab);
+      expect(matchPayee('Grab ride', payees)).toBe(grab);
+      expect(matchPayee('Salary ACME corp payroll March', payees)).toBe(payroll);
+      expect(matchPayee('Grabbed lunch', payees)).toBeNull();
+      expect(matchPayee('1234', payees)).toBeNull();
+    });
+
+    it('should prefer the longest matching name or alias', () => {
+      expect(matchPayee('GRAB FOOD 5521', [grab, grabFood])).toBe(grab);
+      expect(matchPayee('GRAB FOOD 5521', [{ ...grab, aliases: [] }, grabFood])).toBe(grabFood);
+    });
+  });
+
+  describe('defaultCategoryFor', () => {
+    it('should only use a default category of the transaction type', () => {
+      expect(defaultCategoryFor(grab, 'expense')).toBe('transport');
+      expect(defaultCategoryFor(grab, undefined)).toBe('transport');
+      expect(defaultCategoryFor(grab, 'income')).toBeNull();
+      expect(defaultCategoryFor(grab, 'transfer')).toBeNull();
+      expect(defaultCategoryFor(payroll, 'income')).toBe('salary');
+      expect(defaultCategoryFor({ ...grab, defaultCategory: { _id: 'old', isDeleted: true } }, 'expense')).toBeNull();
+    });
+  });
+
+  describe('assignPayeeFrom', () => {
+    it('should set the payee and its default category from the description', () => {
+      const assigned = assignPayeeFrom(payees, { description: 'GRAB *RIDE 1234', type: 'expense', amount: 180 });
+
+      expect(assigned).toEqual({ description: 'GRAB *RIDE 1234', type: 'expense', amount: 180, payee: 'grab', category: 'transport' });
+    });
+
+    it('should keep a given category or split lines', () => {
+      expect(assignPayeeFrom(payees, { description: 'Grab ride', type: 'expense', category: 'travel' }))
+        .toEqual({ description: 'Grab ride', type: 'expense', category: 'travel', payee: 'grab' });
+      expect(assignPayeeFrom(payees, { description: 'Grab ride', splits: [{ category: 'travel', amount: 1 }] }))
+        .not.toHaveProperty('category');
+    });
+
+    it('should use the default category of a given payee, whatever the description', () => {
+      expect(assignPayeeFrom(payees, { description: 'Grab ride', payee: 'acme', type: 'income' }))
+        .toEqual({ description: 'Grab ride', payee: 'acme', type: 'income', category: 'salary' });
+      const unknown = { description: 'Grab ride', payee: 'other' };
+      expect(assignPayeeFrom(payees, unknown)).toBe(unknown);
+      expect(assignPayeeFrom(payees, { amount: 5 })).toEqual({ amount: 5 });
+    });
+  });
+
+  describe('loadPayees', () => {
+    it('should load the live payees of the household with their default category type', async () => {
+      const query = listed(payees);
+      (Payee.find as jest.Mock).mockReturnValue(query);
+
+      expect(await loadPayees(householdId)).toBe(payees);
+      expect(Payee.find).toHaveBeenCalledWith({ householdId, isDeleted: { $ne: true } });
+      expect(query.sort).toHaveBeenCalledWith({ name: 1 });
+    });
+  });
+
+  describe('suggestPayees', () => {
+    it('should list the named payee, then prefix and contains matches', () => {
+      const sorted = [payroll, grab, grabFood];
+
+      expect(suggestPayees('gra', sorted, 10)).toEqual([grab, grabFood]);
+      expect(suggestPayees('GRAB *RIDE 99', sorted, 10)).toEqual([grab]);
+      expect(suggestPayees('food', sorted, 10)).toEqual([grab, grabFood]);
+      expect(suggestPayees('roll', sorted, 10)).toEqual([payroll]);
+      expect(suggestPayees('', sorted, 2)).toEqual([payroll, grab]);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { isQif, parseQif, parseQifDate } from '../qif';
+
+const qif = [
+  '!Type:Cat',
+  'NGroceries',
+  'E',
+  '^',
+  '!Type:Bank',
+  "D1/ 5'26",
+  'T-1,250.50',
+  'PSupermarket',
+  'MWeekly shop',
+  'LFood:Groceries',
+  '^',
+  'D01/06/2026',
+  'U-500.00',
+  'T-500.00',
+  'N1042',
+  'PLandlord',
+  'L[Savings]',
+  '^',
+  'D1/7/26',
+  'T15,000.00',
+  'NDEP',
+  'MSalary',
+  'SSalary',
+  '$15,000.00',
+  '^',
+  'Dsoon',
+  'T1.00',
+  '^'
+].join('\n');
+
+describe('qif utils', () => {
+  it('should read bank transactions and skip list sections', () => {
+    const statement = parseQif(qif);
+
+    expect(statement.account).toBeUndefined();
+    expect(statement.accountType).toBe('debit');
+    expect(statement.rows).toEqual([
+      {
+        row: 1,
+        transactionDate: new Date(Date.UTC(2026, 0, 5)),
+        amount: 1250.5,
+        type: 'expense',
+        description: 'Supermarket',
+        categoryName: 'Groceries',
+        notes: 'Weekly shop',
+        externalId: undefined
+      },
+      {
+        row: 2,
+        transactionDate: new Date(Date.UTC(2026, 0, 6)),
+        amount: 500,
+        type: 'expense',
+        description: 'Landlord',
+        categoryName: undefined,
+        notes: undefined,
+        externalId: '1042'
+      },
+      {
+        row: 3,
+        transactionDate: new Date(Date.UTC(2026, 0, 7)),
+        amount: 15000,
+        type: 'income',
+        description: 'Salary',
+        categoryName: undefined,
+        notes: undefined,
+        externalId: undefined
+      }
+    ]);
+    expect(statement.errors).toEqual([{ row: 4, error: 'Invalid date "soon"' }]);
+  });
+
+  it('should treat credit card sections as credit accounts', () => {
+    const statement = parseQif('!Type:CCard\nD03/02/2026\nT-20\nPCafe\n^\n', 'DD/MM/YYYY');
+
+    expect(statement.accountType).toBe('credit');
+    expect(statement.rows[0].transactionDate).toEqual(new Date(Date.UTC(2026, 1, 3)));
+  });
+
+  it('should detect QIF files and read Quicken dates', () => {
+    expect(isQif('!Type:Bank\n')).toBe(true);
+    expect(isQif('<OFX>')).toBe(false);
+    expect(parseQifDate("12/31'25")).toEqual(new Date(Date.UTC(2025, 11, 31)));
+  });
+});
@@ -0,0 +1,253 @@
+jest.mock('../../models/transaction', () => {
+  const mockSave = jest.fn();
+  const MockTransaction = jest.fn().mockImplementation((data: any) => ({ ...data, save: mockSave }));
+  (MockTransaction as any).findOne = jest.fn();
+  (MockTransaction as any).mockSave = mockSave;
+
+  return MockTransaction;
+});
+
+jest.mock('../../models/recurringTransaction', () => {
+  const MockRecurringTransaction = function() {};
+  MockRecurringTransaction.find = jest.fn();
+  MockRecurringTransaction.findOneAndUpdate = jest.fn();
+
+  return MockRecurringTransaction;
+});
+
+jest.mock('../dbTransaction', () => ({
+  runInTransaction: jest.fn((fn: any) => fn('session'))
+}));
+
+jest.mock('../currency', () => ({
+  resolveTransferAmount: jest.fn()
+}));
+
+import Transaction from '../../models/transaction';
+import RecurringTransaction from '../../models/recurringTransaction';
+import { resolveTransferAmount } from '../currency';
+import {
+  buildOccurrenceTransaction,
+  findOccurrence,
+  getOccurrenceAt,
+  getOccurrences,
+  materializeRecurringTransaction
+} from '../recurrence';
+
+const utc = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day));
+
+describe('Recurrence', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (resolveTransferAmount as jest.Mock).mockResolvedValue({ toAmount: null, resolved: true });
+  });
+
+  describe('getOccurrenceAt', () => {
+    it('should clamp monthly occurrences to the end of shorter months', () => {
+      const rule = { frequency: 'monthly' as const, interval: 1, startDate: utc(2026, 1, 31) };
+
+      expect(getOccurrenceAt(rule, 1)).toEqual(utc(2026, 2, 28));
+      expect(getOccurrenceAt(rule, 2)).toEqual(utc(2026, 3, 31));
+      expect(getOccurrenceAt(rule, 3)).toEqual(utc(2026, 4, 30));
+    });
+
+    it('should apply the interval to weekly occurrences', () => {
+      const rule = { frequency: 'weekly' as const, interval: 2, startDate: utc(2026, 1, 5) };
+
+      expect(getOccurrenceAt(rule, 2)).toEqual(utc(2026, 2, 2));
+    });
+
+    it('should keep Feb 29 on the last day of February in non-leap years', () => {
+      const rule = { frequency: 'yearly' as const, interval: 1, startDate: utc(2024, 2, 29) };
+
+      expect(getOccurrenceAt(rule, 1)).toEqual(utc(2025, 2, 28));
+      expect(getOccurrenceAt(rule, 4)).toEqual(utc(2028, 2, 29));
+    });
+  });
+
+  describe('getOccurrences', () => {
+    it('should list occurrences on or after a date', () => {
+      const rule = { frequency: 'monthly' as const, interval: 1, startDate: utc(2026, 1, 15) };
+
+      expect(getOccurrences(rule, utc(2026, 3, 16), 2)).toEqual([utc(2026, 4, 15), utc(2026, 5, 15)]);
+    });
+
+    it('should stop at the end date', () => {
+      const rule = { frequency: 'daily' as const, interval: 1, startDate: utc(2026, 1, 1), endDate: utc(2026, 1, 3) };
+
+      expect(getOccurrences(rule, utc(2026, 1, 1), 10)).toEqual([utc(2026, 1, 1), utc(2026, 1, 2), utc(2026, 1, 3)]);
+    });
+  });
+
+  describe('findOccurrence', () => {
+    it('should match an occurrence on the same UTC day', () => {
+      const rule = { frequency: 'weekly' as const, interval: 1, startDate: utc(2026, 1, 5) };
+
+      expect(findOccurrence(rule, new Date('2026-01-12T18:30:00.000Z'))).toEqual(utc(2026, 1, 12));
+      expect(findOccurrence(rule, utc(2026, 1, 13))).toBeNull();
+    });
+  });
+
+  describe('buildOccurrenceTransaction', () => {
+    it('should apply the overrides of a modified occurrence', () => {
+      const schedule: any = {
+        _id: 'schedule123',
+        fromAccount: 'account123',
+        amount: 1000,
+        description: 'Rent',
+        type: 'expense',
+        exceptions: [{ date: utc(2026, 2, 1), action: 'modify', overrides: { amount: 1200 } }]
+      };
+
+      expect(buildOccurrenceTransaction(schedule, utc(2026, 2, 1))).toEqual(expect.objectContaining({
+        amount: 1200,
+        description: 'Rent',
+        transactionDate: utc(2026, 2, 1),
+        recurringTransaction: 'schedule123',
+        recurrenceDate: utc(2026, 2, 1)
+      }));
+      expect(buildOccurrenceTransaction(schedule, utc(2026, 3, 1)).amount).toBe(1000);
+    });
+
+    it('should drop the destination amount of a transfer whose amount is overridden', () => {
+      const schedule: any = {
+        _id: 'schedule123',
+        fromAccount: 'account123',
+        toAccount: 'account456',
+        amount: 100,
+        toAmount: 5500,
+        type: 'transfer',
+        exceptions: [{ date: utc(2026, 2, 1), action: 'modify', overrides: { amount: 200 } }]
+      };
+
+      expect(buildOccurrenceTransaction(schedule, utc(2026, 2, 1)).toAmount).toBeNull();
+      expect(buildOccurrenceTransaction(schedule, utc(2026, 3, 1)).toAmount).toBe(5500);
+    });
+  });
+
+  describe('materializeRecurringTransaction', () => {
+    it('should create due occurrences except skipped ones and advance the next run date', async () => {
+      const schedule: any = {
+        _id: 'schedule123',
+        householdId: 'household123',
+        fromAccount: 'account123',
+        amount: 1000,
+        frequency: 'monthly',
+        interval: 1,
+        startDate: utc(2026, 1, 1),
+        nextRunDate: utc(2026, 1, 1),
+        isActive: true,
+        exceptions: [{ date: utc(2026, 2, 1), action: 'skip' }]
+      };
+      (RecurringTransaction.findOneAndUpdate as jest.Mock).mockResolvedValue({ ...schedule });
+      (Transaction.findOne as jest.Mock).mockResolvedValue(null);
+
+      const created = await materializeRecurringTransaction(schedule, utc(2026, 3, 10));
+
+      expect(created).toBe(2);
+      expect(RecurringTransaction.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: 'schedule123', nextRunDate: utc(2026, 1, 1) },
+        expect.objectContaining({ nextRunDate: utc(2026, 4, 1), lastRunDate: utc(2026, 3, 1) }),
+        { new: true, session: 'session' }
+      );
+      expect((Transaction as any).mockSave).toHaveBeenCalledTimes(2);
+      expect((Transaction as any).mockSave).toHaveBeenCalledWith({ session: 'session' });
+    });
+
+    it('should leave the occurrences for the next run when a save fails', async () => {
+      const schedule: any = {
+        _id: 'schedule123',
+        householdId: 'household123',
+        fromAccount: 'account123',
+        amount: 1000,
+        frequency: 'monthly',
+        interval: 1,
+        startDate: utc(2026, 1, 1),
+        nextRunDate: utc(2026, 1, 1),
+        isActive: true,
+        exceptions: []
+      };
+      (RecurringTransaction.findOneAndUpdate as jest.Mock).mockResolvedValue({ ...schedule });
+      (Transaction.findOne as jest.Mock).mockResolvedValue(null);
+      (Transaction as any).mockSave.mockRejectedValueOnce(new Error('connection lost'));
+
+      // The claim happens in the same MongoDB transaction as the save, so it is rolled back with it
+      await expect(materializeRecurringTransaction(schedule, utc(2026, 1, 10))).rejects.toThrow('connection lost');
+      expect(RecurringTransaction.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.anything(), expect.anything(), { new: true, session: 'session' }
+      );
+
+      (Transaction as any).mockSave.mockResolvedValueOnce(undefined);
+      const created = await materializeRecurringTransaction(schedule, utc(2026, 1, 10));
+
+      expect(created).toBe(1);
+      expect(Transaction).toHaveBeenLastCalledWith(expect.objectContaining({ recurrenceDate: utc(2026, 1, 1) }));
+    });
+
+    it('should convert transfers between currencies at the rate of the occurrence date', async () => {
+      const schedule: any = {
+        _id: 'schedule123',
+        householdId: 'household123',
+        fromAccount: 'account123',
+        toAccount: 'account456',
+        amount: 100,
+        type: 'transfer',
+        frequency: 'monthly',
+        interval: 1,
+        startDate: utc(2026, 1, 1),
+        nextRunDate: utc(2026, 1, 1),
+        isActive: true,
+        exceptions: []
+      };
+      (RecurringTransaction.findOneAndUpdate as jest.Mock).mockResolvedValue({ ...schedule });
+      (Transaction.findOne as jest.Mock).mockResolvedValue(null);
+      (resolveTransferAmount as jest.Mock).mockResolvedValue({ toAmount: 5600, resolved: true });
+
+      await materializeRecurringTransaction(schedule, utc(2026, 1, 10));
+
+      expect(resolveTransferAmount).toHaveBeenCalledWith('household123', expect.objectContaining({ transactionDate: utc(2026, 1, 1) }));
+      expect(Transaction).toHaveBeenCalledWith(expect.objectContaining({ amount: 100, toAmount: 5600 }));
+    });
+
+    it('should leave a transfer for the next run when no exchange rate converts it', async () => {
+      const schedule: any = {
+        _id: 'schedule123',
+        householdId: 'household123',
+        fromAccount: 'account123',
+        toAccount: 'account456',
+        amount: 100,
+        type: 'transfer',
+        frequency: 'monthly',
+        interval: 1,
+        startDate: utc(2026, 1, 1),
+        nextRunDate: utc(2026, 1, 1),
+        isActive: true,
+        exceptions: []
+      };
+      (RecurringTransaction.findOneAndUpdate as jest.Mock).mockResolvedValue({ ...schedule });
+      (Transaction.findOne as jest.Mock).mockResolvedValue(null);
+      (resolveTransferAmount as jest.Mock).mockResolvedValue({ toAmount: null, resolved: false });
+
+      await expect(materializeRecurringTransaction(schedule, utc(2026, 1, 10))).rejects.toThrow('No exchange rate');
+      expect(Transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not create anything when another run already claimed the occurrences', async () => {
+      const schedule: any = {
+        _id: 'schedule123',
+        frequency: 'daily',
+        interval: 1,
+        startDate: utc(2026, 1, 1),
+        nextRunDate: utc(2026, 1, 1),
+        isActive: true,
+        exceptions: []
+      };
+      (RecurringTransaction.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+      const created = await materializeRecurringTransaction(schedule, utc(2026, 1, 5));
+
+      expect(created).toBe(0);
+      expect(Transaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { netWorthSeries, periodKey, periodStart, periodStarts, savingsRate, summarizeGroups, summarizePeriods } from '../reports';
+
+describe('report utils', () => {
+  describe('periods', () => {
+    it('should key dates by ISO week, month and year', () => {
+      expect(periodKey(new Date(Date.UTC(2026, 0, 1)), 'week')).toBe('2026-W01');
+      expect(periodKey(new Date(Date.UTC(2027, 0, 1)), 'week')).toBe('2026-W53');
+      expect(periodKey(new Date(Date.UTC(2026, 2, 7)), 'month')).toBe('2026-03');
+      expect(periodKey(new Date(Date.UTC(2026, 2, 7)), 'year')).toBe('2026');
+    });
+
+    it('should start weeks on Monday and list every period in a range', () => {
+      expect(periodStart(new Date(Date.UTC(2026, 2, 8)), 'week')).toEqual(new Date(Date.UTC(2026, 2, 2)));
+      expect(periodStarts(new Date(Date.UTC(2025, 10, 15)), new Date(Date.UTC(2026, 1, 3)), 'month')).toEqual([
+        new Date(Date.UTC(2025, 10, 1)),
+        new Date(Date.UTC(2025, 11, 1)),
+        new Date(Date.UTC(2026, 0, 1)),
+        new Date(Date.UTC(2026, 1, 1))
+      ]);
+    });
+  });
+
+  it('should compute the savings rate only with income', () => {
+    expect(savingsRate(50000, 37500)).toBe(25);
+    expect(savingsRate(1000, 1500)).toBe(-50);
+    expect(savingsRate(0, 200)).toBeNull();
+  });
+
+  describe('summarizePeriods', () => {
+    it('should convert to the base currency, fill empty periods and report missing rates', () => {
+      const summary = summarizePeriods(
+        [
+          { period: '2026-01', type: 'income', currency: 'PHP', total: 50000, count: 1 },
+          { period: '2026-01', type: 'expense', currency: 'PHP', total: 30000, count: 10 },
+          { period: '2026-01', type: 'expense', currency: 'USD', total: 100, count: 1 },
+          { period: '2026-03', type: 'expense', currency: 'JPY', total: 5000, count: 1 }
+        ],
+        { PHP: 1, USD: 56 },
+        'month',
+        { from: new Date(Date.UTC(2026, 0, 1)), to: new Date(Date.UTC(2026, 2, 31)) }
+      );
+
+      expect(summary.periods).toEqual([
+        { period: '2026-01', start: new Date(Date.UTC(2026, 0, 1)), income: 50000, expense: 35600, net: 14400, savingsRate: 28.8, transactionCount: 12 },
+        { period: '2026-02', start: new Date(Date.UTC(2026, 1, 1)), income: 0, expense: 0, net: 0, savingsRate: null, transactionCount: 0 },
+        { period: '2026-03', start: new Date(Date.UTC(2026, 2, 1)), income: 0, expense: 0, net: 0, savingsRate: null, transactionCount: 0 }
+      ]);
+      expect(summary.totals).toEqual({ income: 50000, expense: 35600, net: 14400, savingsRate: 28.8, transactionCount: 12 });
+      expect(summary.missingRates).toEqual(['JPY']);
+    });
+
+    it('should place week keys on their Monday', () => {
+      const summary = summarizePeriods(
+        [{ period: '2026-W02', type: 'expense', total: 10, count: 1 }],
+        { PHP: 1 },
+        'week'
+      );
+
+      expect(summary.periods[0].start).toEqual(new Date(Date.UTC(2026, 0, 5)));
+    });
+  });
+
+  describe('summarizeGroups', () => {
+    it('should total each tag or payee in the base currency, biggest spending first', () => {
+      const summary = summarizeGroups(
+        [
+          { key: 'kids', type: 'expense', currency: 'PHP', total: 1200, count: 3 },
+          { key: 'vacation', type: 'expense', currency: 'PHP', total: 8000, count: 4 },
+          { key: 'vacation', type: 'expense', currency: 'USD', total: 50.5, count: 1 },
+          { key: 'reimbursable', type: 'income', total: 900, count: 1 },
+          { key: 'reimbursable', type: 'expense', total: 900, count: 1 },
+          { key: 'kids', type: 'expense', currency: 'JPY', total: 3000, count: 1 }
+        ],
+        { PHP: 1, USD: 56 }
+      );
+
+      expect(summary.totals).toEqual([
+        { key: 'vacation', income: 0, expense: 10828, net: -10828, transactionCount: 5 },
+        { key: 'kids', income: 0, expense: 1200, net: -1200, transactionCount: 3 },
+        { key: 'reimbursable', income: 900, expense: 900, net: 0, transactionCount: 2 }
+      ]);
+      expect(summary.missingRates).toEqual(['JPY']);
+    });
+  });
+
+  describe('netWorthSeries', () => {
+    const accounts = [
+      { id: 'checking', balance: 1000, liability: false },
+      { id: 'savings', balance: 100, liability: false },
+      { id: 'card', balance: -300, liability: true }
+    ];
+
+    it('should walk back from current balances to the end of each period', () => {
+      const series = netWorthSeries(
+        accounts,
+        [
+          { account: 'checking', day: '2026-02-10', amount: 500 },
+          { account: 'card', day: '2026-02-15', amount: -300 },
+          { account: 'checking', day: '2026-03-05', amount: -200 },
+          { account: 'savings', day: '2026-03-05', amount: 50 },
+          { account: 'deleted', day: '2026-03-05', amount: 999 }
+        ],
+        { savings: 2 },
+        'month',
+        { from: new Date(Date.UTC(2026, 0, 15)), to: new Date(Date.UTC(2026, 2, 20)) }
+      );
+
+      expect(series).toEqual([
+        { period: '2026-01', date: '2026-01-31', assets: 800, liabilities: 0, netWorth: 800 },
+        { period: '2026-02', date: '2026-02-28', assets: 1300, liabilities: 300, netWorth: 1000 },
+        { period: '2026-03', date: '2026-03-20', assets: 1200, liabilities: 300, netWorth: 900 }
+      ]);
+    });
+
+    it('should take daily points', () => {
+      const series = netWorthSeries(
+        [accounts[0]],
+        [{ account: 'checking', day: '2026-03-02', amount: 250 }],
+        {},
+        'day',
+        { from: new Date(Date.UTC(2026, 2, 1)), to: new Date(Date.UTC(2026, 2, 2)) }
+      );
+
+      expect(series.map(point => [point.date, point.netWorth])).toEqual([['2026-03-01', 750], ['2026-03-02', 1000]]);
+    });
+  });
+});
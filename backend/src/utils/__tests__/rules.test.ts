@@ -0,0 +1,226 @@
+jest.mock('../../models/rule', () => {
+  const MockRule = function() {};
+  MockRule.find = jest.fn();
+
+  return MockRule;
+});
+
+jest.mock('../../models/payee', () => {
+  const MockPayee = function() {};
+  MockPayee.find = jest.fn();
+
+  return MockPayee;
+});
+
+jest.mock('../../models/transaction', () => {
+  const MockTransaction = function() {};
+  MockTransaction.find = jest.fn();
+  MockTransaction.findOneAndUpdate = jest.fn();
+
+  return MockTransaction;
+});
+
+jest.mock('../dbTransaction', () => ({
+  runInTransaction: jest.fn((fn: any) => fn('session'))
+}));
+
+import Rule from '../../models/rule';
+import Payee from '../../models/payee';
+import Transaction from '../../models/transaction';
+import { applyRules, automate, automatedChanges, reapplyRules, REAPPLY_BATCH_SIZE, ruleMatches } from '../rules';
+
+const householdId = '507f1f77bcf86cd799439099';
+
+const meralco = {
+  _id: 'meralco',
+  conditions: { descriptionContains: 'MERALCO' },
+  actions: { category: 'utilities', tags: ['bills'] }
+};
+const bigBills = {
+  _id: 'big',
+  conditions: { descriptionContains: 'meralco', amountMin: 5000 },
+  actions: { category: 'big-bills', tags: ['bills', 'review'], notes: 'Check the meter reading' }
+};
+const refunds = {
+  _id: 'refunds',
+  conditions: { descriptionContains: 'refund', account: 'card' },
+  actions: { type: 'income' as const }
+};
+
+// Model.find(...).sort(...) with any number of .populate(...) calls
+function listed(result: any[]) {
+  const query: any = Promise.resolve(result);
+  query.sort = jest.fn().mockReturnValue(query);
+  query.populate = jest.fn().mockReturnValue(query);
+  query.limit = jest.fn().mockReturnValue(query);
+  return query;
+}
+
+describe('rule utils', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('ruleMatches', () => {
+    it('should need every condition to hold', () => {
+      expect(ruleMatches(meralco, { description: 'Meralco bill #88120', amount: 3200 })).toBe(true);
+      expect(ruleMatches(bigBills, { description: 'MERALCO', amount: 3200 })).toBe(false);
+      expect(ruleMatches(bigBills, { description: 'MERALCO', amount: 5000 })).toBe(true);
+      expect(ruleMatches(refunds, { description: 'Refund', fromAccount: 'cash' })).toBe(false);
+      expect(ruleMatches(refunds, { description: 'Refund', fromAccount: 'card' })).toBe(true);
+    });
+
+    it('should also look for the text in the normalized description', () => {
+      const grab = { conditions: { descriptionContains: 'grab ride' }, actions: { category: 'transport' } };
+
+      expect(ruleMatches(grab, { description: 'GRAB *RIDE 1234' })).toBe(true);
+      expect(ruleMatches(grab, { description: 'Grab food' })).toBe(false);
+    });
+
+    it('should match on the payee and never without conditions', () => {
+      const payeeRule = { conditions: { payee: 'grab' }, actions: { category: 'transport' } };
+
+      expect(ruleMatches(payeeRule, { payee: { _id: 'grab' } })).toBe(true);
+      expect(ruleMatches(payeeRule, { payee: null })).toBe(false);
+      expect(ruleMatches({ conditions: {}, actions: { category: 'x' } }, { description: 'anything' })).toBe(false);
+    });
+  });
+
+  describe('applyRules', () => {
+    it('should let the first rule to set a field win and add up tags', () => {
+      const { data, matched } = applyRules([meralco, bigBills], { description: 'MERALCO', amount: 6400, type: 'expense', tags: ['home'] });
+
+      expect(matched).toEqual(['meralco', 'big']);
+      expect(data).toEqual({
+        description: 'MERALCO',
+        amount: 6400,
+        type: 'expense',
+        category: 'utilities',
+        tags: ['home', 'bills', 'review'],
+        notes: 'Check the meter reading'
+      });
+    });
+
+    it('should keep a category, split lines, notes and transfers', () => {
+      expect(applyRules([bigBills], { description: 'MERALCO', amount: 6400, category: 'rent', notes: 'Paid late' }).data)
+        .toMatchObject({ category: 'rent', notes: 'Paid late' });
+      expect(applyRules([meralco], { description: 'MERALCO', splits: [{ category: 'rent', amount: 1 }] }).data)
+        .not.toHaveProperty('category');
+      expect(applyRules([meralco, refunds], { description: 'MERALCO refund', type: 'transfer', fromAccount: 'card' }).data)
+        .toMatchObject({ type: 'transfer', tags: ['bills'] });
+      expect(applyRules([refunds], { description: 'Refund', type: 'expense', fromAccount: 'card' }).data.type).toBe('income');
+    });
+
+    it('should skip deleted categories and tags', () => {
+      const stale = {
+        conditions: { descriptionContains: 'meralco' },
+        actions: { category: { _id: 'old', isDeleted: true }, tags: [{ _id: 'bills', isDeleted: false }, { _id: 'gone', isDeleted: true }] }
+      };
+
+      expect(applyRules([stale], { description: 'MERALCO' }).data).toEqual({ description: 'MERALCO', tags: ['bills'] });
+    });
+  });
+
+  describe('automate', () => {
+    const grab = { _id: 'grab', name: 'Grab', aliases: [], defaultCategory: { _id: 'transport', type: 'Expense' } };
+
+    it('should match the payee first, then run rules before the payee default category', () => {
+      const airport = { _id: 'airport', conditions: { payee: 'grab', amountMin: 500 }, actions: { category: 'travel' } };
+      const automation = { payees: [grab], rules: [airport] };
+
+      expect(automate(automation, { description: 'GRAB 221', amount: 700, type: 'expense' }))
+        .toMatchObject({ payee: 'grab', category: 'travel' });
+      expect(automate(automation, { description: 'GRAB 221', amount: 120, type: 'expense' }))
+        .toMatchObject({ payee: 'grab', category: 'transport' });
+    });
+  });
+
+  describe('automatedChanges', () => {
+    it('should compare references and tags by ID', () => {
+      expect(automatedChanges(
+        { category: { _id: 'food' }, tags: [{ _id: 'a' }, { _id: 'b' }], payee: null, notes: 'x' },
+        { category: 'food', tags: ['b', 'a'], payee: 'grab', notes: 'x', type: 'expense' }
+      )).toEqual({ payee: 'grab', type: 'expense' });
+    });
+  });
+
+  describe('reapplyRules', () => {
+    const recorded = (id: string, fields: any) => ({ _id: id, toObject: () => ({ _id: id, ...fields }) });
+
+    beforeEach(() => {
+      (Payee.find as jest.Mock).mockReturnValue(listed([]));
+      (Rule.find as jest.Mock).mockReturnValue(listed([meralco]));
+      (Transaction.find as jest.Mock).mockReturnValue(listed([
+        recorded('t1', { description: 'MERALCO', amount: 3000, type: 'expense', tags: [] }),
+        recorded('t2', { description: 'Groceries', amount: 900, type: 'expense', tags: [] })
+      ]));
+    });
+
+    it('should update the transactions the rules change', async () => {
+      const result = await reapplyRules(householdId, 'user123', { from: '2026-01-01' });
+
+      expect(Rule.find).toHaveBeenCalledWith({ householdId, enabled: true, isDeleted: { $ne: true } });
+      expect(Transaction.find).toHaveBeenCalledWith(expect.objectContaining({
+        householdId,
+        transactionDate: { $gte: new Date('2026-01-01') }
+      }));
+      expect(result).toEqual({
+        transactions: [{ id: 't1', changes: { category: 'utilities', tags: ['bills'] } }],
+        applied: 1,
+        error: null
+      });
+      expect(Transaction.findOneAndUpdate).toHaveBeenCalledTimes(1);
+      expect(Transaction.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: 't1', householdId },
+        {
+          $set: { category: 'utilities', tags: ['bills'], updatedAt: expect.any(Number), lastModifiedBy: 'user123' },
+          $inc: { syncVersion: 1 }
+        },
+        { new: true, session: 'session' }
+      );
+    });
+
+    it('should only report the changes on a dry run', async () => {
+      const result = await reapplyRules(householdId, 'user123', { dryRun: true });
+
+      expect(result.transactions).toHaveLength(1);
+      expect(result.applied).toBe(0);
+      expect(Transaction.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should write each batch in its own transaction, continuing after the last ID', async () => {
+      const { runInTransaction } = jest.requireMock('../dbTransaction');
+      const bills = Array.from({ length: REAPPLY_BATCH_SIZE + 1 }, (_, i) =>
+        recorded(`t${i}`, { description: 'MERALCO', amount: 3000, type: 'expense', tags: [] }));
+      (Transaction.find as jest.Mock)
+        .mockReturnValueOnce(listed(bills.slice(0, REAPPLY_BATCH_SIZE)))
+        .mockReturnValueOnce(listed(bills.slice(REAPPLY_BATCH_SIZE)));
+
+      const result = await reapplyRules(householdId, 'user123');
+
+      expect(Transaction.find).toHaveBeenCalledTimes(2);
+      expect(Transaction.find).toHaveBeenLastCalledWith(expect.objectContaining({ _id: { $gt: `t${REAPPLY_BATCH_SIZE - 1}` } }));
+      expect(runInTransaction).toHaveBeenCalledTimes(2);
+      expect(result.applied).toBe(REAPPLY_BATCH_SIZE + 1);
+      expect(result.error).toBeNull();
+    });
+
+    it('should keep the batches written before one fails', async () => {
+      const { runInTransaction } = jest.requireMock('../dbTransaction');
+      const bills = Array.from({ length: REAPPLY_BATCH_SIZE + 1 }, (_, i) =>
+        recorded(`t${i}`, { description: 'MERALCO', amount: 3000, type: 'expense', tags: [] }));
+      (Transaction.find as jest.Mock)
+        .mockReturnValueOnce(listed(bills.slice(0, REAPPLY_BATCH_SIZE)))
+        .mockReturnValueOnce(listed(bills.slice(REAPPLY_BATCH_SIZE)));
+      runInTransaction
+        .mockImplementationOnce((fn: any) => fn('session'))
+        .mockRejectedValueOnce(new Error('Transaction exceeded time limit'));
+
+      const result = await reapplyRules(householdId, 'user123');
+
+      expect(result.applied).toBe(REAPPLY_BATCH_SIZE);
+      expect(result.transactions).toHaveLength(REAPPLY_BATCH_SIZE);
+      expect(result.error).toBe('Transaction exceeded time limit');
+    });
+  });
+});
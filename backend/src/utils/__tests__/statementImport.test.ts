@@ -0,0 +1,114 @@
+jest.mock('../../models/transaction', () => {
+  const MockTransaction = function() {};
+  MockTransaction.find = jest.fn();
+
+  return MockTransaction;
+});
+
+jest.mock('../../models/category', () => {
+  const MockCategory = function() {};
+  MockCategory.find = jest.fn();
+
+  return MockCategory;
+});
+
+import Transaction from '../../models/transaction';
+import Category from '../../models/category';
+import { flagDuplicates, flagImported, matchCategoryNames, StatementRow } from '../statementImport';
+
+const householdId = '507f1f77bcf86cd799439099';
+const accountId = '507f1f77bcf86cd799439011';
+
+function statementRow(row: number, day: number, amount: number, type: 'income' | 'expense' = 'expense'): StatementRow {
+  return { row, transactionDate: new Date(Date.UTC(2026, 0, day)), amount, type, description: `Row ${row}` };
+}
+
+describe('statement import utils', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('flagDuplicates', () => {
+    it('should flag rows already recorded on the account, once per recorded transaction', async () => {
+      (Transaction.find as jest.Mock).mockResolvedValue([
+        { transactionDate: new Date(Date.UTC(2026, 0, 5, 9, 30)), amount: 150, type: 'expense' }
+      ]);
+
+      const flags = await flagDuplicates(householdId, accountId, [
+        statementRow(2, 5, 150),
+        statementRow(3, 5, 150),
+        statementRow(4, 5, 150, 'income'),
+        statementRow(5, 6, 150)
+      ]);
+
+      expect(flags).toEqual([true, false, false, false]);
+      expect(Transaction.find).toHaveBeenCalledWith(expect.objectContaining({
+        householdId,
+        fromAccount: accountId,
+        isDeleted: { $ne: true }
+      }));
+    });
+
+    it('should not query without rows', async () => {
+      expect(await flagDuplicates(householdId, accountId, [])).toEqual([]);
+      expect(Transaction.find).not.toHaveBeenCalled();
+    });
+
+    it('should only match referenced rows against transactions without a reference', async () => {
+      (Transaction.find as jest.Mock).mockResolvedValue([
+        { transactionDate: new Date(Date.UTC(2026, 0, 5)), amount: 150, type: 'expense', externalId: 'A1' },
+        { transactionDate: new Date(Date.UTC(2026, 0, 5)), amount: 150, type: 'expense' }
+      ]);
+
+      const flags = await flagDuplicates(householdId, accountId, [
+        { ...statementRow(2, 5, 150), externalId: 'B2' },
+        { ...statementRow(3, 5, 150), externalId: 'C3' }
+      ]);
+
+      expect(flags).toEqual([true, false]);
+    });
+  });
+
+  describe('flagImported', () => {
+    it('should flag rows whose reference was imported before, deleted or not', async () => {
+      (Transaction.find as jest.Mock).mockResolvedValue([{ externalId: 'A1' }]);
+
+      const flags = await flagImported(householdId, accountId, [
+        { ...statementRow(2, 5, 150), externalId: 'A1' },
+        { ...statementRow(3, 5, 150), externalId: 'B2' },
+        statementRow(4, 5, 150)
+      ]);
+
+      expect(flags).toEqual([true, false, false]);
+      expect(Transaction.find).toHaveBeenCalledWith({
+        householdId,
+        fromAccount: accountId,
+        externalId: { $in: ['A1', 'B2'] }
+      });
+    });
+
+    it('should not query when no row has a reference', async () => {
+      expect(await flagImported(householdId, accountId, [statementRow(2, 5, 150)])).toEqual([false]);
+      expect(Transaction.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('matchCategoryNames', () => {
+    it('should match names case-insensitively within the transaction type', async () => {
+      (Category.find as jest.Mock).mockResolvedValue([
+        { _id: 'groceries', name: 'Groceries', type: 'Expense' },
+        { _id: 'bonus', name: 'Bonus', type: 'Income' }
+      ]);
+
+      const matches = await matchCategoryNames(householdId, [
+        { type: 'expense', categoryName: ' groceries ' },
+        { type: 'expense', categoryName: 'Bonus' },
+        { type: 'income', categoryName: 'bonus' },
+        { type: 'income' }
+      ]);
+
+      expect(matches).toEqual(['groceries', null, 'bonus', null]);
+      expect(Category.find).toHaveBeenCalledWith({ householdId, isDeleted: { $ne: true } });
+    });
+  });
+});
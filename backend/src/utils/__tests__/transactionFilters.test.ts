@@ -0,0 +1,83 @@
+jest.mock('../../models/category', () => ({
+  getAllDescendantIds: jest.fn()
+}));
+
+import mongoose from 'mongoose';
+import { getAllDescendantIds } from '../../models/category';
+import { buildTransactionFilter } from '../transactionFilters';
+
+const householdId = '507f1f77bcf86cd799439099';
+const accountId = '507f1f77bcf86cd799439011';
+const foodId = '507f1f77bcf86cd799439021';
+const groceriesId = '507f1f77bcf86cd799439022';
+const id = (value: string) => new mongoose.Types.ObjectId(value);
+
+describe('buildTransactionFilter', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should scope to the household and leave deleted transactions out by default', async () => {
+    expect(await buildTransactionFilter(householdId, {})).toEqual({
+      householdId: id(householdId),
+      isDeleted: { $ne: true }
+    });
+    expect(await buildTransactionFilter(householdId, {}, { includeDeleted: true })).toEqual({ householdId: id(householdId) });
+    // The parameter wins over the caller's default
+    expect(await buildTransactionFilter(householdId, { includeDeleted: 'false' }, { includeDeleted: true }))
+      .toEqual(expect.objectContaining({ isDeleted: { $ne: true } }));
+  });
+
+  it('should combine amount, type, account, text and date conditions', async () => {
+    const filter = await buildTransactionFilter(householdId, {
+      account: accountId,
+      type: 'income,expense',
+      amountMin: '100',
+      amountMax: '250.50',
+      q: 'jollibee "birthday party"',
+      fromDate: '2026-01-01',
+      toDate: '2026-01-31T23:59:59.999Z'
+    });
+
+    expect(filter.$text).toEqual({ $search: 'jollibee "birthday party"' });
+    expect(filter.transactionDate.$gte).toEqual(new Date('2026-01-01'));
+    expect(filter.transactionDate.$lte.getHours()).toBe(23);
+    expect(filter.transactionDate.$lte.getMinutes()).toBe(59);
+    expect(filter.$and).toEqual([
+      { $or: [{ fromAccount: id(accountId) }, { toAccount: id(accountId) }] },
+      { type: { $in: ['income', 'expense'] } },
+      { amount: { $gte: 100, $lte: 250.5 } }
+    ]);
+  });
+
+  it('should match a category subtree, split lines included, only when asked', async () => {
+    (getAllDescendantIds as jest.Mock).mockResolvedValue([foodId, groceriesId]);
+
+    const direct = await buildTransactionFilter(householdId, { category: foodId });
+    expect(getAllDescendantIds).not.toHaveBeenCalled();
+    expect(direct.$and).toEqual([
+      { $or: [{ category: { $in: [id(foodId)] } }, { 'splits.category': { $in: [id(foodId)] } }] }
+    ]);
+
+    const subtree = await buildTransactionFilter(householdId, { category: foodId, includeSubcategories: 'true' });
+    expect(getAllDescendantIds).toHaveBeenCalledWith(householdId, foodId);
+    expect(subtree.$and[0].$or[0]).toEqual({ category: { $in: [id(foodId), id(groceriesId)] } });
+  });
+
+  it('should find income and expenses with neither a category nor split lines', async () => {
+    const filter = await buildTransactionFilter(householdId, { uncategorized: 'true', tag: `${foodId},${groceriesId}`, tagMatch: 'all' });
+
+    expect(filter.$and).toEqual([
+      { type: { $ne: 'transfer' }, category: null, 'splits.0': { $exists: false } },
+      { tags: { $all: [id(foodId), id(groceriesId)] } }
+    ]);
+  });
+
+  it('should take in transactions from anywhere on the toDate day', async () => {
+    const filter = await buildTransactionFilter(householdId, { fromDate: '2026-01-01', toDate: '2026-01-31' });
+
+    expect(filter.transactionDate.$lte.getTime()).toBeGreaterThanOrEqual(new Date('2026-01-31T12:00:00.000Z').getTime());
+    expect(filter.transactionDate.$lte.getTime()).toBeLessThan(new Date('2026-02-01T00:00:00.000Z').getTime());
+    expect(filter.transactionDate.$lte.getMilliseconds()).toBe(999);
+  });
+});
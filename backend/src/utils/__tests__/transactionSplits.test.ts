@@ -0,0 +1,53 @@
+import { categoriesOf, normalizeSplits, splitsMatchTotal } from '../transactionSplits';
+
+const groceriesId = '507f1f77bcf86cd799439021';
+const householdItemsId = '507f1f77bcf86cd799439022';
+
+describe('transaction split utils', () => {
+  describe('splitsMatchTotal', () => {
+    it('should accept a transaction without split lines', () => {
+      expect(splitsMatchTotal(undefined, 100)).toBe(true);
+      expect(splitsMatchTotal([], 100)).toBe(true);
+    });
+
+    it('should accept lines that add up to the amount despite rounding', () => {
+      expect(splitsMatchTotal([
+        { category: groceriesId, amount: 33.33 },
+        { category: householdItemsId, amount: 33.33 },
+        { category: householdItemsId, amount: 33.34 }
+      ], 100)).toBe(true);
+    });
+
+    it('should reject lines that do not add up to the amount', () => {
+      expect(splitsMatchTotal([
+        { category: groceriesId, amount: 50 },
+        { category: householdItemsId, amount: 49 }
+      ], 100)).toBe(false);
+    });
+  });
+
+  describe('categoriesOf', () => {
+    it('should return the split line categories instead of the category', () => {
+      expect(categoriesOf({
+        category: householdItemsId,
+        splits: [{ category: groceriesId, amount: 10 }]
+      })).toEqual([groceriesId]);
+    });
+
+    it('should return the single category without split lines', () => {
+      expect(categoriesOf({ category: groceriesId })).toEqual([groceriesId]);
+      expect(categoriesOf({})).toEqual([]);
+    });
+  });
+
+  describe('normalizeSplits', () => {
+    it('should clear the category when split lines are given', () => {
+      const splits = [{ category: groceriesId, amount: 10 }];
+      expect(normalizeSplits({ category: householdItemsId, splits })).toEqual({ category: null, splits });
+    });
+
+    it('should drop old split lines when only a category is given', () => {
+      expect(normalizeSplits({ category: householdItemsId })).toEqual({ splits: [] });
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Attachment storage: where receipt and document files live, behind one small interface
+ * The local filesystem driver serves development and tests; the S3 driver talks to any S3-compatible
+ * service with signed requests (AWS Signature Version 4), so the serverless deploy needs no extra SDK
+ */
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface AttachmentStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>; // Deleting a missing file is not an error
+}
+
+/**
+ * Files under a root directory, one per key
+ */
+export function createLocalStorage(root: string): AttachmentStorage {
+  const base = path.resolve(root);
+  // Keys are generated, but never let one point outside the root
+  const fileFor = (key: string): string => {
+    const file = path.resolve(base, key);
+    if (!file.startsWith(base + path.sep)) {
+      throw new Error(`Invalid attachment key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    async put(key, data) {
+      const file = fileFor(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, data);
+    },
+    async get(key) {
+      return fs.readFile(fileFor(key));
+    },
+    async delete(key) {
+      await fs.rm(fileFor(key), { force: true });
+    }
+  };
+}
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  endpoint?: string; // For S3-compatible services; AWS S3 in the region otherwise
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string; // Temporary credentials, as Lambda provides
+}
+
+const sha256 = (data: string | Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string): Buffer => crypto.createHmac('sha256', key).update(data).digest();
+
+/**
+ * Objects in an S3 bucket, addressed path-style so S3-compatible services work the same
+ */
+export function createS3Storage(config: S3StorageConfig, request: typeof fetch = fetch): AttachmentStorage {
+  const endpoint = (config.endpoint || `https://s3.${config.region}.amazonaws.com`).replace(/\/+$/, '');
+
+  const send = async (method: 'PUT' | 'GET' | 'DELETE', key: string, body?: Buffer, contentType?: string) => {
+    const url = new URL(`${endpoint}/${config.bucket}/${key.split('/').map(encodeURIComponent).join('/')}`);
+    const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, '');
+    const day = amzDate.slice(0, 8);
+    const payloadHash = sha256(body || '');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+    if (contentType) headers['content-type'] = contentType;
+    if (config.sessionToken) headers['x-amz-security-token'] = config.sessionToken;
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...signedHeaders.map(name => `${name}:${headers[name]}`),
+      '',
+      signedHeaders.join(';'),
+      payloadHash
+    ].join('\n');
+    const scope = `${day}/${config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (signing, part) => hmac(signing, part),
+      hmac(hmac(`AWS4${config.secretAccessKey}`, day), config.region)
+    );
+    const signature = hmac(signingKey, stringToSign).toString('hex');
+
+    const { host, ...sent } = headers;
+    const response = await request(url, {
+      method,
+      headers: {
+        ...sent,
+        authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`
+      },
+      body
+    });
+    // S3 answers 404 for a missing object, which a delete may ignore
+    if (!response.ok && !(method === 'DELETE' && response.status === 404)) {
+      throw new Error(`Attachment storage ${method} ${key} failed with status ${response.status}`);
+    }
+    return response;
+  };
+
+  return {
+    async put(key, data, contentType) {
+      await send('PUT', key, data, contentType);
+    },
+    async get(key) {
+      const response = await send('GET', key);
+      return Buffer.from(await response.arrayBuffer());
+    },
+    async delete(key) {
+      await send('DELETE', key);
+    }
+  };
+}
+
+let storage: AttachmentStorage | null = null;
+
+/**
+ * The configured storage: ATTACHMENT_STORAGE=s3 with ATTACHMENT_BUCKET (and optionally ATTACHMENT_S3_ENDPOINT
+ * and ATTACHMENT_S3_REGION) and the AWS credentials from the environment, else files under ATTACHMENT_DIR
+ */
+export function getAttachmentStorage(): AttachmentStorage {
+  if (storage) {
+    return storage;
+  }
+
+  if (process.env.ATTACHMENT_STORAGE === 's3') {
+    const { ATTACHMENT_BUCKET, AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY } = process.env;
+    if (!ATTACHMENT_BUCKET || !AWS_ACCESS_KEY_ID || !AWS_SECRET_ACCESS_KEY) {
+      throw new Error('S3 attachment storage needs ATTACHMENT_BUCKET and AWS credentials');
+    }
+    storage = createS3Storage({
+      bucket: ATTACHMENT_BUCKET,
+      region: process.env.ATTACHMENT_S3_REGION || process.env.AWS_REGION || 'us-east-1',
+      endpoint: process.env.ATTACHMENT_S3_ENDPOINT,
+      accessKeyId: AWS_ACCESS_KEY_ID,
+      secretAccessKey: AWS_SECRET_ACCESS_KEY,
+      sessionToken: process.env.AWS_SESSION_TOKEN
+    });
+  } else {
+    storage = createLocalStorage(process.env.ATTACHMENT_DIR || path.join(process.cwd(), 'attachments'));
+  }
+  return storage;
+}
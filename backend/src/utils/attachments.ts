@@ -0,0 +1,44 @@
+/**
+ * Attachment limits and checks: which files a transaction may carry and how they are stored
+ */
+
+// Base64 grows a file by a third, so 4 MB keeps an upload under Lambda's 6 MB request payload limit
+export const MAX_ATTACHMENT_BYTES = 4 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_TRANSACTION = 10;
+
+// Receipt photos and PDF invoices; HEIC is what phone cameras save by default
+export const ALLOWED_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'];
+
+/**
+ * Content type a file's first bytes identify, so a declared type cannot smuggle in something else
+ * @returns One of the allowed types, or null when the bytes match none of them
+ */
+export function detectContentType(data: Buffer): string | null {
+  const starts = (bytes: number[], offset = 0) => bytes.every((byte, i) => data[offset + i] === byte);
+
+  if (starts([0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (starts([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (starts([0x25, 0x50, 0x44, 0x46, 0x2d])) return 'application/pdf'; // %PDF-
+  if (starts([0x52, 0x49, 0x46, 0x46]) && starts([0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp'; // RIFF....WEBP
+  // ISO media box "ftyp" with a HEIF brand
+  if (starts([0x66, 0x74, 0x79, 0x70], 4)) {
+    const brand = data.subarray(8, 12).toString('latin1');
+    if (['heic', 'heix', 'heim', 'heis', 'mif1', 'msf1'].includes(brand)) return 'image/heic';
+  }
+  return null;
+}
+
+/**
+ * Storage key of an attachment, grouping a household's files by transaction
+ */
+export function attachmentKey(householdId: string, transactionId: string, attachmentId: string): string {
+  return `${householdId}/${transactionId}/${attachmentId}`;
+}
+
+/**
+ * Transaction data without the attachment count, which only the attachment endpoints change
+ */
+export function withoutAttachmentCount<T extends Record<string, any>>(data: T): T {
+  const { attachmentCount, ...rest } = data;
+  return rest as T;
+}
@@ -0,0 +1,103 @@
+/**
+ * Password hashing and JWT helpers for user authentication
+ */
+import { Request } from "express";
+import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+
+const PASSWORD_SALT_ROUNDS = 10;
+const ACCESS_TOKEN_EXPIRES_IN = process.env.JWT_ACCESS_EXPIRES_IN || '15m';
+const REFRESH_TOKEN_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || '30d';
+
+export interface AccessTokenPayload {
+  sub: string;
+  email: string;
+  householdId: string;
+  version: number;
+  type: 'access';
+}
+
+export interface RefreshTokenPayload {
+  sub: string;
+  version: number;
+  type: 'refresh';
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: string;
+}
+
+function getSecret(name: 'JWT_SECRET' | 'JWT_REFRESH_SECRET'): string {
+  const secret = process.env[name];
+  if (!secret) {
+    throw new Error(`${name} is not configured`);
+  }
+  return secret;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, PASSWORD_SALT_ROUNDS);
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  return bcrypt.compare(password, passwordHash);
+}
+
+/**
+ * Issue an access/refresh token pair for a user
+ * @param user - User id, email, household and current token version
+ * @returns Signed tokens
+ */
+export function issueTokens(user: { id: string; email: string; householdId: string; tokenVersion: number }): AuthTokens {
+  const accessPayload: AccessTokenPayload = {
+    sub: user.id,
+    email: user.email,
+    householdId: user.householdId,
+    version: user.tokenVersion,
+    type: 'access'
+  };
+  const refreshPayload: RefreshTokenPayload = { sub: user.id, version: user.tokenVersion, type: 'refresh' };
+
+  return {
+    accessToken: jwt.sign(accessPayload, getSecret('JWT_SECRET'), { expiresIn: ACCESS_TOKEN_EXPIRES_IN } as jwt.SignOptions),
+    refreshToken: jwt.sign(refreshPayload, getSecret('JWT_REFRESH_SECRET'), { expiresIn: REFRESH_TOKEN_EXPIRES_IN } as jwt.SignOptions),
+    expiresIn: ACCESS_TOKEN_EXPIRES_IN
+  };
+}
+
+/**
+ * Verify an access token
+ * @throws jwt.TokenExpiredError when the token has expired, jwt.JsonWebTokenError when it is invalid
+ */
+export function verifyAccessToken(token: string): AccessTokenPayload {
+  const payload = jwt.verify(token, getSecret('JWT_SECRET')) as AccessTokenPayload;
+  if (payload.type !== 'access') {
+    throw new jwt.JsonWebTokenError('Invalid token type');
+  }
+  return payload;
+}
+
+/**
+ * Verify a refresh token
+ * @throws jwt.TokenExpiredError when the token has expired, jwt.JsonWebTokenError when it is invalid
+ */
+export function verifyRefreshToken(token: string): RefreshTokenPayload {
+  const payload = jwt.verify(token, getSecret('JWT_REFRESH_SECRET')) as RefreshTokenPayload;
+  if (payload.type !== 'refresh') {
+    throw new jwt.JsonWebTokenError('Invalid token type');
+  }
+  return payload;
+}
+
+/**
+ * Identify who made a change, for the lastModifiedBy field
+ * Records the authenticated user, falling back to the device id for unauthenticated callers
+ */
+export function getModifiedBy(req: Request): string {
+  if (req.user) {
+    return req.user.id;
+  }
+  return req.body?.deviceId || req.headers['x-device-id'] as string || 'system';
+}
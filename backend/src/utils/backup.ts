@@ -0,0 +1,660 @@
+/**
+ * Household backups: a versioned JSON archive of accounts, categories, tags, payees, transactions, budgets,
+ * exchange rates, recurring schedules and rules, per-entity CSV for spreadsheets, and restoring an archive
+ * into an empty household
+ */
+import mongoose from "mongoose";
+import Account from "../models/account";
+import Budget from "../models/budget";
+import Category from "../models/category";
+import ExchangeRate from "../models/exchangeRate";
+import Household from "../models/household";
+import Payee from "../models/payee";
+import RecurringTransaction from "../models/recurringTransaction";
+import Rule from "../models/rule";
+import Tag from "../models/tag";
+import Transaction from "../models/transaction";
+import { recalculateHouseholdBalances } from "./balances";
+import { toCsv } from "./csv";
+import { NOT_DELETED_FILTER } from "./softDelete";
+
+// Bump when the archive layout changes; restore rejects versions it doesn't know
+export const BACKUP_VERSION = 1;
+
+export type BackupEntity = 'accounts' | 'categories' | 'tags' | 'payees' | 'transactions' | 'budgets';
+
+export interface BackupAccount {
+  id: string;
+  name: string;
+  description?: string;
+  currency?: string;
+  type?: 'debit' | 'credit' | 'wallet';
+  icon?: string;
+  color?: string;
+  includeInTotal?: boolean;
+  creditLimit?: number | null;
+  order?: number;
+  externalAccountId?: string;
+  balance?: number; // Informational; restore recomputes balances from the transactions
+  isDeleted?: boolean;
+}
+
+export interface BackupCategory {
+  id: string;
+  name: string;
+  description?: string;
+  icon?: string;
+  color?: string;
+  type?: 'Income' | 'Expense';
+  parent?: string | null;
+  order?: number;
+  isDeleted?: boolean;
+}
+
+export interface BackupTag {
+  id: string;
+  name: string;
+  color?: string;
+  isDeleted?: boolean;
+}
+
+export interface BackupPayee {
+  id: string;
+  name: string;
+  aliases?: string[];
+  defaultCategory?: string | null;
+  isDeleted?: boolean;
+}
+
+export interface BackupTransaction {
+  id: string;
+  transactionDate: string;
+  fromAccount: string;
+  toAccount?: string | null;
+  category?: string | null;
+  splits?: Array<{ category: string; amount: number; notes?: string }>;
+  tags?: string[];
+  payee?: string | null;
+  amount: number;
+  toAmount?: number | null;
+  description?: string;
+  notes?: string;
+  type?: 'income' | 'expense' | 'transfer';
+  externalId?: string;
+  recurringTransaction?: string | null;
+  recurrenceDate?: string | null;
+  isDeleted?: boolean;
+  deletedAt?: string | null;
+}
+
+export interface BackupBudget {
+  id: string;
+  category: string;
+  includeSubcategories?: boolean;
+  amount: number;
+  period?: 'monthly' | 'yearly';
+  startDate: string;
+  endDate?: string | null;
+  notes?: string;
+  isDeleted?: boolean;
+}
+
+export interface BackupExchangeRate {
+  id: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  date: string;
+  source?: 'manual' | 'import';
+  isDeleted?: boolean;
+}
+
+export interface BackupRecurringTransaction {
+  id: string;
+  fromAccount: string;
+  toAccount?: string | null;
+  category?: string | null;
+  amount: number;
+  toAmount?: number | null;
+  description?: string;
+  notes?: string;
+  type?: 'income' | 'expense' | 'transfer';
+  frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval?: number;
+  startDate: string;
+  endDate?: string | null;
+  nextRunDate?: string | null;
+  lastRunDate?: string | null;
+  isActive?: boolean;
+  exceptions?: Array<{
+    date: string;
+    action: 'skip' | 'modify';
+    overrides?: {
+      amount?: number;
+      toAmount?: number;
+      description?: string;
+      notes?: string;
+      category?: string;
+      fromAccount?: string;
+      toAccount?: string;
+    };
+  }>;
+  isDeleted?: boolean;
+}
+
+export interface BackupRule {
+  id: string;
+  name: string;
+  priority?: number;
+  enabled?: boolean;
+  conditions: {
+    descriptionContains?: string | null;
+    amountMin?: number | null;
+    amountMax?: number | null;
+    account?: string | null;
+    payee?: string | null;
+  };
+  actions: {
+    category?: string | null;
+    tags?: string[];
+    type?: 'income' | 'expense' | null;
+    notes?: string | null;
+  };
+  isDeleted?: boolean;
+}
+
+export interface BackupArchive {
+  version: number;
+  exportedAt?: string;
+  household?: { name: string; baseCurrency?: string };
+  accounts: BackupAccount[];
+  categories: BackupCategory[];
+  tags?: BackupTag[];
+  payees?: BackupPayee[];
+  transactions: BackupTransaction[];
+  budgets?: BackupBudget[];
+  exchangeRates?: BackupExchangeRate[];
+  recurringTransactions?: BackupRecurringTransaction[];
+  rules?: BackupRule[];
+}
+
+const idOf = (value: any): string | null => value ? value.toString() : null;
+const isoDate = (value: any): string | null => value ? new Date(value).toISOString() : null;
+
+// Parents before their children, so the archive reads (and restores) top-down
+function treeOrder<T extends { id: string; parent?: string | null }>(categories: T[]): T[] {
+  const ids = new Set(categories.map(category => category.id));
+  const ordered: T[] = [];
+  const placed = new Set<string>();
+  let pending = categories;
+  while (pending.length > 0) {
+    const ready = pending.filter(category => !category.parent || !ids.has(category.parent) || placed.has(category.parent));
+    if (ready.length === 0) {
+      // Whatever is left forms a cycle; keep it rather than dropping data
+      return [...ordered, ...pending];
+    }
+    ready.forEach(category => placed.add(category.id));
+    ordered.push(...ready);
+    pending = pending.filter(category => !placed.has(category.id));
+  }
+  return ordered;
+}
+
+/**
+ * Build the backup archive of a household
+ * Accounts, categories, tags, payees and recurring schedules are always complete so every reference resolves;
+ * soft-deleted transactions, budgets, exchange rates and rules are only included on request
+ * @param options.transactionFilter - Picks the transactions instead, e.g. from buildTransactionFilter
+ */
+export async function createBackup(
+  householdId: string,
+  options: { includeDeleted?: boolean; transactionFilter?: any } = {}
+): Promise<BackupArchive> {
+  const deletedFilter = options.includeDeleted ? {} : NOT_DELETED_FILTER;
+  const [
+    household, accounts, categories, tags, payees, transactions, budgets, exchangeRates, recurringTransactions, rules
+  ] = await Promise.all([
+    Household.findById(householdId).lean(),
+    Account.find({ householdId }).sort({ order: 1 }).lean(),
+    Category.find({ householdId }).sort({ order: 1 }).lean(),
+    Tag.find({ householdId }).sort({ name: 1 }).lean(),
+    Payee.find({ householdId }).sort({ name: 1 }).lean(),
+    Transaction.find(options.transactionFilter || { householdId, ...deletedFilter }).sort({ transactionDate: 1 }).lean(),
+    Budget.find({ householdId, ...deletedFilter }).sort({ startDate: 1 }).lean(),
+    ExchangeRate.find({ householdId, ...deletedFilter }).sort({ date: 1 }).lean(),
+    RecurringTransaction.find({ householdId }).sort({ startDate: 1 }).lean(),
+    Rule.find({ householdId, ...deletedFilter }).sort({ priority: 1 }).lean()
+  ]);
+
+  return {
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    household: household ? { name: household.name, baseCurrency: household.baseCurrency } : undefined,
+    accounts: accounts.map(account => ({
+      id: idOf(account._id)!,
+      name: account.name,
+      description: account.description,
+      currency: account.currency,
+      type: account.type as BackupAccount['type'],
+      icon: account.icon,
+      color: account.color,
+      includeInTotal: account.includeInTotal,
+      creditLimit: account.creditLimit ?? null,
+      order: account.order,
+      externalAccountId: account.externalAccountId,
+      balance: account.balance,
+      isDeleted: account.isDeleted || false
+    })),
+    categories: treeOrder(categories.map(category => ({
+      id: idOf(category._id)!,
+      name: category.name,
+      description: category.description,
+      icon: category.icon,
+      color: category.color,
+      type: category.type,
+      parent: idOf(category.parent),
+      order: category.order,
+      isDeleted: category.isDeleted || false
+    }))),
+    tags: tags.map(tag => ({
+      id: idOf(tag._id)!,
+      name: tag.name,
+      color: tag.color,
+      isDeleted: tag.isDeleted || false
+    })),
+    payees: payees.map(payee => ({
+      id: idOf(payee._id)!,
+      name: payee.name,
+      aliases: payee.aliases,
+      defaultCategory: idOf(payee.defaultCategory),
+      isDeleted: payee.isDeleted || false
+    })),
+    transactions: transactions.map(transaction => ({
+      id: idOf(transaction._id)!,
+      transactionDate: isoDate(transaction.transactionDate)!,
+      fromAccount: idOf(transaction.fromAccount)!,
+      toAccount: idOf(transaction.toAccount),
+      category: idOf(transaction.category),
+      splits: transaction.splits?.map(split => ({
+        category: idOf(split.category)!,
+        amount: split.amount,
+        notes: split.notes
+      })),
+      tags: transaction.tags?.map(tag => idOf(tag)!),
+      payee: idOf(transaction.payee),
+      amount: transaction.amount,
+      toAmount: transaction.toAmount ?? null,
+      description: transaction.description,
+      notes: transaction.notes,
+      type: transaction.type,
+      externalId: transaction.externalId,
+      recurringTransaction: idOf(transaction.recurringTransaction),
+      recurrenceDate: isoDate(transaction.recurrenceDate),
+      isDeleted: transaction.isDeleted || false,
+      deletedAt: isoDate(transaction.deletedAt)
+    })),
+    budgets: budgets.map(budget => ({
+      id: idOf(budget._id)!,
+      category: idOf(budget.category)!,
+      includeSubcategories: budget.includeSubcategories,
+      amount: budget.amount,
+      period: budget.period,
+      startDate: isoDate(budget.startDate)!,
+      endDate: isoDate(budget.endDate),
+      notes: budget.notes,
+      isDeleted: budget.isDeleted || false
+    })),
+    exchangeRates: exchangeRates.map(rate => ({
+      id: idOf(rate._id)!,
+      fromCurrency: rate.fromCurrency,
+      toCurrency: rate.toCurrency,
+      rate: rate.rate,
+      date: isoDate(rate.date)!,
+      source: rate.source,
+      isDeleted: rate.isDeleted || false
+    })),
+    recurringTransactions: recurringTransactions.map(recurring => ({
+      id: idOf(recurring._id)!,
+      fromAccount: idOf(recurring.fromAccount)!,
+      toAccount: idOf(recurring.toAccount),
+      category: idOf(recurring.category),
+      amount: recurring.amount,
+      toAmount: recurring.toAmount ?? null,
+      description: recurring.description,
+      notes: recurring.notes,
+      type: recurring.type,
+      frequency: recurring.frequency,
+      interval: recurring.interval,
+      startDate: isoDate(recurring.startDate)!,
+      endDate: isoDate(recurring.endDate),
+      nextRunDate: isoDate(recurring.nextRunDate),
+      lastRunDate: isoDate(recurring.lastRunDate),
+      isActive: recurring.isActive,
+      exceptions: recurring.exceptions?.map(exception => ({
+        date: isoDate(exception.date)!,
+        action: exception.action,
+        overrides: exception.overrides && {
+          amount: exception.overrides.amount,
+          toAmount: exception.overrides.toAmount,
+          description: exception.overrides.description,
+          notes: exception.overrides.notes,
+          category: idOf(exception.overrides.category) || undefined,
+          fromAccount: idOf(exception.overrides.fromAccount) || undefined,
+          toAccount: idOf(exception.overrides.toAccount) || undefined
+        }
+      })),
+      isDeleted: recurring.isDeleted || false
+    })),
+    rules: rules.map(rule => ({
+      id: idOf(rule._id)!,
+      name: rule.name,
+      priority: rule.priority,
+      enabled: rule.enabled,
+      conditions: {
+        descriptionContains: rule.conditions?.descriptionContains ?? null,
+        amountMin: rule.conditions?.amountMin ?? null,
+        amountMax: rule.conditions?.amountMax ?? null,
+        account: idOf(rule.conditions?.account),
+        payee: idOf(rule.conditions?.payee)
+      },
+      actions: {
+        category: idOf(rule.actions?.category),
+        tags: (rule.actions?.tags || []).map(tag => idOf(tag)!),
+        type: rule.actions?.type ?? null,
+        notes: rule.actions?.notes ?? null
+      },
+      isDeleted: rule.isDeleted || false
+    }))
+  };
+}
+
+/**
+ * Write one entity of an archive as CSV, with account, category, tag and payee names next to their IDs
+ */
+export function backupToCsv(archive: BackupArchive, entity: BackupEntity): string {
+  const accountNames = new Map(archive.accounts.map(account => [account.id, account.name]));
+  const tagNames = new Map((archive.tags || []).map(tag => [tag.id, tag.name]));
+  const payeeNames = new Map((archive.payees || []).map(payee => [payee.id, payee.name]));
+  const categoriesById = new Map(archive.categories.map(category => [category.id, category]));
+  const categoryPath = (id?: string | null): string => {
+    const names: string[] = [];
+    const seen = new Set<string>();
+    let current = id ? categoriesById.get(id) : undefined;
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      names.unshift(current.name);
+      current = current.parent ? categoriesById.get(current.parent) : undefined;
+    }
+    return names.join(' > ');
+  };
+  const day = (value?: string | null) => value ? value.slice(0, 10) : '';
+
+  switch (entity) {
+    case 'accounts':
+      return toCsv([
+        ['ID', 'Name', 'Type', 'Currency', 'Balance', 'Include in total', 'Credit limit', 'Account number', 'Deleted'],
+        ...archive.accounts.map(account => [
+          account.id, account.name, account.type, account.currency, account.balance,
+          account.includeInTotal, account.creditLimit, account.externalAccountId, account.isDeleted
+        ])
+      ]);
+    case 'categories':
+      return toCsv([
+        ['ID', 'Name', 'Type', 'Parent ID', 'Path', 'Description', 'Deleted'],
+        ...archive.categories.map(category => [
+          category.id, category.name, category.type, category.parent, categoryPath(category.id), category.description,
+          category.isDeleted
+        ])
+      ]);
+    case 'tags':
+      return toCsv([
+        ['ID', 'Name', 'Color', 'Deleted'],
+        ...(archive.tags || []).map(tag => [tag.id, tag.name, tag.color, tag.isDeleted])
+      ]);
+    case 'payees':
+      return toCsv([
+        ['ID', 'Name', 'Aliases', 'Default category', 'Deleted'],
+        ...(archive.payees || []).map(payee => [
+          payee.id, payee.name, (payee.aliases || []).join(', '), categoryPath(payee.defaultCategory), payee.isDeleted
+        ])
+      ]);
+    case 'transactions':
+      return toCsv([
+        ['ID', 'Date', 'Type', 'Amount', 'Account', 'To account', 'To amount', 'Category', 'Tags', 'Payee', 'Description', 'Notes', 'Reference', 'Deleted'],
+        ...archive.transactions.map(transaction => [
+          transaction.id,
+          day(transaction.transactionDate),
+          transaction.type,
+          transaction.amount,
+          accountNames.get(transaction.fromAccount),
+          transaction.toAccount ? accountNames.get(transaction.toAccount) : '',
+          transaction.toAmount,
+          transaction.splits?.length
+            ? transaction.splits.map(split => `${categoryPath(split.category)}: ${split.amount.toFixed(2)}`).join('; ')
+            : categoryPath(transaction.category),
+          (transaction.tags || []).map(tag => tagNames.get(tag)).join(', '),
+          transaction.payee ? payeeNames.get(transaction.payee) : '',
+          transaction.description,
+          transaction.notes,
+          transaction.externalId,
+          transaction.isDeleted
+        ])
+      ]);
+    case 'budgets':
+      return toCsv([
+        ['ID', 'Category', 'Amount', 'Period', 'Start date', 'End date', 'Include subcategories', 'Notes', 'Deleted'],
+        ...(archive.budgets || []).map(budget => [
+          budget.id, categoryPath(budget.category), budget.amount, budget.period, day(budget.startDate),
+          day(budget.endDate), budget.includeSubcategories, budget.notes, budget.isDeleted
+        ])
+      ]);
+  }
+}
+
+/**
+ * Every model an archive restores into
+ */
+const BACKUP_MODELS: mongoose.Model<any>[] = [Account, Category, Tag, Payee, Transaction, Budget, ExchangeRate, RecurringTransaction, Rule];
+
+/**
+ * Whether a household holds no accounts, categories, tags, payees, transactions, budgets, exchange rates,
+ * recurring schedules or rules, deleted or not
+ */
+export async function isHouseholdEmpty(householdId: string): Promise<boolean> {
+  const counts = await Promise.all(BACKUP_MODELS.map(Model => Model.countDocuments({ householdId })));
+  return counts.every(count => count === 0);
+}
+
+/**
+ * Restore an archive into an empty household
+ * Every document gets a new ID with references remapped, and balances are recomputed from the
+ * restored transactions instead of trusting the archive. The household takes the archive's base currency.
+ * The archive must already be validated, so every reference resolves. On failure the household is emptied again.
+ * @returns The number of restored documents per entity
+ */
+export async function restoreBackup(householdId: string, archive: BackupArchive, modifiedBy: string) {
+  const remap = (ids: Map<string, mongoose.Types.ObjectId>) => (id?: string | null) => {
+    if (!id) return undefined;
+    if (!ids.has(id)) ids.set(id, new mongoose.Types.ObjectId());
+    return ids.get(id);
+  };
+  const accountId = remap(new Map());
+  const categoryId = remap(new Map());
+  const tagId = remap(new Map());
+  const payeeId = remap(new Map());
+  const recurringId = remap(new Map());
+  const sync = { householdId, updatedAt: Date.now(), syncVersion: 1, lastModifiedBy: modifiedBy };
+  const tags = archive.tags || [];
+  const payees = archive.payees || [];
+  const budgets = archive.budgets || [];
+  const exchangeRates = archive.exchangeRates || [];
+  const recurringTransactions = archive.recurringTransactions || [];
+  const rules = archive.rules || [];
+
+  try {
+    await Account.insertMany(archive.accounts.map(account => ({
+      ...sync,
+      _id: accountId(account.id),
+      name: account.name,
+      description: account.description,
+      currency: account.currency,
+      type: account.type,
+      icon: account.icon,
+      color: account.color,
+      includeInTotal: account.includeInTotal,
+      creditLimit: account.creditLimit ?? undefined,
+      order: account.order,
+      externalAccountId: account.externalAccountId,
+      balance: 0,
+      isDeleted: account.isDeleted || false
+    })));
+
+    await Category.insertMany(treeOrder(archive.categories).map(category => ({
+      ...sync,
+      _id: categoryId(category.id),
+      name: category.name,
+      description: category.description,
+      icon: category.icon,
+      color: category.color,
+      type: category.type,
+      parent: categoryId(category.parent) || null,
+      order: category.order,
+      isDeleted: category.isDeleted || false
+    })));
+
+    await Tag.insertMany(tags.map(tag => ({
+      ...sync,
+      _id: tagId(tag.id),
+      name: tag.name,
+      color: tag.color,
+      isDeleted: tag.isDeleted || false
+    })));
+
+    await Payee.insertMany(payees.map(payee => ({
+      ...sync,
+      _id: payeeId(payee.id),
+      name: payee.name,
+      aliases: payee.aliases,
+      defaultCategory: categoryId(payee.defaultCategory) || null,
+      isDeleted: payee.isDeleted || false
+    })));
+
+    // The schedules keep their run dates, so occurrences already in the archive are not created again
+    await RecurringTransaction.insertMany(recurringTransactions.map(recurring => ({
+      ...sync,
+      _id: recurringId(recurring.id),
+      fromAccount: accountId(recurring.fromAccount),
+      toAccount: accountId(recurring.toAccount),
+      category: categoryId(recurring.category),
+      amount: recurring.amount,
+      toAmount: recurring.toAmount ?? null,
+      description: recurring.description,
+      notes: recurring.notes,
+      type: recurring.type,
+      frequency: recurring.frequency,
+      interval: recurring.interval,
+      startDate: new Date(recurring.startDate),
+      endDate: recurring.endDate ? new Date(recurring.endDate) : null,
+      nextRunDate: recurring.nextRunDate ? new Date(recurring.nextRunDate) : null,
+      lastRunDate: recurring.lastRunDate ? new Date(recurring.lastRunDate) : null,
+      isActive: recurring.isActive,
+      exceptions: (recurring.exceptions || []).map(exception => ({
+        date: new Date(exception.date),
+        action: exception.action,
+        overrides: exception.overrides && {
+          ...exception.overrides,
+          category: categoryId(exception.overrides.category),
+          fromAccount: accountId(exception.overrides.fromAccount),
+          toAccount: accountId(exception.overrides.toAccount)
+        }
+      })),
+      isDeleted: recurring.isDeleted || false
+    })));
+
+    await Transaction.insertMany(archive.transactions.map(transaction => ({
+      ...sync,
+      transactionDate: new Date(transaction.transactionDate),
+      fromAccount: accountId(transaction.fromAccount),
+      toAccount: accountId(transaction.toAccount),
+      category: transaction.splits?.length ? undefined : categoryId(transaction.category),
+      splits: transaction.splits?.length
+        ? transaction.splits.map(split => ({ ...split, category: categoryId(split.category) }))
+        : undefined,
+      tags: transaction.tags?.map(tag => tagId(tag)),
+      payee: payeeId(transaction.payee) || null,
+      amount: transaction.amount,
+      toAmount: transaction.toAmount ?? null,
+      description: transaction.description,
+      notes: transaction.notes,
+      type: transaction.type,
+      externalId: transaction.externalId,
+      recurringTransaction: recurringId(transaction.recurringTransaction),
+      recurrenceDate: transaction.recurrenceDate ? new Date(transaction.recurrenceDate) : undefined,
+      isDeleted: transaction.isDeleted || false,
+      deletedAt: transaction.deletedAt ? new Date(transaction.deletedAt) : undefined
+    })));
+
+    await Budget.insertMany(budgets.map(budget => ({
+      ...sync,
+      category: categoryId(budget.category),
+      includeSubcategories: budget.includeSubcategories,
+      amount: budget.amount,
+      period: budget.period,
+      startDate: new Date(budget.startDate),
+      endDate: budget.endDate ? new Date(budget.endDate) : null,
+      notes: budget.notes,
+      isDeleted: budget.isDeleted || false
+    })));
+
+    await ExchangeRate.insertMany(exchangeRates.map(rate => ({
+      ...sync,
+      fromCurrency: rate.fromCurrency,
+      toCurrency: rate.toCurrency,
+      rate: rate.rate,
+      date: new Date(rate.date),
+      source: rate.source,
+      isDeleted: rate.isDeleted || false
+    })));
+
+    await Rule.insertMany(rules.map(rule => ({
+      ...sync,
+      name: rule.name,
+      priority: rule.priority,
+      enabled: rule.enabled,
+      conditions: {
+        ...rule.conditions,
+        account: accountId(rule.conditions.account) || null,
+        payee: payeeId(rule.conditions.payee) || null
+      },
+      actions: {
+        ...rule.actions,
+        category: categoryId(rule.actions.category) || null,
+        tags: (rule.actions.tags || []).map(tag => tagId(tag))
+      },
+      isDeleted: rule.isDeleted || false
+    })));
+
+    await recalculateHouseholdBalances(householdId);
+
+    // Last, so a failed restore leaves the household's own base currency in place
+    if (archive.household?.baseCurrency) {
+      await Household.updateOne({ _id: householdId }, { baseCurrency: archive.household.baseCurrency.toUpperCase() });
+    }
+  } catch (error) {
+    // The household was empty, so removing everything in it undoes the partial restore
+    await Promise.all(BACKUP_MODELS.map(Model => Model.deleteMany({ householdId })));
+    throw error;
+  }
+
+  return {
+    accounts: archive.accounts.length,
+    categories: archive.categories.length,
+    tags: tags.length,
+    payees: payees.length,
+    transactions: archive.transactions.length,
+    budgets: budgets.length,
+    exchangeRates: exchangeRates.length,
+    recurringTransactions: recurringTransactions.length,
+    rules: rules.length
+  };
+}
@@ -0,0 +1,236 @@
+/**
+ * Balances recalculated from scratch: account balances and category totals from the household's transactions
+ */
+import mongoose from "mongoose";
+import Account from "../models/account";
+import Category from "../models/category";
+import Transaction from "../models/transaction";
+import { NOT_DELETED_FILTER } from "./softDelete";
+import { roundAmount } from "./currency";
+
+// One entry per account a transaction touches: income adds, expenses and transfers out subtract,
+// transfers in add the destination amount. Used in a $project stage, then unwound.
+export const ACCOUNT_ENTRIES = {
+  $concatArrays: [
+    [{
+      account: '$fromAccount',
+      amount: {
+        $switch: {
+          branches: [
+            { case: { $eq: ['$type', 'income'] }, then: '$amount' },
+            { case: { $in: ['$type', ['expense', 'transfer']] }, then: { $multiply: ['$amount', -1] } }
+          ],
+          default: 0
+        }
+      }
+    }],
+    {
+      $cond: [
+        { $and: [{ $eq: ['$type', 'transfer'] }, { $ifNull: ['$toAccount', false] }] },
+        [{ account: '$toAccount', amount: { $ifNull: ['$toAmount', '$amount'] } }],
+        []
+      ]
+    }
+  ]
+};
+
+// One line per category a transaction is filed under: its split lines, or the whole amount for its category.
+// Split lines count for their own categories, like the balance hooks do. Used in a $project stage, then unwound.
+export const CATEGORY_LINES = {
+  $cond: [
+    { $gt: [{ $size: { $ifNull: ['$splits', []] } }, 0] },
+    '$splits',
+    { $cond: [{ $ifNull: ['$category', false] }, [{ category: '$category', amount: '$amount' }], []] }
+  ]
+};
+
+/**
+ * Change a transaction makes to one account's balance, by the same rules as ACCOUNT_ENTRIES
+ */
+export function accountEffect(
+  transaction: { fromAccount: any; toAccount?: any; type?: string; amount: number; toAmount?: number | null },
+  accountId: string
+): number {
+  let effect = 0;
+  if (transaction.fromAccount?.toString() === accountId) {
+    if (transaction.type === 'income') {
+      effect += transaction.amount;
+    } else if (transaction.type === 'expense' || transaction.type === 'transfer') {
+      effect -= transaction.amount;
+    }
+  }
+  if (transaction.type === 'transfer' && transaction.toAccount?.toString() === accountId) {
+    effect += transaction.toAmount ?? transaction.amount;
+  }
+  return effect;
+}
+
+/**
+ * Balance of an account from its transactions dated up to a moment (inclusive),
+ * computed like a full balance recalculation
+ */
+export async function accountBalanceAsOf(householdId: string, accountId: string, asOf: Date): Promise<number> {
+  const account = new mongoose.Types.ObjectId(accountId);
+  const result = await Transaction.aggregate([
+    {
+      $match: {
+        householdId: new mongoose.Types.ObjectId(householdId),
+        $or: [{ fromAccount: account }, { toAccount: account }],
+        transactionDate: { $lte: asOf },
+        ...NOT_DELETED_FILTER
+      }
+    },
+    { $project: { entries: ACCOUNT_ENTRIES } },
+    { $unwind: '$entries' },
+    { $match: { 'entries.account': account } },
+    { $group: { _id: null, balance: { $sum: '$entries.amount' } } }
+  ]);
+  return result[0]?.balance || 0;
+}
+
+export interface CategoryTotals {
+  directBalance: number;
+  directTransactionCount: number;
+  balance: number;
+  transactionCount: number;
+}
+
+/**
+ * Roll direct category totals up the tree: a category's total includes all of its subcategories
+ * @param categories The household's categories with their parent IDs
+ * @param direct Direct totals per category ID
+ */
+export function rollUpCategoryTotals(
+  categories: Array<{ id: string; parent?: string | null }>,
+  direct: Map<string, { balance: number; count: number }>
+): Map<string, CategoryTotals> {
+  const children = new Map<string, string[]>();
+  categories.forEach(category => {
+    if (category.parent) {
+      children.set(category.parent, [...(children.get(category.parent) || []), category.id]);
+    }
+  });
+
+  const totals = new Map<string, CategoryTotals>();
+  const visit = (id: string, path: Set<string>): CategoryTotals => {
+    const known = totals.get(id);
+    if (known) return known;
+
+    const own = direct.get(id) || { balance: 0, count: 0 };
+    const result = { directBalance: own.balance, directTransactionCount: own.count, balance: own.balance, transactionCount: own.count };
+    path.add(id);
+    (children.get(id) || []).forEach(childId => {
+      if (path.has(childId)) return; // A broken tree must not loop forever
+      const child = visit(childId, path);
+      result.balance += child.balance;
+      result.transactionCount += child.transactionCount;
+    });
+    path.delete(id);
+    totals.set(id, result);
+    return result;
+  };
+
+  categories.forEach(category => visit(category.id, new Set()));
+  return totals;
+}
+
+export interface AccountDrift {
+  id: string;
+  name: string;
+  stored: number;
+  expected: number;
+  difference: number; // expected - stored
+}
+
+export interface CategoryDrift {
+  id: string;
+  name: string;
+  stored: CategoryTotals;
+  expected: CategoryTotals;
+  difference: CategoryTotals; // expected - stored, per field
+}
+
+export interface BalanceDrift {
+  accounts: AccountDrift[];
+  categories: CategoryDrift[];
+}
+
+const CATEGORY_TOTAL_FIELDS: Array<keyof CategoryTotals> = ['directBalance', 'directTransactionCount', 'balance', 'transactionCount'];
+
+/**
+ * Recalculate every account balance and category total of a household from its transactions
+ * Only documents whose stored values differ (to the cent) are written
+ * @param options.dryRun - Report the drift without correcting it
+ * @returns The accounts and categories whose stored values drifted, with the expected values
+ */
+export async function recalculateHouseholdBalances(
+  householdId: string,
+  options: { dryRun?: boolean } = {}
+): Promise<BalanceDrift> {
+  const match = { householdId: new mongoose.Types.ObjectId(householdId), ...NOT_DELETED_FILTER };
+
+  const [accountResults, categoryResults, accounts, categories] = await Promise.all([
+    Transaction.aggregate([
+      { $match: match },
+      { $project: { entries: ACCOUNT_ENTRIES } },
+      { $unwind: '$entries' },
+      { $group: { _id: '$entries.account', balance: { $sum: '$entries.amount' } } }
+    ]),
+    Transaction.aggregate([
+      { $match: match },
+      { $project: { lines: CATEGORY_LINES } },
+      { $unwind: '$lines' },
+      { $group: { _id: '$lines.category', balance: { $sum: '$lines.amount' }, count: { $sum: 1 } } }
+    ]),
+    Account.find({ householdId }),
+    Category.find({ householdId })
+  ]);
+
+  const accountBalances = new Map<string, number>(accountResults.map(result => [result._id.toString(), result.balance]));
+  const accountDrift: AccountDrift[] = [];
+  accounts.forEach(account => {
+    const id = (account._id as any).toString();
+    const stored = account.balance || 0;
+    const expected = roundAmount(accountBalances.get(id) || 0);
+    if (roundAmount(stored) !== expected) {
+      accountDrift.push({ id, name: account.name, stored, expected, difference: roundAmount(expected - stored) });
+    }
+  });
+
+  const direct = new Map<string, { balance: number; count: number }>(
+    categoryResults.map(result => [result._id.toString(), { balance: result.balance, count: result.count }])
+  );
+  const totals = rollUpCategoryTotals(
+    categories.map(category => ({ id: (category._id as any).toString(), parent: category.parent ? category.parent.toString() : null })),
+    direct
+  );
+  const categoryDrift: CategoryDrift[] = [];
+  categories.forEach(category => {
+    const id = (category._id as any).toString();
+    const computed = totals.get(id)!;
+    const stored = {} as CategoryTotals;
+    const expected = {} as CategoryTotals;
+    const difference = {} as CategoryTotals;
+    CATEGORY_TOTAL_FIELDS.forEach(field => {
+      stored[field] = (category as any)[field] || 0;
+      expected[field] = roundAmount(computed[field]);
+      difference[field] = roundAmount(expected[field] - stored[field]);
+    });
+    if (CATEGORY_TOTAL_FIELDS.some(field => roundAmount(stored[field]) !== expected[field])) {
+      categoryDrift.push({ id, name: category.name, stored, expected, difference });
+    }
+  });
+
+  if (!options.dryRun && accountDrift.length > 0) {
+    await Account.bulkWrite(accountDrift.map(drift => ({
+      updateOne: { filter: { _id: drift.id }, update: { balance: drift.expected, updatedAt: Date.now() } }
+    })));
+  }
+  if (!options.dryRun && categoryDrift.length > 0) {
+    await Category.bulkWrite(categoryDrift.map(drift => ({
+      updateOne: { filter: { _id: drift.id }, update: { ...drift.expected, updatedAt: Date.now() } }
+    })));
+  }
+
+  return { accounts: accountDrift, categories: categoryDrift };
+}
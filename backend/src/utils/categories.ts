@@ -0,0 +1,241 @@
+/**
+ * Category tree operations that move transactions and cached balances from one category to another
+ */
+import mongoose, { ClientSession } from "mongoose";
+import Category from "../models/category";
+import Transaction, { updateParentCategoryBalances } from "../models/transaction";
+import Budget from "../models/budget";
+import RecurringTransaction from "../models/recurringTransaction";
+import { rollUpCategoryTotals } from "./balances";
+import { roundAmount } from "./currency";
+import { NOT_DELETED_FILTER } from "./softDelete";
+import { TransactionTotals } from "./transactionTotals";
+
+export interface CategoryTreeNode {
+  id: string;
+  parent: string | null;
+  order?: number;
+  transactions: {
+    direct: TransactionTotals;
+    subcategories: TransactionTotals;
+    all: TransactionTotals;
+  };
+  subcategories: CategoryTreeNode[];
+  [field: string]: any;
+}
+
+/**
+ * Nest categories under their parents, siblings in `order` order, with each node's totals rolled up
+ * from its whole subtree. Categories whose parent is not in the list become roots.
+ * @param categories - Plain categories with string IDs, e.g. from transformCategoryForFrontend
+ * @param direct - Totals of the transactions filed directly under each category ID
+ */
+export function buildCategoryTree(
+  categories: Array<{ id: string; parent?: string | null; order?: number; [field: string]: any }>,
+  direct: Map<string, TransactionTotals>
+): CategoryTreeNode[] {
+  const ids = new Set(categories.map(category => category.id));
+  const linked = categories.map(category => ({
+    ...category,
+    parent: category.parent && ids.has(category.parent) ? category.parent : null
+  }));
+  const totals = rollUpCategoryTotals(
+    linked,
+    new Map(Array.from(direct, ([id, totals]) => [id, { balance: totals.total, count: totals.count }]))
+  );
+
+  const nodes = new Map<string, CategoryTreeNode>();
+  linked.forEach(category => {
+    const rolled = totals.get(category.id)!;
+    nodes.set(category.id, {
+      ...category,
+      transactions: {
+        direct: { total: roundAmount(rolled.directBalance), count: rolled.directTransactionCount },
+        subcategories: {
+          total: roundAmount(rolled.balance - rolled.directBalance),
+          count: rolled.transactionCount - rolled.directTransactionCount
+        },
+        all: { total: roundAmount(rolled.balance), count: rolled.transactionCount }
+      },
+      subcategories: []
+    });
+  });
+
+  const roots: CategoryTreeNode[] = [];
+  linked.forEach(category => {
+    const node = nodes.get(category.id)!;
+    (category.parent ? nodes.get(category.parent)!.subcategories : roots).push(node);
+  });
+  const byOrder = (a: CategoryTreeNode, b: CategoryTreeNode) => (a.order || 0) - (b.order || 0);
+  nodes.forEach(node => node.subcategories.sort(byOrder));
+  return roots.sort(byOrder);
+}
+
+/**
+ * Whether a category is another one or lies anywhere below it
+ * @param categoryId - Category to look up
+ * @param ancestorId - Root of the subtree
+ */
+export async function isInSubtree(
+  householdId: string,
+  categoryId: string,
+  ancestorId: string,
+  session?: ClientSession
+): Promise<boolean> {
+  const seen = new Set<string>();
+  let current: string | null = categoryId;
+  while (current && !seen.has(current)) {
+    if (current === ancestorId) return true;
+    seen.add(current);
+    const category: any = await Category.findOne({ _id: current, householdId }, { parent: 1 }, { session });
+    current = category?.parent ? category.parent.toString() : null;
+  }
+  return false;
+}
+
+/**
+ * Why a category can't be moved under a parent, or null when it can; a null parent is the root
+ * @param type - Type the category will have after the move, when that changes too
+ */
+export async function moveTargetError(
+  householdId: string,
+  category: any,
+  parentId: string | null,
+  type: string = category.type,
+  session?: ClientSession
+): Promise<{ status: number; key: string } | null> {
+  if (!parentId) {
+    return null;
+  }
+  if (await isInSubtree(householdId, parentId, category._id.toString(), session)) {
+    return { status: 400, key: 'categories.move_into_subtree' };
+  }
+  const parent = await Category.findOne({ _id: parentId, householdId, ...NOT_DELETED_FILTER }, null, { session });
+  if (!parent) {
+    return { status: 404, key: 'categories.not_found' };
+  }
+  if ((parent.type || 'Expense') !== (type || 'Expense')) {
+    return { status: 400, key: 'categories.type_mismatch' };
+  }
+  return null;
+}
+
+/**
+ * Move everything filed under a category to another one: its transactions (split lines included, deleted
+ * ones too so a restore lands in the right place), subcategories, budgets and recurring schedules
+ * The cached totals move along: the target takes over the source's direct and rolled-up totals and the
+ * source's ancestors give them up. The source is left empty for the caller to delete.
+ * @returns The number of transactions and subcategories moved
+ */
+export async function moveCategoryContents(
+  householdId: string,
+  sourceId: string,
+  targetId: string,
+  modifiedBy: string,
+  session: ClientSession
+): Promise<{ transactions: number; subcategories: number }> {
+  const source = await Category.findOne({ _id: sourceId, householdId }).session(session);
+  if (!source) {
+    throw new Error('Category not found');
+  }
+
+  const sourceObjectId = new mongoose.Types.ObjectId(sourceId);
+  const sync = { updatedAt: Date.now(), lastModifiedBy: modifiedBy };
+  const bump = { $inc: { syncVersion: 1 } };
+
+  const filed = await Transaction.updateMany(
+    { householdId, category: sourceObjectId },
+    { $set: { category: targetId, ...sync }, ...bump },
+    { session }
+  );
+  const split = await Transaction.updateMany(
+    { householdId, 'splits.category': sourceObjectId },
+    { $set: { 'splits.$[line].category': targetId, ...sync }, ...bump },
+    { arrayFilters: [{ 'line.category': sourceObjectId }], session }
+  );
+  const subcategories = await Category.updateMany(
+    { householdId, parent: sourceObjectId },
+    { $set: { parent: targetId, ...sync }, ...bump },
+    { session }
+  );
+  await Budget.updateMany(
+    { householdId, category: sourceObjectId },
+    { $set: { category: targetId, ...sync }, ...bump },
+    { session }
+  );
+  await RecurringTransaction.updateMany(
+    { householdId, category: sourceObjectId },
+    { $set: { category: targetId, ...sync }, ...bump },
+    { session }
+  );
+  await RecurringTransaction.updateMany(
+    { householdId, 'exceptions.overrides.category': sourceObjectId },
+    { $set: { 'exceptions.$[exception].overrides.category': targetId, ...sync }, ...bump },
+    { arrayFilters: [{ 'exception.overrides.category': sourceObjectId }], session }
+  );
+
+  // Shared ancestors lose and regain the same amounts, so they end up unchanged
+  if (source.parent) {
+    await updateParentCategoryBalances(source.parent.toString(), -source.balance, -source.transactionCount, session);
+  }
+  const target = await Category.findOneAndUpdate(
+    { _id: targetId, householdId },
+    {
+      $inc: {
+        directBalance: source.directBalance,
+        directTransactionCount: source.directTransactionCount,
+        balance: source.balance,
+        transactionCount: source.transactionCount
+      },
+      updatedAt: Date.now()
+    },
+    { new: true, session }
+  );
+  if (target?.parent) {
+    await updateParentCategoryBalances(target.parent.toString(), source.balance, source.transactionCount, session);
+  }
+  await Category.updateOne(
+    { _id: sourceId },
+    { directBalance: 0, directTransactionCount: 0, balance: 0, transactionCount: 0 },
+    { session }
+  );
+
+  return { transactions: filed.modifiedCount + split.modifiedCount, subcategories: subcategories.modifiedCount };
+}
+
+/**
+ * Put a category (and everything below it) under another parent, or at the root when parentId is null
+ * The subtree's rolled-up totals leave the old ancestors and are added to the new ones. Callers check
+ * for cycles and type mismatches first.
+ * @returns The moved category
+ */
+export async function moveCategorySubtree(
+  householdId: string,
+  categoryId: string,
+  parentId: string | null,
+  modifiedBy: string,
+  session: ClientSession
+) {
+  const category = await Category.findOne({ _id: categoryId, householdId }).session(session);
+  if (!category) {
+    throw new Error('Category not found');
+  }
+
+  const previousParent = category.parent ? category.parent.toString() : null;
+  if (previousParent === parentId) {
+    return category;
+  }
+
+  if (previousParent) {
+    await updateParentCategoryBalances(previousParent, -category.balance, -category.transactionCount, session);
+  }
+  if (parentId) {
+    await updateParentCategoryBalances(parentId, category.balance, category.transactionCount, session);
+  }
+
+  return Category.findOneAndUpdate(
+    { _id: categoryId, householdId },
+    { $set: { parent: parentId, updatedAt: Date.now(), lastModifiedBy: modifiedBy }, $inc: { syncVersion: 1 } },
+    { new: true, session }
+  );
+}
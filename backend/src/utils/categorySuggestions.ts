@@ -0,0 +1,103 @@
+/**
+ * Category suggestions: ranking categories by how similar past transactions were filed
+ */
+import { normalizePayeeText } from "./payees";
+
+// Past transactions less similar than this don't count towards a suggestion
+export const MIN_SIMILARITY = 0.3;
+
+// A past transaction on the same account counts this much more
+const SAME_ACCOUNT_WEIGHT = 1.5;
+
+export interface CategorySuggestion {
+  category: string;
+  confidence: number; // 0 to 1: share of the similar transactions filed there, times the best similarity
+  matches: number; // Similar past transactions filed there
+}
+
+export interface PastCategorization {
+  text: string; // Description and notes
+  category: string;
+  amount: number;
+  accounts: string[];
+}
+
+// Character trigrams of each word, padded so short words and word starts count
+function trigrams(text: string): Set<string> {
+  const grams = new Set<string>();
+  text.split(' ').forEach(word => {
+    const padded = `  ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      grams.add(padded.slice(i, i + 3));
+    }
+  });
+  return grams;
+}
+
+/**
+ * Similarity of two descriptions from 0 to 1, after normalizing them like payee matching:
+ * the better of word overlap (Jaccard) and character trigram overlap (Dice)
+ */
+export function textSimilarity(a: string, b: string): number {
+  const left = normalizePayeeText(a);
+  const right = normalizePayeeText(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftWords = new Set(left.split(' '));
+  const rightWords = new Set(right.split(' '));
+  const sharedWords = Array.from(leftWords).filter(word => rightWords.has(word)).length;
+  const jaccard = sharedWords / (leftWords.size + rightWords.size - sharedWords);
+
+  const leftGrams = trigrams(left);
+  const rightGrams = trigrams(right);
+  const sharedGrams = Array.from(leftGrams).filter(gram => rightGrams.has(gram)).length;
+  const dice = (2 * sharedGrams) / (leftGrams.size + rightGrams.size);
+
+  return Math.max(jaccard, dice);
+}
+
+/**
+ * Rank categories by how similar past transactions were filed
+ * Each similar past transaction votes for its category with its similarity, weighted up when it is on
+ * the same account and down the further its amount is from the one given
+ * @param history - Past categorized transactions (one entry per split line)
+ * @returns Best suggestions first
+ */
+export function rankCategories(
+  history: PastCategorization[],
+  query: { text: string; amount?: number; account?: string },
+  limit: number
+): CategorySuggestion[] {
+  const votes = new Map<string, { weight: number; best: number; matches: number }>();
+  let total = 0;
+
+  history.forEach(past => {
+    const similarity = textSimilarity(query.text, past.text);
+    if (similarity < MIN_SIMILARITY) return;
+
+    let weight = similarity;
+    if (query.account && past.accounts.includes(query.account)) {
+      weight *= SAME_ACCOUNT_WEIGHT;
+    }
+    if (query.amount && query.amount > 0 && past.amount > 0) {
+      weight *= 0.5 + 0.5 * Math.min(query.amount, past.amount) / Math.max(query.amount, past.amount);
+    }
+
+    const vote = votes.get(past.category) || { weight: 0, best: 0, matches: 0 };
+    vote.weight += weight;
+    vote.best = Math.max(vote.best, similarity);
+    vote.matches += 1;
+    votes.set(past.category, vote);
+    total += weight;
+  });
+
+  return Array.from(votes.entries())
+    .map(([category, vote]) => ({
+      category,
+      confidence: Math.round((vote.weight / total) * vote.best * 100) / 100,
+      matches: vote.matches
+    }))
+    .sort((a, b) => b.confidence - a.confidence || b.matches - a.matches)
+    .slice(0, limit);
+}
@@ -0,0 +1,240 @@
+/**
+ * CSV statement parsing: splitting the file into rows and mapping columns onto transactions
+ */
+
+export type DateFormat = 'YYYY-MM-DD' | 'YYYY/MM/DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'DD.MM.YYYY' | 'DD-MM-YYYY';
+
+// How a statement writes money in and out:
+// - signed: one amount column, negative for money out
+// - inverted: one amount column, positive for money out (credit card statements)
+// - split: separate debit (out) and credit (in) columns
+export type AmountConvention = 'signed' | 'inverted' | 'split';
+
+export interface CsvMapping {
+  hasHeader: boolean;
+  delimiter?: string;
+  dateColumn: number;
+  dateFormat: DateFormat;
+  descriptionColumn: number;
+  amountConvention: AmountConvention;
+  amountColumn?: number;
+  debitColumn?: number;
+  creditColumn?: number;
+  decimalSeparator?: '.' | ',';
+  categoryColumn?: number;
+  notesColumn?: number;
+}
+
+export interface MappedCsvRow {
+  row: number; // 1-based row in the file, counting the header
+  transactionDate: Date;
+  amount: number;
+  type: 'income' | 'expense';
+  description: string;
+  categoryName?: string;
+  notes?: string;
+}
+
+export interface CsvRowError {
+  row: number;
+  error: string;
+}
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Guess the delimiter from the first line: the candidate occurring most often outside quotes
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const unquoted = firstLine.replace(/"[^"]*"/g, '');
+  let best = ',';
+  let bestCount = 0;
+  DELIMITERS.forEach(delimiter => {
+    const count = unquoted.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/**
+ * Split CSV text into rows of cells
+ * Handles quoted cells with embedded delimiters, newlines and doubled quotes; skips blank lines
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row.map(value => value.trim()));
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Parse a date written in the given format, as a UTC date
+ * @returns The date, or null when the value doesn't match the format
+ */
+export function parseDate(value: string, format: DateFormat): Date | null {
+  // Ignore a time of day after the date
+  const parts = value.trim().split(/[T\s]/)[0].split(/[-/.]/).filter(Boolean);
+  if (parts.length < 3) return null;
+
+  let year: number, month: number, day: number;
+  switch (format) {
+    case 'YYYY-MM-DD':
+    case 'YYYY/MM/DD':
+      [year, month, day] = parts.map(Number);
+      break;
+    case 'MM/DD/YYYY':
+      [month, day, year] = parts.map(Number);
+      break;
+    default:
+      [day, month, year] = parts.map(Number);
+  }
+  if (year < 100) year += 2000;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Parse an amount as written in a statement: currency symbols, thousands separators,
+ * trailing minus signs and accounting parentheses are accepted
+ * @returns The signed amount, or null when the value is empty or not a number
+ */
+export function parseAmount(value: string | undefined, decimalSeparator: '.' | ',' = '.'): number | null {
+  if (value === undefined) return null;
+  let text = value.trim();
+  if (text === '') return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  const thousandsSeparator = decimalSeparator === '.' ? ',' : '.';
+  text = text
+    .split(thousandsSeparator).join('')
+    .replace(decimalSeparator, '.')
+    .replace(/[^0-9.-]/g, '');
+  if (text === '' || text === '-' || isNaN(Number(text))) return null;
+
+  const amount = Number(text);
+  return negative ? -Math.abs(amount) : amount;
+}
+
+/**
+ * Turn parsed CSV rows into transaction fields using a column mapping
+ * Rows that can't be read are returned as errors instead of being dropped silently
+ */
+export function mapCsvRows(rows: string[][], mapping: CsvMapping): { rows: MappedCsvRow[]; errors: CsvRowError[] } {
+  const mapped: MappedCsvRow[] = [];
+  const errors: CsvRowError[] = [];
+  const firstDataRow = mapping.hasHeader ? 1 : 0;
+
+  rows.slice(firstDataRow).forEach((cells, index) => {
+    const row = index + firstDataRow + 1;
+
+    const transactionDate = parseDate(cells[mapping.dateColumn] || '', mapping.dateFormat);
+    if (!transactionDate) {
+      errors.push({ row, error: `Invalid date "${cells[mapping.dateColumn] || ''}"` });
+      return;
+    }
+
+    let signedAmount: number | null;
+    if (mapping.amountConvention === 'split') {
+      const debit = parseAmount(cells[mapping.debitColumn as number], mapping.decimalSeparator);
+      const credit = parseAmount(cells[mapping.creditColumn as number], mapping.decimalSeparator);
+      signedAmount = debit === null && credit === null ? null : Math.abs(credit || 0) - Math.abs(debit || 0);
+    } else {
+      const amount = parseAmount(cells[mapping.amountColumn as number], mapping.decimalSeparator);
+      signedAmount = amount === null ? null : mapping.amountConvention === 'inverted' ? -amount : amount;
+    }
+    if (signedAmount === null || signedAmount === 0) {
+      errors.push({ row, error: 'Missing or zero amount' });
+      return;
+    }
+
+    const optional = (column?: number) =>
+      column === undefined ? undefined : (cells[column] || undefined);
+
+    mapped.push({
+      row,
+      transactionDate,
+      amount: Math.round(Math.abs(signedAmount) * 100) / 100,
+      type: signedAmount < 0 ? 'expense' : 'income',
+      description: cells[mapping.descriptionColumn] || '',
+      categoryName: optional(mapping.categoryColumn),
+      notes: optional(mapping.notesColumn)
+    });
+  });
+
+  return { rows: mapped, errors };
+}
+
+// Cells a spreadsheet would run as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Write rows as CSV for spreadsheets: cells are quoted when needed and text that a spreadsheet
+ * would evaluate as a formula is prefixed with an apostrophe
+ */
+export function toCsv(rows: Array<Array<string | number | boolean | null | undefined>>): string {
+  return rows.map(row => row.map(value => {
+    if (value === null || value === undefined) return '';
+    if (typeof value !== 'string') return String(value);
+
+    const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) || text.trim() !== text ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,163 @@
+/**
+ * Currency helpers: exchange rate lookups and conversions between account currencies
+ */
+import ExchangeRate from "../models/exchangeRate";
+import Account from "../models/account";
+import Household from "../models/household";
+import { NOT_DELETED_FILTER } from "./softDelete";
+
+export const DEFAULT_CURRENCY = 'PHP';
+
+export interface BaseCurrencyTotals {
+  baseCurrency: string;
+  total: number;
+  rates: Record<string, number>;
+  missingRates: string[];
+}
+
+/**
+ * Round an amount to cents
+ */
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Find the exchange rate between two currencies on a date
+ * Uses the latest rate on or before the date, quoted in either direction
+ * @param householdId - Household whose rate store is used
+ * @param fromCurrency - Currency converted from
+ * @param toCurrency - Currency converted to
+ * @param asOf - Date the rate must be effective on
+ * @returns Units of toCurrency per unit of fromCurrency, or null when no rate is known
+ */
+export async function findExchangeRate(
+  householdId: string,
+  fromCurrency: string,
+  toCurrency: string,
+  asOf: Date = new Date()
+): Promise<number | null> {
+  if (fromCurrency === toCurrency) {
+    return 1;
+  }
+
+  const [direct, inverse] = await Promise.all([
+    ExchangeRate.findOne({ householdId, fromCurrency, toCurrency, date: { $lte: asOf }, ...NOT_DELETED_FILTER })
+      .sort({ date: -1 }),
+    ExchangeRate.findOne({ householdId, fromCurrency: toCurrency, toCurrency: fromCurrency, date: { $lte: asOf }, ...NOT_DELETED_FILTER })
+      .sort({ date: -1 })
+  ]);
+
+  // The more recent quote wins when both directions were entered
+  if (direct && (!inverse || direct.date >= inverse.date)) {
+    return direct.rate;
+  }
+  if (inverse && inverse.rate > 0) {
+    return 1 / inverse.rate;
+  }
+  return null;
+}
+
+/**
+ * Look up the rates converting each currency into a base currency
+ * @returns Rate per currency; currencies without a known rate are left out
+ */
+export async function getRatesToBase(
+  householdId: string,
+  currencies: string[],
+  baseCurrency: string,
+  asOf: Date = new Date()
+): Promise<Record<string, number>> {
+  const unique = Array.from(new Set(currencies));
+  const rates = await Promise.all(unique.map(currency => findExchangeRate(householdId, currency, baseCurrency, asOf)));
+
+  const result: Record<string, number> = {};
+  unique.forEach((currency, index) => {
+    if (rates[index] !== null) {
+      result[currency] = rates[index] as number;
+    }
+  });
+  return result;
+}
+
+/**
+ * Resolve the currency totals are reported in: the requested one, else the household's
+ */
+export async function getBaseCurrency(householdId: string, requested?: string): Promise<string> {
+  if (requested) {
+    return requested.toUpperCase();
+  }
+  const household = await Household.findById(householdId);
+  return household?.baseCurrency || DEFAULT_CURRENCY;
+}
+
+/**
+ * Total account balances in a base currency
+ * Accounts excluded from totals are skipped; accounts whose currency has no rate are reported in missingRates
+ * @param accounts - Accounts with balance, currency and includeInTotal
+ * @param baseCurrency - Currency to total in
+ * @param rates - Rates into the base currency (see getRatesToBase)
+ */
+export function totalInBaseCurrency(
+  accounts: Array<{ balance?: number; currency?: string; includeInTotal?: boolean }>,
+  baseCurrency: string,
+  rates: Record<string, number>
+): BaseCurrencyTotals {
+  const missing = new Set<string>();
+  let total = 0;
+
+  accounts.forEach(account => {
+    if (account.includeInTotal === false) return;
+    const currency = account.currency || DEFAULT_CURRENCY;
+    const rate = rates[currency];
+    if (rate === undefined) {
+      missing.add(currency);
+      return;
+    }
+    total += (account.balance || 0) * rate;
+  });
+
+  return {
+    baseCurrency,
+    total: roundAmount(total),
+    rates,
+    missingRates: Array.from(missing)
+  };
+}
+
+/**
+ * Work out the amount a transfer credits to its destination account
+ * Same-currency transfers credit `amount`; transfers between currencies use the given toAmount,
+ * falling back to the exchange rate on the transaction date
+ * @param householdId - Household the accounts belong to
+ * @param data - Transaction fields (type, fromAccount, toAccount, amount, toAmount, transactionDate)
+ * @returns The toAmount to store (null when not needed) and whether it could be resolved
+ */
+export async function resolveTransferAmount(
+  householdId: string,
+  data: any
+): Promise<{ toAmount: number | null; resolved: boolean }> {
+  if (data.type !== 'transfer' || !data.fromAccount || !data.toAccount) {
+    return { toAmount: null, resolved: true };
+  }
+
+  const accounts = await Account.find({ _id: { $in: [data.fromAccount, data.toAccount] }, householdId });
+  const currencyOf = (id: any) =>
+    accounts.find(account => (account._id as any).toString() === id.toString())?.currency || DEFAULT_CURRENCY;
+  const fromCurrency = currencyOf(data.fromAccount);
+  const toCurrency = currencyOf(data.toAccount);
+
+  if (fromCurrency === toCurrency) {
+    return { toAmount: null, resolved: true };
+  }
+  if (data.toAmount !== undefined && data.toAmount !== null) {
+    return { toAmount: data.toAmount, resolved: true };
+  }
+
+  const asOf = data.transactionDate ? new Date(data.transactionDate) : new Date();
+  const rate = await findExchangeRate(householdId, fromCurrency, toCurrency, asOf);
+  if (rate === null) {
+    return { toAmount: null, resolved: false };
+  }
+  return { toAmount: roundAmount(data.amount * rate), resolved: true };
+}
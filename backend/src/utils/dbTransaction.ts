@@ -0,0 +1,15 @@
+/**
+ * Multi-document MongoDB transactions for writes that must apply together,
+ * such as a transaction and the balance changes it makes
+ */
+import mongoose, { ClientSession } from "mongoose";
+
+/**
+ * Run writes in one MongoDB transaction, retried as a whole on transient errors such as write conflicts
+ * Every operation inside must be given the session. Needs a replica set (or mongos) deployment.
+ * @param fn - Writes to run; may be called more than once, so it must not keep state between calls
+ * @returns What fn returns once the transaction is committed
+ */
+export async function runInTransaction<T>(fn: (session: ClientSession) => Promise<T>): Promise<T> {
+  return mongoose.connection.transaction(fn);
+}
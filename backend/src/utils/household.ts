@@ -0,0 +1,128 @@
+/**
+ * Household scoping helpers: every document belongs to the household of the user that created it
+ */
+import { Request } from "express";
+import crypto from "crypto";
+import mongoose from "mongoose";
+import Household from "../models/household";
+import Account from "../models/account";
+import Category from "../models/category";
+import Tag from "../models/tag";
+import Payee from "../models/payee";
+import { NOT_DELETED_FILTER } from "./softDelete";
+
+// Unambiguous characters for invitation codes (no 0/O, 1/I)
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+
+/**
+ * Get the household of the authenticated user
+ */
+export function getHouseholdId(req: Request): string {
+  if (!req.user?.householdId) {
+    throw new Error('Request is not scoped to a household');
+  }
+  return req.user.householdId;
+}
+
+/**
+ * Restrict a filter to the caller's household
+ * @param req - Authenticated request
+ * @param filter - Existing MongoDB filter object
+ * @returns Filter object limited to the caller's household
+ */
+export function scopeToHousehold(req: Request, filter: any = {}): any {
+  return { ...filter, householdId: getHouseholdId(req) };
+}
+
+/**
+ * Check that referenced accounts, categories, tags and payees belong to a household
+ * Deleted categories, tags and payees no longer count as valid references
+ * @param householdId - Household the references must belong to
+ * @param refs - Account, category, tag and payee ids (empty values are ignored)
+ * @returns true when every reference belongs to the household
+ */
+export async function verifyHouseholdReferences(
+  householdId: string,
+  refs: {
+    accounts?: Array<string | null | undefined>;
+    categories?: Array<string | null | undefined>;
+    tags?: Array<string | null | undefined>;
+    payees?: Array<string | null | undefined>;
+  }
+): Promise<boolean> {
+  const unique = (ids?: Array<string | null | undefined>) =>
+    Array.from(new Set((ids || []).filter(Boolean).map(id => id!.toString())));
+
+  const accountIds = unique(refs.accounts);
+  const categoryIds = unique(refs.categories);
+  const tagIds = unique(refs.tags);
+  const payeeIds = unique(refs.payees);
+
+  if ([...accountIds, ...categoryIds, ...tagIds, ...payeeIds].some(id => !mongoose.isValidObjectId(id))) {
+    return false;
+  }
+
+  const [accountCount, categoryCount, tagCount, payeeCount] = await Promise.all([
+    accountIds.length > 0 ? Account.countDocuments({ _id: { $in: accountIds }, householdId }) : 0,
+    categoryIds.length > 0 ? Category.countDocuments({ _id: { $in: categoryIds }, householdId, ...NOT_DELETED_FILTER }) : 0,
+    tagIds.length > 0 ? Tag.countDocuments({ _id: { $in: tagIds }, householdId, ...NOT_DELETED_FILTER }) : 0,
+    payeeIds.length > 0 ? Payee.countDocuments({ _id: { $in: payeeIds }, householdId, ...NOT_DELETED_FILTER }) : 0
+  ]);
+
+  return accountCount === accountIds.length && categoryCount === categoryIds.length
+    && tagCount === tagIds.length && payeeCount === payeeIds.length;
+}
+
+/**
+ * Whether a user is an owner of a household (members may be populated)
+ */
+export function isHouseholdOwner(household: any, userId: string): boolean {
+  return household.members.some((member: any) =>
+    (member.user?._id || member.user).toString() === userId && member.role === 'owner'
+  );
+}
+
+export function generateInviteCode(): string {
+  const bytes = crypto.randomBytes(INVITE_CODE_LENGTH);
+  return Array.from(bytes, byte => INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length]).join('');
+}
+
+/**
+ * Make sure a user belongs to a household, creating a personal one when needed
+ * The very first household adopts data created before households existed
+ * @param user - User document (saved when a household is created)
+ * @returns The user's household id
+ */
+export async function ensureHousehold(user: any): Promise<string> {
+  if (user.householdId) {
+    return user.householdId.toString();
+  }
+
+  const isFirstHousehold = (await Household.countDocuments()) === 0;
+  const household = new Household({
+    name: user.name ? `${user.name}'s household` : 'My household',
+    members: [{ user: user._id, role: 'owner', joinedAt: new Date() }]
+  });
+  await household.save();
+
+  user.householdId = household._id;
+  await user.save();
+
+  if (isFirstHousehold) {
+    await adoptUnscopedData(household._id as mongoose.Types.ObjectId);
+  }
+
+  return (household._id as mongoose.Types.ObjectId).toString();
+}
+
+// Assign documents created before households existed to a household
+async function adoptUnscopedData(householdId: mongoose.Types.ObjectId): Promise<void> {
+  const models = ['Account', 'Category', 'Transaction', 'Budget', 'RecurringTransaction']
+    .filter(name => mongoose.modelNames().includes(name))
+    .map(name => mongoose.model(name));
+
+  await Promise.all(models.map(Model =>
+    Model.updateMany({ householdId: { $exists: false } }, { $set: { householdId } })
+  ));
+}
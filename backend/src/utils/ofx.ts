@@ -0,0 +1,137 @@
+/**
+ * OFX/QFX statement parsing, for both the SGML (1.x) and XML (2.x) flavours
+ */
+import { CsvRowError, MappedCsvRow } from "./csv";
+
+// A statement line with the bank's own reference, used to recognise it on the next import
+export interface StatementTransaction extends MappedCsvRow {
+  externalId?: string;
+}
+
+// The account a statement was exported from, as the bank identifies it
+export interface StatementAccount {
+  institution?: string;
+  bankId?: string;
+  accountId: string;
+  currency?: string;
+}
+
+export interface ParsedStatement {
+  account?: StatementAccount;
+  accountType: 'debit' | 'credit';
+  rows: StatementTransaction[];
+  errors: CsvRowError[];
+}
+
+const ENTITIES: Record<string, string> = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&apos;': "'", '&nbsp;': ' ' };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(amp|lt|gt|quot|apos|nbsp);/gi, entity => ENTITIES[entity.toLowerCase()] || entity);
+}
+
+// SGML leaves value elements unclosed, so a value runs until the next tag or line break
+function tagValue(block: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  const value = match ? decodeEntities(match[1].trim()) : '';
+  return value === '' ? undefined : value;
+}
+
+// Aggregates are closed in both flavours
+function aggregates(text: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+  const blocks: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    blocks.push(match[1]);
+  }
+  return blocks;
+}
+
+/**
+ * The key an account is recognised by on later imports: the bank routing number and account number
+ */
+export function statementAccountKey(account: StatementAccount): string {
+  return account.bankId ? `${account.bankId}:${account.accountId}` : account.accountId;
+}
+
+/**
+ * Whether the text looks like an OFX or QFX file
+ */
+export function isOfx(text: string): boolean {
+  return /OFXHEADER|<OFX>/i.test(text.slice(0, 2000));
+}
+
+/**
+ * Parse an OFX date (YYYYMMDD, optionally followed by a time and zone) as a UTC date
+ * The time is ignored like it is for CSV statements, so a day never shifts with the zone
+ * @returns The date, or null when the value isn't a date
+ */
+export function parseOfxDate(value: string | undefined): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value?.trim() || '');
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Read the statement account and its transactions from an OFX/QFX file
+ * Bank and credit card statements are supported; transactions that can't be read are returned as errors
+ */
+export function parseOfx(text: string): ParsedStatement {
+  const start = text.search(/<OFX>/i);
+  const body = start >= 0 ? text.slice(start) : text;
+
+  let account: StatementAccount | undefined;
+  const [bankAccount] = aggregates(body, 'BANKACCTFROM');
+  const [cardAccount] = aggregates(body, 'CCACCTFROM');
+  const accountBlock = bankAccount ?? cardAccount;
+  const accountId = accountBlock ? tagValue(accountBlock, 'ACCTID') : undefined;
+  if (accountBlock && accountId) {
+    account = {
+      institution: tagValue(body, 'ORG'),
+      bankId: tagValue(accountBlock, 'BANKID'),
+      accountId,
+      currency: tagValue(body, 'CURDEF')?.toUpperCase()
+    };
+  }
+  const accountType = cardAccount !== undefined || tagValue(bankAccount || '', 'ACCTTYPE')?.toUpperCase() === 'CREDITLINE'
+    ? 'credit'
+    : 'debit';
+
+  const rows: StatementTransaction[] = [];
+  const errors: CsvRowError[] = [];
+  aggregates(body, 'STMTTRN').forEach((block, index) => {
+    const row = index + 1;
+    const transactionDate = parseOfxDate(tagValue(block, 'DTPOSTED'));
+    if (!transactionDate) {
+      errors.push({ row, error: `Invalid date "${tagValue(block, 'DTPOSTED') || ''}"` });
+      return;
+    }
+
+    const rawAmount = tagValue(block, 'TRNAMT');
+    const amount = rawAmount === undefined ? NaN : Number(rawAmount.replace(',', '.'));
+    if (!amount) {
+      errors.push({ row, error: 'Missing or zero amount' });
+      return;
+    }
+
+    const name = tagValue(block, 'NAME') || tagValue(block, 'PAYEEID');
+    const memo = tagValue(block, 'MEMO');
+    rows.push({
+      row,
+      transactionDate,
+      amount: Math.abs(amount),
+      type: amount < 0 ? 'expense' : 'income',
+      description: name || memo || '',
+      notes: name && memo && memo !== name ? memo : undefined,
+      externalId: tagValue(block, 'FITID') || tagValue(block, 'CHECKNUM')
+    });
+  });
+
+  return { account, accountType, rows, errors };
+}
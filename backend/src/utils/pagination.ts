@@ -0,0 +1,50 @@
+/**
+ * Cursor pagination over transactionDate + _id: the cursor names the last row of a page, so pages stay
+ * stable while transactions are added or removed elsewhere in the list
+ */
+import mongoose from "mongoose";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+export interface PageCursor {
+  transactionDate: Date;
+  id: string;
+}
+
+/**
+ * Opaque cursor for the row a page ended on
+ */
+export function encodeCursor(row: { transactionDate: Date | string; _id: any }): string {
+  const position = [new Date(row.transactionDate).toISOString(), row._id.toString()];
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * @returns The row a cursor points after, or null when the cursor is malformed
+ */
+export function decodeCursor(cursor: string): PageCursor | null {
+  try {
+    const [date, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    const transactionDate = new Date(date);
+    if (typeof date !== 'string' || isNaN(transactionDate.getTime()) || !/^[0-9a-fA-F]{24}$/.test(id)) {
+      return null;
+    }
+    return { transactionDate, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Filter for the rows after the cursor in the given order (1 oldest first, -1 newest first)
+ */
+export function afterCursor(cursor: PageCursor, order: 1 | -1): any {
+  const beyond = order === 1 ? '$gt' : '$lt';
+  return {
+    $or: [
+      { transactionDate: { [beyond]: cursor.transactionDate } },
+      { transactionDate: cursor.transactionDate, _id: { [beyond]: new mongoose.Types.ObjectId(cursor.id) } }
+    ]
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Payee matching: normalizing messy statement and typed descriptions and finding the payee they name
+ */
+import Payee from "../models/payee";
+import { NOT_DELETED_FILTER } from "./softDelete";
+
+// Words banks and card processors add around the merchant name
+const NOISE_WORDS = new Set(['pos', 'purchase', 'debit', 'card', 'ref', 'txn', 'www', 'com', 'inc', 'ltd', 'corp']);
+
+export interface PayeeCandidate {
+  _id: any;
+  name: string;
+  aliases?: string[];
+  defaultCategory?: any; // Category ID, or the category itself with its type when populated
+}
+
+/**
+ * Reduce a description to the words that name the payee: lowercase, without punctuation,
+ * reference numbers (any word with a digit) or banking noise words
+ * "GRAB *RIDE 1234" and "Grab ride" both become "grab ride"
+ */
+export function normalizePayeeText(text: string): string {
+  return (text || '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .split(' ')
+    .filter(word => word && !/\d/.test(word) && !NOISE_WORDS.has(word))
+    .join(' ');
+}
+
+// Whether the words of a name appear as whole words in a normalized description
+function containsWords(description: string, name: string): boolean {
+  return !!name && ` ${description} `.includes(` ${name} `);
+}
+
+/**
+ * Find the payee a description names: the one with the longest name or alias found in it as whole words
+ * @returns The matching payee, or null when none matches
+ */
+export function matchPayee<T extends PayeeCandidate>(description: string, payees: T[]): T | null {
+  const normalized = normalizePayeeText(description);
+  if (!normalized) return null;
+
+  let best: T | null = null;
+  let bestLength = 0;
+  payees.forEach(payee => {
+    [payee.name, ...(payee.aliases || [])].forEach(key => {
+      const name = normalizePayeeText(key);
+      if (name.length > bestLength && containsWords(normalized, name)) {
+        best = payee;
+        bestLength = name.length;
+      }
+    });
+  });
+  return best;
+}
+
+/**
+ * The household's payees, with the type of their default category for matching transactions
+ */
+export async function loadPayees(householdId: string): Promise<PayeeCandidate[]> {
+  return Payee.find({ householdId, ...NOT_DELETED_FILTER })
+    .sort({ name: 1 })
+    .populate('defaultCategory', 'type isDeleted');
+}
+
+/**
+ * Default category of a payee when it fits a transaction of the given type
+ */
+export function defaultCategoryFor(payee: PayeeCandidate, type?: string): string | null {
+  const category = payee.defaultCategory;
+  if (!category || category.isDeleted || type === 'transfer') return null;
+  const categoryType = category.type || 'Expense';
+  if (categoryType !== (type === 'income' ? 'Income' : 'Expense')) return null;
+  return (category._id || category).toString();
+}
+
+/**
+ * Payee of a transaction: the one it names by ID, or else the one its description matches
+ */
+export function payeeFor<T extends PayeeCandidate>(payees: T[], data: { payee?: any; description?: string }): T | null {
+  if (data.payee) {
+    return payees.find(payee => payee._id.toString() === data.payee.toString()) || null;
+  }
+  return data.description ? matchPayee(data.description, payees) : null;
+}
+
+/**
+ * Fill in the payee of a transaction from its description, and its category from the payee's
+ * default category when it has neither a category nor split lines
+ * @returns The transaction data, with payee (and category) set when a payee is known
+ */
+export function assignPayeeFrom(payees: PayeeCandidate[], data: any): any {
+  const payee = payeeFor(payees, data);
+  if (!payee) {
+    return data;
+  }
+
+  const assigned = { ...data, payee: payee._id.toString() };
+  const category = defaultCategoryFor(payee, data.type);
+  if (category && !data.category && !data.splits?.length) {
+    assigned.category = category;
+  }
+  return assigned;
+}
+
+/**
+ * Payees to suggest while a description is typed: the payee the text names first, then payees whose
+ * name or an alias starts with the text, then those containing it, each group in the given order
+ */
+export function suggestPayees<T extends PayeeCandidate>(text: string, payees: T[], limit: number): T[] {
+  const query = normalizePayeeText(text);
+  if (!query) return payees.slice(0, limit);
+
+  const named = matchPayee(text, payees);
+  const keys = (payee: T) => [payee.name, ...(payee.aliases || [])].map(normalizePayeeText);
+  const starting = payees.filter(payee => keys(payee).some(key => key.startsWith(query)));
+  const containing = payees.filter(payee => keys(payee).some(key => key.includes(query)));
+
+  return Array.from(new Set([...(named ? [named] : []), ...starting, ...containing])).slice(0, limit);
+}
@@ -0,0 +1,104 @@
+/**
+ * QIF statement parsing, as exported by older desktop finance apps
+ */
+import { CsvRowError, DateFormat, parseAmount, parseDate } from "./csv";
+import { ParsedStatement, StatementTransaction } from "./ofx";
+
+// Sections holding account transactions; category, class and memorized lists are skipped
+const TRANSACTION_SECTIONS = ['bank', 'cash', 'ccard', 'oth a', 'oth l'];
+const CREDIT_SECTIONS = ['ccard', 'oth l'];
+
+/**
+ * Whether the text looks like a QIF file
+ */
+export function isQif(text: string): boolean {
+  return /^\uFEFF?\s*!(Type|Account|Option)/i.test(text);
+}
+
+/**
+ * Parse a QIF date in the given day/month order
+ * Quicken writes years after 1999 with an apostrophe and pads with spaces (1/ 5'26)
+ */
+export function parseQifDate(value: string, format: DateFormat = 'MM/DD/YYYY'): Date | null {
+  return parseDate(value.replace(/'/g, '/').replace(/\s+/g, ''), format);
+}
+
+// "Food:Groceries/Household" is the Groceries subcategory with a class; "[Savings]" is a transfer
+function categoryName(value: string | undefined): string | undefined {
+  if (!value || value.startsWith('[')) return undefined;
+  const name = value.split('/')[0].split(':').pop()?.trim();
+  return name || undefined;
+}
+
+/**
+ * Read the transactions of a QIF file
+ * QIF carries no account number, so the statement account is left for the caller to pick
+ */
+export function parseQif(text: string, dateFormat: DateFormat = 'MM/DD/YYYY'): ParsedStatement {
+  const rows: StatementTransaction[] = [];
+  const errors: CsvRowError[] = [];
+  let section = '';
+  let accountType: 'debit' | 'credit' = 'debit';
+  let fields: Record<string, string> = {};
+  let record = 0;
+
+  const endRecord = () => {
+    if (Object.keys(fields).length === 0) return;
+    record++;
+    const row = record;
+    const current = fields;
+    fields = {};
+
+    const transactionDate = parseQifDate(current.D || '', dateFormat);
+    if (!transactionDate) {
+      errors.push({ row, error: `Invalid date "${current.D || ''}"` });
+      return;
+    }
+    const amount = parseAmount(current.T ?? current.U);
+    if (!amount) {
+      errors.push({ row, error: 'Missing or zero amount' });
+      return;
+    }
+
+    rows.push({
+      row,
+      transactionDate,
+      amount: Math.abs(amount),
+      type: amount < 0 ? 'expense' : 'income',
+      description: current.P || current.M || '',
+      categoryName: categoryName(current.L),
+      notes: current.P && current.M ? current.M : undefined,
+      // Only cheque numbers identify a transaction; N also holds words like ATM or DEP
+      externalId: current.N && /^\d+$/.test(current.N) ? current.N : undefined
+    });
+  };
+
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (line === '') return;
+
+    if (line.startsWith('!')) {
+      endRecord();
+      const type = /^!Type:(.*)$/i.exec(line);
+      section = type ? type[1].trim().toLowerCase() : '';
+      if (CREDIT_SECTIONS.includes(section)) {
+        accountType = 'credit';
+      }
+      return;
+    }
+    if (!TRANSACTION_SECTIONS.includes(section)) return;
+
+    if (line === '^') {
+      endRecord();
+      return;
+    }
+    // Split lines (S, E, $) are folded into the transaction amount
+    const code = line[0];
+    if (!['S', 'E', '$'].includes(code)) {
+      fields[code] = line.slice(1).trim();
+    }
+  });
+  endRecord();
+
+  return { rows, errors, accountType };
+}
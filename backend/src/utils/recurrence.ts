@@ -0,0 +1,243 @@
+/**
+ * Recurrence math and materialization for recurring transaction schedules
+ */
+import Transaction from "../models/transaction";
+import RecurringTransaction, { IRecurringTransaction, IRecurrenceException, RecurrenceFrequency } from "../models/recurringTransaction";
+import { runInTransaction } from "./dbTransaction";
+import { resolveTransferAmount } from "./currency";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound of occurrences materialized per schedule in a single run
+const MAX_OCCURRENCES_PER_RUN = 366;
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: Date;
+  endDate?: Date | null;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function isSameUTCDay(a: Date, b: Date): boolean {
+  return a.getUTCFullYear() === b.getUTCFullYear() &&
+    a.getUTCMonth() === b.getUTCMonth() &&
+    a.getUTCDate() === b.getUTCDate();
+}
+
+/**
+ * Get the n-th occurrence of a rule (0 = startDate)
+ * Monthly and yearly occurrences keep the start day, clamped to the end of shorter months
+ * @param rule - Recurrence rule
+ * @param index - Occurrence index
+ * @returns Date of the occurrence
+ */
+export function getOccurrenceAt(rule: RecurrenceRule, index: number): Date {
+  const start = new Date(rule.startDate);
+  const interval = rule.interval || 1;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return new Date(start.getTime() + index * interval * DAY_MS);
+    case 'weekly':
+      return new Date(start.getTime() + index * interval * 7 * DAY_MS);
+    case 'monthly':
+    case 'yearly': {
+      const monthOffset = rule.frequency === 'monthly' ? index * interval : index * interval * 12;
+      const totalMonths = start.getUTCMonth() + monthOffset;
+      const year = start.getUTCFullYear() + Math.floor(totalMonths / 12);
+      const month = totalMonths % 12;
+      const day = Math.min(start.getUTCDate(), daysInMonth(year, month));
+      return new Date(Date.UTC(
+        year, month, day,
+        start.getUTCHours(), start.getUTCMinutes(), start.getUTCSeconds(), start.getUTCMilliseconds()
+      ));
+    }
+    default:
+      throw new Error(`Unknown recurrence frequency: ${rule.frequency}`);
+  }
+}
+
+// Estimate the first occurrence index that could fall on or after a date
+function estimateIndex(rule: RecurrenceRule, from: Date): number {
+  const start = new Date(rule.startDate);
+  const interval = rule.interval || 1;
+  if (from <= start) return 0;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return Math.floor((from.getTime() - start.getTime()) / (interval * DAY_MS));
+    case 'weekly':
+      return Math.floor((from.getTime() - start.getTime()) / (interval * 7 * DAY_MS));
+    case 'monthly': {
+      const months = (from.getUTCFullYear() - start.getUTCFullYear()) * 12 + from.getUTCMonth() - start.getUTCMonth();
+      return Math.floor(months / interval);
+    }
+    case 'yearly':
+      return Math.floor((from.getUTCFullYear() - start.getUTCFullYear()) / interval);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * List occurrences of a rule on or after a date
+ * @param rule - Recurrence rule
+ * @param from - Earliest occurrence to include
+ * @param limit - Maximum number of occurrences to return
+ * @param until - Optional latest occurrence to include (in addition to the rule's endDate)
+ * @returns Occurrence dates in ascending order
+ */
+export function getOccurrences(rule: RecurrenceRule, from: Date, limit: number, until?: Date): Date[] {
+  const occurrences: Date[] = [];
+  let index = Math.max(0, estimateIndex(rule, from) - 1);
+
+  while (occurrences.length < limit) {
+    const occurrence = getOccurrenceAt(rule, index);
+    if (rule.endDate && occurrence > new Date(rule.endDate)) break;
+    if (until && occurrence > until) break;
+    if (occurrence >= from) {
+      occurrences.push(occurrence);
+    }
+    index++;
+  }
+
+  return occurrences;
+}
+
+/**
+ * Find the occurrence of a rule that falls on the same UTC day as a date
+ * @param rule - Recurrence rule
+ * @param date - Any time on the day to look up
+ * @returns The exact occurrence date, or null when the rule doesn't occur that day
+ */
+export function findOccurrence(rule: RecurrenceRule, date: Date): Date | null {
+  const dayStart = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const [occurrence] = getOccurrences(rule, dayStart, 1);
+  return occurrence && isSameUTCDay(occurrence, date) ? occurrence : null;
+}
+
+/**
+ * Find the exception registered for an occurrence, if any
+ */
+export function findException(schedule: IRecurringTransaction, date: Date): IRecurrenceException | undefined {
+  return (schedule.exceptions || []).find(exception => isSameUTCDay(new Date(exception.date), date));
+}
+
+/**
+ * Build the Transaction data for one occurrence of a schedule, applying any "modify" exception
+ */
+export function buildOccurrenceTransaction(schedule: IRecurringTransaction, date: Date): any {
+  const exception = findException(schedule, date);
+  const overrides = exception?.action === 'modify' && exception.overrides
+    ? Object.fromEntries(Object.entries(exception.overrides).filter(([, value]) => value !== undefined && value !== null))
+    : {};
+  // The schedule's destination amount no longer applies once the occurrence changes the amount or the accounts
+  const keepsToAmount = !['amount', 'fromAccount', 'toAccount'].some(field => field in overrides);
+
+  return {
+    transactionDate: date,
+    fromAccount: schedule.fromAccount,
+    toAccount: schedule.toAccount,
+    category: schedule.category,
+    amount: schedule.amount,
+    toAmount: keepsToAmount ? schedule.toAmount ?? null : null,
+    description: schedule.description,
+    notes: schedule.notes,
+    type: schedule.type,
+    ...overrides,
+    recurringTransaction: schedule._id,
+    recurrenceDate: date,
+    householdId: schedule.householdId,
+    updatedAt: Date.now(),
+    syncVersion: 1,
+    lastModifiedBy: 'recurring'
+  };
+}
+
+/**
+ * Create the transactions of every occurrence of a schedule that is due
+ * Transactions are created through the model so the balance hooks run
+ * @param schedule - Schedule to materialize
+ * @param asOf - Materialize occurrences up to this date
+ * @returns Number of transactions created
+ */
+export async function materializeRecurringTransaction(schedule: IRecurringTransaction, asOf: Date = new Date()): Promise<number> {
+  if (!schedule.isActive || schedule.isDeleted || !schedule.nextRunDate || schedule.nextRunDate > asOf) {
+    return 0;
+  }
+
+  const due = getOccurrences(schedule, new Date(schedule.nextRunDate), MAX_OCCURRENCES_PER_RUN, asOf);
+  const after = due.length > 0
+    ? new Date(due[due.length - 1].getTime() + 1)
+    : new Date(schedule.nextRunDate.getTime() + 1);
+  const [nextRunDate] = getOccurrences(schedule, after, 1);
+
+  // Claim the due occurrences by advancing nextRunDate, and create them, in one MongoDB transaction: a failed
+  // save rolls the claim back so the next run retries, and concurrent runs conflict instead of double-creating
+  return runInTransaction(async session => {
+    const claimed = await RecurringTransaction.findOneAndUpdate(
+      { _id: schedule._id, nextRunDate: schedule.nextRunDate },
+      {
+        nextRunDate: nextRunDate || null,
+        lastRunDate: due.length > 0 ? due[due.length - 1] : schedule.lastRunDate,
+        updatedAt: Date.now()
+      },
+      { new: true, session }
+    );
+    if (!claimed) return 0;
+
+    let created = 0;
+    for (const date of due) {
+      if (findException(schedule, date)?.action === 'skip') continue;
+
+      const existing = await Transaction.findOne({ recurringTransaction: schedule._id, recurrenceDate: date }, null, { session });
+      if (existing) continue;
+
+      // Transfers between currencies convert at the rate of the occurrence date; without one the run is
+      // rolled back and retried once the rate is recorded
+      const data = buildOccurrenceTransaction(schedule, date);
+      const { toAmount, resolved } = await resolveTransferAmount(schedule.householdId.toString(), data);
+      if (!resolved) {
+        throw new Error(`No exchange rate to convert the occurrence of ${date.toISOString()}`);
+      }
+
+      const transaction = new Transaction({ ...data, toAmount });
+      await transaction.save({ session });
+      created++;
+    }
+    return created;
+  });
+}
+
+/**
+ * Materialize every active schedule that has occurrences due
+ * @param asOf - Materialize occurrences up to this date
+ * @param householdId - Only materialize the schedules of this household
+ * @returns Number of schedules processed and transactions created
+ */
+export async function materializeDueRecurringTransactions(
+  asOf: Date = new Date(),
+  householdId?: string
+): Promise<{ schedules: number; created: number }> {
+  const schedules = await RecurringTransaction.find({
+    ...(householdId ? { householdId } : {}),
+    isActive: true,
+    isDeleted: { $ne: true },
+    nextRunDate: { $ne: null, $lte: asOf }
+  });
+
+  let created = 0;
+  for (const schedule of schedules) {
+    try {
+      created += await materializeRecurringTransaction(schedule, asOf);
+    } catch (error) {
+      console.error(`Error materializing recurring transaction ${schedule._id}:`, error);
+    }
+  }
+
+  return { schedules: schedules.length, created };
+}
@@ -0,0 +1,284 @@
+/**
+ * Report helpers: grouping transactions into calendar periods and totalling them in a base currency
+ */
+import { DEFAULT_CURRENCY, roundAmount } from "./currency";
+
+export type ReportPeriod = 'day' | 'week' | 'month' | 'year';
+
+// $dateToString formats producing the same keys as periodKey (weeks are ISO weeks)
+export const PERIOD_FORMATS: Record<ReportPeriod, string> = {
+  day: '%Y-%m-%d',
+  week: '%G-W%V',
+  month: '%Y-%m',
+  year: '%Y'
+};
+
+export interface PeriodTotals {
+  period: string;
+  start: Date;
+  income: number;
+  expense: number;
+  net: number;
+  savingsRate: number | null;
+  transactionCount: number;
+}
+
+/**
+ * First day of the period containing a date, in UTC (weeks start on Monday)
+ */
+export function periodStart(date: Date, period: ReportPeriod): Date {
+  switch (period) {
+    case 'day':
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    case 'week': {
+      const day = (date.getUTCDay() + 6) % 7;
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - day));
+    }
+    case 'month':
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+    case 'year':
+      return new Date(Date.UTC(date.getUTCFullYear(), 0, 1));
+  }
+}
+
+/**
+ * Key of the period containing a date: 2026-01-07, 2026-W02, 2026-01 or 2026
+ */
+export function periodKey(date: Date, period: ReportPeriod): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  switch (period) {
+    case 'day':
+      return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+    case 'week': {
+      // An ISO week belongs to the year of its Thursday
+      const thursday = new Date(periodStart(date, 'week').getTime() + 3 * 86400000);
+      const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+      const week = Math.floor((thursday.getTime() - yearStart) / (7 * 86400000)) + 1;
+      return `${thursday.getUTCFullYear()}-W${pad(week)}`;
+    }
+    case 'month':
+      return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}`;
+    case 'year':
+      return `${date.getUTCFullYear()}`;
+  }
+}
+
+/**
+ * Start of the period following the one starting on `start`
+ */
+export function nextPeriodStart(start: Date, period: ReportPeriod): Date {
+  switch (period) {
+    case 'day':
+      return new Date(start.getTime() + 86400000);
+    case 'week':
+      return new Date(start.getTime() + 7 * 86400000);
+    case 'month':
+      return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+    case 'year':
+      return new Date(Date.UTC(start.getUTCFullYear() + 1, 0, 1));
+  }
+}
+
+// Start date of a period key as produced by periodKey or PERIOD_FORMATS
+function periodStartOfKey(key: string, period: ReportPeriod): Date {
+  if (period === 'week') {
+    const [year, week] = key.split('-W').map(Number);
+    // Week 1 is the week holding January 4th
+    const weekOne = periodStart(new Date(Date.UTC(year, 0, 4)), 'week');
+    return new Date(weekOne.getTime() + (week - 1) * 7 * 86400000);
+  }
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(Date.UTC(year, period === 'year' ? 0 : month - 1, period === 'day' ? day : 1));
+}
+
+/**
+ * Starts of every period overlapping a date range, in order
+ */
+export function periodStarts(from: Date, to: Date, period: ReportPeriod): Date[] {
+  const starts: Date[] = [];
+  for (let start = periodStart(from, period); start <= to; start = nextPeriodStart(start, period)) {
+    starts.push(start);
+  }
+  return starts;
+}
+
+/**
+ * Share of income that was not spent, as a percentage
+ * @returns The rate rounded to one decimal, or null without income
+ */
+export function savingsRate(income: number, expense: number): number | null {
+  if (income <= 0) return null;
+  return Math.round(((income - expense) / income) * 1000) / 10;
+}
+
+/**
+ * Total per-period income and expense groups in a base currency
+ * Groups in a currency without a rate are left out and reported in missingRates
+ * @param groups - Aggregated totals per period key, transaction type and currency
+ * @param rates - Rates into the base currency (see getRatesToBase)
+ * @param range - When given, periods without transactions in the range are included with zero totals
+ */
+export function summarizePeriods(
+  groups: Array<{ period: string; type: 'income' | 'expense'; currency?: string; total: number; count: number }>,
+  rates: Record<string, number>,
+  period: ReportPeriod,
+  range?: { from: Date; to: Date }
+): { periods: PeriodTotals[]; totals: Omit<PeriodTotals, 'period' | 'start'>; missingRates: string[] } {
+  const byKey = new Map<string, PeriodTotals>();
+  const entry = (key: string, start: Date) => {
+    if (!byKey.has(key)) {
+      byKey.set(key, { period: key, start, income: 0, expense: 0, net: 0, savingsRate: null, transactionCount: 0 });
+    }
+    return byKey.get(key)!;
+  };
+
+  if (range) {
+    periodStarts(range.from, range.to, period).forEach(start => entry(periodKey(start, period), start));
+  }
+
+  const missing = new Set<string>();
+  groups.forEach(group => {
+    const currency = group.currency || DEFAULT_CURRENCY;
+    const rate = rates[currency];
+    if (rate === undefined) {
+      missing.add(currency);
+      return;
+    }
+    const totals = entry(group.period, periodStartOfKey(group.period, period));
+    totals[group.type] += group.total * rate;
+    totals.transactionCount += group.count;
+  });
+
+  const periods = Array.from(byKey.values())
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .map(totals => ({
+      ...totals,
+      income: roundAmount(totals.income),
+      expense: roundAmount(totals.expense),
+      net: roundAmount(totals.income - totals.expense),
+      savingsRate: savingsRate(totals.income, totals.expense)
+    }));
+
+  const income = periods.reduce((sum, totals) => sum + totals.income, 0);
+  const expense = periods.reduce((sum, totals) => sum + totals.expense, 0);
+  return {
+    periods,
+    totals: {
+      income: roundAmount(income),
+      expense: roundAmount(expense),
+      net: roundAmount(income - expense),
+      savingsRate: savingsRate(income, expense),
+      transactionCount: periods.reduce((sum, totals) => sum + totals.transactionCount, 0)
+    },
+    missingRates: Array.from(missing)
+  };
+}
+
+export interface GroupTotals {
+  key: string; // Tag or payee ID
+  income: number;
+  expense: number;
+  net: number;
+  transactionCount: number;
+}
+
+/**
+ * Total income and expense groups per key (a tag or payee) in a base currency, biggest spending first
+ * A transaction carrying several tags counts towards each of them
+ * Groups in a currency without a rate are left out and reported in missingRates
+ * @param groups - Aggregated totals per key, transaction type and currency
+ * @param rates - Rates into the base currency (see getRatesToBase)
+ */
+export function summarizeGroups(
+  groups: Array<{ key: string; type: 'income' | 'expense'; currency?: string; total: number; count: number }>,
+  rates: Record<string, number>
+): { totals: GroupTotals[]; missingRates: string[] } {
+  const byKey = new Map<string, GroupTotals>();
+  const missing = new Set<string>();
+  groups.forEach(group => {
+    const currency = group.currency || DEFAULT_CURRENCY;
+    const rate = rates[currency];
+    if (rate === undefined) {
+      missing.add(currency);
+      return;
+    }
+    if (!byKey.has(group.key)) {
+      byKey.set(group.key, { key: group.key, income: 0, expense: 0, net: 0, transactionCount: 0 });
+    }
+    const totals = byKey.get(group.key)!;
+    totals[group.type] += group.total * rate;
+    totals.transactionCount += group.count;
+  });
+
+  const totals = Array.from(byKey.values())
+    .map(totals => ({
+      ...totals,
+      income: roundAmount(totals.income),
+      expense: roundAmount(totals.expense),
+      net: roundAmount(totals.income - totals.expense)
+    }))
+    .sort((a, b) => b.expense - a.expense || b.income - a.income);
+  return { totals, missingRates: Array.from(missing) };
+}
+
+export interface NetWorthPoint {
+  period: string;
+  date: string; // Last day of the period the balances are taken at (the end of the range at most)
+  assets: number;
+  liabilities: number; // Owed on credit accounts, positive while in debt
+  netWorth: number;
+}
+
+/**
+ * Rebuild net worth at the end of each period by walking back from the current balances:
+ * a balance at the end of a day is the current balance minus every change booked after that day
+ * @param accounts - Accounts counted in the total, with their current balance in their own currency
+ * @param changes - Balance changes per account and day (YYYY-MM-DD), in the account's own currency
+ * @param rates - Rate into the base currency per account ID (1 when left out)
+ */
+export function netWorthSeries(
+  accounts: Array<{ id: string; balance: number; liability: boolean }>,
+  changes: Array<{ account: string; day: string; amount: number }>,
+  rates: Record<string, number>,
+  period: ReportPeriod,
+  range: { from: Date; to: Date }
+): NetWorthPoint[] {
+  const balances = new Map(accounts.map(account => [account.id, account.balance]));
+  const pending = changes
+    .filter(change => balances.has(change.account))
+    .sort((a, b) => b.day.localeCompare(a.day));
+  let next = 0;
+
+  const lastDay = periodKey(range.to, 'day');
+  const points = periodStarts(range.from, range.to, period).map(start => {
+    const periodEnd = periodKey(new Date(nextPeriodStart(start, period).getTime() - 86400000), 'day');
+    return { period: periodKey(start, period), date: periodEnd < lastDay ? periodEnd : lastDay };
+  });
+
+  // Latest point first, undoing changes as the walk goes back in time
+  const series: NetWorthPoint[] = [];
+  for (const point of [...points].reverse()) {
+    while (next < pending.length && pending[next].day > point.date) {
+      const change = pending[next++];
+      balances.set(change.account, balances.get(change.account)! - change.amount);
+    }
+
+    let assets = 0;
+    let liabilities = 0;
+    accounts.forEach(account => {
+      const value = balances.get(account.id)! * (rates[account.id] ?? 1);
+      if (account.liability) {
+        liabilities -= value;
+      } else {
+        assets += value;
+      }
+    });
+    series.unshift({
+      ...point,
+      assets: roundAmount(assets),
+      liabilities: roundAmount(liabilities),
+      netWorth: roundAmount(assets - liabilities)
+    });
+  }
+  return series;
+}
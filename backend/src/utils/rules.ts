@@ -0,0 +1,217 @@
+/**
+ * Auto-categorization: payees matched from descriptions and rules setting category, tags, type or notes
+ * on new, synced and imported transactions, and on history when rules are re-applied
+ */
+import Rule from "../models/rule";
+import Transaction from "../models/transaction";
+import { NOT_DELETED_FILTER } from "./softDelete";
+import { runInTransaction } from "./dbTransaction";
+import { buildDateCondition } from "./transactionTotals";
+import { assignPayeeFrom, loadPayees, normalizePayeeText, payeeFor, PayeeCandidate } from "./payees";
+
+export interface RuleCandidate {
+  _id?: any;
+  conditions?: {
+    descriptionContains?: string | null;
+    amountMin?: number | null;
+    amountMax?: number | null;
+    account?: any;
+    payee?: any;
+  };
+  actions?: {
+    category?: any; // Category ID, or the category itself when populated
+    tags?: any[];
+    type?: 'income' | 'expense' | null;
+    notes?: string | null;
+  };
+}
+
+export interface Automation {
+  payees: PayeeCandidate[];
+  rules: RuleCandidate[];
+}
+
+// Fields rules and payees fill in, compared to report what changed
+const AUTOMATED_FIELDS = ['payee', 'category', 'tags', 'type', 'notes'];
+
+// ID of a reference, populated or not
+function idOf(ref: any): string | null {
+  return ref ? (ref._id || ref).toString() : null;
+}
+
+/**
+ * Whether a transaction meets every condition of a rule; a rule without conditions matches nothing
+ */
+export function ruleMatches(rule: RuleCandidate, transaction: any): boolean {
+  const { descriptionContains, amountMin, amountMax, account, payee } = rule.conditions || {};
+  if (!descriptionContains && amountMin == null && amountMax == null && !account && !payee) {
+    return false;
+  }
+
+  if (descriptionContains) {
+    const description = transaction.description || '';
+    const normalized = normalizePayeeText(descriptionContains);
+    const contains = description.toLowerCase().includes(descriptionContains.toLowerCase())
+      || (!!normalized && normalizePayeeText(description).includes(normalized));
+    if (!contains) return false;
+  }
+  if (amountMin != null && transaction.amount < amountMin) return false;
+  if (amountMax != null && transaction.amount > amountMax) return false;
+  if (account && ![idOf(transaction.fromAccount), idOf(transaction.toAccount)].includes(idOf(account))) return false;
+  if (payee && idOf(transaction.payee) !== idOf(payee)) return false;
+  return true;
+}
+
+/**
+ * Apply rules, in the order given, to a transaction
+ * Rules only fill in a category when the transaction has neither one nor split lines, and notes when it has none;
+ * tags are added, and the type is set unless the transaction is a transfer. The first rule to set a field wins.
+ * Deleted categories and tags are skipped (when populated)
+ * @returns The transaction data with the actions applied, and the IDs of the rules that matched
+ */
+export function applyRules(rules: RuleCandidate[], transaction: any): { data: any; matched: string[] } {
+  const data = { ...transaction };
+  const matched: string[] = [];
+  let typeSet = false;
+
+  rules.forEach(rule => {
+    if (!ruleMatches(rule, transaction)) return;
+    matched.push(idOf(rule._id) || '');
+
+    const { category, tags, type, notes } = rule.actions || {};
+    if (category && !category.isDeleted && !data.category && !data.splits?.length && data.type !== 'transfer') {
+      data.category = idOf(category);
+    }
+    const liveTags = (tags || []).filter(tag => tag && !tag.isDeleted).map(idOf);
+    if (liveTags.length > 0) {
+      const current = (data.tags || []).map(idOf);
+      data.tags = Array.from(new Set([...current, ...liveTags]));
+    }
+    if (type && !typeSet && data.type !== 'transfer') {
+      data.type = type;
+      typeSet = true;
+    }
+    if (notes && !data.notes) {
+      data.notes = notes;
+    }
+  });
+
+  return { data, matched };
+}
+
+/**
+ * Fill in what a transaction leaves out: its payee from the description, then whatever matching rules set,
+ * then the payee's default category when it is still uncategorized
+ */
+export function automate(automation: Automation, transaction: any): any {
+  const payee = payeeFor(automation.payees, transaction);
+  const withPayee = payee ? { ...transaction, payee: payee._id.toString() } : transaction;
+  return assignPayeeFrom(automation.payees, applyRules(automation.rules, withPayee).data);
+}
+
+/**
+ * The household's enabled rules in priority order, with their categories and tags populated
+ * to skip deleted ones
+ */
+export async function loadRules(householdId: string): Promise<RuleCandidate[]> {
+  return Rule.find({ householdId, enabled: true, ...NOT_DELETED_FILTER })
+    .sort({ priority: 1, createdAt: 1 })
+    .populate('actions.category', 'isDeleted')
+    .populate('actions.tags', 'isDeleted');
+}
+
+/**
+ * Payees and rules of a household, loaded once for many transactions
+ */
+export async function loadAutomation(householdId: string): Promise<Automation> {
+  const [payees, rules] = await Promise.all([loadPayees(householdId), loadRules(householdId)]);
+  return { payees, rules };
+}
+
+/**
+ * Payee and rules applied to one new transaction
+ */
+export async function autoCategorize(householdId: string, transaction: any): Promise<any> {
+  return automate(await loadAutomation(householdId), transaction);
+}
+
+/**
+ * Fields that automation changed, with their new values
+ */
+export function automatedChanges(before: any, after: any): Record<string, any> {
+  const comparable = (value: any): string => JSON.stringify(
+    Array.isArray(value) ? value.map(idOf).sort() : (value && typeof value === 'object' ? idOf(value) : value ?? null)
+  );
+  const changes: Record<string, any> = {};
+  AUTOMATED_FIELDS.forEach(field => {
+    if (comparable(before[field]) !== comparable(after[field])) {
+      changes[field] = after[field];
+    }
+  });
+  return changes;
+}
+
+// Transactions re-applied per MongoDB transaction, which must stay well within its time and size limits
+export const REAPPLY_BATCH_SIZE = 500;
+
+export interface ReapplyResult {
+  transactions: Array<{ id: string; changes: Record<string, any> }>; // Changed, or that would change on a dry run
+  applied: number; // Changes written
+  error: string | null; // Why a batch failed; the batches before it stay applied
+}
+
+/**
+ * Re-apply payee matching and rules to a household's recorded transactions, optionally within a date range
+ * Transactions are read and written in batches of REAPPLY_BATCH_SIZE in _id order, each batch in its own
+ * MongoDB transaction through the Transaction model so balances follow. A failed batch stops the run; since
+ * applied transactions no longer change, running it again picks up where it stopped.
+ * @param options.dryRun - Report the changes without writing them
+ */
+export async function reapplyRules(
+  householdId: string,
+  modifiedBy: string,
+  options: { from?: string; to?: string; dryRun?: boolean } = {}
+): Promise<ReapplyResult> {
+  const automation = await loadAutomation(householdId);
+  const filter = { householdId, ...buildDateCondition(options.from, options.to), ...NOT_DELETED_FILTER };
+  const result: ReapplyResult = { transactions: [], applied: 0, error: null };
+
+  let lastId: any = null;
+  for (;;) {
+    const batch = await Transaction.find(lastId ? { ...filter, _id: { $gt: lastId } } : filter)
+      .sort({ _id: 1 })
+      .limit(REAPPLY_BATCH_SIZE);
+    if (batch.length === 0) break;
+    lastId = batch[batch.length - 1]._id;
+
+    const changed = batch
+      .map(transaction => {
+        const before = transaction.toObject();
+        return { id: (transaction._id as any).toString(), changes: automatedChanges(before, automate(automation, before)) };
+      })
+      .filter(row => Object.keys(row.changes).length > 0);
+
+    if (!options.dryRun && changed.length > 0) {
+      try {
+        await runInTransaction(async session => {
+          for (const { id, changes } of changed) {
+            await Transaction.findOneAndUpdate(
+              { _id: id, householdId },
+              { $set: { ...changes, updatedAt: Date.now(), lastModifiedBy: modifiedBy }, $inc: { syncVersion: 1 } },
+              { new: true, session }
+            );
+          }
+        });
+      } catch (err) {
+        result.error = (err as Error).message;
+        return result;
+      }
+      result.applied += changed.length;
+    }
+    result.transactions.push(...changed);
+
+    if (batch.length < REAPPLY_BATCH_SIZE) break;
+  }
+
+  return result;
+}
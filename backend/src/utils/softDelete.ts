@@ -1,6 +1,7 @@
 /**
  * Utility functions for consistent soft delete handling across the application
  */
+import { ClientSession } from "mongoose";
 
 /**
  * Standard filter to exclude soft-deleted documents
@@ -48,16 +49,18 @@ export function createSoftRestoreUpdate(): { isDeleted: boolean; deletedAt?: und
  * @param Model - Mongoose model
  * @param id - Document ID to soft delete
  * @param deviceId - Optional device ID for tracking
+ * @param scope - Extra filter the document must match (e.g. the caller's household)
+ * @param session - MongoDB transaction session the delete is part of
  * @returns Promise resolving to the updated document or null if not found
  */
-export async function performSoftDelete(Model: any, id: string, deviceId?: string) {
-  const existing = await Model.findOne({ _id: id, ...NOT_DELETED_FILTER });
+export async function performSoftDelete(Model: any, id: string, deviceId?: string, scope: any = {}, session?: ClientSession) {
+  const existing = await Model.findOne({ ...scope, _id: id, ...NOT_DELETED_FILTER }, null, { session });
   if (!existing) return null;
   
   return await Model.findOneAndUpdate(
-    { _id: id, ...NOT_DELETED_FILTER },
+    { ...scope, _id: id, ...NOT_DELETED_FILTER },
     createSoftDeleteUpdate(deviceId, existing.syncVersion),
-    { new: true }
+    { new: true, session }
   );
 }
 
@@ -65,11 +68,12 @@ export async function performSoftDelete(Model: any, id: string, deviceId?: strin
  * Helper function to restore a soft-deleted document
  * @param Model - Mongoose model
  * @param id - Document ID to restore
+ * @param scope - Extra filter the document must match (e.g. the caller's household)
  * @returns Promise resolving to the updated document or null if not found
  */
-export async function performSoftRestore(Model: any, id: string) {
+export async function performSoftRestore(Model: any, id: string, scope: any = {}) {
   return await Model.findOneAndUpdate(
-    { _id: id, isDeleted: true },
+    { ...scope, _id: id, isDeleted: true },
     createSoftRestoreUpdate(),
     { new: true }
   );
@@ -0,0 +1,185 @@
+/**
+ * Shared steps of importing bank statements: duplicate detection, auto-categorization and inserting the rows
+ */
+import Transaction from "../models/transaction";
+import Category from "../models/category";
+import { NOT_DELETED_FILTER } from "./softDelete";
+import { runInTransaction } from "./dbTransaction";
+import { automate, loadAutomation } from "./rules";
+
+export interface StatementRow {
+  row: number;
+  transactionDate: Date;
+  amount: number;
+  type: 'income' | 'expense';
+  description: string;
+  category?: string | null;
+  payee?: string | null;
+  tags?: string[];
+  notes?: string;
+  externalId?: string; // The bank's reference for the line, when the statement format has one
+}
+
+// Rows count as the same transaction when they hit the account on the same day for the same amount
+function duplicateKey(accountId: string, transactionDate: Date, amount: number, type?: string): string {
+  return [accountId, transactionDate.toISOString().slice(0, 10), amount.toFixed(2), type || ''].join('|');
+}
+
+/**
+ * Flag statement rows that match a transaction already recorded on the account
+ * Each existing transaction only accounts for one row, so repeated identical rows
+ * (two coffees on the same day) are only flagged as often as they were already recorded.
+ * Rows carrying a bank reference are only matched against transactions without one:
+ * two imported lines with different references are different transactions
+ * @returns One flag per row, in order
+ */
+export async function flagDuplicates(householdId: string, accountId: string, rows: StatementRow[]): Promise<boolean[]> {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const times = rows.map(row => row.transactionDate.getTime());
+  const from = new Date(Math.min(...times));
+  const to = new Date(Math.max(...times));
+  to.setUTCHours(23, 59, 59, 999);
+
+  const existing = await Transaction.find({
+    householdId,
+    fromAccount: accountId,
+    transactionDate: { $gte: from, $lte: to },
+    ...NOT_DELETED_FILTER
+  });
+
+  const available = new Map<string, number>();
+  existing.forEach(tx => {
+    const key = duplicateKey(accountId, new Date(tx.transactionDate), tx.amount, tx.type);
+    available.set(key, (available.get(key) || 0) + 1);
+    if (!tx.externalId) {
+      available.set(`manual|${key}`, (available.get(`manual|${key}`) || 0) + 1);
+    }
+  });
+
+  const take = (key: string): boolean => {
+    const count = available.get(key) || 0;
+    if (count > 0) {
+      available.set(key, count - 1);
+      return true;
+    }
+    return false;
+  };
+
+  return rows.map(row => {
+    const key = duplicateKey(accountId, row.transactionDate, row.amount, row.type);
+    if (!row.externalId) {
+      return take(key);
+    }
+    if (take(`manual|${key}`)) {
+      available.set(key, (available.get(key) || 0) - 1);
+      return true;
+    }
+    return false;
+  });
+}
+
+/**
+ * Flag statement rows whose bank reference was already imported into the account
+ * Deleted transactions count too, so lines removed after an import don't come back on the next one
+ * @returns One flag per row, in order
+ */
+export async function flagImported(householdId: string, accountId: string, rows: StatementRow[]): Promise<boolean[]> {
+  const externalIds = rows.map(row => row.externalId).filter((id): id is string => !!id);
+  if (externalIds.length === 0) {
+    return rows.map(() => false);
+  }
+
+  const existing = await Transaction.find({
+    householdId,
+    fromAccount: accountId,
+    externalId: { $in: externalIds }
+  });
+  const imported = new Set(existing.map(tx => tx.externalId));
+
+  return rows.map(row => !!row.externalId && imported.has(row.externalId));
+}
+
+/**
+ * Match category names from a statement against the household's categories of the right type
+ * @returns Category ID per row, or null when the name is empty or unknown
+ */
+export async function matchCategoryNames(
+  householdId: string,
+  rows: Array<{ type: 'income' | 'expense'; categoryName?: string }>
+): Promise<Array<string | null>> {
+  if (!rows.some(row => row.categoryName)) {
+    return rows.map(() => null);
+  }
+
+  const categories = await Category.find({ householdId, ...NOT_DELETED_FILTER });
+  const byName = new Map<string, string>();
+  categories.forEach(category => {
+    byName.set(`${category.type}|${category.name.trim().toLowerCase()}`, (category._id as any).toString());
+  });
+
+  return rows.map(row => {
+    if (!row.categoryName) return null;
+    const type = row.type === 'income' ? 'Income' : 'Expense';
+    return byName.get(`${type}|${row.categoryName.trim().toLowerCase()}`) || null;
+  });
+}
+
+/**
+ * Match row descriptions to the household's payees and apply its rules, as for a new transaction
+ * @returns The rows, with payee, category, tags, type or notes filled in where a payee or rule matches
+ */
+export async function autoCategorizeRows<T extends StatementRow>(
+  householdId: string,
+  accountId: string,
+  rows: T[]
+): Promise<T[]> {
+  if (rows.length === 0) {
+    return rows;
+  }
+  const automation = await loadAutomation(householdId);
+  // Rules on the account need to see the account the rows go into
+  return rows.map(row => {
+    const { fromAccount, ...categorized } = automate(automation, { ...row, fromAccount: accountId });
+    return categorized;
+  });
+}
+
+/**
+ * Insert statement rows into an account through the Transaction model so balances update
+ * All rows are written in one MongoDB transaction: a failure leaves nothing imported
+ * @returns The created transactions
+ */
+export async function insertStatementRows(
+  householdId: string,
+  accountId: string,
+  rows: StatementRow[],
+  modifiedBy: string
+) {
+  return runInTransaction(async session => {
+    const created = [];
+    for (const row of rows) {
+      const transaction = new Transaction({
+        householdId,
+        fromAccount: accountId,
+        transactionDate: row.transactionDate,
+        amount: row.amount,
+        type: row.type,
+        description: row.description,
+        category: row.category || undefined,
+        payee: row.payee || undefined,
+        tags: row.tags,
+        notes: row.notes,
+        externalId: row.externalId,
+        updatedAt: Date.now(),
+        syncVersion: 1,
+        lastModifiedBy: modifiedBy
+      });
+      await transaction.save({ session });
+      created.push(transaction);
+    }
+    return created;
+  });
+}
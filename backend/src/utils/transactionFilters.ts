@@ -0,0 +1,103 @@
+/**
+ * Transaction search: one filter, built from the same query parameters, behind the transaction list,
+ * CSV exports and reports
+ */
+import mongoose from "mongoose";
+import { getAllDescendantIds } from "../models/category";
+import { NOT_DELETED_FILTER } from "./softDelete";
+import { buildDateCondition } from "./transactionTotals";
+
+// Query parameters as validated by the shared transaction filter schema; all strings
+export interface TransactionFilterParams {
+  fromAccount?: string;
+  toAccount?: string;
+  account?: string; // Either side of the transaction
+  fromDate?: string;
+  toDate?: string;
+  category?: string;
+  includeSubcategories?: string; // 'true' to match the category's whole subtree
+  uncategorized?: string; // 'true' for income and expenses with neither a category nor split lines
+  tag?: string; // Comma-separated tag IDs
+  tagMatch?: string; // 'any' (default) or 'all'
+  payee?: string;
+  type?: string; // Comma-separated transaction types
+  amountMin?: string;
+  amountMax?: string;
+  q?: string; // Words to look for in description and notes
+  includeDeleted?: string;
+}
+
+const objectId = (id: string) => new mongoose.Types.ObjectId(id);
+
+/**
+ * Build the filter for a household's transactions; IDs are cast so it works in aggregations as well as finds
+ * The date range stays a top-level transactionDate condition; the other conditions go in $and
+ * @param options.includeDeleted - Whether deleted transactions match when the parameters don't say
+ */
+export async function buildTransactionFilter(
+  householdId: string,
+  params: TransactionFilterParams,
+  options: { includeDeleted?: boolean } = {}
+): Promise<any> {
+  const filter: any = { householdId: objectId(householdId) };
+  const conditions: any[] = [];
+
+  if (params.fromAccount) {
+    conditions.push({ fromAccount: objectId(params.fromAccount) });
+  }
+  if (params.toAccount) {
+    conditions.push({ toAccount: objectId(params.toAccount) });
+  }
+  if (params.account) {
+    conditions.push({ $or: [{ fromAccount: objectId(params.account) }, { toAccount: objectId(params.account) }] });
+  }
+
+  // Split transactions match when any of their lines is in the category
+  if (params.category) {
+    const ids = params.includeSubcategories === 'true'
+      ? await getAllDescendantIds(householdId, params.category)
+      : [params.category];
+    const categoryIds = ids.map(objectId);
+    conditions.push({ $or: [{ category: { $in: categoryIds } }, { 'splits.category': { $in: categoryIds } }] });
+  }
+  // Transfers never have a category, so they are not "uncategorized"
+  if (params.uncategorized === 'true') {
+    conditions.push({ type: { $ne: 'transfer' }, category: null, 'splits.0': { $exists: false } });
+  }
+
+  if (params.tag) {
+    const tagIds = params.tag.split(',').map(objectId);
+    conditions.push({ tags: params.tagMatch === 'all' ? { $all: tagIds } : { $in: tagIds } });
+  }
+  if (params.payee) {
+    conditions.push({ payee: objectId(params.payee) });
+  }
+  if (params.type) {
+    conditions.push({ type: { $in: params.type.split(',') } });
+  }
+
+  if (params.amountMin || params.amountMax) {
+    const amount: any = {};
+    if (params.amountMin) amount.$gte = Number(params.amountMin);
+    if (params.amountMax) amount.$lte = Number(params.amountMax);
+    conditions.push({ amount });
+  }
+
+  // Whole words and "quoted phrases", through the text index on description and notes
+  if (params.q) {
+    filter.$text = { $search: params.q };
+  }
+
+  // toDate takes in the whole of its day, as on the category and account endpoints
+  Object.assign(filter, buildDateCondition(params.fromDate, params.toDate));
+
+  const includeDeleted = params.includeDeleted ? params.includeDeleted === 'true' : !!options.includeDeleted;
+  if (!includeDeleted) {
+    Object.assign(filter, NOT_DELETED_FILTER);
+  }
+
+  if (conditions.length > 0) {
+    filter.$and = conditions;
+  }
+  return filter;
+}
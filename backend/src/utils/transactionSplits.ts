@@ -0,0 +1,47 @@
+/**
+ * Split transaction helpers: one transaction divided into lines with their own category
+ */
+
+export interface SplitLine {
+  category: any;
+  amount: number;
+  notes?: string;
+}
+
+// Rounding slack when comparing split lines with the transaction total
+const SPLIT_TOLERANCE = 0.005;
+
+/**
+ * Check that split lines add up to the transaction amount
+ * @param splits - Split lines
+ * @param amount - Transaction total
+ * @returns True when there are no splits or the lines sum to the total
+ */
+export function splitsMatchTotal(splits: SplitLine[] | undefined | null, amount: number): boolean {
+  if (!splits || splits.length === 0) {
+    return true;
+  }
+  const total = splits.reduce((sum, split) => sum + (split.amount || 0), 0);
+  return Math.abs(total - amount) < SPLIT_TOLERANCE;
+}
+
+/**
+ * Categories a transaction is credited to: its split lines' categories, or its single category
+ */
+export function categoriesOf(data: { category?: any; splits?: SplitLine[] | null }): string[] {
+  if (data.splits && data.splits.length > 0) {
+    return data.splits.map(split => split.category?.toString()).filter(Boolean);
+  }
+  return data.category ? [data.category.toString()] : [];
+}
+
+/**
+ * Category fields to store for a transaction: split lines replace the single category,
+ * and a transaction without lines keeps its category and drops any old lines
+ */
+export function normalizeSplits(data: { category?: any; splits?: SplitLine[] | null }): { category?: any; splits: SplitLine[] } {
+  if (data.splits && data.splits.length > 0) {
+    return { category: null, splits: data.splits };
+  }
+  return { splits: [] };
+}
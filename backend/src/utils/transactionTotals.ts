@@ -0,0 +1,110 @@
+/**
+ * Shared aggregation helpers for summing transactions by category and date range
+ */
+import mongoose from "mongoose";
+import Transaction from "../models/transaction";
+import { CATEGORY_LINES } from "./balances";
+
+export interface TransactionTotals {
+  total: number;
+  count: number;
+}
+
+/**
+ * Build a transactionDate match condition from optional date bounds
+ * @param fromDate - Inclusive start date
+ * @param toDate - Inclusive end date (extended to the end of that day)
+ * @returns Match condition, or an empty object when no bounds are given
+ */
+export function buildDateCondition(fromDate?: string | Date, toDate?: string | Date): any {
+  const dateFilter: any = {};
+
+  if (fromDate) {
+    dateFilter.$gte = new Date(fromDate);
+  }
+
+  if (toDate) {
+    const toDateObj = new Date(toDate);
+    toDateObj.setHours(23, 59, 59, 999);
+    dateFilter.$lte = toDateObj;
+  }
+
+  return Object.keys(dateFilter).length > 0
+    ? { transactionDate: dateFilter }
+    : {};
+}
+
+/**
+ * Sum the amount and count of transactions assigned to any of the given categories
+ * Split transactions contribute only the lines credited to those categories
+ * @param categoryIds - Category IDs to include
+ * @param extraMatch - Additional match conditions (date range, soft delete filter, ...)
+ * @returns Total amount and number of matching transactions
+ */
+export async function sumCategoryTransactions(
+  categoryIds: Array<string | mongoose.Types.ObjectId>,
+  extraMatch: any = {}
+): Promise<TransactionTotals> {
+  if (categoryIds.length === 0) {
+    return { total: 0, count: 0 };
+  }
+
+  const objectIds = categoryIds.map(id => new mongoose.Types.ObjectId(id.toString()));
+  const result = await Transaction.aggregate([
+    {
+      $match: {
+        $or: [
+          { category: { $in: objectIds } },
+          { 'splits.category': { $in: objectIds } }
+        ],
+        ...extraMatch
+      }
+    },
+    { $project: {
+        amount: {
+          $cond: [
+            { $gt: [{ $size: { $ifNull: ['$splits', []] } }, 0] },
+            {
+              $sum: {
+                $map: {
+                  input: { $filter: { input: '$splits', as: 'split', cond: { $in: ['$$split.category', objectIds] } } },
+                  as: 'split',
+                  in: '$$split.amount'
+                }
+              }
+            },
+            '$amount'
+          ]
+        }
+      }
+    },
+    { $group: {
+        _id: null,
+        total: { $sum: "$amount" },
+        count: { $sum: 1 }
+      }
+    }
+  ]);
+
+  return {
+    total: result.length > 0 ? result[0].total : 0,
+    count: result.length > 0 ? result[0].count : 0
+  };
+}
+
+/**
+ * Sum the amount and count of transactions per category in one pass
+ * Split transactions count once for each category their lines are credited to
+ * @param match - Match conditions (household, date range, soft delete filter, ...)
+ * @returns Totals keyed by category ID; categories without transactions are absent
+ */
+export async function sumTransactionsByCategory(match: any): Promise<Map<string, TransactionTotals>> {
+  const result = await Transaction.aggregate([
+    { $match: match },
+    { $project: { lines: CATEGORY_LINES } },
+    { $unwind: '$lines' },
+    { $group: { _id: '$lines.category', total: { $sum: '$lines.amount' }, count: { $sum: 1 } } }
+  ]);
+
+  return new Map(result.map(row => [row._id.toString(), { total: row.total, count: row.count }]));
+}
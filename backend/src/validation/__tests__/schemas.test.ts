@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { accountSchema, transactionSchema, categorySchema } from '../schemas';
+import { accountSchema, transactionSchema, categorySchema, budgetSchema, backupSchema, ruleSchema, reportSchema } from '../schemas';
 
 describe('Validation Schemas', () => {
   describe('Account Schema', () => {
@@ -91,6 +91,110 @@ describe('Validation Schemas', () => {
       const result = transactionSchema.query.safeParse(validQuery);
       expect(result.success).toBe(true);
     });
+
+    it('should require an account filter for running balances', () => {
+      const result = transactionSchema.query.safeParse({ fromAccount: '507f1f77bcf86cd799439011', runningBalance: 'true' });
+      expect(result.success).toBe(false);
+
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe('Running balance needs an account filter');
+      }
+
+      const withAccount = transactionSchema.query.safeParse({ account: '507f1f77bcf86cd799439011', runningBalance: 'true' });
+      expect(withAccount.success).toBe(true);
+    });
+
+    it('should validate tag filters', () => {
+      const tags = '507f1f77bcf86cd799439031,507f1f77bcf86cd799439032';
+      expect(transactionSchema.query.safeParse({ tag: tags, tagMatch: 'all' }).success).toBe(true);
+
+      const invalid = transactionSchema.query.safeParse({ tag: `${tags},vacation` });
+      expect(invalid.success).toBe(false);
+      if (!invalid.success) {
+        expect(invalid.error.errors[0].message).toBe('Invalid tag ID');
+      }
+    });
+
+    it('should validate paging options', () => {
+      expect(transactionSchema.query.safeParse({ limit: '50', sort: 'asc' }).success).toBe(true);
+
+      const tooMany = transactionSchema.query.safeParse({ limit: '1000' });
+      expect(tooMany.success).toBe(false);
+      if (!tooMany.success) {
+        expect(tooMany.error.errors[0].message).toBe('Limit must be between 1 and 500');
+      }
+
+      const badCursor = transactionSchema.query.safeParse({ cursor: 'page-2' });
+      expect(badCursor.success).toBe(false);
+      if (!badCursor.success) {
+        expect(badCursor.error.errors[0].message).toBe('Invalid cursor');
+      }
+    });
+
+    it('should validate search filters', () => {
+      const search = {
+        q: 'grab',
+        type: 'expense,transfer',
+        amountMin: '100',
+        amountMax: '500.25',
+        category: '507f1f77bcf86cd799439021',
+        includeSubcategories: 'true',
+        uncategorized: 'false',
+        includeDeleted: 'true'
+      };
+      expect(transactionSchema.query.safeParse(search).success).toBe(true);
+      expect(reportSchema.summary.safeParse({ period: 'month', ...search }).success).toBe(true);
+      expect(backupSchema.query.safeParse({ format: 'csv', entity: 'transactions', ...search }).success).toBe(true);
+
+      const badType = transactionSchema.query.safeParse({ type: 'expense,refund' });
+      expect(badType.success).toBe(false);
+      if (!badType.success) {
+        expect(badType.error.errors[0].message).toBe('Invalid transaction type');
+      }
+
+      const badRange = reportSchema.tags.safeParse({ amountMin: '500', amountMax: '100' });
+      expect(badRange.success).toBe(false);
+      if (!badRange.success) {
+        expect(badRange.error.errors[0].path).toEqual(['amountMax']);
+      }
+    });
+
+    it('should validate split lines that add up to the amount', () => {
+      const validData = {
+        transactionDate: '2023-05-15',
+        fromAccount: '507f1f77bcf86cd799439011',
+        amount: 100,
+        type: 'expense',
+        splits: [
+          { category: '507f1f77bcf86cd799439021', amount: 60.5, notes: 'Groceries' },
+          { category: '507f1f77bcf86cd799439022', amount: 39.5 }
+        ]
+      };
+
+      const result = transactionSchema.create.safeParse(validData);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject split lines that do not add up to the amount', () => {
+      const invalidData = {
+        transactionDate: '2023-05-15',
+        fromAccount: '507f1f77bcf86cd799439011',
+        amount: 100,
+        type: 'expense',
+        splits: [
+          { category: '507f1f77bcf86cd799439021', amount: 60 },
+          { category: '507f1f77bcf86cd799439022', amount: 30 }
+        ]
+      };
+
+      const result = transactionSchema.create.safeParse(invalidData);
+      expect(result.success).toBe(false);
+
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe('Split amounts must add up to the transaction amount');
+        expect(result.error.errors[0].path).toEqual(['splits']);
+      }
+    });
   });
   
   describe('Category Schema', () => {
@@ -135,4 +239,180 @@ describe('Validation Schemas', () => {
       }
     });
   });
-}); 
\ No newline at end of file
+  describe('Budget Schema', () => {
+    it('should validate a valid budget create request', () => {
+      const validData = {
+        category: '507f1f77bcf86cd799439011',
+        amount: 5000,
+        period: 'monthly',
+        startDate: '2026-01-01'
+      };
+      
+      const result = budgetSchema.create.safeParse(validData);
+      expect(result.success).toBe(true);
+    });
+    
+    it('should reject a budget that ends before it starts', () => {
+      const invalidData = {
+        category: '507f1f77bcf86cd799439011',
+        amount: 5000,
+        startDate: '2026-03-01',
+        endDate: '2026-01-31'
+      };
+      
+      const result = budgetSchema.create.safeParse(invalidData);
+      expect(result.success).toBe(false);
+      
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe('End date must not be before start date');
+      }
+    });
+    
+    it('should reject an invalid progress month', () => {
+      const result = budgetSchema.query.safeParse({ month: '2026-13' });
+      expect(result.success).toBe(false);
+      
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe('Invalid month format');
+      }
+    });
+  });
+  describe('Rule Schema', () => {
+    it('should need at least one condition and one action', () => {
+      const rule = { name: 'Electricity', conditions: { descriptionContains: 'MERALCO' }, actions: { tags: ['507f1f77bcf86cd799439021'] } };
+      expect(ruleSchema.create.safeParse(rule).success).toBe(true);
+
+      const noCondition = ruleSchema.create.safeParse({ ...rule, conditions: { account: null } });
+      expect(noCondition.success).toBe(false);
+      if (!noCondition.success) {
+        expect(noCondition.error.errors[0].message).toBe('A rule needs at least one condition');
+      }
+
+      const noAction = ruleSchema.create.safeParse({ ...rule, actions: { tags: [] } });
+      expect(noAction.success).toBe(false);
+      if (!noAction.success) {
+        expect(noAction.error.errors[0].message).toBe('A rule needs at least one action');
+      }
+    });
+
+    it('should reject an amount range that ends before it starts', () => {
+      const result = ruleSchema.preview.safeParse({
+        conditions: { amountMin: 500, amountMax: 100 },
+        actions: { type: 'income' }
+      });
+      expect(result.success).toBe(false);
+
+      if (!result.success) {
+        expect(result.error.errors[0].path).toEqual(['conditions', 'amountMax']);
+      }
+    });
+  });
+  describe('Backup Schema', () => {
+    const archive = {
+      version: 1,
+      accounts: [{ id: '507f1f77bcf86cd799439011', name: 'Wallet' }],
+      categories: [
+        { id: '507f1f77bcf86cd799439021', name: 'Food', parent: null },
+        { id: '507f1f77bcf86cd799439022', name: 'Groceries', parent: '507f1f77bcf86cd799439021' }
+      ],
+      transactions: [{
+        id: '507f1f77bcf86cd799439031',
+        transactionDate: '2026-01-05T00:00:00.000Z',
+        fromAccount: '507f1f77bcf86cd799439011',
+        category: '507f1f77bcf86cd799439022',
+        amount: 150,
+        type: 'expense'
+      }],
+      budgets: [{ id: '507f1f77bcf86cd799439041', category: '507f1f77bcf86cd799439021', amount: 5000, startDate: '2026-01-01' }]
+    };
+
+    it('should validate an archive whose references resolve', () => {
+      expect(backupSchema.restore.safeParse(archive).success).toBe(true);
+    });
+
+    it('should reject references to documents missing from the archive', () => {
+      const result = backupSchema.restore.safeParse({
+        ...archive,
+        transactions: [{ ...archive.transactions[0], fromAccount: '507f1f77bcf86cd799439099' }]
+      });
+      expect(result.success).toBe(false);
+
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe('Unknown reference');
+        expect(result.error.errors[0].path).toEqual(['transactions', 0, 'fromAccount']);
+      }
+
+      const unknownTag = backupSchema.restore.safeParse({
+        ...archive,
+        tags: [{ id: '507f1f77bcf86cd799439051', name: 'vacation-2026' }],
+        transactions: [{ ...archive.transactions[0], tags: ['507f1f77bcf86cd799439051', '507f1f77bcf86cd799439052'] }]
+      });
+      expect(unknownTag.success).toBe(false);
+      if (!unknownTag.success) {
+        expect(unknownTag.error.errors[0].path).toEqual(['transactions', 0, 'tags', 1]);
+      }
+
+      const unknownPayee = backupSchema.restore.safeParse({
+        ...archive,
+        transactions: [{ ...archive.transactions[0], payee: '507f1f77bcf86cd799439061' }]
+      });
+      expect(unknownPayee.success).toBe(false);
+      if (!unknownPayee.success) {
+        expect(unknownPayee.error.errors[0].path).toEqual(['transactions', 0, 'payee']);
+      }
+    });
+
+    it('should check the references of recurring schedules and rules', () => {
+      const schedule = {
+        id: '507f1f77bcf86cd799439071',
+        fromAccount: '507f1f77bcf86cd799439011',
+        amount: 1000,
+        frequency: 'monthly',
+        startDate: '2026-01-01T00:00:00.000Z',
+        exceptions: [{ date: '2026-02-01T00:00:00.000Z', action: 'modify', overrides: { category: '507f1f77bcf86cd799439021' } }]
+      };
+      const rule = {
+        id: '507f1f77bcf86cd799439081',
+        name: 'Groceries',
+        conditions: { descriptionContains: 'market' },
+        actions: { category: '507f1f77bcf86cd799439022', tags: [] }
+      };
+      expect(backupSchema.restore.safeParse({
+        ...archive,
+        recurringTransactions: [schedule],
+        rules: [rule],
+        exchangeRates: [{ id: '507f1f77bcf86cd799439091', fromCurrency: 'USD', toCurrency: 'PHP', rate: 56, date: '2026-01-01' }]
+      }).success).toBe(true);
+
+      const result = backupSchema.restore.safeParse({
+        ...archive,
+        transactions: [{ ...archive.transactions[0], recurringTransaction: '507f1f77bcf86cd799439071' }],
+        rules: [{ ...rule, conditions: { payee: '507f1f77bcf86cd799439061' } }]
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors.map(error => error.path)).toEqual([
+          ['transactions', 0, 'recurringTransaction'],
+          ['rules', 0, 'conditions', 'payee']
+        ]);
+      }
+    });
+
+    it('should reject category cycles and unknown versions', () => {
+      const cyclic = backupSchema.restore.safeParse({
+        ...archive,
+        categories: [
+          { id: '507f1f77bcf86cd799439021', name: 'Food', parent: '507f1f77bcf86cd799439022' },
+          { id: '507f1f77bcf86cd799439022', name: 'Groceries', parent: '507f1f77bcf86cd799439021' }
+        ]
+      });
+      expect(cyclic.success).toBe(false);
+
+      const newer = backupSchema.restore.safeParse({ ...archive, version: 2 });
+      expect(newer.success).toBe(false);
+      if (!newer.success) {
+        expect(newer.error.errors[0].message).toBe('Unsupported backup version');
+      }
+    });
+  });
+});
\ No newline at end of file
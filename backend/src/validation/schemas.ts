@@ -1,19 +1,34 @@
 import { z } from 'zod';
+import { splitsMatchTotal } from '../utils/transactionSplits';
+import { MAX_PAGE_SIZE, decodeCursor } from '../utils/pagination';
 
 // Account schemas
 export const accountSchema = {
   create: z.object({
     name: z.string().min(1, "Name is required"),
     description: z.string().optional(),
+    currency: z.string().regex(/^[A-Za-z]{3}$/, "Invalid currency code").optional(),
     order: z.number().optional()
   }),
   update: z.object({
     name: z.string().min(1, "Name is required").optional(),
     description: z.string().optional(),
+    currency: z.string().regex(/^[A-Za-z]{3}$/, "Invalid currency code").optional(),
     order: z.number().optional()
   }).refine(data => Object.keys(data).length > 0, {
     message: "At least one field must be provided"
   }),
+  query: z.object({
+    baseCurrency: z.string().regex(/^[A-Za-z]{3}$/, "Invalid currency code").optional(),
+    // The account list also reports the total of the balances in the base currency
+    withTotals: z.enum(['true', 'false']).optional()
+  }),
+  balanceQuery: z.object({
+    asOf: z.string().optional()
+      .refine(val => !val || !isNaN(new Date(val).getTime()), {
+        message: "Invalid date format"
+      })
+  }),
   updateOrder: z.object({
     accounts: z.array(
       z.object({
@@ -72,10 +87,79 @@ export const categorySchema = {
         hash: z.string().optional()
       })
     ).min(1, "At least one category is required")
+  }),
+  // Category that takes over the transactions and subcategories of a deleted one
+  deleteQuery: z.object({
+    moveTo: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID").optional()
+  }),
+  merge: z.object({
+    into: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID")
+  }),
+  treeQuery: z.object({
+    from: z.string().optional()
+      .refine(val => !val || !isNaN(new Date(val).getTime()), {
+        message: "Invalid from date format"
+      }),
+    to: z.string().optional()
+      .refine(val => !val || !isNaN(new Date(val).getTime()), {
+        message: "Invalid to date format"
+      }),
+    type: z.enum(['Income', 'Expense']).optional()
+  }).refine(data => !data.from || !data.to || new Date(data.from) <= new Date(data.to), {
+    message: "End date must not be before start date",
+    path: ['to']
+  }),
+  // New parent of a category, null to move it to the root
+  move: z.object({
+    parent: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid parent ID").nullable()
   })
 };
 
 // Transaction schemas
+// One line of a split transaction
+const transactionSplit = z.object({
+  category: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID"),
+  amount: z.number().min(0, "Amount must be positive"),
+  notes: z.string().optional()
+});
+const transactionTags = z.array(z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid tag ID"));
+const transactionPayee = z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid payee ID").nullable();
+
+// Transaction search shared by the transaction list, CSV exports and reports (see utils/transactionFilters)
+const transactionFilters = z.object({
+  fromAccount: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID").optional(),
+  toAccount: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID").optional(),
+  // Either side of the transaction
+  account: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID").optional(),
+  category: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID").optional(),
+  // A parent category also matches transactions filed under its descendants
+  includeSubcategories: z.enum(['true', 'false']).optional(),
+  uncategorized: z.enum(['true', 'false']).optional(),
+  // Comma-separated tag IDs; transactions carrying any (default) or all of them match
+  tag: z.string().regex(/^[0-9a-fA-F]{24}(,[0-9a-fA-F]{24})*$/, "Invalid tag ID").optional(),
+  tagMatch: z.enum(['any', 'all']).optional(),
+  payee: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid payee ID").optional(),
+  // Comma-separated
+  type: z.string().regex(/^(income|expense|transfer)(,(income|expense|transfer))*$/, "Invalid transaction type").optional(),
+  amountMin: z.string().regex(/^\d+(\.\d+)?$/, "Invalid amount").optional(),
+  amountMax: z.string().regex(/^\d+(\.\d+)?$/, "Invalid amount").optional(),
+  q: z.string().trim().min(1, "Search text cannot be empty").optional(),
+  includeDeleted: z.enum(['true', 'false']).optional()
+});
+const transactionDates = z.object({
+  fromDate: z.string().optional()
+    .refine(val => !val || !isNaN(new Date(val).getTime()), {
+      message: "Invalid from date format"
+    }),
+  toDate: z.string().optional()
+    .refine(val => !val || !isNaN(new Date(val).getTime()), {
+      message: "Invalid to date format"
+    })
+});
+const amountRangeValid = (data: { amountMin?: string; amountMax?: string }) =>
+  !data.amountMin || !data.amountMax || Number(data.amountMin) <= Number(data.amountMax);
+const amountRangeError = { message: "Maximum amount must not be below the minimum", path: ['amountMax'] };
+
 export const transactionSchema = {
   create: z.object({
     transactionDate: z.string().refine(val => !isNaN(new Date(val).getTime()), {
@@ -84,10 +168,20 @@ export const transactionSchema = {
     fromAccount: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID"),
     toAccount: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID").optional(),
     category: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID").optional(),
+    splits: z.array(transactionSplit).optional(),
+    tags: transactionTags.optional(),
+    payee: transactionPayee.optional(),
     amount: z.number().min(0, "Amount must be positive"),
+    toAmount: z.number().min(0, "Amount must be positive").optional().nullable(),
     description: z.string().optional(),
     notes: z.string().optional(),
     type: z.enum(['income', 'expense', 'transfer']).optional()
+  }).refine(data => splitsMatchTotal(data.splits, data.amount), {
+    message: "Split amounts must add up to the transaction amount",
+    path: ['splits']
+  }).refine(data => !(data.splits?.length && data.type === 'transfer'), {
+    message: "Transfers cannot be split",
+    path: ['splits']
   }),
   update: z.object({
     transactionDate: z.string().refine(val => !isNaN(new Date(val).getTime()), {
@@ -96,25 +190,42 @@ export const transactionSchema = {
     fromAccount: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID").optional(),
     toAccount: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID").optional(),
     category: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID").optional(),
+    splits: z.array(transactionSplit).optional(),
+    tags: transactionTags.optional(),
+    payee: transactionPayee.optional(),
     amount: z.number().min(0, "Amount must be positive").optional(),
+    toAmount: z.number().min(0, "Amount must be positive").optional().nullable(),
     description: z.string().optional(),
     notes: z.string().optional(),
     type: z.enum(['income', 'expense', 'transfer']).optional()
   }).refine(data => Object.keys(data).length > 0, {
     message: "At least one field must be provided"
+  }).refine(data => !(data.splits?.length && data.type === 'transfer'), {
+    message: "Transfers cannot be split",
+    path: ['splits']
   }),
-  query: z.object({
-    fromAccount: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID").optional(),
-    toAccount: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID").optional(),
-    category: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID").optional(),
-    fromDate: z.string().optional()
-      .refine(val => !val || !isNaN(new Date(val).getTime()), {
-        message: "Invalid from date format"
-      }),
-    toDate: z.string().optional()
-      .refine(val => !val || !isNaN(new Date(val).getTime()), {
-        message: "Invalid to date format"
+  query: transactionFilters.merge(transactionDates).extend({
+    runningBalance: z.enum(['true', 'false']).optional(),
+    // Paging: a limit or a cursor from the previous page returns { data, total, nextCursor }
+    limit: z.string().regex(/^\d+$/, "Invalid limit")
+      .refine(val => Number(val) >= 1 && Number(val) <= MAX_PAGE_SIZE, {
+        message: `Limit must be between 1 and ${MAX_PAGE_SIZE}`
       })
+      .optional(),
+    cursor: z.string().refine(val => decodeCursor(val) !== null, {
+      message: "Invalid cursor"
+    }).optional(),
+    // By transactionDate; pages default to newest first
+    sort: z.enum(['asc', 'desc']).optional()
+  }).refine(data => data.runningBalance !== 'true' || data.account, {
+    message: "Running balance needs an account filter",
+    path: ['account']
+  }).refine(amountRangeValid, amountRangeError),
+  suggestCategory: z.object({
+    description: z.string().trim().min(1, "Description is required"),
+    amount: z.string().regex(/^\d+(\.\d+)?$/, "Invalid amount").optional(),
+    account: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID").optional(),
+    type: z.enum(['income', 'expense']).optional()
   })
   ,
   syncPull: z.object({
@@ -129,13 +240,664 @@ export const transactionSchema = {
         fromAccount: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID"),
         toAccount: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID").optional(),
         category: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID").optional(),
+        splits: z.array(transactionSplit).optional(),
+        tags: transactionTags.optional(),
+        payee: transactionPayee.optional(),
         amount: z.number().min(0, "Amount must be positive"),
+        toAmount: z.number().min(0, "Amount must be positive").optional().nullable(),
         description: z.string().optional(),
         notes: z.string().optional(),
         type: z.enum(['income', 'expense', 'transfer']).optional(),
         updatedAt: z.number(),
         hash: z.string().optional()
+      }).refine(data => splitsMatchTotal(data.splits, data.amount), {
+        message: "Split amounts must add up to the transaction amount",
+        path: ['splits']
       })
     ).min(1, "At least one transaction is required")
   })
-}; 
\ No newline at end of file
+};
+
+// Tag schemas
+export const tagSchema = {
+  create: z.object({
+    name: z.string().trim().min(1, "Name is required"),
+    color: z.string().optional()
+  }),
+  update: z.object({
+    name: z.string().trim().min(1, "Name is required").optional(),
+    color: z.string().optional()
+  }).refine(data => Object.keys(data).length > 0, {
+    message: "At least one field must be provided"
+  })
+};
+
+// Payee schemas
+export const payeeSchema = {
+  create: z.object({
+    name: z.string().trim().min(1, "Name is required"),
+    aliases: z.array(z.string().trim().min(1, "Alias cannot be empty")).optional(),
+    defaultCategory: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID").nullable().optional()
+  }),
+  update: z.object({
+    name: z.string().trim().min(1, "Name is required").optional(),
+    aliases: z.array(z.string().trim().min(1, "Alias cannot be empty")).optional(),
+    defaultCategory: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID").nullable().optional()
+  }).refine(data => Object.keys(data).length > 0, {
+    message: "At least one field must be provided"
+  }),
+  // Autocomplete: payees whose name or an alias contains the typed text, or that the text names
+  query: z.object({
+    q: z.string().optional()
+  })
+};
+
+// Rule schemas
+const ruleConditions = z.object({
+  descriptionContains: z.string().trim().min(1, "Text to look for cannot be empty").nullable().optional(),
+  amountMin: z.number().min(0, "Amount must be positive").nullable().optional(),
+  amountMax: z.number().min(0, "Amount must be positive").nullable().optional(),
+  account: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID").nullable().optional(),
+  payee: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid payee ID").nullable().optional()
+}).refine(data => Object.values(data).some(value => value != null), {
+  message: "A rule needs at least one condition"
+}).refine(data => data.amountMin == null || data.amountMax == null || data.amountMin <= data.amountMax, {
+  message: "Maximum amount must not be below the minimum",
+  path: ['amountMax']
+});
+const ruleActions = z.object({
+  category: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID").nullable().optional(),
+  tags: transactionTags.optional(),
+  type: z.enum(['income', 'expense']).nullable().optional(),
+  notes: z.string().trim().min(1, "Notes cannot be empty").nullable().optional()
+}).refine(data => !!(data.category || data.tags?.length || data.type || data.notes), {
+  message: "A rule needs at least one action"
+});
+
+export const ruleSchema = {
+  create: z.object({
+    name: z.string().trim().min(1, "Name is required"),
+    priority: z.number().int().optional(),
+    enabled: z.boolean().optional(),
+    conditions: ruleConditions,
+    actions: ruleActions
+  }),
+  // Conditions and actions are replaced as a whole
+  update: z.object({
+    name: z.string().trim().min(1, "Name is required").optional(),
+    priority: z.number().int().optional(),
+    enabled: z.boolean().optional(),
+    conditions: ruleConditions.optional(),
+    actions: ruleActions.optional()
+  }).refine(data => Object.keys(data).length > 0, {
+    message: "At least one field must be provided"
+  }),
+  // Try a rule, saved or not, on the most recent transactions
+  preview: z.object({
+    conditions: ruleConditions,
+    actions: ruleActions,
+    limit: z.number().int().min(1).max(500).optional()
+  }),
+  apply: z.object({
+    from: z.string().optional()
+      .refine(val => !val || !isNaN(new Date(val).getTime()), {
+        message: "Invalid from date format"
+      }),
+    to: z.string().optional()
+      .refine(val => !val || !isNaN(new Date(val).getTime()), {
+        message: "Invalid to date format"
+      }),
+    dryRun: z.boolean().optional()
+  }).refine(data => !data.from || !data.to || new Date(data.from) <= new Date(data.to), {
+    message: "End date must not be before start date",
+    path: ['to']
+  })
+};
+
+// Attachment schemas
+export const attachmentSchema = {
+  // The file travels base64-encoded in JSON, like imported statements
+  create: z.object({
+    filename: z.string().trim().min(1, "Filename is required").max(255, "Filename is too long"),
+    contentType: z.string().min(1, "Content type is required"),
+    data: z.string().min(1, "File is required")
+      .regex(/^[A-Za-z0-9+/]+={0,2}$/, "File must be base64-encoded")
+  })
+};
+
+// Budget schemas
+export const budgetSchema = {
+  create: z.object({
+    category: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID"),
+    includeSubcategories: z.boolean().optional(),
+    amount: z.number().min(0, "Amount must be positive"),
+    period: z.enum(['monthly', 'yearly']).optional(),
+    startDate: z.string().refine(val => !isNaN(new Date(val).getTime()), {
+      message: "Invalid date format"
+    }),
+    endDate: z.string().refine(val => !isNaN(new Date(val).getTime()), {
+      message: "Invalid date format"
+    }).optional().nullable(),
+    notes: z.string().optional()
+  }).refine(data => !data.endDate || new Date(data.endDate) >= new Date(data.startDate), {
+    message: "End date must not be before start date",
+    path: ['endDate']
+  }),
+  update: z.object({
+    category: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID").optional(),
+    includeSubcategories: z.boolean().optional(),
+    amount: z.number().min(0, "Amount must be positive").optional(),
+    period: z.enum(['monthly', 'yearly']).optional(),
+    startDate: z.string().refine(val => !isNaN(new Date(val).getTime()), {
+      message: "Invalid date format"
+    }).optional(),
+    endDate: z.string().refine(val => !isNaN(new Date(val).getTime()), {
+      message: "Invalid date format"
+    }).optional().nullable(),
+    notes: z.string().optional()
+  }).refine(data => Object.keys(data).length > 0, {
+    message: "At least one field must be provided"
+  }),
+  query: z.object({
+    category: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID").optional(),
+    month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Invalid month format").optional()
+  })
+};
+
+// Recurring transaction schemas
+export const recurringTransactionSchema = {
+  create: z.object({
+    fromAccount: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID"),
+    toAccount: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID").optional(),
+    category: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID").optional(),
+    amount: z.number().min(0, "Amount must be positive"),
+    toAmount: z.number().min(0, "Amount must be positive").optional().nullable(),
+    description: z.string().optional(),
+    notes: z.string().optional(),
+    type: z.enum(['income', 'expense', 'transfer']).optional(),
+    frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+    interval: z.number().int().min(1, "Interval must be at least 1").optional(),
+    startDate: z.string().refine(val => !isNaN(new Date(val).getTime()), {
+      message: "Invalid date format"
+    }),
+    endDate: z.string().refine(val => !isNaN(new Date(val).getTime()), {
+      message: "Invalid date format"
+    }).optional().nullable(),
+    isActive: z.boolean().optional()
+  }).refine(data => !data.endDate || new Date(data.endDate) >= new Date(data.startDate), {
+    message: "End date must not be before start date",
+    path: ['endDate']
+  }),
+  update: z.object({
+    fromAccount: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID").optional(),
+    toAccount: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID").optional(),
+    category: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID").optional(),
+    amount: z.number().min(0, "Amount must be positive").optional(),
+    toAmount: z.number().min(0, "Amount must be positive").optional().nullable(),
+    description: z.string().optional(),
+    notes: z.string().optional(),
+    type: z.enum(['income', 'expense', 'transfer']).optional(),
+    frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']).optional(),
+    interval: z.number().int().min(1, "Interval must be at least 1").optional(),
+    startDate: z.string().refine(val => !isNaN(new Date(val).getTime()), {
+      message: "Invalid date format"
+    }).optional(),
+    endDate: z.string().refine(val => !isNaN(new Date(val).getTime()), {
+      message: "Invalid date format"
+    }).optional().nullable(),
+    isActive: z.boolean().optional()
+  }).refine(data => Object.keys(data).length > 0, {
+    message: "At least one field must be provided"
+  }),
+  preview: z.object({
+    count: z.string().regex(/^([1-9]|[1-9]\d)$/, "Count must be between 1 and 99").optional()
+  }),
+  skip: z.object({
+    date: z.string().refine(val => !isNaN(new Date(val).getTime()), {
+      message: "Invalid date format"
+    })
+  }),
+  occurrence: z.object({
+    date: z.string().refine(val => !isNaN(new Date(val).getTime()), {
+      message: "Invalid date format"
+    }),
+    fromAccount: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID").optional(),
+    toAccount: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID").optional(),
+    category: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid category ID").optional(),
+    amount: z.number().min(0, "Amount must be positive").optional(),
+    toAmount: z.number().min(0, "Amount must be positive").optional(),
+    description: z.string().optional(),
+    notes: z.string().optional()
+  }),
+  materialize: z.object({
+    asOf: z.string().refine(val => !isNaN(new Date(val).getTime()), {
+      message: "Invalid date format"
+    }).optional()
+  })
+};
+
+// Auth schemas
+export const authSchema = {
+  register: z.object({
+    email: z.string().email("Invalid email address"),
+    password: z.string().min(8, "Password must be at least 8 characters"),
+    name: z.string().optional()
+  }),
+  login: z.object({
+    email: z.string().email("Invalid email address"),
+    password: z.string().min(1, "Password is required")
+  }),
+  refresh: z.object({
+    refreshToken: z.string().min(1, "Refresh token is required")
+  })
+};
+
+// Household schemas
+export const householdSchema = {
+  update: z.object({
+    name: z.string().min(1, "Name is required").optional(),
+    baseCurrency: z.string().regex(/^[A-Za-z]{3}$/, "Invalid currency code").optional()
+  }).refine(data => Object.keys(data).length > 0, {
+    message: "At least one field must be provided"
+  }),
+  join: z.object({
+    code: z.string().min(1, "Invitation code is required")
+  })
+};
+
+// Exchange rate schemas
+const exchangeRateEntry = z.object({
+  fromCurrency: z.string().regex(/^[A-Za-z]{3}$/, "Invalid currency code"),
+  toCurrency: z.string().regex(/^[A-Za-z]{3}$/, "Invalid currency code"),
+  rate: z.number().positive("Rate must be positive"),
+  date: z.string().refine(val => !isNaN(new Date(val).getTime()), {
+    message: "Invalid date format"
+  })
+}).refine(data => data.fromCurrency.toUpperCase() !== data.toCurrency.toUpperCase(), {
+  message: "Currencies must be different",
+  path: ['toCurrency']
+});
+
+export const exchangeRateSchema = {
+  create: exchangeRateEntry,
+  import: z.object({
+    rates: z.array(exchangeRateEntry).min(1, "At least one rate is required")
+  }),
+  query: z.object({
+    fromCurrency: z.string().regex(/^[A-Za-z]{3}$/, "Invalid currency code").optional(),
+    toCurrency: z.string().regex(/^[A-Za-z]{3}$/, "Invalid currency code").optional()
+  }),
+  convert: z.object({
+    fromCurrency: z.string().regex(/^[A-Za-z]{3}$/, "Invalid currency code"),
+    toCurrency: z.string().regex(/^[A-Za-z]{3}$/, "Invalid currency code"),
+    amount: z.string().refine(val => !isNaN(Number(val)), {
+      message: "Invalid amount"
+    }),
+    date: z.string().refine(val => !isNaN(new Date(val).getTime()), {
+      message: "Invalid date format"
+    }).optional()
+  })
+};
+
+// Import schemas
+const csvColumn = z.number().int().min(0, "Invalid column");
+
+const importDateFormat = z.enum(['YYYY-MM-DD', 'YYYY/MM/DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'DD.MM.YYYY', 'DD-MM-YYYY']);
+
+const csvMapping = z.object({
+  hasHeader: z.boolean().optional(),
+  delimiter: z.enum([',', ';', '\t', '|']).optional(),
+  dateColumn: csvColumn,
+  dateFormat: importDateFormat,
+  descriptionColumn: csvColumn,
+  amountConvention: z.enum(['signed', 'inverted', 'split']),
+  amountColumn: csvColumn.optional(),
+  debitColumn: csvColumn.optional(),
+  creditColumn: csvColumn.optional(),
+  decimalSeparator: z.enum(['.', ',']).optional(),
+  categoryColumn: csvColumn.optional(),
+  notesColumn: csvColumn.optional()
+}).refine(data => data.amountConvention === 'split'
+  ? data.debitColumn !== undefined && data.creditColumn !== undefined
+  : data.amountColumn !== undefined, {
+  message: "Amount column is required",
+  path: ['amountColumn']
+});
+
+export const importSchema = {
+  // Without a mapping the file is previewed; with one its rows are imported into the account
+  csv: z.object({
+    file: z.string().min(1, "File is required"),
+    account: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID").optional(),
+    mapping: csvMapping.optional(),
+    dryRun: z.boolean().optional(),
+    importDuplicates: z.boolean().optional()
+  }).refine(data => !data.mapping || data.account, {
+    message: "Account is required",
+    path: ['account']
+  }),
+  // OFX/QFX or QIF, detected from the file when format is left out
+  statement: z.object({
+    file: z.string().min(1, "File is required"),
+    format: z.enum(['ofx', 'qif']).optional(),
+    account: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid account ID").optional(),
+    createAccount: z.boolean().optional(),
+    accountName: z.string().min(1, "Account name is required").optional(),
+    dateFormat: importDateFormat.optional(),
+    dryRun: z.boolean().optional(),
+    importDuplicates: z.boolean().optional()
+  })
+};
+
+// Income and expense per tag or payee over an optional date range
+const totalsQuery = transactionFilters.extend({
+  from: z.string().optional()
+    .refine(val => !val || !isNaN(new Date(val).getTime()), {
+      message: "Invalid from date format"
+    }),
+  to: z.string().optional()
+    .refine(val => !val || !isNaN(new Date(val).getTime()), {
+      message: "Invalid to date format"
+    }),
+  baseCurrency: z.string().regex(/^[A-Za-z]{3}$/, "Invalid currency code").optional()
+}).refine(data => !data.from || !data.to || new Date(data.from) <= new Date(data.to), {
+  message: "End date must not be before start date",
+  path: ['to']
+}).refine(amountRangeValid, amountRangeError);
+
+// Report schemas
+export const reportSchema = {
+  summary: transactionFilters.extend({
+    period: z.enum(['week', 'month', 'year']).optional(),
+    from: z.string().optional()
+      .refine(val => !val || !isNaN(new Date(val).getTime()), {
+        message: "Invalid from date format"
+      }),
+    to: z.string().optional()
+      .refine(val => !val || !isNaN(new Date(val).getTime()), {
+        message: "Invalid to date format"
+      }),
+    baseCurrency: z.string().regex(/^[A-Za-z]{3}$/, "Invalid currency code").optional()
+  }).refine(data => !data.from || !data.to || new Date(data.from) <= new Date(data.to), {
+    message: "End date must not be before start date",
+    path: ['to']
+  }).refine(amountRangeValid, amountRangeError),
+  netWorth: z.object({
+    interval: z.enum(['day', 'week', 'month']).optional(),
+    from: z.string().optional()
+      .refine(val => !val || !isNaN(new Date(val).getTime()), {
+        message: "Invalid from date format"
+      }),
+    to: z.string().optional()
+      .refine(val => !val || !isNaN(new Date(val).getTime()), {
+        message: "Invalid to date format"
+      }),
+    baseCurrency: z.string().regex(/^[A-Za-z]{3}$/, "Invalid currency code").optional()
+  }).refine(data => !data.from || !data.to || new Date(data.from) <= new Date(data.to), {
+    message: "End date must not be before start date",
+    path: ['to']
+  }),
+  tags: totalsQuery,
+  payees: totalsQuery
+};
+
+// Backup schemas
+const backupId = z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid ID");
+const backupDate = z.string().refine(val => !isNaN(new Date(val).getTime()), {
+  message: "Invalid date format"
+});
+
+const backupArchive = z.object({
+  version: z.literal(1, { errorMap: () => ({ message: "Unsupported backup version" }) }),
+  exportedAt: z.string().optional(),
+  household: z.object({
+    name: z.string(),
+    baseCurrency: z.string().optional()
+  }).optional(),
+  accounts: z.array(z.object({
+    id: backupId,
+    name: z.string().min(1, "Name is required"),
+    description: z.string().optional(),
+    currency: z.string().regex(/^[A-Za-z]{3}$/, "Invalid currency code").optional(),
+    type: z.enum(['debit', 'credit', 'wallet']).optional(),
+    icon: z.string().optional(),
+    color: z.string().optional(),
+    includeInTotal: z.boolean().optional(),
+    creditLimit: z.number().optional().nullable(),
+    order: z.number().optional(),
+    externalAccountId: z.string().optional(),
+    balance: z.number().optional(),
+    isDeleted: z.boolean().optional()
+  })),
+  categories: z.array(z.object({
+    id: backupId,
+    name: z.string().min(1, "Name is required"),
+    description: z.string().optional(),
+    icon: z.string().optional(),
+    color: z.string().optional(),
+    type: z.enum(['Income', 'Expense']).optional(),
+    parent: backupId.optional().nullable(),
+    order: z.number().optional(),
+    isDeleted: z.boolean().optional()
+  })),
+  tags: z.array(z.object({
+    id: backupId,
+    name: z.string().min(1, "Name is required"),
+    color: z.string().optional(),
+    isDeleted: z.boolean().optional()
+  })).optional(),
+  payees: z.array(z.object({
+    id: backupId,
+    name: z.string().min(1, "Name is required"),
+    aliases: z.array(z.string()).optional(),
+    defaultCategory: backupId.optional().nullable(),
+    isDeleted: z.boolean().optional()
+  })).optional(),
+  transactions: z.array(z.object({
+    id: backupId,
+    transactionDate: backupDate,
+    fromAccount: backupId,
+    toAccount: backupId.optional().nullable(),
+    category: backupId.optional().nullable(),
+    splits: z.array(transactionSplit).optional(),
+    tags: z.array(backupId).optional(),
+    payee: backupId.optional().nullable(),
+    amount: z.number().min(0, "Amount must be positive"),
+    toAmount: z.number().min(0, "Amount must be positive").optional().nullable(),
+    description: z.string().optional(),
+    notes: z.string().optional(),
+    type: z.enum(['income', 'expense', 'transfer']).optional(),
+    externalId: z.string().optional(),
+    recurringTransaction: backupId.optional().nullable(),
+    recurrenceDate: backupDate.optional().nullable(),
+    isDeleted: z.boolean().optional(),
+    deletedAt: backupDate.optional().nullable()
+  }).refine(data => splitsMatchTotal(data.splits, data.amount), {
+    message: "Split amounts must add up to the transaction amount",
+    path: ['splits']
+  })),
+  budgets: z.array(z.object({
+    id: backupId,
+    category: backupId,
+    includeSubcategories: z.boolean().optional(),
+    amount: z.number().min(0, "Amount must be positive"),
+    period: z.enum(['monthly', 'yearly']).optional(),
+    startDate: backupDate,
+    endDate: backupDate.optional().nullable(),
+    notes: z.string().optional(),
+    isDeleted: z.boolean().optional()
+  })).optional(),
+  exchangeRates: z.array(z.object({
+    id: backupId,
+    fromCurrency: z.string().regex(/^[A-Za-z]{3}$/, "Invalid currency code"),
+    toCurrency: z.string().regex(/^[A-Za-z]{3}$/, "Invalid currency code"),
+    rate: z.number().positive("Rate must be positive"),
+    date: backupDate,
+    source: z.enum(['manual', 'import']).optional(),
+    isDeleted: z.boolean().optional()
+  })).optional(),
+  recurringTransactions: z.array(z.object({
+    id: backupId,
+    fromAccount: backupId,
+    toAccount: backupId.optional().nullable(),
+    category: backupId.optional().nullable(),
+    amount: z.number().min(0, "Amount must be positive"),
+    toAmount: z.number().min(0, "Amount must be positive").optional().nullable(),
+    description: z.string().optional(),
+    notes: z.string().optional(),
+    type: z.enum(['income', 'expense', 'transfer']).optional(),
+    frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+    interval: z.number().int().min(1, "Interval must be at least 1").optional(),
+    startDate: backupDate,
+    endDate: backupDate.optional().nullable(),
+    nextRunDate: backupDate.optional().nullable(),
+    lastRunDate: backupDate.optional().nullable(),
+    isActive: z.boolean().optional(),
+    exceptions: z.array(z.object({
+      date: backupDate,
+      action: z.enum(['skip', 'modify']),
+      overrides: z.object({
+        amount: z.number().min(0, "Amount must be positive").optional(),
+        toAmount: z.number().min(0, "Amount must be positive").optional(),
+        description: z.string().optional(),
+        notes: z.string().optional(),
+        category: backupId.optional(),
+        fromAccount: backupId.optional(),
+        toAccount: backupId.optional()
+      }).optional()
+    })).optional(),
+    isDeleted: z.boolean().optional()
+  })).optional(),
+  rules: z.array(z.object({
+    id: backupId,
+    name: z.string().min(1, "Name is required"),
+    priority: z.number().int().optional(),
+    enabled: z.boolean().optional(),
+    conditions: z.object({
+      descriptionContains: z.string().nullable().optional(),
+      amountMin: z.number().min(0, "Amount must be positive").nullable().optional(),
+      amountMax: z.number().min(0, "Amount must be positive").nullable().optional(),
+      account: backupId.nullable().optional(),
+      payee: backupId.nullable().optional()
+    }),
+    actions: z.object({
+      category: backupId.nullable().optional(),
+      tags: z.array(backupId).optional(),
+      type: z.enum(['income', 'expense']).nullable().optional(),
+      notes: z.string().nullable().optional()
+    }),
+    isDeleted: z.boolean().optional()
+  })).optional()
+});
+
+// Every reference in an archive must point at a document in the same archive,
+// and categories must form a tree
+function checkBackupReferences(data: z.infer<typeof backupArchive>, ctx: z.RefinementCtx): void {
+  const accounts = new Set(data.accounts.map(account => account.id));
+  const categories = new Map(data.categories.map(category => [category.id, category.parent]));
+  const tags = new Set((data.tags || []).map(tag => tag.id));
+  const payees = new Set((data.payees || []).map(payee => payee.id));
+  const schedules = new Set((data.recurringTransactions || []).map(recurring => recurring.id));
+  const unknown = (path: Array<string | number>) =>
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Unknown reference", path });
+  const duplicates = (items: Array<{ id: string }>, entity: string) => {
+    const seen = new Set<string>();
+    items.forEach((item, index) => {
+      if (seen.has(item.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Duplicate ID", path: [entity, index, 'id'] });
+      }
+      seen.add(item.id);
+    });
+  };
+
+  duplicates(data.accounts, 'accounts');
+  duplicates(data.categories, 'categories');
+  duplicates(data.tags || [], 'tags');
+  duplicates(data.payees || [], 'payees');
+  duplicates(data.transactions, 'transactions');
+  duplicates(data.budgets || [], 'budgets');
+  duplicates(data.exchangeRates || [], 'exchangeRates');
+  duplicates(data.recurringTransactions || [], 'recurringTransactions');
+  duplicates(data.rules || [], 'rules');
+
+  data.categories.forEach((category, index) => {
+    if (category.parent && !categories.has(category.parent)) {
+      unknown(['categories', index, 'parent']);
+      return;
+    }
+    const seen = new Set([category.id]);
+    let parent = category.parent;
+    while (parent) {
+      if (seen.has(parent)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Category cannot be its own ancestor", path: ['categories', index, 'parent'] });
+        return;
+      }
+      seen.add(parent);
+      parent = categories.get(parent);
+    }
+  });
+
+  data.payees?.forEach((payee, index) => {
+    if (payee.defaultCategory && !categories.has(payee.defaultCategory)) unknown(['payees', index, 'defaultCategory']);
+  });
+
+  data.transactions.forEach((transaction, index) => {
+    if (!accounts.has(transaction.fromAccount)) unknown(['transactions', index, 'fromAccount']);
+    if (transaction.toAccount && !accounts.has(transaction.toAccount)) unknown(['transactions', index, 'toAccount']);
+    if (transaction.category && !categories.has(transaction.category)) unknown(['transactions', index, 'category']);
+    transaction.splits?.forEach((split, splitIndex) => {
+      if (!categories.has(split.category)) unknown(['transactions', index, 'splits', splitIndex, 'category']);
+    });
+    if (transaction.payee && !payees.has(transaction.payee)) unknown(['transactions', index, 'payee']);
+    transaction.tags?.forEach((tag, tagIndex) => {
+      if (!tags.has(tag)) unknown(['transactions', index, 'tags', tagIndex]);
+    });
+    if (transaction.recurringTransaction && !schedules.has(transaction.recurringTransaction)) {
+      unknown(['transactions', index, 'recurringTransaction']);
+    }
+  });
+
+  data.budgets?.forEach((budget, index) => {
+    if (!categories.has(budget.category)) unknown(['budgets', index, 'category']);
+  });
+
+  data.recurringTransactions?.forEach((recurring, index) => {
+    if (!accounts.has(recurring.fromAccount)) unknown(['recurringTransactions', index, 'fromAccount']);
+    if (recurring.toAccount && !accounts.has(recurring.toAccount)) unknown(['recurringTransactions', index, 'toAccount']);
+    if (recurring.category && !categories.has(recurring.category)) unknown(['recurringTransactions', index, 'category']);
+    recurring.exceptions?.forEach((exception, exceptionIndex) => {
+      const path = ['recurringTransactions', index, 'exceptions', exceptionIndex, 'overrides'];
+      const { fromAccount, toAccount, category } = exception.overrides || {};
+      if (fromAccount && !accounts.has(fromAccount)) unknown([...path, 'fromAccount']);
+      if (toAccount && !accounts.has(toAccount)) unknown([...path, 'toAccount']);
+      if (category && !categories.has(category)) unknown([...path, 'category']);
+    });
+  });
+
+  data.rules?.forEach((rule, index) => {
+    if (rule.conditions.account && !accounts.has(rule.conditions.account)) unknown(['rules', index, 'conditions', 'account']);
+    if (rule.conditions.payee && !payees.has(rule.conditions.payee)) unknown(['rules', index, 'conditions', 'payee']);
+    if (rule.actions.category && !categories.has(rule.actions.category)) unknown(['rules', index, 'actions', 'category']);
+    rule.actions.tags?.forEach((tag, tagIndex) => {
+      if (!tags.has(tag)) unknown(['rules', index, 'actions', 'tags', tagIndex]);
+    });
+  });
+}
+
+export const backupSchema = {
+  // Transaction filters narrow CSV exports of transactions; the JSON archive is always the whole household
+  query: transactionFilters.merge(transactionDates).extend({
+    format: z.enum(['json', 'csv']).optional(),
+    entity: z.enum(['accounts', 'categories', 'tags', 'payees', 'transactions', 'budgets']).optional()
+  }).refine(data => data.format !== 'csv' || data.entity, {
+    message: "Entity is required for CSV exports",
+    path: ['entity']
+  }).refine(amountRangeValid, amountRangeError),
+  restore: backupArchive.superRefine(checkBackupReferences)
+};
+
+export const adminSchema = {
+  recalculate: z.object({
+    dryRun: z.boolean().optional()
+  })
+};
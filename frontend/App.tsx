@@ -16,6 +16,9 @@ import Budget from './src/screens/Budget';
 import Overview from './src/screens/Overview';
 import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
 import { DataProvider } from './src/contexts/DataContext';
+import { AuthProvider, useAuth } from './src/contexts/AuthContext';
+import Login from './src/screens/Login';
+import { View, ActivityIndicator } from 'react-native';
 
 const Tab = createBottomTabNavigator();
 
@@ -23,72 +26,100 @@ export default function App() {
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
       <SafeAreaProvider>
-        <DataProvider>
-          <BottomSheetModalProvider>
-          <NavigationContainer>
-            <StatusBar style="light" />
-            <Tab.Navigator
-              screenOptions={{
-                headerShown: false,
-                tabBarStyle: {
-                  backgroundColor: '#1E1E1E',
-                  borderTopWidth: 0,
-                  paddingBottom: 5,
-                  paddingTop: 5,
-                },
-                tabBarActiveTintColor: '#6B8AFE',
-                tabBarInactiveTintColor: '#8E8E93',
-              }}>
-              <Tab.Screen
-                name="Accounts"
-                component={Dashboard}
-                options={{
-                  tabBarIcon: ({ color }) => (
-                    <MaterialCommunityIcons name="wallet" size={24} color={color} />
-                  ),
-                }}
-              />
-              <Tab.Screen
-                name="Categories"
-                component={Categories}
-                options={{
-                  tabBarIcon: ({ color }) => (
-                    <MaterialCommunityIcons name="chart-pie" size={24} color={color} />
-                  ),
-                }}
-              />
-              <Tab.Screen
-                name="Transactions"
-                component={Transactions}
-                options={{
-                  tabBarIcon: ({ color }) => (
-                    <MaterialCommunityIcons name="receipt" size={24} color={color} />
-                  ),
-                }}
-              />
-              <Tab.Screen
-                name="Budget"
-                component={Budget}
-                options={{
-                  tabBarIcon: ({ color }) => (
-                    <MaterialCommunityIcons name="chart-timeline-variant" size={24} color={color} />
-                  ),
-                }}
-              />
-              <Tab.Screen
-                name="Overview"
-                component={Overview}
-                options={{
-                  tabBarIcon: ({ color }) => (
-                    <MaterialCommunityIcons name="chart-line" size={24} color={color} />
-                  ),
-                }}
-              />
-            </Tab.Navigator>
-          </NavigationContainer>
-        </BottomSheetModalProvider>
-        </DataProvider>
+        <AuthProvider>
+          <AppContent />
+        </AuthProvider>
       </SafeAreaProvider>
     </GestureHandlerRootView>
   );
 }
+
+function AppContent() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <View style={{ flex: 1, backgroundColor: '#1C1C1E', justifyContent: 'center', alignItems: 'center' }}>
+        <ActivityIndicator color="#6B8AFE" />
+      </View>
+    );
+  }
+
+  if (!user) {
+    return (
+      <>
+        <StatusBar style="light" />
+        <Login />
+      </>
+    );
+  }
+
+  // Keyed by user and household so switching either starts from a fresh data context
+  return (
+    <DataProvider key={`${user.id}:${user.householdId || ''}`}>
+      <BottomSheetModalProvider>
+      <NavigationContainer>
+        <StatusBar style="light" />
+        <Tab.Navigator
+          screenOptions={{
+            headerShown: false,
+            tabBarStyle: {
+              backgroundColor: '#1E1E1E',
+              borderTopWidth: 0,
+              paddingBottom: 5,
+              paddingTop: 5,
+            },
+            tabBarActiveTintColor: '#6B8AFE',
+            tabBarInactiveTintColor: '#8E8E93',
+          }}>
+          <Tab.Screen
+            name="Accounts"
+            component={Dashboard}
+            options={{
+              tabBarIcon: ({ color }) => (
+                <MaterialCommunityIcons name="wallet" size={24} color={color} />
+              ),
+            }}
+          />
+          <Tab.Screen
+            name="Categories"
+            component={Categories}
+            options={{
+              tabBarIcon: ({ color }) => (
+                <MaterialCommunityIcons name="chart-pie" size={24} color={color} />
+              ),
+            }}
+          />
+          <Tab.Screen
+            name="Transactions"
+            component={Transactions}
+            options={{
+              tabBarIcon: ({ color }) => (
+                <MaterialCommunityIcons name="receipt" size={24} color={color} />
+              ),
+            }}
+          />
+          <Tab.Screen
+            name="Budget"
+            component={Budget}
+            options={{
+              tabBarIcon: ({ color }) => (
+                <MaterialCommunityIcons name="chart-timeline-variant" size={24} color={color} />
+              ),
+            }}
+          />
+          <Tab.Screen
+            name="Overview"
+            component={Overview}
+            options={{
+              tabBarIcon: ({ color }) => (
+                <MaterialCommunityIcons name="chart-line" size={24} color={color} />
+              ),
+            }}
+          />
+        </Tab.Navigator>
+      </NavigationContainer>
+    </BottomSheetModalProvider>
+    </DataProvider>
+  );
+}
@@ -13,7 +13,8 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
 import DateRangePicker, { DateRangeSelection } from './DateRangePicker';
-import { useData, Account, Category } from '../contexts/DataContext';
+import { useData, Account, Category, TransactionSplit } from '../contexts/DataContext';
+import { apiService, CategorySuggestion } from '../services/apiService';
 
 type TransactionType = 'income' | 'expense' | 'transfer';
 
@@ -23,24 +24,46 @@ interface Transaction {
   amount: number;
   fromAccount: string;
   toAccount?: string;
+  toAmount?: number | null;
   category?: string;
+  splits?: TransactionSplit[];
   notes: string;
   date: string;
   isDeleted?: boolean;
   isDuplicate?: boolean;
 }
 
+// Split line being edited; the amount is kept as typed
+interface SplitLineInput {
+  category: string;
+  amount: string;
+  notes: string;
+}
+
+const toSplitInputs = (splits?: TransactionSplit[]): SplitLineInput[] =>
+  (splits || []).map(split => ({
+    category: split.category,
+    amount: split.amount.toString(),
+    notes: split.notes || '',
+  }));
+
 interface AddTransactionDrawerProps {
   onSubmit: (transaction: Transaction) => void;
   onCancel: () => void;
   editTransaction?: Transaction;
 }
 
-const formatCurrency = (amount: number) => {
-  return `₱ ${Math.abs(amount).toLocaleString('en-PH', {
+// Wait for typing to pause before asking for a category suggestion
+const SUGGESTION_DELAY_MS = 400;
+const SUGGESTION_MIN_LENGTH = 3;
+
+const formatCurrency = (amount: number, currency: string = 'PHP') => {
+  return Math.abs(amount).toLocaleString('en-PH', {
+    style: 'currency',
+    currency,
     minimumFractionDigits: 0,
     maximumFractionDigits: 0,
-  })}`;
+  });
 };
 
 export default function AddTransactionDrawer({
@@ -55,8 +78,15 @@ export default function AddTransactionDrawer({
   const [amount, setAmount] = useState(editTransaction?.amount?.toString() || '');
   const [fromAccount, setFromAccount] = useState(editTransaction?.fromAccount || '');
   const [toAccount, setToAccount] = useState(editTransaction?.toAccount || '');
+  const [toAmount, setToAmount] = useState(editTransaction?.toAmount?.toString() || '');
   const [category, setCategory] = useState(editTransaction?.category || '');
+  const [splits, setSplits] = useState<SplitLineInput[]>(toSplitInputs(editTransaction?.splits));
+  // Split line whose category is being picked; null while picking the transaction category
+  const [splitCategoryIndex, setSplitCategoryIndex] = useState<number | null>(null);
   const [notes, setNotes] = useState(editTransaction?.notes || '');
+  // Category preselected from similar past transactions, until one is picked by hand
+  const [suggestion, setSuggestion] = useState<CategorySuggestion | null>(null);
+  const [categoryPicked, setCategoryPicked] = useState(!!editTransaction);
   const [dateSelection, setDateSelection] = useState<DateRangeSelection>({
     mode: 'day',
     startDate: editTransaction?.date ? new Date(editTransaction.date) : new Date(),
@@ -87,8 +117,12 @@ export default function AddTransactionDrawer({
       setAmount(editTransaction.amount?.toString() || '');
       setFromAccount(editTransaction.fromAccount || '');
       setToAccount(editTransaction.toAccount || '');
+      setToAmount(editTransaction.toAmount?.toString() || '');
       setCategory(editTransaction.category || '');
+      setSplits(toSplitInputs(editTransaction.splits));
       setNotes(editTransaction.notes || '');
+      setCategoryPicked(true);
+      setSuggestion(null);
       
       setDateSelection({
         mode: 'day',
@@ -112,8 +146,12 @@ export default function AddTransactionDrawer({
       setAmount('');
       setFromAccount('');
       setToAccount('');
+      setToAmount('');
       setCategory('');
+      setSplits([]);
       setNotes('');
+      setCategoryPicked(false);
+      setSuggestion(null);
       setDateSelection({
         mode: 'day',
         startDate: new Date(),
@@ -134,6 +172,10 @@ export default function AddTransactionDrawer({
   // Check if selected accounts still exist (not deleted)
   const selectedFromAccount = availableAccounts.find(acc => acc.id === fromAccount);
   const selectedToAccount = availableAccounts.find(acc => acc.id === toAccount);
+
+  // Transfers between currencies record the amount received as well as the amount sent
+  const isCrossCurrencyTransfer = transactionType === 'transfer' && !!selectedFromAccount && !!selectedToAccount &&
+    (selectedFromAccount.currency || 'PHP') !== (selectedToAccount.currency || 'PHP');
   
   // Reset selected accounts if they've been deleted
   React.useEffect(() => {
@@ -166,6 +208,87 @@ export default function AddTransactionDrawer({
     }
   };
 
+  const isSplit = transactionType !== 'transfer' && splits.length > 0;
+  const splitTotal = splits.reduce((sum, split) => sum + (parseFloat(split.amount) || 0), 0);
+  const splitRemaining = (parseFloat(amount) || 0) - splitTotal;
+
+  // Start a split with the current category holding the whole amount
+  const handleStartSplit = () => {
+    setSplits([
+      { category, amount, notes: '' },
+      { category: '', amount: '', notes: '' },
+    ]);
+  };
+
+  // Going back to a single category keeps the first line's category
+  const handleCancelSplit = () => {
+    setCategory(splits[0]?.category || category);
+    setSplits([]);
+  };
+
+  const updateSplit = (index: number, changes: Partial<SplitLineInput>) => {
+    setSplits(current => current.map((split, i) => i === index ? { ...split, ...changes } : split));
+  };
+
+  const handleSplitAmountChange = (index: number, text: string) => {
+    const numericValue = text.replace(/[^0-9.]/g, '');
+    if (numericValue === '' || /^\d*\.?\d*$/.test(numericValue)) {
+      updateSplit(index, { amount: numericValue });
+    }
+  };
+
+  const handleRemoveSplit = (index: number) => {
+    const remaining = splits.filter((_, i) => i !== index);
+    if (remaining.length < 2) {
+      setCategory(remaining[0]?.category || category);
+      setSplits([]);
+    } else {
+      setSplits(remaining);
+    }
+  };
+
+  // Preselect the category similar past transactions were filed under, while none was picked by hand
+  React.useEffect(() => {
+    const description = notes.trim();
+    if (categoryPicked || isSplit || transactionType === 'transfer' || description.length < SUGGESTION_MIN_LENGTH) {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      apiService.suggestCategory({
+        description,
+        amount: parseFloat(amount) || undefined,
+        account: fromAccount || undefined,
+        type: transactionType,
+      }).then(response => {
+        if (cancelled || !response.success || !response.data) return;
+        const top = response.data.suggestions.find(candidate =>
+          categories.some(cat => cat.id === candidate.category.id && !cat.isDeleted)
+        ) || null;
+        setSuggestion(top);
+        setCategory(current => top?.category.id || (current === suggestion?.category.id ? '' : current));
+      });
+    }, SUGGESTION_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [notes, amount, fromAccount, transactionType, categoryPicked, isSplit]);
+
+  const openCategoryModal = (splitIndex: number | null) => {
+    setSplitCategoryIndex(splitIndex);
+    setShowCategoryModal(true);
+  };
+
+  const handleToAmountChange = (text: string) => {
+    const numericValue = text.replace(/[^0-9.]/g, '');
+    if (numericValue === '' || /^\d*\.?\d*$/.test(numericValue)) {
+      setToAmount(numericValue);
+    }
+  };
+
   const handleSubmit = (event?: any) => {
     // Standard validation for regular submit via button
     if (!selectedFromAccount) {
@@ -178,7 +301,7 @@ export default function AddTransactionDrawer({
       return;
     }
     
-    if (transactionType !== 'transfer' && !category) {
+    if (transactionType !== 'transfer' && !isSplit && !category) {
       setError('Please select a category');
       return;
     }
@@ -204,7 +327,7 @@ export default function AddTransactionDrawer({
       return;
     }
     
-    if (transactionType !== 'transfer' && !category) {
+    if (transactionType !== 'transfer' && !isSplit && !category) {
       setError('Please select a category');
       return;
     }
@@ -214,6 +337,17 @@ export default function AddTransactionDrawer({
       return;
     }
 
+    if (isSplit) {
+      if (splits.some(split => !split.category || !(parseFloat(split.amount) > 0))) {
+        setError('Please select a category and amount for each split');
+        return;
+      }
+      if (Math.abs(splitRemaining) >= 0.005) {
+        setError('Split amounts must add up to the total');
+        return;
+      }
+    }
+
     // Fix timezone issue by using the date directly without splitting
     const selectedDate = dateSelection.startDate || new Date();
     const year = selectedDate.getFullYear();
@@ -229,7 +363,16 @@ export default function AddTransactionDrawer({
       amount: parseFloat(amount) || 0,
       fromAccount,
       toAccount: transactionType === 'transfer' ? toAccount : undefined,
-      category: transactionType !== 'transfer' ? category : undefined,
+      // Left empty, the server converts with the exchange rate on the transaction date
+      toAmount: isCrossCurrencyTransfer && toAmount ? parseFloat(toAmount) : null,
+      category: transactionType !== 'transfer' && !isSplit ? category : undefined,
+      splits: isSplit
+        ? splits.map(split => ({
+            category: split.category,
+            amount: parseFloat(split.amount),
+            notes: split.notes || undefined,
+          }))
+        : undefined,
       notes,
       date: dateStr,
       // Preserve isDeleted flag if it exists
@@ -372,7 +515,7 @@ export default function AddTransactionDrawer({
                   <View style={styles.selectTextContainer}>
                     <Text style={styles.selectText}>{selectedFromAccount.name}</Text>
                     <Text style={styles.selectSubText}>
-                      {formatCurrency(selectedFromAccount.balance)}
+                      {formatCurrency(selectedFromAccount.balance || 0, selectedFromAccount.currency)}
                     </Text>
                   </View>
                 </>
@@ -404,7 +547,7 @@ export default function AddTransactionDrawer({
                     <View style={styles.selectTextContainer}>
                       <Text style={styles.selectText}>{selectedToAccount.name}</Text>
                       <Text style={styles.selectSubText}>
-                        {formatCurrency(selectedToAccount.balance)}
+                        {formatCurrency(selectedToAccount.balance || 0, selectedToAccount.currency)}
                       </Text>
                     </View>
                   </>
@@ -417,10 +560,86 @@ export default function AddTransactionDrawer({
           </View>
         ) : (
           <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Category</Text>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Category</Text>
+              <TouchableOpacity onPress={isSplit ? handleCancelSplit : handleStartSplit}>
+                <Text style={styles.splitToggleText}>{isSplit ? 'Single category' : 'Split'}</Text>
+              </TouchableOpacity>
+            </View>
+            {isSplit ? (
+              <>
+                {splits.map((split, index) => {
+                  const splitCategory = categories.find(cat => cat.id === split.category);
+                  return (
+                    <View key={index} style={styles.splitLine}>
+                      <View style={styles.splitRow}>
+                        <TouchableOpacity
+                          style={[styles.selectButton, styles.splitCategoryButton]}
+                          onPress={() => openCategoryModal(index)}
+                        >
+                          <View style={styles.selectContent}>
+                            {splitCategory ? (
+                              <>
+                                <View style={[styles.categoryIconSmall, { backgroundColor: splitCategory.color }]}>
+                                  <MaterialCommunityIcons
+                                    name={splitCategory.icon as any}
+                                    size={20}
+                                    color="#FFFFFF"
+                                  />
+                                </View>
+                                <View style={styles.selectTextContainer}>
+                                  <Text style={styles.selectText} numberOfLines={1}>{splitCategory.name}</Text>
+                                </View>
+                              </>
+                            ) : (
+                              <Text style={styles.selectPlaceholder}>Select category</Text>
+                            )}
+                          </View>
+                        </TouchableOpacity>
+                        <TextInput
+                          style={styles.splitAmountInput}
+                          value={split.amount}
+                          onChangeText={(text) => handleSplitAmountChange(index, text)}
+                          placeholder="0"
+                          placeholderTextColor="#8E8E93"
+                          keyboardType="decimal-pad"
+                        />
+                        <TouchableOpacity onPress={() => handleRemoveSplit(index)} style={styles.splitRemoveButton}>
+                          <MaterialCommunityIcons name="close-circle" size={22} color="#8E8E93" />
+                        </TouchableOpacity>
+                      </View>
+                      <TextInput
+                        style={styles.splitNotesInput}
+                        value={split.notes}
+                        onChangeText={(text) => updateSplit(index, { notes: text })}
+                        placeholder="Note for this line"
+                        placeholderTextColor="#8E8E93"
+                      />
+                    </View>
+                  );
+                })}
+                <View style={styles.splitFooter}>
+                  <TouchableOpacity
+                    onPress={() => setSplits([...splits, { category: '', amount: '', notes: '' }])}
+                    style={styles.splitAddButton}
+                  >
+                    <MaterialCommunityIcons name="plus" size={20} color="#6B8AFE" />
+                    <Text style={styles.splitToggleText}>Add line</Text>
+                  </TouchableOpacity>
+                  <Text style={[
+                    styles.splitRemainingText,
+                    Math.abs(splitRemaining) >= 0.005 && styles.splitRemainingError
+                  ]}>
+                    {Math.abs(splitRemaining) < 0.005
+                      ? 'Fully allocated'
+                      : `${formatCurrency(splitRemaining, selectedFromAccount?.currency)} ${splitRemaining > 0 ? 'left' : 'over'}`}
+                  </Text>
+                </View>
+              </>
+            ) : (
             <TouchableOpacity
               style={styles.selectButton}
-              onPress={() => setShowCategoryModal(true)}
+              onPress={() => openCategoryModal(null)}
             >
               <View style={styles.selectContent}>
                 {selectedCategory ? (
@@ -443,6 +662,12 @@ export default function AddTransactionDrawer({
                 <MaterialCommunityIcons name="chevron-down" size={24} color="#8E8E93" />
               </View>
             </TouchableOpacity>
+            )}
+            {!isSplit && suggestion && suggestion.category.id === category && (
+              <Text style={styles.suggestionText}>
+                Suggested from {suggestion.matches} similar {suggestion.matches === 1 ? 'transaction' : 'transactions'} ({Math.round(suggestion.confidence * 100)}% sure)
+              </Text>
+            )}
           </View>
         )}
 
@@ -461,6 +686,22 @@ export default function AddTransactionDrawer({
           />
         </View>
 
+        {isCrossCurrencyTransfer && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              Amount received ({selectedToAccount?.currency})
+            </Text>
+            <TextInput
+              style={styles.amountInput}
+              value={toAmount}
+              onChangeText={handleToAmountChange}
+              placeholder="Use exchange rate"
+              placeholderTextColor="#8E8E93"
+              keyboardType="decimal-pad"
+            />
+          </View>
+        )}
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Notes</Text>
           <TextInput
@@ -542,7 +783,10 @@ export default function AddTransactionDrawer({
                       amount: parseFloat(amount) || 0,
                       fromAccount,
                       toAccount: transactionType === 'transfer' ? toAccount : undefined,
-                      category: transactionType !== 'transfer' ? category : undefined,
+                      category: transactionType !== 'transfer' && !isSplit ? category : undefined,
+                      splits: isSplit
+                        ? splits.map(split => ({ category: split.category, amount: parseFloat(split.amount) || 0, notes: split.notes }))
+                        : undefined,
                       notes: `${notes || ''} (Copy)`,
                       date: dateStr
                     };
@@ -616,7 +860,7 @@ export default function AddTransactionDrawer({
                   <View style={styles.modalItemText}>
                     <Text style={styles.modalItemName}>{account.name}</Text>
                     <Text style={styles.modalItemBalance}>
-                      {formatCurrency(account.balance)}
+                      {formatCurrency(account.balance || 0, account.currency)}
                     </Text>
                   </View>
                 </TouchableOpacity>
@@ -660,7 +904,7 @@ export default function AddTransactionDrawer({
                   <View style={styles.modalItemText}>
                     <Text style={styles.modalItemName}>{account.name}</Text>
                     <Text style={styles.modalItemBalance}>
-                      {formatCurrency(account.balance)}
+                      {formatCurrency(account.balance || 0, account.currency)}
                     </Text>
                   </View>
                 </TouchableOpacity>
@@ -691,7 +935,12 @@ export default function AddTransactionDrawer({
                   key={cat.id}
                   style={styles.modalItem}
                   onPress={() => {
-                    setCategory(cat.id);
+                    if (splitCategoryIndex !== null) {
+                      updateSplit(splitCategoryIndex, { category: cat.id });
+                    } else {
+                      setCategory(cat.id);
+                      setCategoryPicked(true);
+                    }
                     setShowCategoryModal(false);
                   }}
                 >
@@ -839,6 +1088,67 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     marginBottom: 16,
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  splitToggleText: {
+    color: '#6B8AFE',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  splitLine: {
+    marginBottom: 12,
+  },
+  splitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  splitCategoryButton: {
+    flex: 1,
+    paddingVertical: 12,
+  },
+  splitAmountInput: {
+    backgroundColor: '#2C2C2E',
+    borderRadius: 8,
+    padding: 12,
+    width: 110,
+    color: '#FFFFFF',
+    fontSize: 16,
+    textAlign: 'right',
+    fontWeight: 'bold',
+  },
+  splitRemoveButton: {
+    padding: 4,
+  },
+  splitNotesInput: {
+    backgroundColor: '#2C2C2E',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginTop: 6,
+    color: '#FFFFFF',
+    fontSize: 14,
+  },
+  splitFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  splitAddButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  splitRemainingText: {
+    color: '#8E8E93',
+    fontSize: 14,
+  },
+  splitRemainingError: {
+    color: '#FF4B8C',
+  },
   typeContainer: {
     flexDirection: 'row',
     gap: 8,
@@ -1005,6 +1315,11 @@ const styles = StyleSheet.create({
     color: '#8E8E93',
     fontSize: 14,
   },
+  suggestionText: {
+    color: '#8E8E93',
+    fontSize: 13,
+    marginTop: 6,
+  },
   selectPlaceholder: {
     color: '#8E8E93',
     fontSize: 16,
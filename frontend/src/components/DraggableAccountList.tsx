@@ -101,14 +101,14 @@ export const DraggableAccountList: React.FC<DraggableAccountListProps> = ({
     let iconName = item.icon || 'credit-card';
     
     // Format balance
-    const formattedBalance = formatCurrency(item.balance);
+    const formattedBalance = formatCurrency(item.balance, item.currency);
     
     // For credit accounts, show available credit
     let creditInfo = null;
     if (item.type === 'credit' && item.creditLimit) {
       const availableCredit = item.creditLimit + item.balance;
       creditInfo = (
-        <Text style={styles.creditInfo}>₱ {availableCredit.toLocaleString()}</Text>
+        <Text style={styles.creditInfo}>{formatCurrency(availableCredit, item.currency)}</Text>
       );
     }
     
@@ -258,14 +258,14 @@ export const DraggableAccountList: React.FC<DraggableAccountListProps> = ({
       let iconName = item.icon || 'credit-card';
       
       // Format balance
-      const formattedBalance = formatCurrency(item.balance);
+      const formattedBalance = formatCurrency(item.balance, item.currency);
       
       // For credit accounts, show available credit
       let creditInfo = null;
       if (item.type === 'credit' && item.creditLimit) {
         const availableCredit = item.creditLimit + item.balance;
         creditInfo = (
-          <Text style={styles.creditInfo}>₱ {availableCredit.toLocaleString()}</Text>
+          <Text style={styles.creditInfo}>{formatCurrency(availableCredit, item.currency)}</Text>
         );
       }
       
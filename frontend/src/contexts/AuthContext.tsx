@@ -0,0 +1,102 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { apiService } from '../services/apiService';
+import storageService from '../services/storageService';
+import type { AuthSession } from '../services/storageService';
+
+export type AuthUser = AuthSession['user'];
+
+interface AuthContextType {
+  user: AuthUser | null;
+  isAuthenticated: boolean;
+  isLoading: boolean;
+  login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  register: (email: string, password: string, name?: string) => Promise<{ success: boolean; error?: string }>;
+  logout: () => Promise<void>;
+  joinHousehold: (code: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export function AuthProvider({ children }: AuthProviderProps) {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    // Restore the stored session; the access token is refreshed lazily on the first 401
+    apiService.getSession()
+      .then(session => setUser(session?.user || null))
+      .finally(() => setIsLoading(false));
+
+    apiService.setAuthExpiredHandler(() => {
+      console.log('🔒 Session expired, showing login');
+      setUser(null);
+    });
+
+    return () => apiService.setAuthExpiredHandler(null);
+  }, []);
+
+  const login = async (email: string, password: string) => {
+    const response = await apiService.login(email, password);
+    if (response.success && response.data) {
+      setUser(response.data.user);
+      return { success: true };
+    }
+    return { success: false, error: response.error };
+  };
+
+  const register = async (email: string, password: string, name?: string) => {
+    const response = await apiService.register(email, password, name);
+    if (response.success && response.data) {
+      setUser(response.data.user);
+      return { success: true };
+    }
+    return { success: false, error: response.error };
+  };
+
+  const logout = async () => {
+    await apiService.logout();
+    // Cached data belongs to the user that logged out
+    await storageService.clearAllData();
+    setUser(null);
+  };
+
+  const joinHousehold = async (code: string) => {
+    const response = await apiService.joinHousehold(code);
+    if (response.success && response.data) {
+      // Cached data belongs to the household that was left
+      await storageService.clearAllData();
+      setUser(response.data.user);
+      return { success: true };
+    }
+    return { success: false, error: response.error };
+  };
+
+  const value: AuthContextType = {
+    user,
+    isAuthenticated: !!user,
+    isLoading,
+    login,
+    register,
+    logout,
+    joinHousehold,
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+// Hook to use the context
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { apiService, ApiResponse } from '../services/apiService';
+import { apiService, ApiResponse, BudgetProgress, TransactionFilters, TransactionPageParams } from '../services/apiService';
 import storageService from '../services/storageService';
 import networkManager from '../services/networkManager';
 import syncService from '../services/syncService';
@@ -17,6 +17,9 @@ export interface Account {
   color?: string;
   includeInTotal?: boolean;
   creditLimit?: number;
+  currency?: string;
+  baseCurrency?: string;
+  baseBalance?: number | null; // Balance converted to baseCurrency; null when no rate is known
   order?: number;
   isDeleted?: boolean;
 }
@@ -35,6 +38,14 @@ export interface Category {
   transactionCount?: number;
   directTransactionCount?: number;
   subcategories?: Category[];
+  isDeleted?: boolean;
+}
+
+// One line of a split transaction, crediting part of the amount to its own category
+export interface TransactionSplit {
+  category: string;
+  amount: number;
+  notes?: string;
 }
 
 export interface Transaction {
@@ -43,10 +54,33 @@ export interface Transaction {
   fromAccount: string;
   toAccount?: string;
   category?: string;
+  splits?: TransactionSplit[];
+  tags?: string[]; // Tag IDs
+  payee?: string | null; // Payee ID
   amount: number;
   description?: string;
   notes?: string;
   type?: 'income' | 'expense' | 'transfer';
+  toAmount?: number | null; // Amount credited to toAccount when it uses another currency
+  isDeleted?: boolean;
+  attachmentCount?: number; // Receipts and documents attached on the server
+}
+
+export interface TransactionPage {
+  data: Transaction[];
+  total: number; // Matching transactions across all pages
+  nextCursor: string | null; // Null on the last page
+}
+
+export interface Budget {
+  id: string;
+  category: string;
+  includeSubcategories?: boolean;
+  amount: number;
+  period?: 'monthly' | 'yearly';
+  startDate: string;
+  endDate?: string | null;
+  notes?: string;
   isDeleted?: boolean;
 }
 
@@ -56,6 +90,7 @@ interface DataContextType {
   accounts: Account[];
   categories: Category[];
   transactions: Transaction[];
+  budgets: Budget[];
   loading: boolean;
   error: string | null;
   isInitialized: boolean;
@@ -85,7 +120,14 @@ interface DataContextType {
   addTransaction: (transaction: Omit<Transaction, 'id'>) => Promise<void>;
   updateTransaction: (transaction: Transaction) => Promise<void>;
   deleteTransaction: (id: string) => Promise<void>;
-  getTransactions: (params?: any) => Promise<Transaction[]>;
+  getTransactions: (params?: TransactionFilters) => Promise<Transaction[]>;
+  getTransactionPage: (params: TransactionFilters & TransactionPageParams) => Promise<TransactionPage | null>;
+
+  // Budget methods
+  addBudget: (budget: Omit<Budget, 'id'>) => Promise<void>;
+  updateBudget: (budget: Budget) => Promise<void>;
+  deleteBudget: (id: string) => Promise<void>;
+  getBudgetProgress: (month?: string) => Promise<BudgetProgress[]>;
 
   // Utility methods
   refreshData: () => Promise<void>;
@@ -103,6 +145,7 @@ export function DataProvider({ children }: DataProviderProps) {
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
@@ -166,6 +209,7 @@ export function DataProvider({ children }: DataProviderProps) {
       setAccounts(localData.accounts);
       setCategories(localData.categories);
       setTransactions(localData.transactions);
+      setBudgets(localData.budgets);
 
       // Load offline queue and sync timestamp
       const queue = await storageService.getOfflineQueue();
@@ -191,10 +235,11 @@ export function DataProvider({ children }: DataProviderProps) {
 
   const loadAllData = async () => {
     try {
-      const [accountsResponse, categoriesResponse, transactionsResponse] = await Promise.all([
+      const [accountsResponse, categoriesResponse, transactionsResponse, budgetsResponse] = await Promise.all([
         apiService.getAllAccounts(),
         apiService.getAllCategories(),
-        apiService.getAllTransactions()
+        apiService.getAllTransactions(),
+        apiService.getAllBudgets()
       ]);
       
       if (accountsResponse.success && accountsResponse.data) {
@@ -209,6 +254,10 @@ export function DataProvider({ children }: DataProviderProps) {
         setTransactions(transactionsResponse.data);
         await storageService.saveTransactions(transactionsResponse.data);
       }
+      if (budgetsResponse.success && budgetsResponse.data) {
+        setBudgets(budgetsResponse.data);
+        await storageService.saveBudgets(budgetsResponse.data);
+      }
 
       // Update sync timestamp
       const newTimestamp = Date.now();
@@ -275,12 +324,16 @@ export function DataProvider({ children }: DataProviderProps) {
           setAccounts(merged.accounts);
           setCategories(merged.categories);
           setTransactions(merged.transactions);
+
+          const mergedBudgets = syncService.mergeServerBudgets(budgets, changes.budgets);
+          setBudgets(mergedBudgets);
           
           await storageService.saveAllData(
             merged.accounts,
             merged.categories,
             merged.transactions
           );
+          await storageService.saveBudgets(mergedBudgets);
           
           setLastSyncTimestamp(changes.currentTimestamp);
           await storageService.saveLastSyncTimestamp(changes.currentTimestamp);
@@ -299,6 +352,7 @@ export function DataProvider({ children }: DataProviderProps) {
         accounts,
         categories,
         transactions,
+        budgets,
         offlineQueue,
         lastSyncTimestamp
       );
@@ -308,6 +362,7 @@ export function DataProvider({ children }: DataProviderProps) {
         setAccounts(result.accounts);
         setCategories(result.categories);
         setTransactions(result.transactions);
+        setBudgets(result.budgets);
         setOfflineQueue(result.newQueue);
         setLastSyncTimestamp(result.newTimestamp);
 
@@ -317,6 +372,7 @@ export function DataProvider({ children }: DataProviderProps) {
           result.categories,
           result.transactions
         );
+        await storageService.saveBudgets(result.budgets);
         await storageService.saveOfflineQueue(result.newQueue);
         await storageService.saveLastSyncTimestamp(result.newTimestamp);
 
@@ -704,6 +760,109 @@ export function DataProvider({ children }: DataProviderProps) {
     }
   };
 
+  // Budget methods
+  const addBudget = async (budgetData: Omit<Budget, 'id'>) => {
+    try {
+      const tempBudget: Budget = { ...budgetData, id: `temp-${Date.now()}` };
+      const newBudgets = [...budgets, tempBudget];
+      setBudgets(newBudgets);
+      await storageService.saveBudgets(newBudgets);
+
+      if (!isOnline) {
+        await queueOperation('CREATE', 'budget', tempBudget);
+        return;
+      }
+
+      const response = await apiService.createBudget(budgetData);
+      if (response.success && response.data?.data) {
+        const updated = newBudgets.map(budget => budget.id === tempBudget.id ? response.data!.data : budget);
+        setBudgets(updated);
+        await storageService.saveBudgets(updated);
+      } else {
+        throw new Error(response.error || 'Failed to create budget');
+      }
+    } catch (err) {
+      if (isOnline) {
+        setBudgets(budgets);
+        await storageService.saveBudgets(budgets);
+      } else {
+        await queueOperation('CREATE', 'budget', { ...budgetData, id: `temp-${Date.now()}` });
+      }
+      setError(err instanceof Error ? err.message : 'Failed to add budget');
+      throw err;
+    }
+  };
+
+  const updateBudget = async (budget: Budget) => {
+    try {
+      const originalBudgets = [...budgets];
+      const updated = budgets.map(b => b.id === budget.id ? budget : b);
+      setBudgets(updated);
+      await storageService.saveBudgets(updated);
+
+      if (!isOnline) {
+        await queueOperation('UPDATE', 'budget', budget);
+        return;
+      }
+
+      const { id, isDeleted, ...budgetData } = budget;
+      const response = await apiService.updateBudget(id, budgetData);
+      if (!response.success) {
+        setBudgets(originalBudgets);
+        await storageService.saveBudgets(originalBudgets);
+        throw new Error(response.error || 'Failed to update budget');
+      }
+    } catch (err) {
+      if (isOnline) await loadAllData();
+      else await queueOperation('UPDATE', 'budget', budget);
+      setError(err instanceof Error ? err.message : 'Failed to update budget');
+      throw err;
+    }
+  };
+
+  const deleteBudget = async (id: string) => {
+    try {
+      const originalBudgets = [...budgets];
+      const updated = budgets.filter(budget => budget.id !== id);
+      setBudgets(updated);
+      await storageService.saveBudgets(updated);
+
+      if (!isOnline) {
+        await queueOperation('DELETE', 'budget', { id });
+        return;
+      }
+
+      const response = await apiService.deleteBudget(id);
+      if (!response.success) {
+        setBudgets(originalBudgets);
+        await storageService.saveBudgets(originalBudgets);
+        throw new Error(response.error || 'Failed to delete budget');
+      }
+    } catch (err) {
+      if (isOnline) {
+        setBudgets(budgets);
+        await storageService.saveBudgets(budgets);
+      } else {
+        await queueOperation('DELETE', 'budget', { id });
+      }
+      setError(err instanceof Error ? err.message : 'Failed to delete budget');
+      throw err;
+    }
+  };
+
+  const getBudgetProgress = async (month?: string): Promise<BudgetProgress[]> => {
+    try {
+      const response = await apiService.getBudgetProgress(month);
+      if (response.success && response.data) {
+        return response.data.budgets;
+      }
+      throw new Error(response.error || 'Failed to get budget progress');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to get budget progress');
+      return [];
+    }
+  };
+
   const refreshData = async () => {
     await loadAllData();
   };
@@ -735,7 +894,7 @@ export function DataProvider({ children }: DataProviderProps) {
     }
   };
 
-  const getTransactions = async (params?: any): Promise<Transaction[]> => {
+  const getTransactions = async (params?: TransactionFilters): Promise<Transaction[]> => {
     try {
       const response = await apiService.getAllTransactions(params);
       if (response.success && response.data) {
@@ -749,11 +908,26 @@ export function DataProvider({ children }: DataProviderProps) {
     }
   };
 
+  // One page of the list, deleted transactions already left out by the server
+  const getTransactionPage = async (params: TransactionFilters & TransactionPageParams): Promise<TransactionPage | null> => {
+    try {
+      const response = await apiService.getAllTransactions(params);
+      if (response.success && response.data) {
+        return response.data;
+      }
+      throw new Error(response.error || 'Failed to get transactions');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to get transactions');
+      return null;
+    }
+  };
+
   const value: DataContextType = {
     // State
     accounts,
     categories,
     transactions,
+    budgets,
     loading,
     error,
     isInitialized,
@@ -784,6 +958,13 @@ export function DataProvider({ children }: DataProviderProps) {
     updateTransaction,
     deleteTransaction,
     getTransactions,
+    getTransactionPage,
+
+    // Budget methods
+    addBudget,
+    updateBudget,
+    deleteBudget,
+    getBudgetProgress,
 
     // Utility methods
     refreshData,
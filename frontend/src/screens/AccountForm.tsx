@@ -14,6 +14,7 @@ type AccountFormProps = {
     creditLimit?: number;
     description?: string;
     includeInTotal?: boolean;
+    currency?: string;
   };
   onSave: (account: any) => void;
   onCancel: () => void;
@@ -31,6 +32,7 @@ const currencies = [
   { id: 'EUR', name: 'Euro', symbol: '€' },
   { id: 'JPY', name: 'Japanese yen', symbol: '¥' },
   { id: 'GBP', name: 'British pound', symbol: '£' },
+  { id: 'CNY', name: 'Chinese yuan', symbol: '¥' },
 ];
 
 const accountIcons = [
@@ -63,8 +65,10 @@ export default function AccountForm({ account, onSave, onCancel }: AccountFormPr
   const [type, setType] = useState(account?.type || 'debit');
   const [icon, setIcon] = useState(account?.icon || 'credit-card');
   const [color, setColor] = useState(account?.color || '#FF4B8C');
-  const [currencyId, setCurrencyId] = useState('PHP');
-  const [currency, setCurrency] = useState('Philippine peso');
+  const [currencyId, setCurrencyId] = useState(account?.currency || 'PHP');
+  const [currency, setCurrency] = useState(
+    currencies.find(c => c.id === account?.currency)?.name || 'Philippine peso'
+  );
   const [balance, setBalance] = useState(account?.balance?.toString() || '0');
   const [creditLimit, setCreditLimit] = useState(account?.creditLimit?.toString() || '0');
   const [description, setDescription] = useState(account?.description || '');
@@ -84,6 +88,7 @@ export default function AccountForm({ account, onSave, onCancel }: AccountFormPr
       type,
       icon,
       color,
+      currency: currencyId,
       balance: parseFloat(balance),
       description,
       includeInTotal,
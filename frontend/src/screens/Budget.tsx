@@ -1,29 +1,464 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
-import { SafeAreaView } from 'react-native-safe-area-context';
-
-export default function Budget() {
-  return (
-    <SafeAreaView style={styles.container}>
-      <View style={styles.content}>
-        <Text style={styles.text}>Budget Coming Soon</Text>
-      </View>
-    </SafeAreaView>
-  );
-}
-
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: '#1E1E1E',
-  },
-  content: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  text: {
-    color: '#FFFFFF',
-    fontSize: 18,
-  },
-}); 
\ No newline at end of file
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, TextInput, Switch } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+import { useData, Budget as BudgetType, Category } from '../contexts/DataContext';
+import type { BudgetProgress } from '../services/apiService';
+import { formatCurrency } from '../utils/formatters';
+
+// Month key in YYYY-MM format (UTC, matching the backend)
+const toMonthKey = (date: Date) =>
+  `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+
+const shiftMonth = (monthKey: string, delta: number) => {
+  const [year, month] = monthKey.split('-').map(Number);
+  return toMonthKey(new Date(Date.UTC(year, month - 1 + delta, 1)));
+};
+
+const formatMonthLabel = (monthKey: string) => {
+  const [year, month] = monthKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, 1))
+    .toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+    .toUpperCase();
+};
+
+export default function Budget() {
+  const {
+    budgets,
+    categories,
+    transactions,
+    addBudget,
+    updateBudget,
+    deleteBudget,
+    getBudgetProgress,
+    isOnline,
+    error
+  } = useData();
+  const [month, setMonth] = useState(toMonthKey(new Date()));
+  const [progress, setProgress] = useState<BudgetProgress[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Form state
+  const [showForm, setShowForm] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<BudgetType | null>(null);
+  const [formCategory, setFormCategory] = useState<string | null>(null);
+  const [formAmount, setFormAmount] = useState('');
+  const [formIncludeSubcategories, setFormIncludeSubcategories] = useState(true);
+
+  useEffect(() => {
+    loadProgress();
+  }, [month, budgets, isOnline]);
+
+  const loadProgress = async () => {
+    setLoading(true);
+    try {
+      if (isOnline) {
+        setProgress(await getBudgetProgress(month));
+      } else {
+        setProgress(computeLocalProgress());
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Offline fallback: compute budget vs actual from locally cached data
+  const computeLocalProgress = (): BudgetProgress[] => {
+    const [year, monthIndex] = month.split('-').map(Number);
+
+    return budgets.map(budget => {
+      const periodStart = budget.period === 'yearly'
+        ? new Date(Date.UTC(year, 0, 1))
+        : new Date(Date.UTC(year, monthIndex - 1, 1));
+      const periodEnd = budget.period === 'yearly'
+        ? new Date(Date.UTC(year, 11, 31, 23, 59, 59, 999))
+        : new Date(Date.UTC(year, monthIndex, 0, 23, 59, 59, 999));
+
+      const categoryIds = new Set([budget.category]);
+      if (budget.includeSubcategories !== false) {
+        let added = true;
+        while (added) {
+          added = false;
+          categories.forEach(cat => {
+            if (cat.parent && categoryIds.has(cat.parent) && !categoryIds.has(cat.id)) {
+              categoryIds.add(cat.id);
+              added = true;
+            }
+          });
+        }
+      }
+
+      const matching = transactions.filter(t => {
+        const date = new Date(t.transactionDate);
+        return t.category && categoryIds.has(t.category) && date >= periodStart && date <= periodEnd;
+      });
+      const spent = matching.reduce((sum, t) => sum + t.amount, 0);
+      const category = categories.find(cat => cat.id === budget.category) as Category;
+
+      return {
+        budget: { ...budget, category },
+        periodStart: periodStart.toISOString(),
+        periodEnd: periodEnd.toISOString(),
+        spent,
+        remaining: budget.amount - spent,
+        percentUsed: budget.amount > 0 ? Math.round((spent / budget.amount) * 10000) / 100 : 0,
+        transactionCount: matching.length,
+        overBudget: spent > budget.amount
+      };
+    });
+  };
+
+  const openForm = (budget?: BudgetType) => {
+    setEditingBudget(budget || null);
+    setFormCategory(budget?.category || null);
+    setFormAmount(budget ? budget.amount.toString() : '');
+    setFormIncludeSubcategories(budget?.includeSubcategories !== false);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingBudget(null);
+  };
+
+  const handleSave = async () => {
+    const amount = parseFloat(formAmount);
+    if (!formCategory || isNaN(amount) || amount < 0) return;
+
+    try {
+      if (editingBudget) {
+        await updateBudget({
+          ...editingBudget,
+          category: formCategory,
+          amount,
+          includeSubcategories: formIncludeSubcategories
+        });
+      } else {
+        const [year, monthIndex] = month.split('-').map(Number);
+        await addBudget({
+          category: formCategory,
+          amount,
+          includeSubcategories: formIncludeSubcategories,
+          period: 'monthly',
+          startDate: new Date(Date.UTC(year, monthIndex - 1, 1)).toISOString()
+        });
+      }
+      closeForm();
+    } catch (err) {
+      console.error('Failed to save budget:', err);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editingBudget) return;
+    try {
+      await deleteBudget(editingBudget.id);
+      closeForm();
+    } catch (err) {
+      console.error('Failed to delete budget:', err);
+    }
+  };
+
+  const totalBudgeted = progress.reduce((sum, item) => sum + item.budget.amount, 0);
+  const totalSpent = progress.reduce((sum, item) => sum + item.spent, 0);
+  const expenseCategories = categories.filter(cat => cat.type !== 'Income');
+
+  if (showForm) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.headerButton} onPress={closeForm}>
+            <MaterialCommunityIcons name="close" size={24} color="#8E8E93" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{editingBudget ? 'Edit budget' : 'New budget'}</Text>
+          <TouchableOpacity style={styles.headerButton} onPress={handleSave}>
+            <MaterialCommunityIcons name="check" size={24} color="#6B8AFE" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content}>
+          <Text style={styles.formLabel}>Amount</Text>
+          <TextInput
+            style={styles.amountInput}
+            value={formAmount}
+            onChangeText={setFormAmount}
+            keyboardType="numeric"
+            placeholder="0"
+            placeholderTextColor="#8E8E93"
+          />
+
+          <View style={styles.switchRow}>
+            <Text style={styles.formLabel}>Include subcategories</Text>
+            <Switch
+              value={formIncludeSubcategories}
+              onValueChange={setFormIncludeSubcategories}
+            />
+          </View>
+
+          <Text style={styles.formLabel}>Category</Text>
+          <View style={styles.categoryGrid}>
+            {expenseCategories.map(category => (
+              <TouchableOpacity
+                key={category.id}
+                style={[
+                  styles.categoryChip,
+                  formCategory === category.id && styles.categoryChipSelected
+                ]}
+                onPress={() => setFormCategory(category.id)}
+              >
+                <MaterialCommunityIcons
+                  name={(category.icon || 'tag') as any}
+                  size={16}
+                  color={category.color || '#FFFFFF'}
+                />
+                <Text style={styles.categoryChipText}>{category.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {editingBudget && (
+            <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+              <Text style={styles.deleteButtonText}>Delete budget</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={() => setMonth(shiftMonth(month, -1))}>
+          <MaterialCommunityIcons name="chevron-left" size={28} color="#8E8E93" />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>{formatMonthLabel(month)}</Text>
+          <Text style={styles.headerSummary}>
+            {formatCurrency(totalSpent)} of {formatCurrency(totalBudgeted)}
+          </Text>
+          {error && <Text style={styles.errorText}>{error}</Text>}
+        </View>
+        <TouchableOpacity style={styles.headerButton} onPress={() => setMonth(shiftMonth(month, 1))}>
+          <MaterialCommunityIcons name="chevron-right" size={28} color="#8E8E93" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {loading && progress.length === 0 ? (
+          <Text style={styles.emptyText}>Loading budgets...</Text>
+        ) : progress.length === 0 ? (
+          <Text style={styles.emptyText}>No budgets for this month</Text>
+        ) : (
+          progress.map(item => {
+            const category = item.budget.category;
+            const ratio = Math.min(item.percentUsed / 100, 1);
+            const budget = budgets.find(b => b.id === item.budget.id);
+
+            return (
+              <TouchableOpacity
+                key={item.budget.id}
+                style={styles.budgetItem}
+                onPress={() => budget && openForm(budget)}
+              >
+                <View style={styles.budgetHeader}>
+                  <View style={[styles.iconContainer, { backgroundColor: category?.color || '#6B8AFE' }]}>
+                    <MaterialCommunityIcons name={(category?.icon || 'tag') as any} size={20} color="#FFF" />
+                  </View>
+                  <Text style={styles.budgetName}>{category?.name || 'Unknown category'}</Text>
+                  <Text style={[styles.budgetRemaining, item.overBudget && styles.overBudgetText]}>
+                    {item.overBudget
+                      ? `${formatCurrency(Math.abs(item.remaining))} over`
+                      : `${formatCurrency(item.remaining)} left`}
+                  </Text>
+                </View>
+                <View style={styles.progressTrack}>
+                  <View
+                    style={[
+                      styles.progressFill,
+                      { width: `${ratio * 100}%` },
+                      item.overBudget && styles.progressFillOver
+                    ]}
+                  />
+                </View>
+                <Text style={styles.budgetDetail}>
+                  {formatCurrency(item.spent)} of {formatCurrency(item.budget.amount)} · {item.percentUsed}%
+                </Text>
+              </TouchableOpacity>
+            );
+          })
+        )}
+      </ScrollView>
+
+      <TouchableOpacity style={styles.fab} onPress={() => openForm()}>
+        <MaterialCommunityIcons name="plus" size={28} color="#FFFFFF" />
+      </TouchableOpacity>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1C1C1E',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 8,
+  },
+  headerButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#FFFFFF',
+    marginBottom: 2,
+  },
+  headerSummary: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#FF4B8C',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#8E8E93',
+    textAlign: 'center',
+    paddingVertical: 40,
+  },
+  budgetItem: {
+    backgroundColor: '#2C2C2E',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  budgetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  iconContainer: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  budgetName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#FFFFFF',
+  },
+  budgetRemaining: {
+    fontSize: 14,
+    color: '#4CAF50',
+  },
+  overBudgetText: {
+    color: '#FF4B8C',
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#3A3A3C',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#6B8AFE',
+  },
+  progressFillOver: {
+    backgroundColor: '#FF4B8C',
+  },
+  budgetDetail: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 6,
+  },
+  fab: {
+    position: 'absolute',
+    right: 20,
+    bottom: 20,
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#6B8AFE',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  formLabel: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  amountInput: {
+    fontSize: 28,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#3A3A3C',
+    paddingVertical: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  categoryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  categoryChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2C2C2E',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  categoryChipSelected: {
+    backgroundColor: '#3D4A7A',
+  },
+  categoryChipText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    marginLeft: 6,
+  },
+  deleteButton: {
+    marginTop: 32,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#2C2C2E',
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    fontSize: 16,
+    color: '#FF4B8C',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useRef, useState, useMemo } from 'react';
+import React, { useRef, useState, useMemo, useEffect } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Pressable, TextInput, Alert, ActivityIndicator, ScrollView, Platform } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
@@ -8,6 +8,7 @@ import AccountForm from './AccountForm';
 import { useData, Account } from '../contexts/DataContext';
 import DraggableAccountList from '../components/DraggableAccountList';
 import { formatCurrency } from '../utils/formatters';
+import { apiService } from '../services/apiService';
 import SyncStatusIndicator from '../components/SyncStatusIndicator';
 
 export default function Dashboard() {
@@ -31,6 +32,18 @@ export default function Dashboard() {
   const [showSearch, setShowSearch] = useState(false);
   const [accountTypeFilter, setAccountTypeFilter] = useState<'all' | 'debit' | 'credit' | 'wallet'>('all');
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [baseCurrency, setBaseCurrency] = useState('PHP');
+  const [rates, setRates] = useState<Record<string, number>>({ PHP: 1 });
+
+  // Load the rates converting each account currency into the household's base currency
+  useEffect(() => {
+    apiService.getAccountTotals().then(response => {
+      if (response.success && response.data) {
+        setBaseCurrency(response.data.baseCurrency);
+        setRates(response.data.rates);
+      }
+    });
+  }, [accounts]);
 
   // Filter accounts based on search query and type filter
   const filteredAccounts = useMemo(() => {
@@ -49,15 +62,23 @@ export default function Dashboard() {
     });
   }, [accounts, searchQuery, accountTypeFilter]);
 
-  // Calculate total balance for filtered accounts
-  const totalBalance = useMemo(() => {
-    return filteredAccounts.reduce((sum, account) => {
-      if (account.includeInTotal !== false) {
-        return sum + (account.balance || 0);
+  // Calculate total balance for filtered accounts in the base currency
+  // Accounts in a currency without a known rate are left out and listed in missingRates
+  const { totalBalance, missingRates } = useMemo(() => {
+    const missing = new Set<string>();
+    const total = filteredAccounts.reduce((sum, account) => {
+      if (account.includeInTotal === false) {
+        return sum;
       }
-      return sum;
+      const rate = rates[account.currency || 'PHP'];
+      if (rate === undefined) {
+        missing.add(account.currency || 'PHP');
+        return sum;
+      }
+      return sum + (account.balance || 0) * rate;
     }, 0);
-  }, [filteredAccounts]);
+    return { totalBalance: total, missingRates: Array.from(missing) };
+  }, [filteredAccounts, rates]);
 
   const handlePresentModal = () => {
     setSelectedAccount(null);
@@ -155,7 +176,10 @@ export default function Dashboard() {
         </TouchableOpacity>
         <View style={styles.headerCenter}>
           <Text style={styles.headerTitle}>All accounts</Text>
-          <Text style={styles.headerBalance}>₱ {totalBalance.toLocaleString('en-PH')}</Text>
+          <Text style={styles.headerBalance}>{formatCurrency(totalBalance, baseCurrency)}</Text>
+          {missingRates.length > 0 && (
+            <Text style={styles.missingRatesText}>No exchange rate for {missingRates.join(', ')}</Text>
+          )}
           {error && (
             <Text style={styles.errorText}>{error}</Text>
           )}
@@ -245,7 +269,7 @@ export default function Dashboard() {
           {accountTypeFilter === 'all' ? 'Accounts' : `${accountTypeFilter.charAt(0).toUpperCase() + accountTypeFilter.slice(1)} Accounts`}
         </Text>
         <Text style={styles.totalAmount}>
-          {formatCurrency(totalBalance)}
+          {formatCurrency(totalBalance, baseCurrency)}
         </Text>
       </View>
 
@@ -322,6 +346,12 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginBottom: 4,
   },
+  missingRatesText: {
+    color: '#8E8E93',
+    fontSize: 12,
+    textAlign: 'center',
+    marginBottom: 4,
+  },
   actionButton: {
     width: 40,
     height: 40,
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ActivityIndicator, KeyboardAvoidingView, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
+import { useAuth } from '../contexts/AuthContext';
+
+export default function Login() {
+  const { login, register } = useAuth();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isRegister = mode === 'register';
+
+  const handleSubmit = async () => {
+    const trimmedEmail = email.trim();
+    if (!trimmedEmail || !password) {
+      setError('Email and password are required');
+      return;
+    }
+    if (isRegister && password.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const result = isRegister
+        ? await register(trimmedEmail, password, name.trim() || undefined)
+        : await login(trimmedEmail, password);
+      if (!result.success) {
+        setError(result.error || 'Something went wrong');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleMode = () => {
+    setMode(isRegister ? 'login' : 'register');
+    setError(null);
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.content}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <MaterialCommunityIcons name="wallet" size={56} color="#6B8AFE" style={styles.logo} />
+        <Text style={styles.title}>{isRegister ? 'Create account' : 'Welcome back'}</Text>
+
+        {isRegister && (
+          <TextInput
+            style={styles.input}
+            placeholder="Name (optional)"
+            placeholderTextColor="#8E8E93"
+            value={name}
+            onChangeText={setName}
+            testID="auth-name-input"
+          />
+        )}
+        <TextInput
+          style={styles.input}
+          placeholder="Email"
+          placeholderTextColor="#8E8E93"
+          value={email}
+          onChangeText={setEmail}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="email-address"
+          testID="auth-email-input"
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Password"
+          placeholderTextColor="#8E8E93"
+          value={password}
+          onChangeText={setPassword}
+          secureTextEntry
+          testID="auth-password-input"
+        />
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <TouchableOpacity
+          style={[styles.submitButton, submitting && styles.submitButtonDisabled]}
+          onPress={handleSubmit}
+          disabled={submitting}
+          testID="auth-submit-button"
+        >
+          {submitting ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.submitButtonText}>{isRegister ? 'Sign up' : 'Log in'}</Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity onPress={toggleMode} style={styles.toggleButton}>
+          <Text style={styles.toggleText}>
+            {isRegister ? 'Already have an account? Log in' : "Don't have an account? Sign up"}
+          </Text>
+        </TouchableOpacity>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1C1C1E',
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  logo: {
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+  input: {
+    backgroundColor: '#2C2C2E',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#FFFFFF',
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF4B8C',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  submitButton: {
+    backgroundColor: '#6B8AFE',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  toggleButton: {
+    marginTop: 20,
+    alignItems: 'center',
+  },
+  toggleText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+});
@@ -1,29 +1,340 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
-import { SafeAreaView } from 'react-native-safe-area-context';
-
-export default function Overview() {
-  return (
-    <SafeAreaView style={styles.container}>
-      <View style={styles.content}>
-        <Text style={styles.text}>Overview Coming Shet</Text>
-      </View>
-    </SafeAreaView>
-  );
-}
-
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: '#1E1E1E',
-  },
-  content: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  text: {
-    color: '#FFFFFF',
-    fontSize: 18,
-  },
-}); 
\ No newline at end of file
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '../contexts/AuthContext';
+import { apiService, Household, SummaryReport } from '../services/apiService';
+import { formatCurrency } from '../utils/formatters';
+
+// Months shown in the summary, including the current one
+const SUMMARY_MONTHS = 6;
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const formatMonth = (start: string) =>
+  new Date(start).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+const formatRate = (rate: number | null) => rate === null ? '—' : `${rate.toFixed(1)}%`;
+
+export default function Overview() {
+  const { user, logout, joinHousehold } = useAuth();
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [inviteCode, setInviteCode] = useState<string | null>(null);
+  const [joinCode, setJoinCode] = useState('');
+  const [householdError, setHouseholdError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<SummaryReport | null>(null);
+  const [summaryLoading, setSummaryLoading] = useState(true);
+  const [summaryError, setSummaryError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiService.getHousehold().then(response => {
+      if (response.success && response.data) {
+        setHousehold(response.data);
+        setInviteCode(response.data.invitations[0]?.code || null);
+      }
+    });
+  }, [user?.householdId]);
+
+  useEffect(() => {
+    const today = new Date();
+    const from = new Date(today.getFullYear(), today.getMonth() - (SUMMARY_MONTHS - 1), 1);
+    setSummaryLoading(true);
+    apiService.getSummaryReport({ period: 'month', from: toDateString(from), to: toDateString(today) })
+      .then(response => {
+        if (response.success && response.data) {
+          setSummary(response.data);
+          setSummaryError(null);
+        } else {
+          setSummaryError(response.error || 'Could not load the summary');
+        }
+      })
+      .finally(() => setSummaryLoading(false));
+  }, [user?.householdId]);
+
+  // Bars are scaled against the largest monthly income or expense
+  const largestAmount = Math.max(1, ...(summary?.periods || []).flatMap(period => [period.income, period.expense]));
+
+  const isOwner = household?.members.some(member => member.id === user?.id && member.role === 'owner');
+
+  const handleInvite = async () => {
+    setHouseholdError(null);
+    const response = await apiService.createHouseholdInvitation();
+    if (response.success && response.data) {
+      setInviteCode(response.data.data.code);
+    } else {
+      setHouseholdError(response.error || 'Could not create an invitation');
+    }
+  };
+
+  const handleJoin = async () => {
+    if (!joinCode.trim()) return;
+    setHouseholdError(null);
+    const result = await joinHousehold(joinCode.trim());
+    if (!result.success) {
+      setHouseholdError(result.error || 'Could not join the household');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+        <Text style={styles.title}>Overview</Text>
+        {summaryLoading ? (
+          <ActivityIndicator color="#6B8AFE" style={styles.loading} />
+        ) : summaryError ? (
+          <Text style={styles.errorText}>{summaryError}</Text>
+        ) : summary && (
+          <>
+            <View style={styles.card} testID="summary-totals">
+              <Text style={styles.cardTitle}>Last {SUMMARY_MONTHS} months</Text>
+              <View style={styles.totalsRow}>
+                <View style={styles.totalItem}>
+                  <Text style={styles.totalLabel}>Income</Text>
+                  <Text style={[styles.totalValue, styles.incomeText]}>
+                    {formatCurrency(summary.totals.income, summary.baseCurrency)}
+                  </Text>
+                </View>
+                <View style={styles.totalItem}>
+                  <Text style={styles.totalLabel}>Expense</Text>
+                  <Text style={[styles.totalValue, styles.expenseText]}>
+                    {formatCurrency(summary.totals.expense, summary.baseCurrency)}
+                  </Text>
+                </View>
+              </View>
+              <View style={styles.totalsRow}>
+                <View style={styles.totalItem}>
+                  <Text style={styles.totalLabel}>Net</Text>
+                  <Text style={styles.totalValue}>{formatCurrency(summary.totals.net, summary.baseCurrency)}</Text>
+                </View>
+                <View style={styles.totalItem}>
+                  <Text style={styles.totalLabel}>Savings rate</Text>
+                  <Text style={styles.totalValue}>{formatRate(summary.totals.savingsRate)}</Text>
+                </View>
+              </View>
+              {summary.missingRates.length > 0 && (
+                <Text style={styles.missingRatesText}>No exchange rate for {summary.missingRates.join(', ')}</Text>
+              )}
+            </View>
+
+            <View style={styles.card} testID="summary-periods">
+              {[...summary.periods].reverse().map(period => (
+                <View key={period.period} style={styles.periodRow}>
+                  <View style={styles.periodHeader}>
+                    <Text style={styles.periodLabel}>{formatMonth(period.start)}</Text>
+                    <Text style={[styles.periodNet, period.net < 0 && styles.expenseText]}>
+                      {formatCurrency(period.net, summary.baseCurrency)}
+                    </Text>
+                  </View>
+                  <View style={styles.barTrack}>
+                    <View style={[styles.bar, styles.incomeBar, { width: `${(period.income / largestAmount) * 100}%` }]} />
+                  </View>
+                  <View style={styles.barTrack}>
+                    <View style={[styles.bar, styles.expenseBar, { width: `${(period.expense / largestAmount) * 100}%` }]} />
+                  </View>
+                  <Text style={styles.periodDetail}>
+                    {formatCurrency(period.income, summary.baseCurrency)} in · {formatCurrency(period.expense, summary.baseCurrency)} out · {formatRate(period.savingsRate)} saved
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+      </ScrollView>
+      {household && (
+        <View style={styles.household} testID="household-section">
+          <Text style={styles.householdName}>{household.name}</Text>
+          <Text style={styles.userText}>
+            {household.members.length} {household.members.length === 1 ? 'member' : 'members'}
+          </Text>
+          {isOwner && (
+            inviteCode ? (
+              <Text style={styles.inviteCode} testID="household-invite-code">Invite code: {inviteCode}</Text>
+            ) : (
+              <TouchableOpacity onPress={handleInvite} testID="household-invite-button">
+                <Text style={styles.linkText}>Invite someone</Text>
+              </TouchableOpacity>
+            )
+          )}
+          <View style={styles.joinRow}>
+            <TextInput
+              style={styles.joinInput}
+              placeholder="Invitation code"
+              placeholderTextColor="#8E8E93"
+              value={joinCode}
+              onChangeText={setJoinCode}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              testID="household-join-input"
+            />
+            <TouchableOpacity onPress={handleJoin} testID="household-join-button">
+              <Text style={styles.linkText}>Join</Text>
+            </TouchableOpacity>
+          </View>
+          {householdError && <Text style={styles.errorText}>{householdError}</Text>}
+        </View>
+      )}
+      <View style={styles.footer}>
+        <Text style={styles.userText}>{user?.email}</Text>
+        <TouchableOpacity onPress={logout} testID="logout-button">
+          <Text style={styles.logoutText}>Log out</Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1E1E1E',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 16,
+  },
+  loading: {
+    marginTop: 32,
+  },
+  card: {
+    backgroundColor: '#2C2C2E',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    color: '#8E8E93',
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  totalItem: {
+    flex: 1,
+  },
+  totalLabel: {
+    color: '#8E8E93',
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  totalValue: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  incomeText: {
+    color: '#4CAF50',
+  },
+  expenseText: {
+    color: '#FF4B8C',
+  },
+  missingRatesText: {
+    color: '#8E8E93',
+    fontSize: 12,
+  },
+  periodRow: {
+    marginBottom: 16,
+  },
+  periodHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  periodLabel: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  periodNet: {
+    color: '#FFFFFF',
+    fontSize: 16,
+  },
+  barTrack: {
+    height: 6,
+    backgroundColor: '#1C1C1E',
+    borderRadius: 3,
+    marginBottom: 4,
+    overflow: 'hidden',
+  },
+  bar: {
+    height: 6,
+    borderRadius: 3,
+  },
+  incomeBar: {
+    backgroundColor: '#4CAF50',
+  },
+  expenseBar: {
+    backgroundColor: '#FF4B8C',
+  },
+  periodDetail: {
+    color: '#8E8E93',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  household: {
+    backgroundColor: '#2C2C2E',
+    borderRadius: 12,
+    marginHorizontal: 16,
+    padding: 16,
+  },
+  householdName: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  inviteCode: {
+    color: '#6B8AFE',
+    fontSize: 16,
+    fontWeight: '600',
+    letterSpacing: 1,
+  },
+  joinRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  joinInput: {
+    flex: 1,
+    backgroundColor: '#1C1C1E',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#FFFFFF',
+    marginRight: 12,
+  },
+  linkText: {
+    color: '#6B8AFE',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  errorText: {
+    color: '#FF4B8C',
+    fontSize: 14,
+    marginTop: 8,
+  },
+  footer: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  userText: {
+    color: '#8E8E93',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  logoutText: {
+    color: '#FF4B8C',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
@@ -1,11 +1,15 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView, FlatList } from 'react-native';
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, FlatList, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import MaterialCommunityIcons from '@expo/vector-icons/MaterialCommunityIcons';
 import DateRangePicker, { DateRangeSelection } from '../components/DateRangePicker';
 import AddTransactionDrawer from '../components/AddTransactionDrawer';
 import { useData, Transaction, Account, Category } from '../contexts/DataContext';
 
+// Rows fetched per page as the list scrolls, and the most a reload may fetch at once
+const TRANSACTIONS_PAGE_SIZE = 50;
+const MAX_TRANSACTIONS_PAGE_SIZE = 500;
+
 const formatCurrency = (amount: number) => {
   return `₱ ${Math.abs(amount).toLocaleString('en-PH', {
     minimumFractionDigits: 0,
@@ -63,7 +67,7 @@ export default function Transactions() {
     accounts, 
     categories, 
     transactions, 
-    getTransactions, 
+    getTransactionPage, 
     addTransaction, 
     updateTransaction, 
     loading, 
@@ -87,6 +91,11 @@ export default function Transactions() {
   const [showTransactionForm, setShowTransactionForm] = useState(false);
   const [editTransaction, setEditTransaction] = useState<Transaction | undefined>(undefined);
   const [filteredTransactions, setFilteredTransactions] = useState<Transaction[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Bumped on every reload so a page requested for an older list is dropped
+  const loadRequest = useRef(0);
   const [totalBalance, setTotalBalance] = useState(213827);
 
   useEffect(() => {
@@ -96,22 +105,78 @@ export default function Transactions() {
   // CRITICAL: Update filtered transactions when DataContext transactions change
   useEffect(() => {
     if (isInitialized) {
-      loadTransactions();
+      loadTransactions(true);
     }
   }, [transactions, isInitialized]);
 
-  const loadTransactions = async () => {
-    try {
-      let fromDate: string | undefined;
-      let toDate: string | undefined;
+  const getDateRange = (): { fromDate?: string; toDate?: string } => {
+    let fromDate: string | undefined;
+    let toDate: string | undefined;
+    
+    // Calculate date range based on selection
+    if (dateSelection.mode === 'all-time') {
+      // No date filtering for all-time
+      fromDate = undefined;
+      toDate = undefined;
+    } else if (dateSelection.mode === 'date-range' && dateSelection.startDate && dateSelection.endDate) {
+      // Create UTC dates for the selected range
+      const startYear = dateSelection.startDate.getFullYear();
+      const startMonth = dateSelection.startDate.getMonth();
+      const startDay = dateSelection.startDate.getDate();
+      
+      const endYear = dateSelection.endDate.getFullYear();
+      const endMonth = dateSelection.endDate.getMonth();
+      const endDay = dateSelection.endDate.getDate();
+      
+      fromDate = new Date(Date.UTC(startYear, startMonth, startDay, 0, 0, 0)).toISOString();
+      toDate = new Date(Date.UTC(endYear, endMonth, endDay, 23, 59, 59, 999)).toISOString();
+    } else if (dateSelection.mode === 'today') {
+      // Use the actual selected date from dateSelection
+      if (dateSelection.startDate) {
+        const selectedDate = new Date(dateSelection.startDate);
+        // Create UTC dates for start and end of the selected day
+        const year = selectedDate.getFullYear();
+        const month = selectedDate.getMonth();
+        const day = selectedDate.getDate();
+        
+        // Create UTC date for start of day (00:00:00 UTC)
+        const startOfDay = new Date(Date.UTC(year, month, day, 0, 0, 0));
+        fromDate = startOfDay.toISOString();
+        
+        // Create UTC date for end of day (23:59:59 UTC)
+        const endOfDay = new Date(Date.UTC(year, month, day, 23, 59, 59, 999));
+        toDate = endOfDay.toISOString();
+        
+        console.log('Today filter - Selected date:', selectedDate, 
+                    'From date (UTC):', fromDate, 
+                    'To date (UTC):', toDate);
+      } else {
+        // Fallback to current date if no startDate
+        const today = new Date();
+        const year = today.getFullYear();
+        const month = today.getMonth();
+        const day = today.getDate();
+        
+        const startOfDay = new Date(Date.UTC(year, month, day, 0, 0, 0));
+        fromDate = startOfDay.toISOString();
+        
+        const endOfDay = new Date(Date.UTC(year, month, day, 23, 59, 59, 999));
+        toDate = endOfDay.toISOString();
+      }
+    } else if (dateSelection.mode === 'month') {
+      // Parse the display text to get the actual month/year
+      const monthNames = ['JANUARY', 'FEBRUARY', 'MARCH', 'APRIL', 'MAY', 'JUNE', 
+                         'JULY', 'AUGUST', 'SEPTEMBER', 'OCTOBER', 'NOVEMBER', 'DECEMBER'];
+      const [monthName, yearStr] = dateSelection.displayText.split(' ');
+      const selectedMonth = monthNames.indexOf(monthName);
+      const selectedYear = parseInt(yearStr);
       
-      // Calculate date range based on selection
-      if (dateSelection.mode === 'all-time') {
-        // No date filtering for all-time
-        fromDate = undefined;
-        toDate = undefined;
-      } else if (dateSelection.mode === 'date-range' && dateSelection.startDate && dateSelection.endDate) {
-        // Create UTC dates for the selected range
+      // Create UTC dates for start and end of month
+      fromDate = new Date(Date.UTC(selectedYear, selectedMonth, 1, 0, 0, 0)).toISOString();
+      toDate = new Date(Date.UTC(selectedYear, selectedMonth + 1, 0, 23, 59, 59, 999)).toISOString();
+    } else if (dateSelection.mode === 'week') {
+      // Use the actual selected week dates from dateSelection
+      if (dateSelection.startDate && dateSelection.endDate) {
         const startYear = dateSelection.startDate.getFullYear();
         const startMonth = dateSelection.startDate.getMonth();
         const startDay = dateSelection.startDate.getDate();
@@ -122,146 +187,124 @@ export default function Transactions() {
         
         fromDate = new Date(Date.UTC(startYear, startMonth, startDay, 0, 0, 0)).toISOString();
         toDate = new Date(Date.UTC(endYear, endMonth, endDay, 23, 59, 59, 999)).toISOString();
-      } else if (dateSelection.mode === 'today') {
-        // Use the actual selected date from dateSelection
-        if (dateSelection.startDate) {
-          const selectedDate = new Date(dateSelection.startDate);
-          // Create UTC dates for start and end of the selected day
-          const year = selectedDate.getFullYear();
-          const month = selectedDate.getMonth();
-          const day = selectedDate.getDate();
-          
-          // Create UTC date for start of day (00:00:00 UTC)
-          const startOfDay = new Date(Date.UTC(year, month, day, 0, 0, 0));
-          fromDate = startOfDay.toISOString();
-          
-          // Create UTC date for end of day (23:59:59 UTC)
-          const endOfDay = new Date(Date.UTC(year, month, day, 23, 59, 59, 999));
-          toDate = endOfDay.toISOString();
-          
-          console.log('Today filter - Selected date:', selectedDate, 
-                      'From date (UTC):', fromDate, 
-                      'To date (UTC):', toDate);
-        } else {
-          // Fallback to current date if no startDate
-          const today = new Date();
-          const year = today.getFullYear();
-          const month = today.getMonth();
-          const day = today.getDate();
-          
-          const startOfDay = new Date(Date.UTC(year, month, day, 0, 0, 0));
-          fromDate = startOfDay.toISOString();
-          
-          const endOfDay = new Date(Date.UTC(year, month, day, 23, 59, 59, 999));
-          toDate = endOfDay.toISOString();
-        }
-      } else if (dateSelection.mode === 'month') {
-        // Parse the display text to get the actual month/year
-        const monthNames = ['JANUARY', 'FEBRUARY', 'MARCH', 'APRIL', 'MAY', 'JUNE', 
-                           'JULY', 'AUGUST', 'SEPTEMBER', 'OCTOBER', 'NOVEMBER', 'DECEMBER'];
-        const [monthName, yearStr] = dateSelection.displayText.split(' ');
-        const selectedMonth = monthNames.indexOf(monthName);
-        const selectedYear = parseInt(yearStr);
+      } else {
+        // Fallback to current week if no dates
+        const now = new Date();
+        const currentDay = now.getDay();
+        const startOfWeek = new Date(now.getTime() - (currentDay * 24 * 60 * 60 * 1000));
+        const endOfWeek = new Date(startOfWeek.getTime() + (6 * 24 * 60 * 60 * 1000));
         
-        // Create UTC dates for start and end of month
-        fromDate = new Date(Date.UTC(selectedYear, selectedMonth, 1, 0, 0, 0)).toISOString();
-        toDate = new Date(Date.UTC(selectedYear, selectedMonth + 1, 0, 23, 59, 59, 999)).toISOString();
-      } else if (dateSelection.mode === 'week') {
-        // Use the actual selected week dates from dateSelection
-        if (dateSelection.startDate && dateSelection.endDate) {
-          const startYear = dateSelection.startDate.getFullYear();
-          const startMonth = dateSelection.startDate.getMonth();
-          const startDay = dateSelection.startDate.getDate();
-          
-          const endYear = dateSelection.endDate.getFullYear();
-          const endMonth = dateSelection.endDate.getMonth();
-          const endDay = dateSelection.endDate.getDate();
-          
-          fromDate = new Date(Date.UTC(startYear, startMonth, startDay, 0, 0, 0)).toISOString();
-          toDate = new Date(Date.UTC(endYear, endMonth, endDay, 23, 59, 59, 999)).toISOString();
-        } else {
-          // Fallback to current week if no dates
-          const now = new Date();
-          const currentDay = now.getDay();
-          const startOfWeek = new Date(now.getTime() - (currentDay * 24 * 60 * 60 * 1000));
-          const endOfWeek = new Date(startOfWeek.getTime() + (6 * 24 * 60 * 60 * 1000));
-          
-          const startYear = startOfWeek.getFullYear();
-          const startMonth = startOfWeek.getMonth();
-          const startDay = startOfWeek.getDate();
-          
-          const endYear = endOfWeek.getFullYear();
-          const endMonth = endOfWeek.getMonth();
-          const endDay = endOfWeek.getDate();
-          
-          fromDate = new Date(Date.UTC(startYear, startMonth, startDay, 0, 0, 0)).toISOString();
-          toDate = new Date(Date.UTC(endYear, endMonth, endDay, 23, 59, 59, 999)).toISOString();
-        }
-      } else if (dateSelection.mode === 'day') {
-        // Use the actual selected day from dateSelection
-        if (dateSelection.startDate) {
-          const selectedDate = new Date(dateSelection.startDate);
-          // Create UTC dates for start and end of the selected day
-          const year = selectedDate.getFullYear();
-          const month = selectedDate.getMonth();
-          const day = selectedDate.getDate();
-          
-          // Create UTC date for start of day (00:00:00 UTC)
-          const startOfDay = new Date(Date.UTC(year, month, day, 0, 0, 0));
-          fromDate = startOfDay.toISOString();
-          
-          // Create UTC date for end of day (23:59:59 UTC)
-          const endOfDay = new Date(Date.UTC(year, month, day, 23, 59, 59, 999));
-          toDate = endOfDay.toISOString();
-          
-          console.log('Day filter - Selected date:', selectedDate, 
-                      'From date (UTC):', fromDate, 
-                      'To date (UTC):', toDate);
-        } else {
-          // Fallback to current date if no startDate
-          const today = new Date();
-          const year = today.getFullYear();
-          const month = today.getMonth();
-          const day = today.getDate();
-          
-          const startOfDay = new Date(Date.UTC(year, month, day, 0, 0, 0));
-          fromDate = startOfDay.toISOString();
-          
-          const endOfDay = new Date(Date.UTC(year, month, day, 23, 59, 59, 999));
-          toDate = endOfDay.toISOString();
-        }
-      } else if (dateSelection.mode === 'year') {
-        // Add support for year mode
-        let selectedYear: number;
-        if (dateSelection.startDate) {
-          selectedYear = dateSelection.startDate.getFullYear();
-        } else {
-          // Parse year from display text if available
-          const yearMatch = dateSelection.displayText.match(/\d{4}/);
-          selectedYear = yearMatch ? parseInt(yearMatch[0]) : new Date().getFullYear();
-        }
+        const startYear = startOfWeek.getFullYear();
+        const startMonth = startOfWeek.getMonth();
+        const startDay = startOfWeek.getDate();
+        
+        const endYear = endOfWeek.getFullYear();
+        const endMonth = endOfWeek.getMonth();
+        const endDay = endOfWeek.getDate();
         
-        // Create UTC dates for start and end of year
-        fromDate = new Date(Date.UTC(selectedYear, 0, 1, 0, 0, 0)).toISOString();
-        toDate = new Date(Date.UTC(selectedYear, 11, 31, 23, 59, 59, 999)).toISOString();
+        fromDate = new Date(Date.UTC(startYear, startMonth, startDay, 0, 0, 0)).toISOString();
+        toDate = new Date(Date.UTC(endYear, endMonth, endDay, 23, 59, 59, 999)).toISOString();
+      }
+    } else if (dateSelection.mode === 'day') {
+      // Use the actual selected day from dateSelection
+      if (dateSelection.startDate) {
+        const selectedDate = new Date(dateSelection.startDate);
+        // Create UTC dates for start and end of the selected day
+        const year = selectedDate.getFullYear();
+        const month = selectedDate.getMonth();
+        const day = selectedDate.getDate();
+        
+        // Create UTC date for start of day (00:00:00 UTC)
+        const startOfDay = new Date(Date.UTC(year, month, day, 0, 0, 0));
+        fromDate = startOfDay.toISOString();
+        
+        // Create UTC date for end of day (23:59:59 UTC)
+        const endOfDay = new Date(Date.UTC(year, month, day, 23, 59, 59, 999));
+        toDate = endOfDay.toISOString();
+        
+        console.log('Day filter - Selected date:', selectedDate, 
+                    'From date (UTC):', fromDate, 
+                    'To date (UTC):', toDate);
+      } else {
+        // Fallback to current date if no startDate
+        const today = new Date();
+        const year = today.getFullYear();
+        const month = today.getMonth();
+        const day = today.getDate();
+        
+        const startOfDay = new Date(Date.UTC(year, month, day, 0, 0, 0));
+        fromDate = startOfDay.toISOString();
+        
+        const endOfDay = new Date(Date.UTC(year, month, day, 23, 59, 59, 999));
+        toDate = endOfDay.toISOString();
+      }
+    } else if (dateSelection.mode === 'year') {
+      // Add support for year mode
+      let selectedYear: number;
+      if (dateSelection.startDate) {
+        selectedYear = dateSelection.startDate.getFullYear();
+      } else {
+        // Parse year from display text if available
+        const yearMatch = dateSelection.displayText.match(/\d{4}/);
+        selectedYear = yearMatch ? parseInt(yearMatch[0]) : new Date().getFullYear();
       }
       
-      const result = await getTransactions({
-        fromDate,
-        toDate,
-      });
+      // Create UTC dates for start and end of year
+      fromDate = new Date(Date.UTC(selectedYear, 0, 1, 0, 0, 0)).toISOString();
+      toDate = new Date(Date.UTC(selectedYear, 11, 31, 23, 59, 59, 999)).toISOString();
+    }
+    
+    return { fromDate, toDate };
+  };
+
+  // Reload from the top; keepLoaded refetches as many rows as are shown so a sync doesn't cut the list short
+  const loadTransactions = async (keepLoaded = false) => {
+    const request = ++loadRequest.current;
+    try {
+      const { fromDate, toDate } = getDateRange();
+      const limit = keepLoaded
+        ? Math.min(Math.max(filteredTransactions.length, TRANSACTIONS_PAGE_SIZE), MAX_TRANSACTIONS_PAGE_SIZE)
+        : TRANSACTIONS_PAGE_SIZE;
+      const page = await getTransactionPage({ fromDate, toDate, limit });
+      if (!page || request !== loadRequest.current) return;
       
       console.log('🔍 TRANSACTIONS: Retrieved filtered transactions', {
         dateFilter: { fromDate, toDate },
-        count: result.length
+        count: page.data.length,
+        total: page.total
       });
       
-      setFilteredTransactions(result);
+      setFilteredTransactions(page.data);
+      setNextCursor(page.nextCursor);
+      setTotalCount(page.total);
     } catch (error) {
       console.error('Failed to load transactions:', error);
     }
   };
 
+  // Next page as the list nears its end
+  const loadMoreTransactions = async () => {
+    if (!nextCursor || loadingMore) return;
+    const request = loadRequest.current;
+    setLoadingMore(true);
+    try {
+      const { fromDate, toDate } = getDateRange();
+      const page = await getTransactionPage({ fromDate, toDate, limit: TRANSACTIONS_PAGE_SIZE, cursor: nextCursor });
+      if (!page || request !== loadRequest.current) return;
+
+      setFilteredTransactions(current => [
+        ...current,
+        ...page.data.filter(transaction => !current.some(shown => shown.id === transaction.id)),
+      ]);
+      setNextCursor(page.nextCursor);
+      setTotalCount(page.total);
+    } catch (error) {
+      console.error('Failed to load more transactions:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const handleAddTransaction = async (transaction: any) => {
     try {
       // Handle duplicate case - open a new form with prefilled data
@@ -337,6 +380,9 @@ export default function Transactions() {
   const groupedTransactions = groupTransactionsByDate(filteredTransactions);
 
   const getTransactionIcon = (transaction: Transaction) => {
+    if (transaction.splits && transaction.splits.length > 0) {
+      return 'call-split';
+    }
     if (transaction.category) {
       const category = categories.find(cat => cat.id === transaction.category);
       return category?.icon || 'cash';
@@ -416,7 +462,9 @@ export default function Transactions() {
       amount: transaction.amount,
       fromAccount: fromAccountId || '',
       toAccount: toAccountId,
+      toAmount: transaction.toAmount,
       category: categoryId,
+      splits: transaction.splits,
       notes: transaction.notes || '',
       date: transaction.transactionDate,
     };
@@ -446,7 +494,11 @@ export default function Transactions() {
         />
       </View>
       <View style={styles.transactionInfo}>
-        <Text style={styles.transactionTitle}>{getCategoryName(item.category)}</Text>
+        <Text style={styles.transactionTitle}>
+          {item.splits && item.splits.length > 0
+            ? `Split · ${item.splits.map(split => getCategoryName(split.category)).join(', ')}`
+            : getCategoryName(item.category)}
+        </Text>
         <Text style={styles.transactionDescription}>
           {item.description || getTransactionAccountDisplay(item)}
         </Text>
@@ -467,6 +519,12 @@ export default function Transactions() {
             minute: '2-digit',
           })}
         </Text>
+        {!!item.attachmentCount && (
+          <View style={styles.attachmentBadge}>
+            <MaterialCommunityIcons name="paperclip" size={12} color="#8E8E93" />
+            <Text style={styles.attachmentCount}>{item.attachmentCount}</Text>
+          </View>
+        )}
       </View>
     </TouchableOpacity>
   );
@@ -544,7 +602,16 @@ export default function Transactions() {
         contentContainerStyle={styles.transactionsContent}
         showsVerticalScrollIndicator={false}
         refreshing={loading}
-        onRefresh={loadTransactions}
+        onRefresh={() => loadTransactions()}
+        onEndReached={loadMoreTransactions}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          loadingMore ? (
+            <ActivityIndicator style={styles.listFooter} color="#8E8E93" />
+          ) : !nextCursor && totalCount > 0 ? (
+            <Text style={styles.listFooterText}>{totalCount} transactions</Text>
+          ) : null
+        }
       />
 
       {/* Floating Add Button */}
@@ -680,6 +747,25 @@ const styles = StyleSheet.create({
     fontWeight: '400',
     marginTop: 2,
   },
+  listFooter: {
+    paddingVertical: 16,
+  },
+  listFooterText: {
+    color: '#8E8E93',
+    fontSize: 12,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  attachmentBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+  },
+  attachmentCount: {
+    color: '#8E8E93',
+    fontSize: 12,
+    marginLeft: 2,
+  },
   transactionAmountContainer: {
     alignItems: 'flex-end',
   },
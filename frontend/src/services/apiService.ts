@@ -1,5 +1,6 @@
-import { Account } from '../contexts/DataContext';
+import { Account, Budget, TransactionSplit } from '../contexts/DataContext';
 import Constants from 'expo-constants';
+import storageService, { AuthSession } from './storageService';
 
 export interface ApiResponse<T> {
   success: boolean;
@@ -22,6 +23,7 @@ export interface Category {
   transactionCount?: number; // Total transaction count including subcategories
   directTransactionCount?: number; // Direct transaction count only
   subcategories?: Category[];
+  isDeleted?: boolean;
   transactions?: {
     direct: { total: number; count: number };
     subcategories: { total: number; count: number };
@@ -35,15 +37,402 @@ export interface Transaction {
   fromAccount: string;
   toAccount?: string;
   category?: string;
+  splits?: TransactionSplit[];
+  tags?: string[]; // Tag IDs
+  payee?: string | null; // Payee ID, matched from the description when not given
   amount: number;
   description?: string;
   notes?: string;
   type?: 'income' | 'expense' | 'transfer';
+  toAmount?: number | null; // Amount credited to toAccount when it uses another currency
   isDeleted?: boolean;
+  runningBalance?: number | null; // Account balance after this row, when requested
+  attachmentCount?: number; // Kept by the server as files are attached and removed
+}
+
+export interface Attachment {
+  id: string;
+  transaction: string; // Transaction ID
+  filename: string;
+  contentType: string;
+  size: number; // Bytes
+  createdAt: string;
+}
+
+// Search shared by the transaction list, reports and exports
+export interface TransactionSearch {
+  fromAccount?: string;
+  toAccount?: string;
+  account?: string; // Either side of the transaction
+  category?: string;
+  includeSubcategories?: boolean; // Also match the category's descendants
+  uncategorized?: boolean; // Income and expenses with neither a category nor split lines
+  tags?: string[];
+  tagMatch?: 'any' | 'all'; // Whether transactions need any (default) or all of the tags
+  payee?: string;
+  types?: Array<'income' | 'expense' | 'transfer'>;
+  amountMin?: number;
+  amountMax?: number;
+  q?: string; // Words or "quoted phrases" in the description or notes
+  includeDeleted?: boolean;
+}
+
+export interface TransactionFilters extends TransactionSearch {
+  fromDate?: string;
+  toDate?: string;
+  runningBalance?: boolean; // Needs account
+  sort?: 'asc' | 'desc'; // By transaction date
+}
+
+export interface TransactionPageParams {
+  limit: number; // Up to 500
+  cursor?: string | null; // nextCursor of the previous page
+}
+
+export interface TransactionPage {
+  data: Transaction[];
+  total: number; // Matching transactions across all pages
+  nextCursor: string | null; // Null on the last page
+}
+
+export interface CategorySuggestion {
+  category: Pick<Category, 'id' | 'name' | 'type' | 'icon' | 'color'>;
+  confidence: number; // 0 to 1
+  matches: number; // Similar past transactions filed there
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  color?: string;
+  isDeleted?: boolean;
+}
+
+export interface Payee {
+  id: string;
+  name: string;
+  aliases?: string[]; // Other names it shows up under in statements ("GRAB *RIDE")
+  defaultCategory?: string | null; // Category ID used when a transaction has none
+  isDeleted?: boolean;
+}
+
+// Auto-categorization rule: transactions meeting every condition get the actions, lowest priority first
+export interface Rule {
+  id: string;
+  name: string;
+  priority?: number;
+  enabled?: boolean;
+  conditions: {
+    descriptionContains?: string | null;
+    amountMin?: number | null;
+    amountMax?: number | null;
+    account?: string | null; // Either side of the transaction
+    payee?: string | null;
+  };
+  actions: {
+    category?: string | null; // Only fills in uncategorized transactions
+    tags?: string[]; // Added to the transaction's tags
+    type?: 'income' | 'expense' | null;
+    notes?: string | null; // Only fills in empty notes
+  };
+}
+
+export interface RuleChanges {
+  payee?: string | null;
+  category?: string | null;
+  tags?: string[];
+  type?: 'income' | 'expense' | 'transfer';
+  notes?: string | null;
+}
+
+export interface RulePreview {
+  checked: number; // Latest transactions looked at
+  matches: Array<{
+    id: string;
+    transactionDate: string;
+    description?: string;
+    amount: number;
+    changes: RuleChanges; // Empty when the transaction already has what the rule sets
+  }>;
+}
+
+export interface BudgetProgress {
+  budget: Omit<Budget, 'category'> & { category: Category };
+  periodStart: string;
+  periodEnd: string;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  transactionCount: number;
+  overBudget: boolean;
+}
+
+export interface AccountTotals {
+  baseCurrency: string;
+  total: number;
+  rates: Record<string, number>; // Rate converting each account currency into baseCurrency
+  missingRates: string[];
+}
+
+export interface ExchangeRate {
+  id: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  date: string;
+  source: 'manual' | 'import';
+}
+
+export interface CsvMapping {
+  hasHeader?: boolean;
+  delimiter?: ',' | ';' | '\t' | '|';
+  dateColumn: number;
+  dateFormat: 'YYYY-MM-DD' | 'YYYY/MM/DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'DD.MM.YYYY' | 'DD-MM-YYYY';
+  descriptionColumn: number;
+  amountConvention: 'signed' | 'inverted' | 'split';
+  amountColumn?: number;
+  debitColumn?: number;
+  creditColumn?: number;
+  decimalSeparator?: '.' | ',';
+  categoryColumn?: number;
+  notesColumn?: number;
+}
+
+export interface CsvPreview {
+  delimiter: string;
+  columns: Array<{ index: number; name: string }>;
+  preview: string[][];
+  rowCount: number;
+  savedMapping: CsvMapping | null; // Mapping last used for the account
+}
+
+export interface CsvImportResult {
+  rows: Array<{
+    row: number;
+    transactionDate: string;
+    amount: number;
+    type: 'income' | 'expense';
+    description: string;
+    category: string | null;
+    duplicate: boolean;
+    imported: boolean;
+  }>;
+  errors: Array<{ row: number; error: string }>;
+  imported: number;
+  duplicates: number;
+}
+
+// Result of an OFX/QFX or QIF import. Without a matching account, account is null and
+// suggestedAccount describes the account that createAccount would add
+export interface StatementImportResult {
+  format: 'ofx' | 'qif';
+  account: Account | null;
+  accountCreated?: boolean;
+  suggestedAccount?: {
+    name: string;
+    type: 'debit' | 'credit';
+    currency?: string;
+    externalAccountId?: string;
+  };
+  rows: Array<CsvImportResult['rows'][number] & {
+    externalId?: string;
+    alreadyImported?: boolean;
+  }>;
+  errors: Array<{ row: number; error: string }>;
+  imported: number;
+  duplicates: number;
+}
+
+export interface PeriodSummary {
+  period: string; // 2026-W02, 2026-01 or 2026
+  start: string;
+  income: number;
+  expense: number;
+  net: number;
+  savingsRate: number | null; // Percentage of income not spent; null without income
+  transactionCount: number;
+}
+
+export interface SummaryReport {
+  period: 'week' | 'month' | 'year';
+  from: string | null;
+  to: string | null;
+  baseCurrency: string;
+  periods: PeriodSummary[];
+  totals: Omit<PeriodSummary, 'period' | 'start'>;
+  missingRates: string[];
+}
+
+export interface TagReport {
+  from: string | null;
+  to: string | null;
+  baseCurrency: string;
+  // Biggest spending first; a transaction with several tags counts towards each of them
+  tags: Array<{
+    id: string;
+    name: string;
+    color?: string;
+    income: number;
+    expense: number;
+    net: number;
+    transactionCount: number;
+  }>;
+  missingRates: string[];
+}
+
+export interface PayeeReport {
+  from: string | null;
+  to: string | null;
+  baseCurrency: string;
+  // Biggest spending first
+  payees: Array<{
+    id: string;
+    name: string;
+    income: number;
+    expense: number;
+    net: number;
+    transactionCount: number;
+  }>;
+  missingRates: string[];
+}
+
+export interface NetWorthReport {
+  interval: 'day' | 'week' | 'month';
+  from: string;
+  to: string;
+  baseCurrency: string;
+  accounts: Array<{ id: string; name: string; currency: string; kind: 'asset' | 'liability' }>;
+  series: Array<{
+    period: string;
+    date: string; // Day the balances are taken at
+    assets: number;
+    liabilities: number; // Owed on credit accounts
+    netWorth: number;
+  }>;
+  missingRates: string[];
+}
+
+// Versioned archive produced by GET /export and accepted by POST /import/backup
+export interface BackupArchive {
+  version: number;
+  exportedAt?: string;
+  household?: { name: string; baseCurrency?: string };
+  accounts: any[];
+  categories: any[];
+  tags?: any[];
+  payees?: any[];
+  transactions: any[];
+  budgets?: any[];
+}
+
+export interface Household {
+  id: string;
+  name: string;
+  baseCurrency?: string;
+  members: Array<{
+    id: string;
+    email?: string;
+    name?: string;
+    role: 'owner' | 'member';
+    joinedAt: string;
+  }>;
+  invitations: Array<{ code: string; expiresAt: string }>;
+}
+
+export interface CategoryBalanceTotals {
+  directBalance: number;
+  directTransactionCount: number;
+  balance: number;
+  transactionCount: number;
+}
+
+export interface BalanceRecalculation {
+  dryRun: boolean;
+  accounts: Array<{ id: string; name: string; stored: number; expected: number; difference: number }>;
+  categories: Array<{
+    id: string;
+    name: string;
+    stored: CategoryBalanceTotals;
+    expected: CategoryBalanceTotals;
+    difference: CategoryBalanceTotals;
+  }>;
+  message: string;
 }
 
+// Endpoints that authenticate with credentials rather than the access token
+const PUBLIC_AUTH_ENDPOINTS = ['/auth/login', '/auth/register', '/auth/refresh'];
+
 class ApiService {
   private baseUrl = Constants.expoConfig?.extra?.apiUrl || 'http://localhost:3000/dev';
+  private session: AuthSession | null = null;
+  private sessionLoaded = false;
+  private refreshPromise: Promise<boolean> | null = null;
+  private authExpiredHandler: (() => void) | null = null;
+
+  // Auth session management
+  async getSession(): Promise<AuthSession | null> {
+    if (!this.sessionLoaded) {
+      this.session = await storageService.getAuthSession();
+      this.sessionLoaded = true;
+    }
+    return this.session;
+  }
+
+  private async setSession(session: AuthSession | null): Promise<void> {
+    this.session = session;
+    this.sessionLoaded = true;
+    if (session) {
+      await storageService.saveAuthSession(session);
+    } else {
+      await storageService.clearAuthSession();
+    }
+  }
+
+  // Called when the refresh token is rejected and the user has to log in again
+  setAuthExpiredHandler(handler: (() => void) | null): void {
+    this.authExpiredHandler = handler;
+  }
+
+  // Exchange the refresh token for a new token pair; concurrent 401s share a single refresh
+  private refreshSession(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = (async () => {
+        const session = await this.getSession();
+        if (!session?.refreshToken) return false;
+
+        try {
+          console.log('🔑 Refreshing access token');
+          const response = await fetch(`${this.baseUrl}/auth/refresh`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ refreshToken: session.refreshToken }),
+          });
+
+          if (response.status === 401) {
+            console.log('🔒 Refresh token rejected, logging out');
+            await this.setSession(null);
+            this.authExpiredHandler?.();
+            return false;
+          }
+          if (!response.ok) return false;
+
+          const { data } = await response.json();
+          await this.setSession({
+            accessToken: data.accessToken,
+            refreshToken: data.refreshToken,
+            user: data.user,
+          });
+          return true;
+        } catch (error) {
+          console.error('❌ Token refresh failed:', error);
+          return false;
+        }
+      })().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
 
   private async request<T>(
     endpoint: string,
@@ -51,7 +440,8 @@ class ApiService {
       method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
       body?: any;
       headers?: Record<string, string>;
-    } = {}
+    } = {},
+    isRetry = false
   ): Promise<ApiResponse<T>> {
     const { method = 'GET', body, headers = {} } = options;
     
@@ -63,10 +453,12 @@ class ApiService {
     });
     
     try {
+      const session = await this.getSession();
       const config: RequestInit = {
         method,
         headers: {
           'Content-Type': 'application/json',
+          ...(session ? { Authorization: `Bearer ${session.accessToken}` } : {}),
           ...headers,
         },
       };
@@ -76,6 +468,13 @@ class ApiService {
       }
 
       const response = await fetch(`${this.baseUrl}${endpoint}`, config);
+
+      // Access tokens are short-lived: refresh once and replay the request
+      if (response.status === 401 && session && !isRetry && !PUBLIC_AUTH_ENDPOINTS.includes(endpoint)) {
+        if (await this.refreshSession()) {
+          return this.request<T>(endpoint, options, true);
+        }
+      }
       
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
@@ -113,15 +512,115 @@ class ApiService {
     }
   }
 
+  // Auth API methods
+  async login(email: string, password: string): Promise<ApiResponse<AuthSession>> {
+    const response = await this.request<{ data: AuthSession; message: string }>('/auth/login', {
+      method: 'POST',
+      body: { email, password },
+    });
+    return this.handleAuthResponse(response);
+  }
+
+  async register(email: string, password: string, name?: string): Promise<ApiResponse<AuthSession>> {
+    const response = await this.request<{ data: AuthSession; message: string }>('/auth/register', {
+      method: 'POST',
+      body: { email, password, name },
+    });
+    return this.handleAuthResponse(response);
+  }
+
+  async logout(): Promise<void> {
+    // Revoke the refresh tokens server-side; the local session is cleared even when offline
+    await this.request<{ message: string }>('/auth/logout', { method: 'POST' });
+    await this.setSession(null);
+  }
+
+  private async handleAuthResponse(
+    response: ApiResponse<{ data: AuthSession; message: string }>
+  ): Promise<ApiResponse<AuthSession>> {
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error };
+    }
+    const { accessToken, refreshToken, user } = response.data.data;
+    const session = { accessToken, refreshToken, user };
+    await this.setSession(session);
+    return { success: true, data: session, message: response.data.message };
+  }
+
+  // Household API methods
+  async getHousehold(): Promise<ApiResponse<Household>> {
+    return this.request<Household>('/household');
+  }
+
+  async updateHousehold(name: string): Promise<ApiResponse<{ data: Household; message: string }>> {
+    return this.request<{ data: Household; message: string }>('/household', {
+      method: 'PUT',
+      body: { name },
+    });
+  }
+
+  async createHouseholdInvitation(): Promise<ApiResponse<{ data: { code: string; expiresAt: string }; message: string }>> {
+    return this.request<{ data: { code: string; expiresAt: string }; message: string }>('/household/invitations', {
+      method: 'POST',
+    });
+  }
+
+  async removeHouseholdMember(userId: string): Promise<ApiResponse<{ message: string }>> {
+    return this.request<{ message: string }>(`/household/members/${userId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Joining switches households, so the session is replaced with tokens scoped to the new one
+  async joinHousehold(code: string): Promise<ApiResponse<AuthSession>> {
+    const response = await this.request<{
+      data: { householdId: string; accessToken: string; refreshToken: string };
+      message: string;
+    }>('/household/join', {
+      method: 'POST',
+      body: { code },
+    });
+    const current = await this.getSession();
+    if (!response.success || !response.data || !current) {
+      return { success: false, error: response.error };
+    }
+
+    const { householdId, accessToken, refreshToken } = response.data.data;
+    const session = { accessToken, refreshToken, user: { ...current.user, householdId } };
+    await this.setSession(session);
+    return { success: true, data: session, message: response.data.message };
+  }
+
   // Account API methods
   async getAllAccounts(): Promise<ApiResponse<Account[]>> {
     return this.request<Account[]>('/account');
   }
 
+  // The accounts together with the total of their balances in the base currency, in one request
+  async getAccountsWithTotals(baseCurrency?: string): Promise<ApiResponse<{ data: Account[]; totals: AccountTotals }>> {
+    const endpoint = `/account?withTotals=true${baseCurrency ? `&baseCurrency=${baseCurrency}` : ''}`;
+    return this.request<{ data: Account[]; totals: AccountTotals }>(endpoint);
+  }
+
   async getAccount(id: string): Promise<ApiResponse<Account>> {
     return this.request<Account>(`/account/${id}`);
   }
 
+  async getAccountTotals(baseCurrency?: string): Promise<ApiResponse<AccountTotals>> {
+    const endpoint = `/account/totals${baseCurrency ? `?baseCurrency=${baseCurrency}` : ''}`;
+    return this.request<AccountTotals>(endpoint);
+  }
+
+  async getAccountBalance(id: string, asOf?: string): Promise<ApiResponse<{
+    account: string;
+    asOf: string;
+    currency: string;
+    balance: number;
+  }>> {
+    const endpoint = `/account/${id}/balance${asOf ? `?asOf=${asOf}` : ''}`;
+    return this.request<{ account: string; asOf: string; currency: string; balance: number }>(endpoint);
+  }
+
   async createAccount(account: Omit<Account, 'id'>): Promise<ApiResponse<{ data: Account; message: string }>> {
     return this.request<{ data: Account; message: string }>('/account', {
       method: 'POST',
@@ -172,12 +671,27 @@ class ApiService {
     });
   }
 
-  async deleteCategory(id: string): Promise<ApiResponse<{ message: string }>> {
-    return this.request<{ message: string }>(`/category/${id}`, {
+  async deleteCategory(id: string, moveTo?: string): Promise<ApiResponse<{ message: string }>> {
+    const query = moveTo ? `?moveTo=${moveTo}` : '';
+    return this.request<{ message: string }>(`/category/${id}${query}`, {
       method: 'DELETE',
     });
   }
 
+  async mergeCategory(id: string, into: string): Promise<ApiResponse<Category>> {
+    return this.request<Category>(`/category/${id}/merge`, {
+      method: 'POST',
+      body: { into },
+    });
+  }
+
+  async moveCategory(id: string, parent: string | null): Promise<ApiResponse<Category>> {
+    return this.request<Category>(`/category/${id}/move`, {
+      method: 'POST',
+      body: { parent },
+    });
+  }
+
   async getSubcategories(parentId: string): Promise<ApiResponse<Category[]>> {
     return this.request<Category[]>(`/category/${parentId}/subcategories`);
   }
@@ -186,6 +700,20 @@ class ApiService {
     return this.request<Category[]>('/category/root');
   }
 
+  async getCategoryTree(params: {
+    from?: string;
+    to?: string;
+    type?: 'Income' | 'Expense';
+  } = {}): Promise<ApiResponse<Category[]>> {
+    const queryParams = new URLSearchParams();
+    if (params.from) queryParams.append('from', params.from);
+    if (params.to) queryParams.append('to', params.to);
+    if (params.type) queryParams.append('type', params.type);
+
+    const queryString = queryParams.toString();
+    return this.request<Category[]>(`/category/tree${queryString ? `?${queryString}` : ''}`);
+  }
+
   async getCategoryTransactions(categoryId: string, fromDate?: string, toDate?: string): Promise<ApiResponse<any>> {
     const params = new URLSearchParams();
     if (fromDate) params.append('fromDate', fromDate);
@@ -198,24 +726,58 @@ class ApiService {
   }
 
   // Transaction API methods
-  async getAllTransactions(params?: {
-    fromAccount?: string;
-    toAccount?: string;
-    category?: string;
-    fromDate?: string;
-    toDate?: string;
-  }): Promise<ApiResponse<Transaction[]>> {
+  private searchParams(search?: TransactionSearch): URLSearchParams {
     const queryParams = new URLSearchParams();
-    if (params?.fromAccount) queryParams.append('fromAccount', params.fromAccount);
-    if (params?.toAccount) queryParams.append('toAccount', params.toAccount);
-    if (params?.category) queryParams.append('category', params.category);
+    if (search?.fromAccount) queryParams.append('fromAccount', search.fromAccount);
+    if (search?.toAccount) queryParams.append('toAccount', search.toAccount);
+    if (search?.account) queryParams.append('account', search.account);
+    if (search?.category) queryParams.append('category', search.category);
+    if (search?.includeSubcategories) queryParams.append('includeSubcategories', 'true');
+    if (search?.uncategorized) queryParams.append('uncategorized', 'true');
+    if (search?.tags?.length) queryParams.append('tag', search.tags.join(','));
+    if (search?.tagMatch) queryParams.append('tagMatch', search.tagMatch);
+    if (search?.payee) queryParams.append('payee', search.payee);
+    if (search?.types?.length) queryParams.append('type', search.types.join(','));
+    if (search?.amountMin !== undefined) queryParams.append('amountMin', search.amountMin.toString());
+    if (search?.amountMax !== undefined) queryParams.append('amountMax', search.amountMax.toString());
+    if (search?.q) queryParams.append('q', search.q);
+    if (search?.includeDeleted !== undefined) queryParams.append('includeDeleted', search.includeDeleted.toString());
+    return queryParams;
+  }
+
+  // With a limit or cursor the list comes a page at a time, newest first unless sorted otherwise;
+  // without, every matching transaction (deleted ones included, for sync)
+  async getAllTransactions(params: TransactionFilters & TransactionPageParams): Promise<ApiResponse<TransactionPage>>;
+  async getAllTransactions(params?: TransactionFilters): Promise<ApiResponse<Transaction[]>>;
+  async getAllTransactions(params?: TransactionFilters & Partial<TransactionPageParams>): Promise<ApiResponse<any>> {
+    const queryParams = this.searchParams(params);
     if (params?.fromDate) queryParams.append('fromDate', params.fromDate);
     if (params?.toDate) queryParams.append('toDate', params.toDate);
+    if (params?.runningBalance) queryParams.append('runningBalance', 'true');
+    if (params?.sort) queryParams.append('sort', params.sort);
+    if (params?.limit) queryParams.append('limit', params.limit.toString());
+    if (params?.cursor) queryParams.append('cursor', params.cursor);
     
     const queryString = queryParams.toString();
     const endpoint = `/transaction${queryString ? `?${queryString}` : ''}`;
     
-    return this.request<Transaction[]>(endpoint);
+    return this.request(endpoint);
+  }
+
+  // Categories similar past transactions were filed under, best first
+  async suggestCategory(params: {
+    description: string;
+    amount?: number;
+    account?: string;
+    type?: 'income' | 'expense';
+  }): Promise<ApiResponse<{ suggestions: CategorySuggestion[] }>> {
+    const queryParams = new URLSearchParams();
+    queryParams.append('description', params.description);
+    if (params.amount) queryParams.append('amount', params.amount.toString());
+    if (params.account) queryParams.append('account', params.account);
+    if (params.type) queryParams.append('type', params.type);
+
+    return this.request<{ suggestions: CategorySuggestion[] }>(`/transaction/suggest-category?${queryParams.toString()}`);
   }
 
   async getTransaction(id: string): Promise<ApiResponse<Transaction>> {
@@ -242,11 +804,327 @@ class ApiService {
     });
   }
 
+  // Attachment API methods
+  async getAttachments(transactionId: string): Promise<ApiResponse<Attachment[]>> {
+    return this.request<Attachment[]>(`/transaction/${transactionId}/attachments`);
+  }
+
+  // Images and PDFs up to 4 MB, sent base64-encoded
+  async uploadAttachment(
+    transactionId: string,
+    file: { filename: string; contentType: string; data: string }
+  ): Promise<ApiResponse<{ data: Attachment; message: string }>> {
+    return this.request<{ data: Attachment; message: string }>(`/transaction/${transactionId}/attachments`, {
+      method: 'POST',
+      body: file,
+    });
+  }
+
+  // The file is binary, so hand out an authorized source for Image or a file download instead of parsing it
+  async getAttachmentSource(transactionId: string, attachmentId: string): Promise<{ uri: string; headers: Record<string, string> }> {
+    const session = await this.getSession();
+    return {
+      uri: `${this.baseUrl}/transaction/${transactionId}/attachments/${attachmentId}`,
+      headers: session ? { Authorization: `Bearer ${session.accessToken}` } : {},
+    };
+  }
+
+  async deleteAttachment(transactionId: string, attachmentId: string): Promise<ApiResponse<{ message: string }>> {
+    return this.request<{ message: string }>(`/transaction/${transactionId}/attachments/${attachmentId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Tag API methods
+  async getAllTags(): Promise<ApiResponse<Tag[]>> {
+    return this.request<Tag[]>('/tag');
+  }
+
+  async createTag(tag: Omit<Tag, 'id'>): Promise<ApiResponse<{ data: Tag; message: string }>> {
+    return this.request<{ data: Tag; message: string }>('/tag', {
+      method: 'POST',
+      body: tag,
+    });
+  }
+
+  async updateTag(id: string, tag: Partial<Tag>): Promise<ApiResponse<{ data: Tag; message: string }>> {
+    return this.request<{ data: Tag; message: string }>(`/tag/${id}`, {
+      method: 'PUT',
+      body: tag,
+    });
+  }
+
+  async deleteTag(id: string): Promise<ApiResponse<{ message: string }>> {
+    return this.request<{ message: string }>(`/tag/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Payee API methods
+  // With a query, the best matches for a typed description (autocomplete)
+  async getAllPayees(q?: string): Promise<ApiResponse<Payee[]>> {
+    return this.request<Payee[]>(`/payee${q ? `?q=${encodeURIComponent(q)}` : ''}`);
+  }
+
+  async createPayee(payee: Omit<Payee, 'id'>): Promise<ApiResponse<{ data: Payee; message: string }>> {
+    return this.request<{ data: Payee; message: string }>('/payee', {
+      method: 'POST',
+      body: payee,
+    });
+  }
+
+  async updatePayee(id: string, payee: Partial<Payee>): Promise<ApiResponse<{ data: Payee; message: string }>> {
+    return this.request<{ data: Payee; message: string }>(`/payee/${id}`, {
+      method: 'PUT',
+      body: payee,
+    });
+  }
+
+  async deletePayee(id: string): Promise<ApiResponse<{ message: string }>> {
+    return this.request<{ message: string }>(`/payee/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Rule API methods
+  async getAllRules(): Promise<ApiResponse<Rule[]>> {
+    return this.request<Rule[]>('/rule');
+  }
+
+  async createRule(rule: Omit<Rule, 'id'>): Promise<ApiResponse<{ data: Rule; message: string }>> {
+    return this.request<{ data: Rule; message: string }>('/rule', {
+      method: 'POST',
+      body: rule,
+    });
+  }
+
+  async updateRule(id: string, rule: Partial<Rule>): Promise<ApiResponse<{ data: Rule; message: string }>> {
+    return this.request<{ data: Rule; message: string }>(`/rule/${id}`, {
+      method: 'PUT',
+      body: rule,
+    });
+  }
+
+  async deleteRule(id: string): Promise<ApiResponse<{ message: string }>> {
+    return this.request<{ message: string }>(`/rule/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Test a rule, saved or not, against the latest transactions (50 unless limit is given)
+  async previewRule(rule: Pick<Rule, 'conditions' | 'actions'>, limit?: number): Promise<ApiResponse<RulePreview>> {
+    return this.request<RulePreview>('/rule/preview', {
+      method: 'POST',
+      body: { conditions: rule.conditions, actions: rule.actions, ...(limit ? { limit } : {}) },
+    });
+  }
+
+  // Re-apply payees and rules to recorded transactions; dryRun only reports what would change
+  async applyRules(params: { from?: string; to?: string; dryRun?: boolean } = {}): Promise<ApiResponse<{
+    data: { dryRun: boolean; changed: number; applied: number; transactions: Array<{ id: string; changes: RuleChanges }> };
+    message: string;
+  }>> {
+    return this.request('/rule/apply', {
+      method: 'POST',
+      body: params,
+    });
+  }
+
+  // Budget API methods
+  async getAllBudgets(): Promise<ApiResponse<Budget[]>> {
+    return this.request<Budget[]>('/budget');
+  }
+
+  async createBudget(budget: Omit<Budget, 'id'>): Promise<ApiResponse<{ data: Budget; message: string }>> {
+    return this.request<{ data: Budget; message: string }>('/budget', {
+      method: 'POST',
+      body: budget,
+    });
+  }
+
+  async updateBudget(id: string, budget: Partial<Budget>): Promise<ApiResponse<{ data: Budget; message: string }>> {
+    return this.request<{ data: Budget; message: string }>(`/budget/${id}`, {
+      method: 'PUT',
+      body: budget,
+    });
+  }
+
+  async deleteBudget(id: string): Promise<ApiResponse<{ message: string }>> {
+    return this.request<{ message: string }>(`/budget/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getBudgetProgress(month?: string): Promise<ApiResponse<{
+    month: string;
+    budgets: BudgetProgress[];
+    totals: { budgeted: number; spent: number };
+  }>> {
+    const endpoint = `/budget/progress${month ? `?month=${month}` : ''}`;
+    return this.request<{
+      month: string;
+      budgets: BudgetProgress[];
+      totals: { budgeted: number; spent: number };
+    }>(endpoint);
+  }
+
+  // Exchange rate API methods
+  async getExchangeRates(): Promise<ApiResponse<ExchangeRate[]>> {
+    return this.request<ExchangeRate[]>('/exchange-rate');
+  }
+
+  async createExchangeRate(rate: Omit<ExchangeRate, 'id' | 'source'>): Promise<ApiResponse<{ data: ExchangeRate; message: string }>> {
+    return this.request<{ data: ExchangeRate; message: string }>('/exchange-rate', {
+      method: 'POST',
+      body: rate,
+    });
+  }
+
+  async importExchangeRates(rates: Array<Omit<ExchangeRate, 'id' | 'source'>>): Promise<ApiResponse<{ data: ExchangeRate[]; message: string }>> {
+    return this.request<{ data: ExchangeRate[]; message: string }>('/exchange-rate/import', {
+      method: 'POST',
+      body: { rates },
+    });
+  }
+
+  async deleteExchangeRate(id: string): Promise<ApiResponse<{ message: string }>> {
+    return this.request<{ message: string }>(`/exchange-rate/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Import API methods
+  async previewCsvImport(file: string, account?: string): Promise<ApiResponse<CsvPreview>> {
+    return this.request<CsvPreview>('/import/csv', {
+      method: 'POST',
+      body: { file, account },
+    });
+  }
+
+  // Rows duplicating existing transactions are skipped unless importDuplicates is set;
+  // dryRun returns the flagged rows without importing them
+  async importCsv(
+    file: string,
+    account: string,
+    mapping: CsvMapping,
+    options: { dryRun?: boolean; importDuplicates?: boolean } = {}
+  ): Promise<ApiResponse<{ data: CsvImportResult; message: string }>> {
+    return this.request<{ data: CsvImportResult; message: string }>('/import/csv', {
+      method: 'POST',
+      body: { file, account, mapping, ...options },
+    });
+  }
+
+  async importStatement(
+    file: string,
+    options: {
+      format?: 'ofx' | 'qif';
+      account?: string;
+      createAccount?: boolean;
+      accountName?: string;
+      dateFormat?: CsvMapping['dateFormat'];
+      dryRun?: boolean;
+      importDuplicates?: boolean;
+    } = {}
+  ): Promise<ApiResponse<{ data: StatementImportResult; message: string }>> {
+    return this.request<{ data: StatementImportResult; message: string }>('/import/statement', {
+      method: 'POST',
+      body: { file, ...options },
+    });
+  }
+
+  async getSummaryReport(params: TransactionSearch & {
+    period?: 'week' | 'month' | 'year';
+    from?: string;
+    to?: string;
+    baseCurrency?: string;
+  } = {}): Promise<ApiResponse<SummaryReport>> {
+    const queryParams = this.searchParams(params);
+    if (params.period) queryParams.append('period', params.period);
+    if (params.from) queryParams.append('from', params.from);
+    if (params.to) queryParams.append('to', params.to);
+    if (params.baseCurrency) queryParams.append('baseCurrency', params.baseCurrency);
+
+    const queryString = queryParams.toString();
+    return this.request<SummaryReport>(`/reports/summary${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async getTagReport(params: TransactionSearch & {
+    from?: string;
+    to?: string;
+    baseCurrency?: string;
+  } = {}): Promise<ApiResponse<TagReport>> {
+    const queryParams = this.searchParams(params);
+    if (params.from) queryParams.append('from', params.from);
+    if (params.to) queryParams.append('to', params.to);
+    if (params.baseCurrency) queryParams.append('baseCurrency', params.baseCurrency);
+
+    const queryString = queryParams.toString();
+    return this.request<TagReport>(`/reports/tags${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async getPayeeReport(params: TransactionSearch & {
+    from?: string;
+    to?: string;
+    baseCurrency?: string;
+  } = {}): Promise<ApiResponse<PayeeReport>> {
+    const queryParams = this.searchParams(params);
+    if (params.from) queryParams.append('from', params.from);
+    if (params.to) queryParams.append('to', params.to);
+    if (params.baseCurrency) queryParams.append('baseCurrency', params.baseCurrency);
+
+    const queryString = queryParams.toString();
+    return this.request<PayeeReport>(`/reports/payees${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async getNetWorthReport(params: {
+    interval?: 'day' | 'week' | 'month';
+    from?: string;
+    to?: string;
+    baseCurrency?: string;
+  } = {}): Promise<ApiResponse<NetWorthReport>> {
+    const queryParams = new URLSearchParams();
+    if (params.interval) queryParams.append('interval', params.interval);
+    if (params.from) queryParams.append('from', params.from);
+    if (params.to) queryParams.append('to', params.to);
+    if (params.baseCurrency) queryParams.append('baseCurrency', params.baseCurrency);
+
+    const queryString = queryParams.toString();
+    return this.request<NetWorthReport>(`/reports/net-worth${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async exportBackup(includeDeleted = false): Promise<ApiResponse<BackupArchive>> {
+    return this.request<BackupArchive>(`/export?format=json&includeDeleted=${includeDeleted}`);
+  }
+
+  // Only works on an empty household; the server remaps IDs and recomputes balances
+  async restoreBackup(archive: BackupArchive): Promise<ApiResponse<{
+    data: { accounts: number; categories: number; tags: number; payees: number; transactions: number; budgets: number };
+    message: string;
+  }>> {
+    return this.request<{
+      data: { accounts: number; categories: number; tags: number; payees: number; transactions: number; budgets: number };
+      message: string;
+    }>('/import/backup', {
+      method: 'POST',
+      body: archive,
+    });
+  }
+
+  // Rebuild balances from the transactions (household owners only); a dry run only reports the drift
+  async recalculateBalances(dryRun: boolean = false): Promise<ApiResponse<BalanceRecalculation>> {
+    return this.request<BalanceRecalculation>('/admin/recalculate', {
+      method: 'POST',
+      body: { dryRun },
+    });
+  }
+
   // Sync API methods
   async syncChanges(lastSyncTimestamp: number, deviceId: string): Promise<ApiResponse<{
     accounts: any[];
     categories: any[];
     transactions: any[];
+    budgets: any[];
     currentTimestamp: number;
     syncedAt: string;
   }>> {
@@ -254,6 +1132,7 @@ class ApiService {
       accounts: any[];
       categories: any[];
       transactions: any[];
+      budgets: any[];
       currentTimestamp: number;
       syncedAt: string;
     }>(`/sync/changes?lastSyncTimestamp=${lastSyncTimestamp}&deviceId=${deviceId}`);
@@ -274,6 +1153,7 @@ class ApiService {
       accounts: any[];
       categories: any[];
       transactions: any[];
+      budgets?: any[];
     };
     currentTimestamp: number;
   }>> {
@@ -292,6 +1172,7 @@ class ApiService {
         accounts: any[];
         categories: any[];
         transactions: any[];
+        budgets?: any[];
       };
       currentTimestamp: number;
     }>('/sync/push', {
@@ -307,6 +1188,7 @@ class ApiService {
       accounts: number;
       categories: number;
       transactions: number;
+      budgets: number;
     };
   }>> {
     return this.request<{
@@ -316,6 +1198,7 @@ class ApiService {
         accounts: number;
         categories: number;
         transactions: number;
+        budgets: number;
       };
     }>('/sync/status');
   }
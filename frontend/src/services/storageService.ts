@@ -1,5 +1,5 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import type { Account, Category, Transaction } from '../contexts/DataContext';
+import type { Account, Category, Transaction, Budget } from '../contexts/DataContext';
 import type { OfflineOperation } from '../types/offline';
 
 // Storage keys
@@ -7,11 +7,24 @@ const KEYS = {
   ACCOUNTS: '@xugera:accounts',
   CATEGORIES: '@xugera:categories',
   TRANSACTIONS: '@xugera:transactions',
+  BUDGETS: '@xugera:budgets',
   LAST_SYNC_TIMESTAMP: '@xugera:lastSyncTimestamp',
   OFFLINE_QUEUE: '@xugera:offlineQueue',
   DEVICE_ID: '@xugera:deviceId',
+  AUTH_SESSION: '@xugera:authSession',
 };
 
+export interface AuthSession {
+  accessToken: string;
+  refreshToken: string;
+  user: {
+    id: string;
+    email: string;
+    name?: string;
+    householdId?: string | null;
+  };
+}
+
 class StorageService {
   // Generate or retrieve device ID
   async getDeviceId(): Promise<string> {
@@ -29,6 +42,34 @@ class StorageService {
     }
   }
 
+  // Auth session storage
+  async saveAuthSession(session: AuthSession): Promise<void> {
+    try {
+      await AsyncStorage.setItem(KEYS.AUTH_SESSION, JSON.stringify(session));
+    } catch (error) {
+      console.error('Error saving auth session:', error);
+      throw error;
+    }
+  }
+
+  async getAuthSession(): Promise<AuthSession | null> {
+    try {
+      const data = await AsyncStorage.getItem(KEYS.AUTH_SESSION);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      console.error('Error getting auth session:', error);
+      return null;
+    }
+  }
+
+  async clearAuthSession(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(KEYS.AUTH_SESSION);
+    } catch (error) {
+      console.error('Error clearing auth session:', error);
+    }
+  }
+
   // Account storage
   async saveAccounts(accounts: Account[]): Promise<void> {
     try {
@@ -98,6 +139,29 @@ class StorageService {
     }
   }
 
+  // Budget storage
+  async saveBudgets(budgets: Budget[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(KEYS.BUDGETS, JSON.stringify(budgets));
+      console.log(`💾 Saved ${budgets.length} budgets to storage`);
+    } catch (error) {
+      console.error('Error saving budgets:', error);
+      throw error;
+    }
+  }
+
+  async getBudgets(): Promise<Budget[]> {
+    try {
+      const data = await AsyncStorage.getItem(KEYS.BUDGETS);
+      const budgets = data ? JSON.parse(data) : [];
+      console.log(`📖 Loaded ${budgets.length} budgets from storage`);
+      return budgets;
+    } catch (error) {
+      console.error('Error getting budgets:', error);
+      return [];
+    }
+  }
+
   // Sync timestamp storage
   async saveLastSyncTimestamp(timestamp: number): Promise<void> {
     try {
@@ -178,18 +242,20 @@ class StorageService {
     accounts: Account[];
     categories: Category[];
     transactions: Transaction[];
+    budgets: Budget[];
   }> {
     try {
-      const [accounts, categories, transactions] = await Promise.all([
+      const [accounts, categories, transactions, budgets] = await Promise.all([
         this.getAccounts(),
         this.getCategories(),
         this.getTransactions(),
+        this.getBudgets(),
       ]);
       console.log('📖 Loaded all data from storage');
-      return { accounts, categories, transactions };
+      return { accounts, categories, transactions, budgets };
     } catch (error) {
       console.error('Error loading all data:', error);
-      return { accounts: [], categories: [], transactions: [] };
+      return { accounts: [], categories: [], transactions: [], budgets: [] };
     }
   }
 
@@ -200,6 +266,7 @@ class StorageService {
         KEYS.ACCOUNTS,
         KEYS.CATEGORIES,
         KEYS.TRANSACTIONS,
+        KEYS.BUDGETS,
         KEYS.LAST_SYNC_TIMESTAMP,
         KEYS.OFFLINE_QUEUE,
       ]);
@@ -1,7 +1,7 @@
 import { apiService } from './apiService';
 import storageService from './storageService';
 import type { OfflineOperation, SyncResult, SyncChangesResponse } from '../types/offline';
-import type { Account, Category, Transaction } from '../contexts/DataContext';
+import type { Account, Category, Transaction, Budget } from '../contexts/DataContext';
 
 class SyncService {
   private isSyncing: boolean = false;
@@ -40,7 +40,7 @@ class SyncService {
           accepted: [],
           conflicts: [],
           rejected: [],
-          serverData: { accounts: [], categories: [], transactions: [] }
+          serverData: { accounts: [], categories: [], transactions: [], budgets: [] }
         };
       }
 
@@ -91,7 +91,8 @@ class SyncService {
     serverChanges.categories.forEach(serverCategory => {
       categoriesMap.set(serverCategory.id, serverCategory as Category);
     });
-    const mergedCategories = Array.from(categoriesMap.values());
+    const mergedCategories = Array.from(categoriesMap.values())
+      .filter(c => !c.isDeleted); // Filter out deleted categories
 
     // Merge transactions
     const transactionsMap = new Map(localTransactions.map(t => [t.id, t]));
@@ -110,6 +111,19 @@ class SyncService {
     };
   }
 
+  /**
+   * Merge server budget changes with local budgets
+   * Server-wins strategy, same as mergeServerChanges
+   */
+  mergeServerBudgets(localBudgets: Budget[], serverBudgets: any[] = []): Budget[] {
+    const budgetsMap = new Map(localBudgets.map(b => [b.id, b]));
+    serverBudgets.forEach(serverBudget => {
+      budgetsMap.set(serverBudget.id, serverBudget as Budget);
+    });
+    return Array.from(budgetsMap.values())
+      .filter(b => !b.isDeleted); // Filter out deleted budgets
+  }
+
   /**
    * Process conflicts from sync result
    * Returns arrays of conflicted operation IDs to remove from queue
@@ -165,6 +179,7 @@ class SyncService {
     currentAccounts: Account[],
     currentCategories: Category[],
     currentTransactions: Transaction[],
+    currentBudgets: Budget[],
     offlineQueue: OfflineOperation[],
     lastSyncTimestamp: number
   ): Promise<{
@@ -172,6 +187,7 @@ class SyncService {
     accounts: Account[];
     categories: Category[];
     transactions: Transaction[];
+    budgets: Budget[];
     newQueue: OfflineOperation[];
     newTimestamp: number;
     conflicts: number;
@@ -236,6 +252,8 @@ class SyncService {
         }
       });
 
+      let updatedBudgets = this.mergeServerBudgets(currentBudgets, pushResult.serverData.budgets);
+
       // Apply conflicted data (server wins)
       conflictedData.accounts.forEach(serverAccount => {
         const index = updatedAccounts.findIndex(a => a.id === serverAccount.id);
@@ -278,6 +296,7 @@ class SyncService {
         updatedAccounts = merged.accounts;
         updatedCategories = merged.categories;
         updatedTransactions = merged.transactions;
+        updatedBudgets = this.mergeServerBudgets(updatedBudgets, serverChanges.budgets);
       }
 
       // Step 5: Update sync timestamp
@@ -288,8 +307,9 @@ class SyncService {
       return {
         success: true,
         accounts: updatedAccounts.filter(a => !a.isDeleted),
-        categories: updatedCategories,
+        categories: updatedCategories.filter(c => !c.isDeleted),
         transactions: updatedTransactions.filter(t => !t.isDeleted),
+        budgets: updatedBudgets,
         newQueue,
         newTimestamp,
         conflicts: pushResult.conflicts.length
@@ -1,7 +1,7 @@
 // Offline operation types for queue management
 
 export type OperationType = 'CREATE' | 'UPDATE' | 'DELETE';
-export type ResourceType = 'account' | 'category' | 'transaction';
+export type ResourceType = 'account' | 'category' | 'transaction' | 'budget' | 'tag' | 'payee';
 
 export interface OfflineOperation {
   id: string; // Local operation ID (UUID)
@@ -29,6 +29,9 @@ export interface SyncResult {
     accounts: any[];
     categories: any[];
     transactions: any[];
+    budgets?: any[];
+    tags?: any[];
+    payees?: any[];
   };
   currentTimestamp?: number;
 }
@@ -37,6 +40,9 @@ export interface SyncChangesResponse {
   accounts: any[];
   categories: any[];
   transactions: any[];
+  budgets?: any[];
+  tags?: any[];
+  payees?: any[];
   currentTimestamp: number;
   syncedAt: string;
 }
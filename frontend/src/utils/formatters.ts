@@ -1,15 +1,26 @@
+// Locale used to format each supported currency
+const CURRENCY_LOCALES: Record<string, string> = {
+  PHP: 'en-PH',
+  USD: 'en-US',
+  EUR: 'de-DE',
+  JPY: 'ja-JP',
+  GBP: 'en-GB',
+  CNY: 'zh-CN',
+};
+
 /**
- * Format a number as currency with the Philippine Peso symbol
+ * Format a number as currency, in Philippine Pesos unless another currency is given
  * @param amount The amount to format
+ * @param currency ISO 4217 currency code (e.g. PHP, USD)
  * @returns Formatted currency string
  */
-export const formatCurrency = (amount: number): string => {
-  const formatter = new Intl.NumberFormat('en-PH', {
+export const formatCurrency = (amount: number, currency: string = 'PHP'): string => {
+  const formatter = new Intl.NumberFormat(CURRENCY_LOCALES[currency] || 'en-PH', {
     style: 'currency',
-    currency: 'PHP',
+    currency,
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
   });
   
   return formatter.format(amount);
-}; 
\ No newline at end of file
+};